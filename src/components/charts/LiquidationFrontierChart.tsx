@@ -0,0 +1,93 @@
+'use client';
+
+import React from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+
+import { LiquidationPlan } from '../../types/liquidity';
+
+import { DEFAULT_CHART_THEME } from './types';
+
+interface LiquidationFrontierChartProps {
+  plan: LiquidationPlan;
+  height?: number;
+}
+
+const formatUsd = (value: number): string => {
+  if (value >= 1_000_000) {
+    return `$${(value / 1_000_000).toFixed(2)}M`;
+  }
+  if (value >= 1_000) {
+    return `$${(value / 1_000).toFixed(2)}K`;
+  }
+  return `$${value.toFixed(2)}`;
+};
+
+/**
+ * Efficient frontier of a liquidation plan: expected shortfall and its standard deviation
+ * by trading speed, with a marker at the recommended speed
+ */
+export const LiquidationFrontierChart: React.FC<LiquidationFrontierChartProps> = ({
+  plan,
+  height = 300,
+}) => (
+  <div className="w-full" style={{ height }}>
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart data={plan.frontier} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" className="stroke-gray-200 dark:stroke-gray-700" />
+        <XAxis
+          dataKey="tradingSpeed"
+          type="number"
+          domain={['dataMin', 'dataMax']}
+          tickFormatter={(value: number) => `κ ${value.toFixed(2)}/h`}
+          tick={{ fontSize: 12 }}
+          className="text-gray-500 dark:text-gray-400"
+        />
+        <YAxis
+          tickFormatter={formatUsd}
+          tick={{ fontSize: 12 }}
+          className="text-gray-500 dark:text-gray-400"
+        />
+        <Tooltip
+          formatter={(value: number) => formatUsd(value)}
+          labelFormatter={(value: number) => `κ ${value.toFixed(3)}/h`}
+        />
+        <Legend />
+        <Line
+          type="monotone"
+          dataKey="expectedShortfall"
+          name="Expected shortfall"
+          stroke={DEFAULT_CHART_THEME.colors.primary}
+          strokeWidth={2}
+          dot={false}
+        />
+        <Line
+          type="monotone"
+          dataKey="shortfallStdDev"
+          name="Shortfall std dev"
+          stroke={DEFAULT_CHART_THEME.colors.warning}
+          strokeWidth={2}
+          strokeDasharray="4 4"
+          dot={false}
+        />
+        {Number.isFinite(plan.tradingSpeed) ? (
+          <ReferenceLine
+            x={plan.tradingSpeed}
+            stroke={DEFAULT_CHART_THEME.colors.success}
+            strokeDasharray="4 4"
+            label={{ value: 'recommended', fontSize: 10, position: 'top' }}
+          />
+        ) : null}
+      </LineChart>
+    </ResponsiveContainer>
+  </div>
+);
@@ -1,2 +1,4 @@
 export * from './types';
 export * from './TreasuryCharts';
+export * from './BudgetSimulationChart';
+export * from './LiquidationFrontierChart';
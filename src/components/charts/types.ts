@@ -1,7 +1,8 @@
 import { TreasurySnapshot, TokenBalance } from '../../types/treasury';
 import { LiquidityMetricsResult, VolatilityRegime } from '../../types/liquidity';
 import { PaymentRecord } from '../../types/kaiko';
-import { EscalationLevel } from '../../types/escalation';
+import { ESCALATION_LEVELS, EscalationLevel, LEVEL_CONFIGS } from '../../types/escalation';
+import { findChainConfig, getChains } from '../../config/chains';
 
 export interface ChartDataPoint {
   timestamp: number;
@@ -164,20 +165,42 @@ export const DEFAULT_CHART_THEME: ChartTheme = {
     info: '#06B6D4',
     muted: '#6B7280',
   },
-  chainColors: {
-    1: '#627EEA',      // Ethereum - blue
-    100: '#04795B',    // Gnosis - green
-    42161: '#28A0F0',  // Arbitrum - light blue
-    10: '#FF0420',     // Optimism - red
-    8453: '#0052FF',   // Base - blue
-  },
-  levelColors: {
-    L0_IDLE: '#10B981',
-    L1_WATCH: '#3B82F6',
-    L2_ALERT: '#F59E0B',
-    L3_CRITICAL: '#EF4444',
-    L4_RECOVERY: '#8B5CF6',
-    L5_FREEZE: '#1F2937',
-    BUDGET_BLOCKED: '#6B7280',
-  },
+  chainColors: Object.fromEntries(
+    getChains().flatMap((chain) => (chain.color ? [[chain.chainId, chain.color]] : []))
+  ),
+  levelColors: Object.fromEntries(
+    ESCALATION_LEVELS.map((level) => [level, LEVEL_CONFIGS[level].color])
+  ) as Record<EscalationLevel, string>,
 };
+
+/**
+ * Share of treasury value per chain across the latest snapshots, named and colored from the
+ * chain registry. Chains missing from the registry are labelled by ID in the muted color.
+ */
+export function buildChainDistribution(
+  snapshots: TreasurySnapshot[],
+  theme: ChartTheme = DEFAULT_CHART_THEME
+): ChainDistributionData[] {
+  const valueByChain = new Map<number, number>();
+  for (const snapshot of snapshots) {
+    valueByChain.set(
+      snapshot.chainId,
+      (valueByChain.get(snapshot.chainId) ?? 0) + snapshot.totalUsdValue
+    );
+  }
+  const totalValueUsd = [...valueByChain.values()].reduce((sum, value) => sum + value, 0);
+
+  return [...valueByChain.entries()]
+    .filter(([, valueUsd]) => valueUsd > 0)
+    .map(([chainId, valueUsd]) => {
+      const chain = findChainConfig(chainId);
+      return {
+        chainId,
+        chainName: chain?.displayName ?? `Chain ${chainId}`,
+        valueUsd,
+        percentage: (valueUsd / totalValueUsd) * 100,
+        color: chain?.color ?? theme.chainColors[chainId] ?? theme.colors.muted,
+      };
+    })
+    .sort((a, b) => b.valueUsd - a.valueUsd);
+}
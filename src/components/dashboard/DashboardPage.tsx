@@ -5,10 +5,13 @@ import { DashboardLayout } from '../layout/DashboardLayout';
 import { TreasuryOverviewChart, LiquidityGaugeChart } from '../charts/TreasuryCharts';
 import { PaymentLedger } from '../ledger/PaymentLedger';
 import { EscalationFlowVisualization } from '../flow/EscalationFlowVisualization';
+import type { TreasuryEscalationState } from '../../state-machine/EscalationRegistry';
 import { EscalationLevel } from '../../types/escalation';
 import { ChainTreasuryBalance, TreasurySnapshot } from '../../types/treasury';
 import { PaymentLedgerEntry } from '../ledger/types';
 
+import { TreasuryEscalationTable } from './TreasuryEscalationTable';
+
 export interface DashboardState {
   currentLevel: EscalationLevel;
   treasurySnapshots: TreasurySnapshot[];
@@ -28,7 +31,7 @@ export interface DashboardState {
 }
 
 const initialState: DashboardState = {
-  currentLevel: EscalationLevel.L0_IDLE,
+  currentLevel: 'L0',
   treasurySnapshots: [],
   paymentHistory: [],
   liquidityMetrics: {
@@ -45,7 +48,12 @@ const initialState: DashboardState = {
   lastUpdated: null,
 };
 
-export const DashboardPage: React.FC = () => {
+export interface DashboardPageProps {
+  /** Per-treasury ladders from EscalationRegistry.getTreasuryStates() */
+  treasuryStates?: TreasuryEscalationState[];
+}
+
+export const DashboardPage: React.FC<DashboardPageProps> = ({ treasuryStates = [] }) => {
   const [state, setState] = useState<DashboardState>(initialState);
 
   // Simulated data loading - will be replaced with real API calls
@@ -79,13 +87,14 @@ export const DashboardPage: React.FC = () => {
         {
           id: '1',
           timestamp: new Date(Date.now() - 1800000),
-          amount: 0.05,
-          currency: 'USDC',
-          recipient: 'Kaiko API',
-          purpose: 'L2 Market Data Request',
+          endpoint: 'Kaiko API: L2 Market Data Request',
+          amountUSDC: 0.05,
           txHash: '0xabc...123',
           status: 'confirmed',
-          escalationLevel: EscalationLevel.L2_MARKET_DATA,
+          escalationLevel: 'L2',
+          agentRunId: null,
+          blockNumber: null,
+          gasUsed: null,
         },
       ];
 
@@ -93,7 +102,7 @@ export const DashboardPage: React.FC = () => {
         ...prev,
         treasurySnapshots: mockSnapshots,
         paymentHistory: mockPayments,
-        currentLevel: EscalationLevel.L1_MONITORING,
+        currentLevel: 'L1',
         isLoading: false,
         lastUpdated: new Date(),
       }));
@@ -315,11 +324,19 @@ export const DashboardPage: React.FC = () => {
             <h3 className="card-title">Escalation State Machine</h3>
             <EscalationFlowVisualization
               currentLevel={state.currentLevel}
-              onLevelClick={handleLevelTransition}
-              height={400}
+              budgetSpent={state.budgetStatus.total - state.budgetStatus.remaining}
+              budgetLimit={state.budgetStatus.total}
+              isBudgetBlocked={state.budgetStatus.status === 'blocked'}
+              metrics={state.liquidityMetrics}
+              onNodeClick={(level) => handleLevelTransition(state.currentLevel, level)}
             />
           </div>
 
+          <div className="dashboard-card full-width">
+            <h3 className="card-title">Treasury Escalation</h3>
+            <TreasuryEscalationTable states={treasuryStates} />
+          </div>
+
           <div className="dashboard-card full-width">
             <h3 className="card-title">Payment Ledger</h3>
             <PaymentLedger
@@ -0,0 +1,94 @@
+'use client';
+
+import React from 'react';
+
+import type { TreasuryEscalationState } from '../../state-machine/EscalationRegistry';
+import type { EscalationState } from '../../types/escalation';
+
+export interface TreasuryEscalationTableProps {
+  /** From EscalationRegistry.getTreasuryStates(), most escalated first */
+  states: TreasuryEscalationState[];
+}
+
+const STATE_STYLES: Record<EscalationState, string> = {
+  IDLE: 'bg-gray-100 text-gray-700',
+  MONITORING: 'bg-blue-100 text-blue-700',
+  ESCALATING: 'bg-yellow-100 text-yellow-800',
+  AWAITING_PAYMENT: 'bg-orange-100 text-orange-700',
+  PAYMENT_PENDING: 'bg-orange-100 text-orange-700',
+  BUDGET_BLOCKED: 'bg-red-100 text-red-800',
+  COOLDOWN: 'bg-cyan-100 text-cyan-700',
+};
+
+const truncateAddress = (address: string): string => {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+};
+
+export const TreasuryEscalationTable: React.FC<TreasuryEscalationTableProps> = ({ states }) => {
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Treasury
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Level
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                State
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Risk
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Spent / Share
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {states.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-4 py-8 text-center text-gray-500">
+                  No treasuries registered
+                </td>
+              </tr>
+            ) : (
+              states.map((treasury) => (
+                <tr key={treasury.key} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                    {treasury.label ?? `Chain ${treasury.chainId}`}
+                    <span className="ml-2 font-mono text-gray-500">
+                      {truncateAddress(treasury.address)}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm font-semibold">
+                    {treasury.level}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <span
+                      className={`px-2 py-1 text-xs font-medium rounded ${STATE_STYLES[treasury.state]}`}
+                    >
+                      {treasury.state}
+                      {treasury.pendingPayment ? ' (payment pending)' : ''}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                    {(treasury.riskScore * 100).toFixed(0)}%
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                    ${treasury.totalSpent.toFixed(2)} / ${treasury.budgetLimit.toFixed(2)}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default TreasuryEscalationTable;
@@ -1,2 +1,4 @@
 export { DashboardPage } from './DashboardPage';
-export type { DashboardState } from './DashboardPage';
+export type { DashboardPageProps, DashboardState } from './DashboardPage';
+export { TreasuryEscalationTable } from './TreasuryEscalationTable';
+export type { TreasuryEscalationTableProps } from './TreasuryEscalationTable';
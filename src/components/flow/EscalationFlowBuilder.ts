@@ -1,141 +1,112 @@
 import { MarkerType, Position } from 'reactflow';
+
 import {
-  EscalationNode,
+  EscalationStateId,
+  PAID_LEVELS,
+  STATE_CONFIGS,
+  TRANSITION_CONFIGS,
+  TransitionConfig,
+} from '../../state-machine/config';
+import { StateMachineResult } from '../../state-machine/EscalationStateMachine';
+import {
+  ESCALATION_LEVELS,
+  EscalationContext,
+  EscalationLevel,
+  EscalationSnapshot,
+  GUARD_CONDITIONS,
+} from '../../types/escalation';
+
+import {
+  DEFAULT_FLOW_CONFIG,
   EscalationEdge,
-  EscalationNodeData,
   EscalationEdgeData,
+  EscalationNode,
+  EscalationNodeData,
   FlowConfig,
-  DEFAULT_FLOW_CONFIG,
-  LEVEL_DESCRIPTIONS,
   GUARD_LABELS,
-  createNodeId,
+  LEVEL_DESCRIPTIONS,
   createEdgeId,
+  createNodeId,
 } from './EscalationFlowTypes';
-import {
-  EscalationLevel,
-  EscalationState,
-  GuardCondition,
-  StateTransition,
-} from '../../types/escalation';
-
-export interface TransitionDefinition {
-  from: EscalationLevel;
-  to: EscalationLevel;
-  guard: GuardCondition;
-}
 
-const ESCALATION_TRANSITIONS: TransitionDefinition[] = [
-  // Escalation path
-  { from: EscalationLevel.L0_IDLE, to: EscalationLevel.L1_PASSIVE, guard: GuardCondition.TIME_ELAPSED },
-  { from: EscalationLevel.L1_PASSIVE, to: EscalationLevel.L2_ACTIVE, guard: GuardCondition.LCR_BELOW_THRESHOLD },
-  { from: EscalationLevel.L2_ACTIVE, to: EscalationLevel.L3_ELEVATED, guard: GuardCondition.VOLATILITY_SPIKE },
-  { from: EscalationLevel.L3_ELEVATED, to: EscalationLevel.L4_CRITICAL, guard: GuardCondition.LCR_BELOW_THRESHOLD },
-  { from: EscalationLevel.L4_CRITICAL, to: EscalationLevel.L5_EMERGENCY, guard: GuardCondition.LIQUIDITY_CRISIS },
-  
-  // De-escalation path
-  { from: EscalationLevel.L5_EMERGENCY, to: EscalationLevel.L4_CRITICAL, guard: GuardCondition.COOLDOWN_EXPIRED },
-  { from: EscalationLevel.L4_CRITICAL, to: EscalationLevel.L3_ELEVATED, guard: GuardCondition.COOLDOWN_EXPIRED },
-  { from: EscalationLevel.L3_ELEVATED, to: EscalationLevel.L2_ACTIVE, guard: GuardCondition.COOLDOWN_EXPIRED },
-  { from: EscalationLevel.L2_ACTIVE, to: EscalationLevel.L1_PASSIVE, guard: GuardCondition.COOLDOWN_EXPIRED },
-  { from: EscalationLevel.L1_PASSIVE, to: EscalationLevel.L0_IDLE, guard: GuardCondition.TIME_ELAPSED },
-  
-  // Budget blocking transitions
-  { from: EscalationLevel.L2_ACTIVE, to: EscalationLevel.L1_PASSIVE, guard: GuardCondition.BUDGET_EXHAUSTED },
-  { from: EscalationLevel.L3_ELEVATED, to: EscalationLevel.L1_PASSIVE, guard: GuardCondition.BUDGET_EXHAUSTED },
-  { from: EscalationLevel.L4_CRITICAL, to: EscalationLevel.L1_PASSIVE, guard: GuardCondition.BUDGET_EXHAUSTED },
-  { from: EscalationLevel.L5_EMERGENCY, to: EscalationLevel.L1_PASSIVE, guard: GuardCondition.BUDGET_EXHAUSTED },
-  
-  // Manual override
-  { from: EscalationLevel.L0_IDLE, to: EscalationLevel.L5_EMERGENCY, guard: GuardCondition.MANUAL_OVERRIDE },
-];
+export type TransitionDefinition = TransitionConfig;
 
 export class EscalationFlowBuilder {
   private config: FlowConfig;
-  private currentState?: EscalationState;
-  private transitionHistory: StateTransition[] = [];
+  private currentLevel?: EscalationLevel;
+  private budgetBlocked = false;
+  private context: EscalationContext | undefined;
+  private transitionHistory: StateMachineResult[] = [];
 
   constructor(config: Partial<FlowConfig> = {}) {
     this.config = { ...DEFAULT_FLOW_CONFIG, ...config };
   }
 
-  setCurrentState(state: EscalationState): this {
-    this.currentState = state;
+  setCurrentState(snapshot: EscalationSnapshot): this {
+    this.currentLevel = snapshot.level;
+    this.budgetBlocked = snapshot.state === 'BUDGET_BLOCKED';
+    this.context = snapshot.context;
     return this;
   }
 
-  setTransitionHistory(history: StateTransition[]): this {
+  setCurrentLevel(level: EscalationLevel, budgetBlocked: boolean = false): this {
+    this.currentLevel = level;
+    this.budgetBlocked = budgetBlocked;
+    this.context = undefined;
+    return this;
+  }
+
+  setTransitionHistory(history: StateMachineResult[]): this {
     this.transitionHistory = history;
     return this;
   }
 
   buildNodes(): EscalationNode[] {
-    const levels = Object.values(EscalationLevel).filter(
-      (v) => typeof v === 'number'
-    ) as EscalationLevel[];
-
-    return levels.map((level, index) => {
-      const isActive = this.currentState?.currentLevel === level;
-      const isBlocked = this.currentState?.budgetBlocked && isActive;
-
-      const nodeData: EscalationNodeData = {
-        level,
-        label: EscalationLevel[level],
-        description: LEVEL_DESCRIPTIONS[level],
-        isActive,
-        isBlocked: isBlocked || false,
-        enteredAt: isActive ? this.currentState?.enteredAt : undefined,
-        metrics: isActive
-          ? {
-              lcr: this.currentState?.metrics.lcr,
-              volatilityRegime: this.currentState?.metrics.volatilityRegime,
-              budgetRemaining: this.currentState?.metrics.budgetRemaining,
-            }
-          : undefined,
-      };
-
-      const node: EscalationNode = {
-        id: createNodeId(level),
-        type: 'escalationNode',
-        position: {
-          x: 100,
-          y: index * this.config.nodeSpacing.vertical,
-        },
-        data: nodeData,
-        sourcePosition: Position.Right,
-        targetPosition: Position.Left,
-      };
-
-      return node;
+    const levelNodes = ESCALATION_LEVELS.map((level, index) =>
+      this.buildNode(level, { x: 100, y: index * this.config.nodeSpacing.vertical })
+    );
+
+    // The budget block sits beside the paid levels it can be reached from
+    const blockedNode = this.buildNode('BUDGET_BLOCKED', {
+      x: 100 + this.config.nodeSpacing.horizontal,
+      y: ((ESCALATION_LEVELS.length - 1) * this.config.nodeSpacing.vertical) / 2,
     });
+
+    return [...levelNodes, blockedNode];
   }
 
   buildEdges(): EscalationEdge[] {
     const edges: EscalationEdge[] = [];
     const transitionCounts = this.calculateTransitionCounts();
 
-    for (const transition of ESCALATION_TRANSITIONS) {
+    for (const transition of TRANSITION_CONFIGS) {
       const edgeId = createEdgeId(transition.from, transition.to);
       const count = transitionCounts.get(edgeId) || 0;
       const lastTransition = this.findLastTransition(transition.from, transition.to);
 
-      const isEscalation = transition.to > transition.from;
-      const isBudgetBlock = transition.guard === GuardCondition.BUDGET_EXHAUSTED;
+      const isBudgetBlock = transition.kind === 'budget-block';
 
       const edgeData: EscalationEdgeData = {
-        guard: transition.guard,
+        guard: GUARD_CONDITIONS[transition.guard],
         guardLabel: GUARD_LABELS[transition.guard],
         transitionCount: count,
-        lastTransition,
+        ...(lastTransition ? { lastTransition } : {}),
       };
 
+      const color = isBudgetBlock
+        ? this.config.colors.blocked
+        : count > 0
+          ? this.config.colors.edgeActive
+          : this.config.colors.edge;
+
       const edge: EscalationEdge = {
         id: edgeId,
         source: createNodeId(transition.from),
         target: createNodeId(transition.to),
-        type: 'escalationEdge',
+        type: 'smoothstep',
         animated: count > 0,
         data: edgeData,
-        label: GUARD_LABELS[transition.guard],
+        label: transition.cost ? `${transition.label} (${transition.cost} USDC)` : transition.label,
         labelStyle: {
           fontSize: 10,
           fontWeight: count > 0 ? 600 : 400,
@@ -145,22 +116,15 @@ export class EscalationFlowBuilder {
           fillOpacity: 0.8,
         },
         style: {
-          stroke: isBudgetBlock
-            ? this.config.colors.blocked
-            : count > 0
-            ? this.config.colors.edgeActive
-            : this.config.colors.edge,
+          stroke: color,
           strokeWidth: count > 0 ? 2 : 1,
+          ...(transition.kind === 'de-escalation' ? { strokeDasharray: '4 4' } : {}),
         },
         markerEnd: {
           type: MarkerType.ArrowClosed,
           width: 15,
           height: 15,
-          color: isBudgetBlock
-            ? this.config.colors.blocked
-            : count > 0
-            ? this.config.colors.edgeActive
-            : this.config.colors.edge,
+          color,
         },
       };
 
@@ -177,31 +141,84 @@ export class EscalationFlowBuilder {
     };
   }
 
+  private buildNode(id: EscalationStateId, position: { x: number; y: number }): EscalationNode {
+    const isActive = this.budgetBlocked
+      ? id === 'BUDGET_BLOCKED'
+      : id !== 'BUDGET_BLOCKED' && id === this.currentLevel;
+    const isBlocked = this.budgetBlocked && id !== 'BUDGET_BLOCKED' && PAID_LEVELS.includes(id);
+
+    const nodeData: EscalationNodeData = {
+      level: id,
+      label: id === 'BUDGET_BLOCKED' ? STATE_CONFIGS[id].name : `${id}: ${STATE_CONFIGS[id].name}`,
+      description: LEVEL_DESCRIPTIONS[id],
+      isActive,
+      isBlocked,
+      ...(isActive && this.context?.lastEscalationTime !== undefined
+        ? { enteredAt: new Date(this.context.lastEscalationTime) }
+        : {}),
+      ...(isActive && this.context
+        ? {
+            metrics: {
+              budgetRemaining: this.context.budgetLimit - this.context.totalSpent,
+            },
+          }
+        : {}),
+    };
+
+    return {
+      id: createNodeId(id),
+      type: 'escalationState',
+      position,
+      data: nodeData,
+      sourcePosition: Position.Right,
+      targetPosition: Position.Left,
+    };
+  }
+
+  /**
+   * Edge a recorded state machine step moved along, if it moved at all
+   */
+  private edgeOf(result: StateMachineResult): string | undefined {
+    if (!result.success) {
+      return undefined;
+    }
+    if (result.currentState === 'BUDGET_BLOCKED' && result.previousState !== 'BUDGET_BLOCKED') {
+      return createEdgeId(result.previousLevel, 'BUDGET_BLOCKED');
+    }
+    if (result.previousState === 'BUDGET_BLOCKED' && result.currentState !== 'BUDGET_BLOCKED') {
+      return createEdgeId('BUDGET_BLOCKED', result.currentLevel);
+    }
+    if (result.previousLevel !== result.currentLevel) {
+      return createEdgeId(result.previousLevel, result.currentLevel);
+    }
+    return undefined;
+  }
+
   private calculateTransitionCounts(): Map<string, number> {
     const counts = new Map<string, number>();
 
-    for (const transition of this.transitionHistory) {
-      const edgeId = createEdgeId(transition.fromLevel, transition.toLevel);
-      counts.set(edgeId, (counts.get(edgeId) || 0) + 1);
+    for (const result of this.transitionHistory) {
+      const edgeId = this.edgeOf(result);
+      if (edgeId) {
+        counts.set(edgeId, (counts.get(edgeId) || 0) + 1);
+      }
     }
 
     return counts;
   }
 
-  private findLastTransition(
-    from: EscalationLevel,
-    to: EscalationLevel
-  ): Date | undefined {
+  private findLastTransition(from: EscalationStateId, to: EscalationStateId): Date | undefined {
+    const edgeId = createEdgeId(from, to);
     for (let i = this.transitionHistory.length - 1; i >= 0; i--) {
-      const transition = this.transitionHistory[i];
-      if (transition.fromLevel === from && transition.toLevel === to) {
-        return transition.timestamp;
+      const result = this.transitionHistory[i];
+      if (result && this.edgeOf(result) === edgeId) {
+        return new Date(result.timestamp);
       }
     }
     return undefined;
   }
 
   static getTransitionDefinitions(): TransitionDefinition[] {
-    return [...ESCALATION_TRANSITIONS];
+    return [...TRANSITION_CONFIGS];
   }
 }
@@ -1,52 +1,42 @@
 import React, { memo } from 'react';
 import { Handle, Position, NodeProps } from 'reactflow';
-import { EscalationLevel } from '../../types/escalation';
+import { EscalationStateId } from '../../state-machine/config';
+import { EscalationNodeData } from './EscalationFlowTypes';
 
-export interface EscalationNodeData {
-  level: EscalationLevel;
-  label: string;
-  description: string;
-  isActive: boolean;
-  isBlocked: boolean;
-  metrics?: {
-    lcr?: number;
-    exitHalfLife?: number;
-    volatilityRegime?: string;
-  };
-}
+export type { EscalationNodeData };
 
-const levelColors: Record<EscalationLevel, { bg: string; border: string; text: string }> = {
-  [EscalationLevel.L0_IDLE]: {
+const levelColors: Record<EscalationStateId, { bg: string; border: string; text: string }> = {
+  L0: {
     bg: 'bg-gray-100',
     border: 'border-gray-300',
     text: 'text-gray-700',
   },
-  [EscalationLevel.L1_MONITORING]: {
+  L1: {
     bg: 'bg-blue-100',
     border: 'border-blue-300',
     text: 'text-blue-700',
   },
-  [EscalationLevel.L2_ALERT]: {
+  L2: {
     bg: 'bg-yellow-100',
     border: 'border-yellow-300',
     text: 'text-yellow-700',
   },
-  [EscalationLevel.L3_WARNING]: {
+  L3: {
     bg: 'bg-orange-100',
     border: 'border-orange-300',
     text: 'text-orange-700',
   },
-  [EscalationLevel.L4_CRITICAL]: {
+  L4: {
     bg: 'bg-red-100',
     border: 'border-red-300',
     text: 'text-red-700',
   },
-  [EscalationLevel.L5_EMERGENCY]: {
+  L5: {
     bg: 'bg-purple-100',
     border: 'border-purple-300',
     text: 'text-purple-700',
   },
-  [EscalationLevel.BUDGET_BLOCKED]: {
+  BUDGET_BLOCKED: {
     bg: 'bg-black',
     border: 'border-red-500',
     text: 'text-white',
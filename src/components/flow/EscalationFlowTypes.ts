@@ -1,8 +1,10 @@
-import { Node, Edge, MarkerType } from 'reactflow';
-import { EscalationLevel, EscalationState, GuardCondition } from '../../types/escalation';
+import { Node, Edge } from 'reactflow';
+
+import { EscalationStateId, STATE_CONFIGS } from '../../state-machine/config';
+import { GUARD_CONDITIONS, GuardCondition, GuardId } from '../../types/escalation';
 
 export interface EscalationNodeData {
-  level: EscalationLevel;
+  level: EscalationStateId;
   label: string;
   description: string;
   isActive: boolean;
@@ -10,6 +12,7 @@ export interface EscalationNodeData {
   enteredAt?: Date;
   metrics?: {
     lcr?: number;
+    exitHalfLife?: number;
     volatilityRegime?: string;
     budgetRemaining?: number;
   };
@@ -53,31 +56,18 @@ export const DEFAULT_FLOW_CONFIG: FlowConfig = {
   },
 };
 
-export const LEVEL_DESCRIPTIONS: Record<EscalationLevel, string> = {
-  [EscalationLevel.L0_IDLE]: 'System idle, no active monitoring',
-  [EscalationLevel.L1_PASSIVE]: 'Passive monitoring with cached data',
-  [EscalationLevel.L2_ACTIVE]: 'Active monitoring with basic API calls',
-  [EscalationLevel.L3_ELEVATED]: 'Elevated monitoring with frequent updates',
-  [EscalationLevel.L4_CRITICAL]: 'Critical monitoring with real-time data',
-  [EscalationLevel.L5_EMERGENCY]: 'Emergency mode with maximum data access',
-};
+export const LEVEL_DESCRIPTIONS = Object.fromEntries(
+  Object.values(STATE_CONFIGS).map((config) => [config.level, config.description])
+) as Record<EscalationStateId, string>;
 
-export const GUARD_LABELS: Record<GuardCondition, string> = {
-  [GuardCondition.LCR_BELOW_THRESHOLD]: 'LCR < threshold',
-  [GuardCondition.VOLATILITY_SPIKE]: 'Volatility spike detected',
-  [GuardCondition.BUDGET_AVAILABLE]: 'Budget available',
-  [GuardCondition.BUDGET_EXHAUSTED]: 'Budget exhausted',
-  [GuardCondition.TIME_ELAPSED]: 'Time elapsed',
-  [GuardCondition.MANUAL_OVERRIDE]: 'Manual override',
-  [GuardCondition.LIQUIDITY_CRISIS]: 'Liquidity crisis',
-  [GuardCondition.MARKET_HOURS]: 'Within market hours',
-  [GuardCondition.COOLDOWN_EXPIRED]: 'Cooldown expired',
-};
+export const GUARD_LABELS = Object.fromEntries(
+  Object.values(GUARD_CONDITIONS).map((guard) => [guard.id, guard.name])
+) as Record<GuardId, string>;
 
-export function createNodeId(level: EscalationLevel): string {
+export function createNodeId(level: EscalationStateId): string {
   return `node-${level}`;
 }
 
-export function createEdgeId(from: EscalationLevel, to: EscalationLevel): string {
+export function createEdgeId(from: EscalationStateId, to: EscalationStateId): string {
   return `edge-${from}-${to}`;
 }
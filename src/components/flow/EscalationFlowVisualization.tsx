@@ -15,18 +15,18 @@ import 'reactflow/dist/style.css';
 import { nodeTypes, EscalationNodeData, BudgetNodeData } from './EscalationFlowNodes';
 import { EscalationFlowBuilder } from './EscalationFlowBuilder';
 import { EscalationLevel } from '../../types/escalation';
-import { LiquidityMetrics } from '../../types/liquidity';
+import { STATE_CONFIGS } from '../../state-machine/config';
 
 export interface EscalationFlowProps {
   currentLevel: EscalationLevel;
   budgetSpent: number;
   budgetLimit: number;
   isBudgetBlocked: boolean;
-  metrics?: LiquidityMetrics;
+  /** Shown on the active level's node */
+  metrics?: NonNullable<EscalationNodeData['metrics']>;
   onNodeClick?: (level: EscalationLevel) => void;
 }
 
-const builder = new EscalationFlowBuilder();
 
 export function EscalationFlowVisualization({
   currentLevel,
@@ -37,23 +37,23 @@ export function EscalationFlowVisualization({
   onNodeClick,
 }: EscalationFlowProps): React.ReactElement {
   const initialElements = useMemo(() => {
-    const { nodes, edges } = builder.buildFlowElements(currentLevel);
+    const { nodes, edges } = new EscalationFlowBuilder()
+      .setCurrentLevel(currentLevel, isBudgetBlocked)
+      .build();
     
     // Update nodes with current state
     const enhancedNodes: Node<EscalationNodeData | BudgetNodeData>[] = nodes.map((node) => {
       if (node.type === 'escalationState') {
-        const data = node.data as EscalationNodeData;
+        const { data } = node;
         return {
           ...node,
           data: {
             ...data,
             isActive: data.level === currentLevel,
-            isBlocked: isBudgetBlocked && data.level !== EscalationLevel.BUDGET_BLOCKED,
-            metrics: data.level === currentLevel && metrics ? {
-              lcr: metrics.lcr,
-              exitHalfLife: metrics.exitHalfLife,
-              volatilityRegime: metrics.volatilityRegime,
-            } : undefined,
+            isBlocked: isBudgetBlocked && data.level !== 'BUDGET_BLOCKED',
+            ...(data.level === currentLevel && metrics
+              ? { metrics: { ...data.metrics, ...metrics } }
+              : {}),
           },
         };
       }
@@ -88,7 +88,9 @@ export function EscalationFlowVisualization({
     (_event: React.MouseEvent, node: Node) => {
       if (node.type === 'escalationState' && onNodeClick) {
         const data = node.data as EscalationNodeData;
-        onNodeClick(data.level);
+        if (data.level !== 'BUDGET_BLOCKED') {
+          onNodeClick(data.level);
+        }
       }
     },
     [onNodeClick]
@@ -98,7 +100,7 @@ export function EscalationFlowVisualization({
     if (node.type === 'budgetStatus') return '#6b7280';
     const data = node.data as EscalationNodeData;
     if (data.isActive) return '#22c55e';
-    if (data.level === EscalationLevel.BUDGET_BLOCKED) return '#000000';
+    if (data.level === 'BUDGET_BLOCKED') return STATE_CONFIGS.BUDGET_BLOCKED.color;
     return '#9ca3af';
   }, []);
 
@@ -26,7 +26,7 @@ export * from './flow';
 export const COMPONENT_CATEGORIES = {
   common: ['LoadingSpinner', 'ErrorBoundary'],
   layout: ['Header', 'Sidebar', 'DashboardLayout'],
-  dashboard: ['DashboardPage'],
+  dashboard: ['DashboardPage', 'TreasuryEscalationTable'],
   charts: ['TreasuryBalanceChart', 'LiquidityMetricsChart', 'VolatilityChart', 'BudgetUsageChart'],
   ledger: ['PaymentLedger'],
   flow: ['EscalationFlowVisualization'],
@@ -1,6 +1,9 @@
 'use client';
 
 import React, { useState, useMemo, useCallback } from 'react';
+
+import { ESCALATION_LEVELS, EscalationLevel } from '../../types/escalation';
+
 import {
   PaymentLedgerEntry,
   LedgerSummary,
@@ -43,19 +46,19 @@ const StatusBadge: React.FC<{ status: PaymentLedgerEntry['status'] }> = ({ statu
   );
 };
 
-const EscalationBadge: React.FC<{ level: number }> = ({ level }) => {
-  const colors = [
-    'bg-gray-100 text-gray-700',
-    'bg-blue-100 text-blue-700',
-    'bg-cyan-100 text-cyan-700',
-    'bg-yellow-100 text-yellow-700',
-    'bg-orange-100 text-orange-700',
-    'bg-red-100 text-red-700',
-  ];
+const EscalationBadge: React.FC<{ level: EscalationLevel }> = ({ level }) => {
+  const colors: Record<EscalationLevel, string> = {
+    L0: 'bg-gray-100 text-gray-700',
+    L1: 'bg-blue-100 text-blue-700',
+    L2: 'bg-cyan-100 text-cyan-700',
+    L3: 'bg-yellow-100 text-yellow-700',
+    L4: 'bg-orange-100 text-orange-700',
+    L5: 'bg-red-100 text-red-700',
+  };
 
   return (
-    <span className={`px-2 py-1 text-xs font-semibold rounded ${colors[level] || colors[0]}`}>
-      L{level}
+    <span className={`px-2 py-1 text-xs font-semibold rounded ${colors[level]}`}>
+      {level}
     </span>
   );
 };
@@ -425,12 +428,17 @@ export const PaymentLedger: React.FC<PaymentLedgerProps> = ({
               </select>
               <select
                 value={filter.escalationLevel ?? ''}
-                onChange={(e) => setFilter({ ...filter, escalationLevel: e.target.value ? parseInt(e.target.value) : undefined })}
+                onChange={(e) => {
+                  const next = { ...filter };
+                  delete next.escalationLevel;
+                  if (e.target.value) next.escalationLevel = e.target.value as EscalationLevel;
+                  setFilter(next);
+                }}
                 className="px-3 py-2 border rounded-lg text-sm"
               >
                 <option value="">All Levels</option>
-                {[0, 1, 2, 3, 4, 5].map((level) => (
-                  <option key={level} value={level}>L{level}</option>
+                {ESCALATION_LEVELS.map((level) => (
+                  <option key={level} value={level}>{level}</option>
                 ))}
               </select>
             </div>
@@ -1,3 +1,5 @@
+import type { EscalationLevel } from '../../types/escalation';
+
 export interface PaymentLedgerEntry {
   id: string;
   timestamp: Date;
@@ -5,7 +7,7 @@ export interface PaymentLedgerEntry {
   amountUSDC: number;
   txHash: string | null;
   status: 'pending' | 'confirmed' | 'failed';
-  escalationLevel: number;
+  escalationLevel: EscalationLevel;
   agentRunId: string | null;
   blockNumber: number | null;
   gasUsed: number | null;
@@ -28,7 +30,7 @@ export interface LedgerFilter {
   status?: PaymentLedgerEntry['status'];
   minAmount?: number;
   maxAmount?: number;
-  escalationLevel?: number;
+  escalationLevel?: EscalationLevel;
 }
 
 export interface LedgerPagination {
@@ -1,133 +1,302 @@
-import { ChainId } from '../types/treasury';
+import { z } from 'zod';
+
+import { ChainId, ChainName, ChainRpcConfig } from '../types/treasury';
+
+const addressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'must be a 20-byte hex address');
+
+const rpcUrlSchema = z.string().url();
+
+/**
+ * Validation schema for one chain of the registry
+ */
+const chainConfigSchema = z.object({
+  chainId: z.number().int().positive(),
+  /** Lowercase key used in wallet maps, alerts and logs, e.g. `polygon` */
+  name: z.string().regex(/^[a-z][a-z0-9-]*$/, 'must be a lowercase slug'),
+  displayName: z.string().min(1),
+  shortName: z.string().min(1),
+  nativeCurrency: z.object({
+    name: z.string().min(1),
+    symbol: z.string().min(1),
+    decimals: z.number().int().min(0).max(36),
+    /** Pegged to the US dollar, like xDAI; counted with the chain's stablecoins */
+    stablecoin: z.boolean().optional(),
+  }),
+  /** Public endpoints, used behind the URL from `rpcEnvVar` when that is set */
+  rpcUrls: z.array(rpcUrlSchema).min(1),
+  /** Defaults to `<NAME>_RPC_URL` */
+  rpcEnvVar: z.string().min(1).optional(),
+  blockExplorer: z.string().url(),
+  /** In seconds */
+  avgBlockTime: z.number().positive(),
+  isL2: z.boolean(),
+  /** Symbol to token address */
+  stablecoins: z.record(addressSchema).default({}),
+  finality: z
+    .object({
+      blockTags: z.boolean().default(true),
+      safeDepth: z.number().int().min(0),
+      finalizedDepth: z.number().int().min(0),
+    })
+    .refine((rule) => rule.finalizedDepth >= rule.safeDepth, {
+      message: 'finalizedDepth must not be below safeDepth',
+    }),
+  /** Chart color */
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/)
+    .optional(),
+});
+
+/**
+ * Shape of a chain registry file. Entries whose chainId or name matches a built-in chain are
+ * merged over it field by field, so overriding Ethereum's RPC URLs needs only `chainId` and
+ * `rpcUrls`.
+ */
+const chainRegistryFileSchema = z.object({
+  /** Drop the built-in chains that the file does not list */
+  replaceDefaults: z.boolean().default(false),
+  chains: z.array(z.record(z.unknown())),
+});
 
 /**
  * Chain configuration for multi-chain treasury monitoring
  */
-export interface ChainConfig {
+export type ChainConfig = z.infer<typeof chainConfigSchema> & {
   chainId: ChainId;
-  name: string;
-  shortName: string;
-  nativeCurrency: {
-    name: string;
-    symbol: string;
-    decimals: number;
-  };
-  blockExplorer: string;
-  avgBlockTime: number; // in seconds
-  isL2: boolean;
-}
+  name: ChainName;
+};
+
+export type SupportedChainId = ChainId;
 
 /**
- * Supported chain configurations
+ * Chains known without a registry file. All of them answer the `safe` and `finalized` block
+ * tags; the finality depths are the fallback. On Arbitrum, Optimism and Base the tags track L1,
+ * so they cover the ~15 minutes until a batch is final.
  */
-export const CHAIN_CONFIGS: Record<ChainId, ChainConfig> = {
-  [ChainId.ETHEREUM]: {
-    chainId: ChainId.ETHEREUM,
-    name: 'Ethereum Mainnet',
+export const DEFAULT_CHAINS: ChainConfig[] = [
+  {
+    chainId: 1,
+    name: 'ethereum',
+    displayName: 'Ethereum Mainnet',
     shortName: 'ETH',
-    nativeCurrency: {
-      name: 'Ether',
-      symbol: 'ETH',
-      decimals: 18,
-    },
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: [
+      'https://eth.llamarpc.com',
+      'https://ethereum-rpc.publicnode.com',
+      'https://cloudflare-eth.com',
+    ],
     blockExplorer: 'https://etherscan.io',
     avgBlockTime: 12,
     isL2: false,
+    stablecoins: {
+      USDC: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+      USDT: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+      DAI: '0x6B175474E89094C44Da98b954EedeAC495271d0F',
+    },
+    // Safe after one epoch of 32 slots, finalized after two
+    finality: { blockTags: true, safeDepth: 32, finalizedDepth: 64 },
+    color: '#627EEA',
   },
-  [ChainId.GNOSIS]: {
-    chainId: ChainId.GNOSIS,
-    name: 'Gnosis Chain',
+  {
+    chainId: 100,
+    name: 'gnosis',
+    displayName: 'Gnosis Chain',
     shortName: 'GNO',
-    nativeCurrency: {
-      name: 'xDAI',
-      symbol: 'xDAI',
-      decimals: 18,
-    },
+    nativeCurrency: { name: 'xDAI', symbol: 'xDAI', decimals: 18, stablecoin: true },
+    rpcUrls: [
+      'https://rpc.gnosischain.com',
+      'https://gnosis-rpc.publicnode.com',
+      'https://rpc.ankr.com/gnosis',
+    ],
     blockExplorer: 'https://gnosisscan.io',
     avgBlockTime: 5,
     isL2: false,
+    stablecoins: {
+      USDC: '0xDDAfbb505ad214D7b80b1f830fcCc89B60fb7A83',
+      USDT: '0x4ECaBa5870353805a9F068101A40E0f32ed605C6',
+      WXDAI: '0xe91D153E0b41518A2Ce8Dd3D7944Fa863463a97d',
+    },
+    // Epochs of 16 five-second slots
+    finality: { blockTags: true, safeDepth: 16, finalizedDepth: 32 },
+    color: '#04795B',
   },
-  [ChainId.ARBITRUM]: {
-    chainId: ChainId.ARBITRUM,
-    name: 'Arbitrum One',
+  {
+    chainId: 42161,
+    name: 'arbitrum',
+    displayName: 'Arbitrum One',
     shortName: 'ARB',
-    nativeCurrency: {
-      name: 'Ether',
-      symbol: 'ETH',
-      decimals: 18,
-    },
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: [
+      'https://arb1.arbitrum.io/rpc',
+      'https://arbitrum-one-rpc.publicnode.com',
+      'https://arbitrum.llamarpc.com',
+    ],
     blockExplorer: 'https://arbiscan.io',
     avgBlockTime: 0.25,
     isL2: true,
+    stablecoins: {
+      USDC: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+      'USDC.e': '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8',
+      USDT: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9',
+      DAI: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1',
+    },
+    // Quarter-second blocks: ~5 minutes to a posted batch, ~17 minutes to L1 finality
+    finality: { blockTags: true, safeDepth: 1200, finalizedDepth: 4000 },
+    color: '#28A0F0',
   },
-  [ChainId.OPTIMISM]: {
-    chainId: ChainId.OPTIMISM,
-    name: 'Optimism',
+  {
+    chainId: 10,
+    name: 'optimism',
+    displayName: 'Optimism',
     shortName: 'OP',
-    nativeCurrency: {
-      name: 'Ether',
-      symbol: 'ETH',
-      decimals: 18,
-    },
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: [
+      'https://mainnet.optimism.io',
+      'https://optimism-rpc.publicnode.com',
+      'https://optimism.llamarpc.com',
+    ],
     blockExplorer: 'https://optimistic.etherscan.io',
     avgBlockTime: 2,
     isL2: true,
+    stablecoins: {
+      USDC: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85',
+      'USDC.e': '0x7F5c764cBc14f9669B88837ca1490cCa17c31607',
+      USDT: '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58',
+      DAI: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1',
+    },
+    // Two-second blocks
+    finality: { blockTags: true, safeDepth: 150, finalizedDepth: 500 },
+    color: '#FF0420',
   },
-  [ChainId.BASE]: {
-    chainId: ChainId.BASE,
-    name: 'Base',
+  {
+    chainId: 8453,
+    name: 'base',
+    displayName: 'Base',
     shortName: 'BASE',
-    nativeCurrency: {
-      name: 'Ether',
-      symbol: 'ETH',
-      decimals: 18,
-    },
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: [
+      'https://mainnet.base.org',
+      'https://base-rpc.publicnode.com',
+      'https://base.llamarpc.com',
+    ],
     blockExplorer: 'https://basescan.org',
     avgBlockTime: 2,
     isL2: true,
+    stablecoins: {
+      USDC: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+      USDbC: '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA',
+      DAI: '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb',
+    },
+    finality: { blockTags: true, safeDepth: 150, finalizedDepth: 500 },
+    color: '#0052FF',
   },
-};
+];
+
+let registry: ChainConfig[] = DEFAULT_CHAINS;
 
 /**
- * Common stablecoin addresses across chains
+ * Validate the contents of a chain registry file and merge it over the built-in chains.
+ * Throws with every issue listed when an entry is invalid or two chains share an ID or name.
  */
-export const STABLECOIN_ADDRESSES: Record<ChainId, Record<string, string>> = {
-  [ChainId.ETHEREUM]: {
-    USDC: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
-    USDT: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
-    DAI: '0x6B175474E89094C44Da98b954EescdeCB5BE16a9',
-  },
-  [ChainId.GNOSIS]: {
-    USDC: '0xDDAfbb505ad214D7b80b1f830fcCc89B60fb7A83',
-    USDT: '0x4ECaBa5870353805a9F068101A40E0f32ed605C6',
-    WXDAI: '0xe91D153E0b41518A2Ce8Dd3D7944Fa863463a97d',
-  },
-  [ChainId.ARBITRUM]: {
-    USDC: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
-    'USDC.e': '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8',
-    USDT: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9',
-    DAI: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1',
-  },
-  [ChainId.OPTIMISM]: {
-    USDC: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85',
-    'USDC.e': '0x7F5c764cBc14f9669B88837ca1490cCa17c31607',
-    USDT: '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58',
-    DAI: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1',
-  },
-  [ChainId.BASE]: {
-    USDC: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
-    USDbC: '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA',
-    DAI: '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb',
-  },
-};
+export function parseChainRegistry(raw: unknown): ChainConfig[] {
+  const file = chainRegistryFileSchema.safeParse(raw);
+  if (!file.success) {
+    throw new Error(`Chain registry validation failed:\n${formatIssues(file.error)}`);
+  }
+
+  const chains: ChainConfig[] = file.data.replaceDefaults ? [] : [...DEFAULT_CHAINS];
+  const issues: string[] = [];
+
+  file.data.chains.forEach((entry, index) => {
+    // By chainId; entries without one override a chain by name
+    const matches = (chain: ChainConfig): boolean =>
+      entry['chainId'] !== undefined
+        ? chain.chainId === entry['chainId']
+        : chain.name === entry['name'];
+    const existing = chains.findIndex(matches);
+    const base =
+      existing === -1 && file.data.replaceDefaults
+        ? DEFAULT_CHAINS.find(matches)
+        : chains[existing];
+    const result = chainConfigSchema.safeParse({ ...base, ...entry });
+    if (!result.success) {
+      issues.push(formatIssues(result.error, `chains.${index}`));
+      return;
+    }
+    if (existing === -1) {
+      chains.push(result.data);
+    } else {
+      chains[existing] = result.data;
+    }
+  });
+
+  for (const key of ['chainId', 'name'] as const) {
+    const seen = new Set<string | number>();
+    for (const chain of chains) {
+      if (seen.has(chain[key])) {
+        issues.push(`  - ${key}: ${chain[key]} is listed more than once`);
+      }
+      seen.add(chain[key]);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new Error(`Chain registry validation failed:\n${issues.join('\n')}`);
+  }
+  return chains;
+}
+
+/**
+ * Check the preferred RPC URL each chain reads from its `rpcEnvVar`. Throws with every
+ * variable that is set to something other than a URL.
+ */
+export function validateChainRpcEnv(
+  chains: ChainConfig[],
+  env: Record<string, string | undefined> = process.env
+): void {
+  const issues = chains.flatMap((chain) => {
+    const envVar = getChainRpcEnvVar(chain);
+    const url = env[envVar];
+    return url !== undefined && url !== '' && !rpcUrlSchema.safeParse(url).success
+      ? [`  - ${chain.name}: ${envVar} must be a URL`]
+      : [];
+  });
+  if (issues.length > 0) {
+    throw new Error(`Chain registry validation failed:\n${issues.join('\n')}`);
+  }
+}
+
+/**
+ * Replace the chains every lookup in this module reads from
+ */
+export function setChainRegistry(chains: ChainConfig[]): void {
+  registry = chains;
+}
 
 /**
- * Get chain config by ID
+ * Get all registered chains
  */
-export function getChainConfig(chainId: ChainId): ChainConfig {
-  const config = CHAIN_CONFIGS[chainId];
+export function getChains(): ChainConfig[] {
+  return registry;
+}
+
+/**
+ * Find a chain by ID or name
+ */
+export function findChainConfig(chain: ChainId | ChainName): ChainConfig | undefined {
+  return registry.find((config) =>
+    typeof chain === 'number' ? config.chainId === chain : config.name === chain
+  );
+}
+
+/**
+ * Get chain config by ID or name
+ */
+export function getChainConfig(chain: ChainId | ChainName): ChainConfig {
+  const config = findChainConfig(chain);
   if (!config) {
-    throw new Error(`Unknown chain ID: ${chainId}`);
+    throw new Error(`Unknown chain: ${chain}`);
   }
   return config;
 }
@@ -136,14 +305,88 @@ export function getChainConfig(chainId: ChainId): ChainConfig {
  * Get all supported chain IDs
  */
 export function getSupportedChainIds(): ChainId[] {
-  return Object.values(ChainId).filter(
-    (value): value is ChainId => typeof value === 'number'
-  );
+  return registry.map((chain) => chain.chainId);
 }
 
 /**
  * Check if a chain ID is supported
  */
-export function isChainSupported(chainId: number): chainId is ChainId {
-  return chainId in CHAIN_CONFIGS;
+export function isChainSupported(chainId: number): boolean {
+  return registry.some((chain) => chain.chainId === chainId);
+}
+
+/**
+ * Stablecoin symbol to address on one chain
+ */
+export function getStablecoinAddresses(chain: ChainId | ChainName): Record<string, string> {
+  return getChainConfig(chain).stablecoins;
+}
+
+/**
+ * Stablecoin symbols across every registered chain, including USD-pegged native currencies
+ */
+export function getStablecoinSymbols(): string[] {
+  const symbols = registry.flatMap((chain) => [
+    ...Object.keys(chain.stablecoins),
+    ...(chain.nativeCurrency.stablecoin === true ? [chain.nativeCurrency.symbol] : []),
+  ]);
+  return [...new Set(symbols)];
+}
+
+/**
+ * Environment variable holding a chain's preferred RPC URL
+ */
+export function getChainRpcEnvVar(chain: ChainConfig): string {
+  return chain.rpcEnvVar ?? `${chain.name.toUpperCase().replace(/-/g, '_')}_RPC_URL`;
+}
+
+/**
+ * Get chain RPC URL by chain ID or name: the configured URL, else the first public one
+ */
+export function getChainRpcUrl(chain: ChainId | ChainName): string {
+  const config = getChainConfig(chain);
+  return process.env[getChainRpcEnvVar(config)] || (config.rpcUrls[0] as string);
+}
+
+/**
+ * RPC settings for every registered chain, keyed by name. The configured URL (weight 2)
+ * goes ahead of the public fallbacks (weight 1).
+ */
+export function getChainRpcConfigs(): Record<ChainName, ChainRpcConfig> {
+  return Object.fromEntries(
+    registry.map((chain) => {
+      const configuredUrl = process.env[getChainRpcEnvVar(chain)] || undefined;
+      const fallbacks = chain.rpcUrls
+        .filter((url) => url !== configuredUrl)
+        .map((url) => ({ url, weight: 1 }));
+      return [
+        chain.name,
+        {
+          chainId: chain.chainId,
+          name: chain.displayName,
+          rpcEndpoints: configuredUrl
+            ? [{ url: configuredUrl, weight: 2 }, ...fallbacks]
+            : fallbacks,
+          blockExplorer: chain.blockExplorer,
+          nativeCurrency: {
+            symbol: chain.nativeCurrency.symbol,
+            decimals: chain.nativeCurrency.decimals,
+          },
+          finality: chain.finality,
+        },
+      ];
+    })
+  );
+}
+
+/**
+ * One line per validation issue, prefixed with its path, for registry and config file errors
+ */
+export function formatIssues(error: z.ZodError, prefix?: string): string {
+  return error.issues
+    .map((issue) => {
+      const path = [...(prefix ? [prefix] : []), ...issue.path].join('.');
+      return `  - ${path}: ${issue.message}`;
+    })
+    .join('\n');
 }
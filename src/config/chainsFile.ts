@@ -0,0 +1,37 @@
+import { readFileSync } from 'fs';
+
+import {
+  ChainConfig,
+  DEFAULT_CHAINS,
+  parseChainRegistry,
+  setChainRegistry,
+  validateChainRpcEnv,
+} from './chains';
+
+/**
+ * Load the chain registry from a JSON file and make it the active registry.
+ * Without a path (and no CHAINS_CONFIG_PATH) the built-in chains stay active. Either way the
+ * RPC URLs set in each chain's `rpcEnvVar` must be URLs.
+ * Kept apart from ./chains so the dashboard can read the registry without pulling in fs.
+ */
+export function loadChainRegistry(
+  path: string | undefined = process.env['CHAINS_CONFIG_PATH']
+): ChainConfig[] {
+  if (!path) {
+    validateChainRpcEnv(DEFAULT_CHAINS);
+    setChainRegistry(DEFAULT_CHAINS);
+    return DEFAULT_CHAINS;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Chain registry ${path} could not be read: ${(error as Error).message}`);
+  }
+
+  const chains = parseChainRegistry(raw);
+  validateChainRpcEnv(chains);
+  setChainRegistry(chains);
+  return chains;
+}
@@ -29,6 +29,16 @@ export const defaultDatabaseConfig: DatabaseConfig = {
   verbose: process.env.NODE_ENV === 'development',
 };
 
+/**
+ * Active database configuration; DATABASE_PATH (see env.ts) overrides the default path
+ */
+export function getDatabaseConfig(): DatabaseConfig {
+  const dbPath = process.env['DATABASE_PATH'];
+  return dbPath !== undefined && dbPath !== ''
+    ? { ...defaultDatabaseConfig, dbPath }
+    : { ...defaultDatabaseConfig };
+}
+
 export const TABLE_SCHEMAS: TableSchema[] = [
   {
     name: 'treasury_snapshots',
@@ -49,12 +59,16 @@ export const TABLE_SCHEMAS: TableSchema[] = [
     name: 'escalation_events',
     createStatement: `
       CREATE TABLE IF NOT EXISTS escalation_events (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT PRIMARY KEY,
         treasury_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        from_state TEXT NOT NULL,
+        to_state TEXT NOT NULL,
         from_level TEXT NOT NULL,
         to_level TEXT NOT NULL,
         trigger_reason TEXT NOT NULL,
-        context_data TEXT,
+        snapshot TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP
       )
     `,
@@ -93,6 +107,173 @@ export const TABLE_SCHEMAS: TableSchema[] = [
       )
     `,
   },
+  {
+    name: 'token_metadata',
+    createStatement: `
+      CREATE TABLE IF NOT EXISTS token_metadata (
+        chain_id INTEGER NOT NULL,
+        token_address TEXT NOT NULL,
+        symbol TEXT NOT NULL,
+        decimals INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (chain_id, token_address)
+      )
+    `,
+  },
+  {
+    name: 'discovered_tokens',
+    createStatement: `
+      CREATE TABLE IF NOT EXISTS discovered_tokens (
+        chain_id INTEGER NOT NULL,
+        wallet_address TEXT NOT NULL,
+        token_address TEXT NOT NULL,
+        first_seen_block INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (chain_id, wallet_address, token_address)
+      )
+    `,
+  },
+  {
+    name: 'discovery_cursors',
+    createStatement: `
+      CREATE TABLE IF NOT EXISTS discovery_cursors (
+        chain_id INTEGER NOT NULL,
+        wallet_address TEXT NOT NULL,
+        last_scanned_block INTEGER NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (chain_id, wallet_address)
+      )
+    `,
+  },
+  {
+    name: 'snapshot_backfills',
+    createStatement: `
+      CREATE TABLE IF NOT EXISTS snapshot_backfills (
+        job_id TEXT PRIMARY KEY,
+        chain_id INTEGER NOT NULL,
+        address TEXT NOT NULL,
+        start_timestamp INTEGER NOT NULL,
+        end_timestamp INTEGER NOT NULL,
+        interval_ms INTEGER NOT NULL,
+        next_timestamp INTEGER NOT NULL,
+        last_block INTEGER,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `,
+  },
+  {
+    name: 'safe_states',
+    createStatement: `
+      CREATE TABLE IF NOT EXISTS safe_states (
+        chain_id INTEGER NOT NULL,
+        safe_address TEXT NOT NULL,
+        owners TEXT NOT NULL,
+        threshold INTEGER NOT NULL,
+        nonce INTEGER NOT NULL,
+        block_number INTEGER NOT NULL,
+        timestamp TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (chain_id, safe_address, block_number)
+      )
+    `,
+  },
+  {
+    name: 'safe_executions',
+    createStatement: `
+      CREATE TABLE IF NOT EXISTS safe_executions (
+        chain_id INTEGER NOT NULL,
+        safe_address TEXT NOT NULL,
+        safe_tx_hash TEXT NOT NULL,
+        transaction_hash TEXT NOT NULL,
+        block_number INTEGER NOT NULL,
+        success INTEGER NOT NULL,
+        payment TEXT NOT NULL,
+        to_address TEXT,
+        value TEXT,
+        operation INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (chain_id, safe_address, safe_tx_hash, transaction_hash)
+      )
+    `,
+  },
+  {
+    name: 'safe_execution_cursors',
+    createStatement: `
+      CREATE TABLE IF NOT EXISTS safe_execution_cursors (
+        chain_id INTEGER NOT NULL,
+        safe_address TEXT NOT NULL,
+        last_scanned_block INTEGER NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (chain_id, safe_address)
+      )
+    `,
+  },
+  {
+    name: 'outbound_transfers',
+    createStatement: `
+      CREATE TABLE IF NOT EXISTS outbound_transfers (
+        chain_id INTEGER NOT NULL,
+        treasury_address TEXT NOT NULL,
+        token_address TEXT NOT NULL,
+        token_symbol TEXT NOT NULL,
+        decimals INTEGER NOT NULL,
+        recipient TEXT NOT NULL,
+        amount_raw TEXT NOT NULL,
+        usd_value REAL,
+        block_number INTEGER NOT NULL,
+        transaction_hash TEXT NOT NULL,
+        log_index INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        anomalies TEXT NOT NULL DEFAULT '[]',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (chain_id, transaction_hash, token_address, log_index)
+      )
+    `,
+  },
+  {
+    name: 'transfer_baselines',
+    createStatement: `
+      CREATE TABLE IF NOT EXISTS transfer_baselines (
+        chain_id INTEGER NOT NULL,
+        treasury_address TEXT NOT NULL,
+        token_address TEXT NOT NULL,
+        count INTEGER NOT NULL,
+        mean_log REAL NOT NULL,
+        m2_log REAL NOT NULL,
+        max_amount REAL NOT NULL,
+        first_seen INTEGER NOT NULL,
+        last_seen INTEGER NOT NULL,
+        recipients TEXT NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (chain_id, treasury_address, token_address)
+      )
+    `,
+  },
+  {
+    name: 'transfer_cursors',
+    createStatement: `
+      CREATE TABLE IF NOT EXISTS transfer_cursors (
+        chain_id INTEGER NOT NULL,
+        treasury_address TEXT NOT NULL,
+        last_scanned_block INTEGER NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (chain_id, treasury_address)
+      )
+    `,
+  },
+  {
+    name: 'address_book',
+    createStatement: `
+      CREATE TABLE IF NOT EXISTS address_book (
+        address TEXT NOT NULL,
+        chain_id INTEGER NOT NULL DEFAULT 0,
+        label TEXT NOT NULL,
+        max_amount_usd REAL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (address, chain_id)
+      )
+    `,
+  },
   {
     name: 'budget_tracking',
     createStatement: `
@@ -25,21 +25,31 @@ const envSchema = z.object({
     .string()
     .regex(/^0x[a-fA-F0-9]{40}$/)
     .optional(),
+  // Kaiko's payee; 402 invoices naming any other recipient are not paid
+  KAIKO_PAYMENT_ADDRESS: z
+    .string()
+    .regex(/^0x[a-fA-F0-9]{40}$/)
+    .optional(),
   SETTLEMENT_PRIVATE_KEY: z
     .string()
     .regex(/^0x[a-fA-F0-9]{64}$/)
     .optional(),
 
-  // Multi-chain RPC endpoints
-  ETHEREUM_RPC_URL: z.string().url().default('https://eth.llamarpc.com'),
-  GNOSIS_RPC_URL: z.string().url().default('https://rpc.gnosischain.com'),
-  ARBITRUM_RPC_URL: z.string().url().default('https://arb1.arbitrum.io/rpc'),
-  OPTIMISM_RPC_URL: z.string().url().default('https://mainnet.optimism.io'),
+  // Chain registry file; per-chain RPC URLs are read by the registry (see config/chains)
+  CHAINS_CONFIG_PATH: z.string().optional(),
+
+  // Stress scenario file merged over the built-in scenarios (see config/stressScenarios)
+  STRESS_SCENARIOS_PATH: z.string().optional(),
 
   // Budget enforcement
   DEMO_BUDGET_USDC: z.coerce.number().positive().default(10),
   BUDGET_WARNING_THRESHOLD: z.coerce.number().min(0).max(1).default(0.8),
 
+  // Agent cycle: projected 30-day net outflows, the LCR denominator
+  PROJECTED_MONTHLY_OUTFLOWS_USD: z.coerce
+    .number()
+    .positive('PROJECTED_MONTHLY_OUTFLOWS_USD must be a positive USD amount'),
+
   // Scheduler configuration
   AGENT_CRON_EXPRESSION: z.string().default('*/15 * * * *'),
   AGENT_TIMEZONE: z.string().default('UTC'),
@@ -110,25 +120,3 @@ export function isDevelopment(): boolean {
 export function isTest(): boolean {
   return getEnvConfig().NODE_ENV === 'test';
 }
-
-/**
- * Get chain RPC URL by chain ID
- */
-export function getChainRpcUrl(chainId: number): string {
-  const config = getEnvConfig();
-
-  const chainRpcMap: Record<number, string> = {
-    1: config.ETHEREUM_RPC_URL,
-    100: config.GNOSIS_RPC_URL,
-    42161: config.ARBITRUM_RPC_URL,
-    10: config.OPTIMISM_RPC_URL,
-    8453: config.BASE_RPC_URL,
-  };
-
-  const rpcUrl = chainRpcMap[chainId];
-  if (!rpcUrl) {
-    throw new Error(`No RPC URL configured for chain ID: ${chainId}`);
-  }
-
-  return rpcUrl;
-}
@@ -6,6 +6,9 @@ export * from './env';
 export * from './database';
 export * from './scheduler';
 export * from './chains';
+export * from './chainsFile';
+export * from './stressScenarios';
+export * from './stressScenariosFile';
 export * from './budget';
 export * from './payments';
 
@@ -13,7 +16,7 @@ export * from './payments';
 import { env } from './env';
 import { databaseConfig, createDatabaseConnection } from './database';
 import { schedulerConfig, createJobSchedule } from './scheduler';
-import { SUPPORTED_CHAINS, getChainConfig, getChainRpcUrl } from './chains';
+import { getChains, getChainConfig, getChainRpcUrl } from './chains';
 import { budgetConfig, createBudgetConfig, calculateThresholds } from './budget';
 import { paymentConfig, http402Config, createPaymentRequest } from './payments';
 
@@ -21,7 +24,9 @@ export const config = {
   env,
   database: databaseConfig,
   scheduler: schedulerConfig,
-  chains: SUPPORTED_CHAINS,
+  get chains() {
+    return getChains();
+  },
   budget: budgetConfig,
   payment: paymentConfig,
   http402: http402Config,
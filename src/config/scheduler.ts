@@ -12,12 +12,27 @@ export interface SchedulerConfig {
   maxConcurrentJobs: number;
   /** Job timeout in milliseconds */
   jobTimeout: number;
+  /**
+   * How long a timed-out handler gets to honour its abort signal; after that the run fails
+   * without retrying and the job is re-armed while the handler is left behind
+   */
+  abortGracePeriod: number;
   /** Enable job persistence across restarts */
   persistJobs: boolean;
   /** Retry configuration */
   retry: RetryConfig;
+  /** What to do with runs missed while the process was down */
+  misfirePolicy: MisfirePolicy;
+  /** Most missed runs replayed on start under the 'catch_up' policy */
+  maxCatchUpRuns: number;
 }
 
+/**
+ * 'catch_up' replays the most recent missed fire times (up to maxCatchUpRuns, oldest first);
+ * 'skip' drops them and waits for the next regular fire time
+ */
+export type MisfirePolicy = 'catch_up' | 'skip';
+
 export interface RetryConfig {
   /** Maximum retry attempts */
   maxAttempts: number;
@@ -39,10 +54,11 @@ export interface JobDefinition {
 }
 
 export const defaultSchedulerConfig: SchedulerConfig = {
-  cronExpression: '*/15 * * * *', // Every 15 minutes
-  timezone: 'UTC',
+  cronExpression: process.env['AGENT_CRON_EXPRESSION'] ?? '*/15 * * * *', // Every 15 minutes
+  timezone: process.env['AGENT_TIMEZONE'] ?? 'UTC',
   maxConcurrentJobs: 1,
   jobTimeout: 300000, // 5 minutes
+  abortGracePeriod: 30000,
   persistJobs: true,
   retry: {
     maxAttempts: 3,
@@ -50,6 +66,8 @@ export const defaultSchedulerConfig: SchedulerConfig = {
     backoffMultiplier: 2,
     maxDelay: 30000,
   },
+  misfirePolicy: 'catch_up',
+  maxCatchUpRuns: 1,
 };
 
 export const SCHEDULED_JOBS: JobDefinition[] = [
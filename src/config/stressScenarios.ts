@@ -0,0 +1,130 @@
+import { z } from 'zod';
+
+import { formatIssues } from './chains';
+
+/** Relative change, -0.4 for -40%; nothing can fall below zero */
+const changeSchema = z.number().min(-1);
+
+/**
+ * Validation schema for one shock of a stress scenario
+ */
+const stressShockSchema = z
+  .object({
+    /** Matched case-insensitively against balance and position underlying symbols */
+    symbols: z.array(z.string().min(1)).min(1),
+    /** Relative price move */
+    priceChange: changeSchema.optional(),
+    /** Absolute USD price, e.g. 0.92 for a depegged stablecoin */
+    price: z.number().nonnegative().optional(),
+    /** Relative change of order book depth at every price level */
+    depthChange: changeSchema.optional(),
+    /** Relative change of daily traded volume, in units */
+    volumeChange: changeSchema.optional(),
+  })
+  .refine((shock) => shock.priceChange === undefined || shock.price === undefined, {
+    message: 'set priceChange or price, not both',
+  });
+
+/**
+ * Validation schema for one named stress scenario
+ */
+const stressScenarioSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  /** A symbol named by several shocks takes the first */
+  shocks: z.array(stressShockSchema).default([]),
+  /** Applied to volatile holdings no shock names: alts that move with the shocked assets */
+  correlated: z
+    .object({
+      priceChange: changeSchema,
+      depthChange: changeSchema.optional(),
+      volumeChange: changeSchema.optional(),
+    })
+    .optional(),
+  /** Regime the risk level is scored under; the run's own regime when omitted */
+  volatilityRegime: z.enum(['low', 'normal', 'elevated', 'high', 'extreme']).optional(),
+});
+
+/**
+ * Shape of a stress scenario file. Scenarios named like a built-in one replace it.
+ */
+const stressScenarioFileSchema = z.object({
+  /** Drop the built-in scenarios that the file does not list */
+  replaceDefaults: z.boolean().default(false),
+  scenarios: z.array(z.unknown()),
+});
+
+export type StressShock = z.infer<typeof stressShockSchema>;
+export type StressScenario = z.infer<typeof stressScenarioSchema>;
+
+const ETH_LIKE = ['ETH', 'WETH', 'stETH', 'wstETH', 'rETH'];
+const USDC_LIKE = ['USDC', 'USDC.e', 'USDbC'];
+const GOVERNANCE_TOKENS = ['UNI', 'AAVE', 'MKR', 'COMP', 'LDO', 'ARB', 'OP', 'ENS', 'GNO'];
+
+/**
+ * Scenarios tested without a scenario file. The governance scenario names common DAO
+ * tokens; a treasury holding its own token should list it in a file.
+ */
+export const DEFAULT_STRESS_SCENARIOS: StressScenario[] = [
+  {
+    name: 'ETH -40%, depth -60%',
+    description: 'ETH and its staking tokens fall 40% while order books thin by 60%',
+    shocks: [{ symbols: ETH_LIKE, priceChange: -0.4, depthChange: -0.6 }],
+    volatilityRegime: 'extreme',
+  },
+  {
+    name: 'USDC depeg to 0.92',
+    description: 'USDC and its bridged variants trade at $0.92',
+    shocks: [{ symbols: USDC_LIKE, price: 0.92 }],
+  },
+  {
+    name: 'Governance token -80% with correlated alts',
+    description: 'Governance tokens fall 80%, other volatile holdings 30%, books thin',
+    shocks: [{ symbols: GOVERNANCE_TOKENS, priceChange: -0.8, depthChange: -0.7 }],
+    correlated: { priceChange: -0.3, depthChange: -0.4 },
+    volatilityRegime: 'extreme',
+  },
+];
+
+/**
+ * Validate the contents of a stress scenario file and merge it over the built-in scenarios.
+ * Throws with every issue listed when a scenario is invalid or two share a name.
+ */
+export function parseStressScenarios(raw: unknown): StressScenario[] {
+  const file = stressScenarioFileSchema.safeParse(raw);
+  if (!file.success) {
+    throw new Error(`Stress scenario validation failed:\n${formatIssues(file.error)}`);
+  }
+
+  const scenarios: StressScenario[] = file.data.replaceDefaults
+    ? []
+    : [...DEFAULT_STRESS_SCENARIOS];
+  const fromFile = new Set<string>();
+  const issues: string[] = [];
+
+  file.data.scenarios.forEach((entry, index) => {
+    const result = stressScenarioSchema.safeParse(entry);
+    if (!result.success) {
+      issues.push(formatIssues(result.error, `scenarios.${index}`));
+      return;
+    }
+    const scenario = result.data;
+    if (fromFile.has(scenario.name)) {
+      issues.push(`  - name: ${scenario.name} is listed more than once`);
+      return;
+    }
+    fromFile.add(scenario.name);
+
+    const existing = scenarios.findIndex((known) => known.name === scenario.name);
+    if (existing === -1) {
+      scenarios.push(scenario);
+    } else {
+      scenarios[existing] = scenario;
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new Error(`Stress scenario validation failed:\n${issues.join('\n')}`);
+  }
+  return scenarios;
+}
@@ -0,0 +1,24 @@
+import { readFileSync } from 'fs';
+
+import { DEFAULT_STRESS_SCENARIOS, parseStressScenarios, StressScenario } from './stressScenarios';
+
+/**
+ * Load stress scenarios from a JSON file merged over the built-in ones.
+ * Without a path (and no STRESS_SCENARIOS_PATH) the built-in scenarios are returned.
+ */
+export function loadStressScenarios(
+  path: string | undefined = process.env['STRESS_SCENARIOS_PATH']
+): StressScenario[] {
+  if (!path) {
+    return DEFAULT_STRESS_SCENARIOS;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Stress scenarios ${path} could not be read: ${(error as Error).message}`);
+  }
+
+  return parseStressScenarios(raw);
+}
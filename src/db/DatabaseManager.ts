@@ -0,0 +1,85 @@
+/**
+ * Promise-based SQLite connection used by services that issue raw SQL
+ * (repositories extend BaseRepository instead)
+ */
+
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+
+import Database from 'better-sqlite3';
+
+import { DatabaseConfig, getDatabaseConfig } from '../config/database';
+import { DatabaseError, ErrorCode } from '../utils/errors';
+
+export class DatabaseManager {
+  private config: DatabaseConfig;
+  private db: Database.Database | null = null;
+
+  constructor(config: Partial<DatabaseConfig> = {}) {
+    this.config = { ...getDatabaseConfig(), ...config };
+  }
+
+  initialize(): Promise<void> {
+    if (this.db) {
+      return Promise.resolve();
+    }
+
+    try {
+      if (this.config.dbPath !== ':memory:') {
+        mkdirSync(dirname(this.config.dbPath), { recursive: true });
+      }
+      this.db = new Database(this.config.dbPath, { timeout: this.config.connectionTimeout });
+      if (this.config.walMode) {
+        this.db.pragma('journal_mode = WAL');
+      }
+      this.db.pragma('foreign_keys = ON');
+      return Promise.resolve();
+    } catch (error) {
+      return Promise.reject(this.wrap(error, 'open database'));
+    }
+  }
+
+  run(sql: string, params: unknown[] = []): Promise<{ changes: number }> {
+    return this.execute(sql, (db) => {
+      const { changes } = db.prepare(sql).run(...params);
+      return { changes };
+    });
+  }
+
+  get<T>(sql: string, params: unknown[] = []): Promise<T | undefined> {
+    return this.execute(sql, (db) => db.prepare(sql).get(...params) as T | undefined);
+  }
+
+  /**
+   * `T` is the full result type, e.g. `all<Row[]>(...)`
+   */
+  all<T extends unknown[]>(sql: string, params: unknown[] = []): Promise<T> {
+    return this.execute(sql, (db) => db.prepare(sql).all(...params) as T);
+  }
+
+  close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+    return Promise.resolve();
+  }
+
+  private execute<R>(sql: string, query: (db: Database.Database) => R): Promise<R> {
+    if (!this.db) {
+      return Promise.reject(
+        new DatabaseError(ErrorCode.DATABASE_ERROR, 'DatabaseManager used before initialize()')
+      );
+    }
+    try {
+      return Promise.resolve(query(this.db));
+    } catch (error) {
+      return Promise.reject(this.wrap(error, sql));
+    }
+  }
+
+  private wrap(error: unknown, context: string): DatabaseError {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new DatabaseError(ErrorCode.DATABASE_ERROR, `Database error (${context}): ${message}`, {
+      ...(error instanceof Error ? { cause: error } : {}),
+    });
+  }
+}
@@ -18,7 +18,7 @@ export abstract class BaseRepository<T extends Record<string, unknown>> {
     const config = getDatabaseConfig();
     
     try {
-      this.db = new Database(config.filename, {
+      this.db = new Database(config.dbPath, {
         verbose: config.verbose ? console.log : undefined,
       });
       this.db.pragma('journal_mode = WAL');
@@ -0,0 +1,86 @@
+import { randomUUID } from 'crypto';
+
+import type { StateMachineResult } from '../../state-machine/EscalationStateMachine';
+import type { EscalationStore } from '../../state-machine/persistence';
+import { EscalationEventRecord } from '../../types/database';
+import { EscalationSnapshot } from '../../types/escalation';
+
+import { BaseRepository } from './BaseRepository';
+
+export class EscalationEventRepository
+  extends BaseRepository<EscalationEventRecord>
+  implements EscalationStore
+{
+  constructor() {
+    super('escalation_events');
+  }
+
+  protected createTable(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS escalation_events (
+        id TEXT PRIMARY KEY,
+        treasury_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        from_state TEXT NOT NULL,
+        to_state TEXT NOT NULL,
+        from_level TEXT NOT NULL,
+        to_level TEXT NOT NULL,
+        trigger_reason TEXT NOT NULL,
+        snapshot TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_escalations_treasury ON escalation_events(treasury_id);
+      CREATE INDEX IF NOT EXISTS idx_escalations_timestamp ON escalation_events(timestamp);
+    `);
+  }
+
+  saveTransition(
+    treasuryId: string,
+    result: StateMachineResult,
+    snapshot: EscalationSnapshot,
+    reason: string
+  ): void {
+    this.runQuery(
+      `INSERT INTO escalation_events (id, treasury_id, event_type, from_state, to_state, from_level, to_level, trigger_reason, snapshot, timestamp, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        randomUUID(),
+        treasuryId,
+        result.event,
+        result.previousState,
+        result.currentState,
+        result.previousLevel,
+        result.currentLevel,
+        reason,
+        JSON.stringify(snapshot),
+        new Date(result.timestamp).toISOString(),
+        new Date().toISOString(),
+      ]
+    );
+  }
+
+  /**
+   * Machine state after the most recent transition; rowid keeps insertion order when
+   * several transitions share a timestamp
+   */
+  getLatestSnapshot(treasuryId: string): EscalationSnapshot | undefined {
+    const row = this.getOne<Pick<EscalationEventRecord, 'snapshot'>>(
+      `SELECT snapshot FROM escalation_events
+       WHERE treasury_id = ?
+       ORDER BY rowid DESC LIMIT 1`,
+      [treasuryId]
+    );
+    return row ? (JSON.parse(row.snapshot) as EscalationSnapshot) : undefined;
+  }
+
+  findByTreasury(treasuryId: string, limit: number = 100): EscalationEventRecord[] {
+    return this.getAll<EscalationEventRecord>(
+      `SELECT * FROM escalation_events
+       WHERE treasury_id = ?
+       ORDER BY rowid DESC LIMIT ?`,
+      [treasuryId, limit]
+    );
+  }
+}
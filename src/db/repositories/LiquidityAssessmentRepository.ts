@@ -0,0 +1,101 @@
+import { randomUUID } from 'crypto';
+
+import { LiquidityAssessmentRecord } from '../../types/database';
+import { EscalationLevel } from '../../types/escalation';
+import { LiquidityRiskAssessment } from '../../types/liquidity';
+
+import { BaseRepository } from './BaseRepository';
+
+export class LiquidityAssessmentRepository extends BaseRepository<LiquidityAssessmentRecord> {
+  constructor() {
+    super('liquidity_assessments');
+  }
+
+  protected createTable(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS liquidity_assessments (
+        id TEXT PRIMARY KEY,
+        run_id TEXT,
+        timestamp TEXT NOT NULL,
+        chain_id INTEGER NOT NULL,
+        treasury_address TEXT NOT NULL,
+        escalation_level TEXT NOT NULL,
+        overall_risk_score REAL NOT NULL,
+        risk_level TEXT NOT NULL CHECK(risk_level IN ('low', 'medium', 'high', 'critical')),
+        lcr_ratio REAL,
+        volatility_regime TEXT NOT NULL,
+        assessment TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_assessments_run ON liquidity_assessments(run_id);
+      CREATE INDEX IF NOT EXISTS idx_assessments_timestamp ON liquidity_assessments(timestamp);
+      CREATE INDEX IF NOT EXISTS idx_assessments_treasury ON liquidity_assessments(chain_id, treasury_address);
+    `);
+  }
+
+  create(
+    assessment: LiquidityRiskAssessment,
+    escalationLevel: EscalationLevel,
+    runId: string | null = null
+  ): LiquidityAssessmentRecord {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+
+    this.runQuery(
+      `INSERT INTO liquidity_assessments (id, run_id, timestamp, chain_id, treasury_address, escalation_level, overall_risk_score, risk_level, lcr_ratio, volatility_regime, assessment, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        runId,
+        assessment.assessmentTimestamp.toISOString(),
+        assessment.chainId,
+        assessment.treasuryAddress.toLowerCase(),
+        escalationLevel,
+        assessment.overallRiskScore,
+        assessment.riskLevel,
+        // An LCR with no projected outflows is unbounded; store it as NULL
+        Number.isFinite(assessment.lcr.ratio) ? assessment.lcr.ratio : null,
+        assessment.volatilityRegime,
+        JSON.stringify({
+          ...assessment,
+          depthBands: Object.fromEntries(assessment.depthBands),
+          impactCurves: Object.fromEntries(assessment.impactCurves),
+        }),
+        now,
+      ]
+    );
+
+    const record = this.findById(id);
+    if (!record) {
+      throw new Error('Failed to create liquidity assessment record');
+    }
+    return record;
+  }
+
+  findByRunId(runId: string): LiquidityAssessmentRecord[] {
+    return this.getAll<LiquidityAssessmentRecord>(
+      `SELECT * FROM liquidity_assessments
+       WHERE run_id = ?
+       ORDER BY timestamp ASC`,
+      [runId]
+    );
+  }
+
+  getLatest(chainId: number, treasuryAddress: string): LiquidityAssessmentRecord | undefined {
+    return this.getOne<LiquidityAssessmentRecord>(
+      `SELECT * FROM liquidity_assessments
+       WHERE chain_id = ? AND treasury_address = ?
+       ORDER BY timestamp DESC LIMIT 1`,
+      [chainId, treasuryAddress.toLowerCase()]
+    );
+  }
+
+  deleteOlderThan(timestamp: string): number {
+    const result = this.runQuery<{ changes: number }>(
+      'DELETE FROM liquidity_assessments WHERE timestamp < ?',
+      [timestamp]
+    );
+    return result.changes;
+  }
+}
@@ -0,0 +1,83 @@
+import type { PegStore } from '../../services/oracle/DepegMonitor';
+import { PegSampleRecord } from '../../types/database';
+import { ChainId, PegGrade, PegSample } from '../../types/treasury';
+
+import { BaseRepository } from './BaseRepository';
+
+/**
+ * Rolling history of pegged asset readings, one per asset and snapshot block
+ */
+export class PegRepository extends BaseRepository<PegSampleRecord> implements PegStore {
+  constructor() {
+    super('peg_samples');
+  }
+
+  protected createTable(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS peg_samples (
+        chain_id INTEGER NOT NULL,
+        symbol TEXT NOT NULL,
+        peg TEXT NOT NULL,
+        block_number INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        par REAL NOT NULL,
+        pool_price REAL,
+        oracle_price REAL,
+        deviation REAL NOT NULL,
+        grade TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (chain_id, symbol, block_number)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_peg_samples_time ON peg_samples(chain_id, symbol, timestamp);
+    `);
+  }
+
+  getPegSamples(chainId: ChainId, symbol: string, limit: number): PegSample[] {
+    return this.getAll<PegSampleRecord>(
+      `SELECT * FROM peg_samples WHERE chain_id = ? AND symbol = ?
+       ORDER BY timestamp DESC LIMIT ?`,
+      [chainId, symbol, limit]
+    ).map((row) => ({
+      chainId: row.chain_id,
+      symbol: row.symbol,
+      peg: row.peg,
+      blockNumber: row.block_number,
+      timestamp: row.timestamp,
+      par: row.par,
+      ...(row.pool_price !== null ? { poolPrice: row.pool_price } : {}),
+      ...(row.oracle_price !== null ? { oraclePrice: row.oracle_price } : {}),
+      deviation: row.deviation,
+      grade: row.grade as PegGrade,
+    }));
+  }
+
+  savePegSamples(samples: PegSample[], pruneBeforeMs?: number): void {
+    const now = new Date().toISOString();
+
+    this.transaction(() => {
+      for (const sample of samples) {
+        this.runQuery(
+          `INSERT OR REPLACE INTO peg_samples (chain_id, symbol, peg, block_number, timestamp, par, pool_price, oracle_price, deviation, grade, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            sample.chainId,
+            sample.symbol,
+            sample.peg,
+            sample.blockNumber,
+            sample.timestamp,
+            sample.par,
+            sample.poolPrice ?? null,
+            sample.oraclePrice ?? null,
+            sample.deviation,
+            sample.grade,
+            now,
+          ]
+        );
+      }
+      if (pruneBeforeMs !== undefined) {
+        this.runQuery('DELETE FROM peg_samples WHERE timestamp < ?', [pruneBeforeMs]);
+      }
+    });
+  }
+}
@@ -0,0 +1,188 @@
+import type { SafeStore } from '../../services/treasury/SafeMonitor';
+import {
+  SafeExecutionCursorRecord,
+  SafeExecutionRecord,
+  SafeStateRecord,
+} from '../../types/database';
+import { ChainId, SafeExecution, SafeState } from '../../types/treasury';
+
+import { BaseRepository } from './BaseRepository';
+
+/**
+ * Safe signer-set history, executed Safe transactions and the per-Safe execution scan cursor
+ */
+export class SafeRepository extends BaseRepository<SafeStateRecord> implements SafeStore {
+  constructor() {
+    super('safe_states');
+  }
+
+  protected createTable(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS safe_states (
+        chain_id INTEGER NOT NULL,
+        safe_address TEXT NOT NULL,
+        owners TEXT NOT NULL,
+        threshold INTEGER NOT NULL,
+        nonce INTEGER NOT NULL,
+        block_number INTEGER NOT NULL,
+        timestamp TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (chain_id, safe_address, block_number)
+      );
+
+      CREATE TABLE IF NOT EXISTS safe_executions (
+        chain_id INTEGER NOT NULL,
+        safe_address TEXT NOT NULL,
+        safe_tx_hash TEXT NOT NULL,
+        transaction_hash TEXT NOT NULL,
+        block_number INTEGER NOT NULL,
+        success INTEGER NOT NULL,
+        payment TEXT NOT NULL,
+        to_address TEXT,
+        value TEXT,
+        operation INTEGER,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (chain_id, safe_address, safe_tx_hash, transaction_hash)
+      );
+
+      CREATE TABLE IF NOT EXISTS safe_execution_cursors (
+        chain_id INTEGER NOT NULL,
+        safe_address TEXT NOT NULL,
+        last_scanned_block INTEGER NOT NULL,
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (chain_id, safe_address)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_safe_executions_block ON safe_executions(chain_id, safe_address, block_number);
+    `);
+  }
+
+  getLatestState(chainId: ChainId, address: string): SafeState | undefined {
+    const row = this.getOne<SafeStateRecord>(
+      `SELECT * FROM safe_states
+       WHERE chain_id = ? AND safe_address = ?
+       ORDER BY block_number DESC LIMIT 1`,
+      [chainId, address.toLowerCase()]
+    );
+    return row ? this.toState(row) : undefined;
+  }
+
+  saveState(state: SafeState): void {
+    this.runQuery(
+      `INSERT OR REPLACE INTO safe_states (chain_id, safe_address, owners, threshold, nonce, block_number, timestamp, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        state.chainId,
+        state.address.toLowerCase(),
+        JSON.stringify(state.owners),
+        state.threshold,
+        state.nonce,
+        state.blockNumber,
+        new Date(state.timestamp).toISOString(),
+        new Date().toISOString(),
+      ]
+    );
+  }
+
+  /**
+   * Signer-set history of a Safe, oldest first
+   */
+  getStateHistory(chainId: ChainId, address: string, limit: number = 100): SafeState[] {
+    if (limit <= 0 || limit > 10000) {
+      limit = 100;
+    }
+    return this.getAll<SafeStateRecord>(
+      `SELECT * FROM (
+         SELECT * FROM safe_states
+         WHERE chain_id = ? AND safe_address = ?
+         ORDER BY block_number DESC LIMIT ?
+       ) ORDER BY block_number ASC`,
+      [chainId, address.toLowerCase(), limit]
+    ).map((row) => this.toState(row));
+  }
+
+  getExecutionCursor(chainId: ChainId, address: string): number | undefined {
+    const row = this.getOne<SafeExecutionCursorRecord>(
+      'SELECT * FROM safe_execution_cursors WHERE chain_id = ? AND safe_address = ?',
+      [chainId, address.toLowerCase()]
+    );
+    return row?.last_scanned_block;
+  }
+
+  saveExecutions(
+    chainId: ChainId,
+    address: string,
+    lastScannedBlock: number,
+    executions: SafeExecution[]
+  ): void {
+    const safe = address.toLowerCase();
+    const now = new Date().toISOString();
+
+    this.transaction(() => {
+      for (const execution of executions) {
+        this.runQuery(
+          `INSERT OR IGNORE INTO safe_executions (chain_id, safe_address, safe_tx_hash, transaction_hash, block_number, success, payment, to_address, value, operation, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            chainId,
+            safe,
+            execution.safeTxHash,
+            execution.transactionHash,
+            execution.blockNumber,
+            execution.success ? 1 : 0,
+            execution.payment.toString(),
+            execution.to ?? null,
+            execution.value?.toString() ?? null,
+            execution.operation ?? null,
+            now,
+          ]
+        );
+      }
+      this.runQuery(
+        `INSERT OR REPLACE INTO safe_execution_cursors (chain_id, safe_address, last_scanned_block, updated_at)
+         VALUES (?, ?, ?, ?)`,
+        [chainId, safe, lastScannedBlock, now]
+      );
+    });
+  }
+
+  /**
+   * Executed Safe transactions, newest first
+   */
+  getExecutions(chainId: ChainId, address: string, limit: number = 100): SafeExecution[] {
+    if (limit <= 0 || limit > 10000) {
+      limit = 100;
+    }
+    return this.getAll<SafeExecutionRecord>(
+      `SELECT * FROM safe_executions
+       WHERE chain_id = ? AND safe_address = ?
+       ORDER BY block_number DESC LIMIT ?`,
+      [chainId, address.toLowerCase(), limit]
+    ).map((row) => ({
+      chainId: row.chain_id,
+      safeAddress: row.safe_address,
+      safeTxHash: row.safe_tx_hash,
+      transactionHash: row.transaction_hash,
+      blockNumber: row.block_number,
+      success: row.success === 1,
+      payment: BigInt(row.payment),
+      ...(row.to_address !== null ? { to: row.to_address } : {}),
+      ...(row.value !== null ? { value: BigInt(row.value) } : {}),
+      ...(row.operation !== null
+        ? { operation: row.operation === 1 ? (1 as const) : (0 as const) }
+        : {}),
+    }));
+  }
+
+  private toState(row: SafeStateRecord): SafeState {
+    return {
+      chainId: row.chain_id,
+      address: row.safe_address,
+      owners: JSON.parse(row.owners) as string[],
+      threshold: row.threshold,
+      nonce: row.nonce,
+      blockNumber: row.block_number,
+      timestamp: new Date(row.timestamp).getTime(),
+    };
+  }
+}
@@ -0,0 +1,108 @@
+import { randomUUID } from 'crypto';
+
+import type { StressResultStore } from '../../services/stress/StressTester';
+import { StressTestRecord } from '../../types/database';
+import { StressTestResult } from '../../types/stress';
+
+import { BaseRepository } from './BaseRepository';
+
+/**
+ * Stress test outcomes per agent run, so resilience can be followed scenario by scenario
+ */
+export class StressTestRepository
+  extends BaseRepository<StressTestRecord>
+  implements StressResultStore
+{
+  constructor() {
+    super('stress_test_results');
+  }
+
+  protected createTable(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS stress_test_results (
+        id TEXT PRIMARY KEY,
+        run_id TEXT,
+        scenario TEXT NOT NULL,
+        tested_at TEXT NOT NULL,
+        baseline_value_usd REAL NOT NULL,
+        post_shock_value_usd REAL NOT NULL,
+        value_change REAL NOT NULL,
+        lcr_ratio REAL,
+        risk_score REAL NOT NULL,
+        risk_level TEXT NOT NULL CHECK(risk_level IN ('low', 'medium', 'high', 'critical')),
+        baseline_risk_level TEXT NOT NULL,
+        result TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_stress_results_run ON stress_test_results(run_id);
+      CREATE INDEX IF NOT EXISTS idx_stress_results_scenario ON stress_test_results(scenario, tested_at);
+    `);
+  }
+
+  saveStressResults(results: StressTestResult[]): void {
+    const now = new Date().toISOString();
+
+    this.transaction(() => {
+      for (const result of results) {
+        this.runQuery(
+          `INSERT INTO stress_test_results (id, run_id, scenario, tested_at, baseline_value_usd, post_shock_value_usd, value_change, lcr_ratio, risk_score, risk_level, baseline_risk_level, result, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            randomUUID(),
+            result.runId,
+            result.scenario,
+            result.testedAt.toISOString(),
+            result.baselineValueUsd,
+            result.postShockValueUsd,
+            result.valueChange,
+            // An LCR with no projected outflows is unbounded; store it as NULL
+            Number.isFinite(result.lcr.ratio) ? result.lcr.ratio : null,
+            result.riskScore,
+            result.riskLevel,
+            result.baselineRiskLevel,
+            JSON.stringify(result),
+            now,
+          ]
+        );
+      }
+    });
+  }
+
+  findByRunId(runId: string): StressTestResult[] {
+    return this.getAll<StressTestRecord>(
+      'SELECT * FROM stress_test_results WHERE run_id = ? ORDER BY scenario ASC',
+      [runId]
+    ).map(toResult);
+  }
+
+  /**
+   * One scenario's results over time, oldest first
+   */
+  getHistory(scenario: string, since?: Date): StressTestResult[] {
+    return this.getAll<StressTestRecord>(
+      `SELECT * FROM stress_test_results
+       WHERE scenario = ? AND tested_at >= ?
+       ORDER BY tested_at ASC`,
+      [scenario, (since ?? new Date(0)).toISOString()]
+    ).map(toResult);
+  }
+}
+
+/**
+ * JSON turns unbounded ratios and hours into null; they come back as Infinity
+ */
+function toResult(record: StressTestRecord): StressTestResult {
+  const result = JSON.parse(record.result) as StressTestResult;
+  const unbounded = (value: number | null): number => value ?? Infinity;
+  return {
+    ...result,
+    testedAt: new Date(record.tested_at),
+    lcr: { ...result.lcr, ratio: unbounded(record.lcr_ratio) },
+    exitHalfLives: result.exitHalfLives.map((exit) => ({
+      ...exit,
+      halfLifeHours: unbounded(exit.halfLifeHours),
+      fullExitHours: unbounded(exit.fullExitHours),
+    })),
+  };
+}
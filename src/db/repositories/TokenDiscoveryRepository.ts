@@ -0,0 +1,82 @@
+import type { DiscoveredToken, DiscoveryStore } from '../../services/treasury/TokenDiscovery';
+import { DiscoveredTokenRecord, DiscoveryCursorRecord } from '../../types/database';
+import { ChainId } from '../../types/treasury';
+
+import { BaseRepository } from './BaseRepository';
+
+/**
+ * Tokens found by Transfer-log discovery and the per-wallet block cursor, written together so
+ * an interrupted scan resumes after the last completed chunk
+ */
+export class TokenDiscoveryRepository
+  extends BaseRepository<DiscoveredTokenRecord>
+  implements DiscoveryStore
+{
+  constructor() {
+    super('discovered_tokens');
+  }
+
+  protected createTable(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS discovered_tokens (
+        chain_id INTEGER NOT NULL,
+        wallet_address TEXT NOT NULL,
+        token_address TEXT NOT NULL,
+        first_seen_block INTEGER NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (chain_id, wallet_address, token_address)
+      );
+
+      CREATE TABLE IF NOT EXISTS discovery_cursors (
+        chain_id INTEGER NOT NULL,
+        wallet_address TEXT NOT NULL,
+        last_scanned_block INTEGER NOT NULL,
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (chain_id, wallet_address)
+      );
+    `);
+  }
+
+  getCursor(chainId: ChainId, walletAddress: string): number | undefined {
+    const row = this.getOne<DiscoveryCursorRecord>(
+      'SELECT * FROM discovery_cursors WHERE chain_id = ? AND wallet_address = ?',
+      [chainId, walletAddress.toLowerCase()]
+    );
+    return row?.last_scanned_block;
+  }
+
+  saveProgress(
+    chainId: ChainId,
+    walletAddress: string,
+    lastScannedBlock: number,
+    tokens: DiscoveredToken[]
+  ): void {
+    const wallet = walletAddress.toLowerCase();
+    const now = new Date().toISOString();
+
+    this.transaction(() => {
+      for (const token of tokens) {
+        // A token already on record keeps the block it was first seen in
+        this.runQuery(
+          `INSERT OR IGNORE INTO discovered_tokens (chain_id, wallet_address, token_address, first_seen_block, created_at)
+           VALUES (?, ?, ?, ?, ?)`,
+          [chainId, wallet, token.address.toLowerCase(), token.firstSeenBlock, now]
+        );
+      }
+      this.runQuery(
+        `INSERT OR REPLACE INTO discovery_cursors (chain_id, wallet_address, last_scanned_block, updated_at)
+         VALUES (?, ?, ?, ?)`,
+        [chainId, wallet, lastScannedBlock, now]
+      );
+    });
+  }
+
+  getTokens(chainId: ChainId, walletAddress: string): string[] {
+    return this.getAll<Pick<DiscoveredTokenRecord, 'token_address'>>(
+      `SELECT token_address FROM discovered_tokens
+       WHERE chain_id = ? AND wallet_address = ?
+       ORDER BY first_seen_block`,
+      [chainId, walletAddress.toLowerCase()]
+    ).map((row) => row.token_address);
+  }
+}
@@ -0,0 +1,64 @@
+import { TokenMetadataRecord } from '../../types/database';
+import { ChainId, TokenMetadata, TokenMetadataCache } from '../../types/treasury';
+
+import { BaseRepository } from './BaseRepository';
+
+export class TokenMetadataRepository
+  extends BaseRepository<TokenMetadataRecord>
+  implements TokenMetadataCache
+{
+  constructor() {
+    super('token_metadata');
+  }
+
+  protected createTable(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS token_metadata (
+        chain_id INTEGER NOT NULL,
+        token_address TEXT NOT NULL,
+        symbol TEXT NOT NULL,
+        decimals INTEGER NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (chain_id, token_address)
+      );
+    `);
+  }
+
+  get(chainId: ChainId, tokenAddress: string): TokenMetadata | undefined {
+    const row = this.getOne<TokenMetadataRecord>(
+      'SELECT * FROM token_metadata WHERE chain_id = ? AND token_address = ?',
+      [chainId, tokenAddress.toLowerCase()]
+    );
+    return row ? this.toMetadata(row) : undefined;
+  }
+
+  save(metadata: TokenMetadata): void {
+    this.runQuery(
+      `INSERT OR REPLACE INTO token_metadata (chain_id, token_address, symbol, decimals, created_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [
+        metadata.chainId,
+        metadata.address.toLowerCase(),
+        metadata.symbol,
+        metadata.decimals,
+        new Date().toISOString(),
+      ]
+    );
+  }
+
+  findByChain(chainId: ChainId): TokenMetadata[] {
+    return this.getAll<TokenMetadataRecord>(
+      'SELECT * FROM token_metadata WHERE chain_id = ? ORDER BY symbol',
+      [chainId]
+    ).map((row) => this.toMetadata(row));
+  }
+
+  private toMetadata(row: TokenMetadataRecord): TokenMetadata {
+    return {
+      chainId: row.chain_id,
+      address: row.token_address,
+      symbol: row.symbol,
+      decimals: row.decimals,
+    };
+  }
+}
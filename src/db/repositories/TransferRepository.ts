@@ -0,0 +1,255 @@
+import type { TransferStore } from '../../services/treasury/TransferAnomalyDetector';
+import {
+  AddressBookRecord,
+  OutboundTransferRecord,
+  TransferBaselineRecord,
+  TransferCursorRecord,
+} from '../../types/database';
+import {
+  AddressBookEntry,
+  ChainId,
+  OutboundTransfer,
+  TransferAnomalyReason,
+  TransferBaseline,
+} from '../../types/treasury';
+
+import { BaseRepository } from './BaseRepository';
+
+/**
+ * Outbound treasury transfers, the baselines learned from them, the per-treasury scan cursor
+ * and the address book of known recipients
+ */
+export class TransferRepository
+  extends BaseRepository<OutboundTransferRecord>
+  implements TransferStore
+{
+  constructor() {
+    super('outbound_transfers');
+  }
+
+  protected createTable(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS outbound_transfers (
+        chain_id INTEGER NOT NULL,
+        treasury_address TEXT NOT NULL,
+        token_address TEXT NOT NULL,
+        token_symbol TEXT NOT NULL,
+        decimals INTEGER NOT NULL,
+        recipient TEXT NOT NULL,
+        amount_raw TEXT NOT NULL,
+        usd_value REAL,
+        block_number INTEGER NOT NULL,
+        transaction_hash TEXT NOT NULL,
+        log_index INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        anomalies TEXT NOT NULL DEFAULT '[]',
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (chain_id, transaction_hash, token_address, log_index)
+      );
+
+      CREATE TABLE IF NOT EXISTS transfer_baselines (
+        chain_id INTEGER NOT NULL,
+        treasury_address TEXT NOT NULL,
+        token_address TEXT NOT NULL,
+        count INTEGER NOT NULL,
+        mean_log REAL NOT NULL,
+        m2_log REAL NOT NULL,
+        max_amount REAL NOT NULL,
+        first_seen INTEGER NOT NULL,
+        last_seen INTEGER NOT NULL,
+        recipients TEXT NOT NULL,
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (chain_id, treasury_address, token_address)
+      );
+
+      CREATE TABLE IF NOT EXISTS transfer_cursors (
+        chain_id INTEGER NOT NULL,
+        treasury_address TEXT NOT NULL,
+        last_scanned_block INTEGER NOT NULL,
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (chain_id, treasury_address)
+      );
+
+      CREATE TABLE IF NOT EXISTS address_book (
+        address TEXT NOT NULL,
+        chain_id INTEGER NOT NULL DEFAULT 0,
+        label TEXT NOT NULL,
+        max_amount_usd REAL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (address, chain_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_outbound_transfers_time ON outbound_transfers(chain_id, treasury_address, token_address, timestamp);
+    `);
+  }
+
+  getBaseline(chainId: ChainId, address: string, token: string): TransferBaseline | undefined {
+    const row = this.getOne<TransferBaselineRecord>(
+      `SELECT * FROM transfer_baselines
+       WHERE chain_id = ? AND treasury_address = ? AND token_address = ?`,
+      [chainId, address.toLowerCase(), token.toLowerCase()]
+    );
+    if (!row) {
+      return undefined;
+    }
+    return {
+      chainId: row.chain_id,
+      treasuryAddress: row.treasury_address,
+      token: row.token_address,
+      count: row.count,
+      meanLog: row.mean_log,
+      m2Log: row.m2_log,
+      maxAmount: row.max_amount,
+      firstSeen: row.first_seen,
+      lastSeen: row.last_seen,
+      recipients: JSON.parse(row.recipients) as Record<string, number>,
+    };
+  }
+
+  getTransferCursor(chainId: ChainId, address: string): number | undefined {
+    const row = this.getOne<TransferCursorRecord>(
+      'SELECT * FROM transfer_cursors WHERE chain_id = ? AND treasury_address = ?',
+      [chainId, address.toLowerCase()]
+    );
+    return row?.last_scanned_block;
+  }
+
+  countTransfersSince(chainId: ChainId, address: string, token: string, sinceMs: number): number {
+    const row = this.getOne<{ count: number }>(
+      `SELECT COUNT(*) as count FROM outbound_transfers
+       WHERE chain_id = ? AND treasury_address = ? AND token_address = ? AND timestamp >= ?`,
+      [chainId, address.toLowerCase(), token.toLowerCase(), sinceMs]
+    );
+    return row?.count ?? 0;
+  }
+
+  saveTransfers(
+    transfers: OutboundTransfer[],
+    baselines: TransferBaseline[],
+    cursor?: { chainId: ChainId; address: string; lastScannedBlock: number }
+  ): void {
+    const now = new Date().toISOString();
+
+    this.transaction(() => {
+      for (const transfer of transfers) {
+        this.runQuery(
+          `INSERT OR IGNORE INTO outbound_transfers (chain_id, treasury_address, token_address, token_symbol, decimals, recipient, amount_raw, usd_value, block_number, transaction_hash, log_index, timestamp, anomalies, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            transfer.chainId,
+            transfer.treasuryAddress.toLowerCase(),
+            transfer.token.toLowerCase(),
+            transfer.symbol,
+            transfer.decimals,
+            transfer.recipient.toLowerCase(),
+            transfer.amount.toString(),
+            transfer.usdValue ?? null,
+            transfer.blockNumber,
+            transfer.transactionHash,
+            transfer.logIndex,
+            transfer.timestamp,
+            JSON.stringify(transfer.anomalies),
+            now,
+          ]
+        );
+      }
+      for (const baseline of baselines) {
+        this.runQuery(
+          `INSERT OR REPLACE INTO transfer_baselines (chain_id, treasury_address, token_address, count, mean_log, m2_log, max_amount, first_seen, last_seen, recipients, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            baseline.chainId,
+            baseline.treasuryAddress.toLowerCase(),
+            baseline.token.toLowerCase(),
+            baseline.count,
+            baseline.meanLog,
+            baseline.m2Log,
+            baseline.maxAmount,
+            baseline.firstSeen,
+            baseline.lastSeen,
+            JSON.stringify(baseline.recipients),
+            now,
+          ]
+        );
+      }
+      if (cursor) {
+        this.runQuery(
+          `INSERT OR REPLACE INTO transfer_cursors (chain_id, treasury_address, last_scanned_block, updated_at)
+           VALUES (?, ?, ?, ?)`,
+          [cursor.chainId, cursor.address.toLowerCase(), cursor.lastScannedBlock, now]
+        );
+      }
+    });
+  }
+
+  /**
+   * Outbound transfers of a treasury, newest first; with `anomalousOnly`, only flagged ones
+   */
+  getTransfers(
+    chainId: ChainId,
+    address: string,
+    options: { limit?: number; anomalousOnly?: boolean } = {}
+  ): OutboundTransfer[] {
+    let limit = options.limit ?? 100;
+    if (limit <= 0 || limit > 10000) {
+      limit = 100;
+    }
+    return this.getAll<OutboundTransferRecord>(
+      `SELECT * FROM outbound_transfers
+       WHERE chain_id = ? AND treasury_address = ?${options.anomalousOnly === true ? " AND anomalies != '[]'" : ''}
+       ORDER BY block_number DESC, log_index DESC LIMIT ?`,
+      [chainId, address.toLowerCase(), limit]
+    ).map((row) => ({
+      chainId: row.chain_id,
+      treasuryAddress: row.treasury_address,
+      token: row.token_address,
+      symbol: row.token_symbol,
+      decimals: row.decimals,
+      recipient: row.recipient,
+      amount: BigInt(row.amount_raw),
+      ...(row.usd_value !== null ? { usdValue: row.usd_value } : {}),
+      blockNumber: row.block_number,
+      transactionHash: row.transaction_hash,
+      logIndex: row.log_index,
+      timestamp: row.timestamp,
+      anomalies: JSON.parse(row.anomalies) as TransferAnomalyReason[],
+    }));
+  }
+
+  /**
+   * Entries for the chain plus those that apply to every chain
+   */
+  getAddressBook(chainId: ChainId): AddressBookEntry[] {
+    return this.getAll<AddressBookRecord>(
+      'SELECT * FROM address_book WHERE chain_id IN (0, ?) ORDER BY label ASC',
+      [chainId]
+    ).map((row) => ({
+      address: row.address,
+      label: row.label,
+      ...(row.chain_id !== 0 ? { chainId: row.chain_id } : {}),
+      ...(row.max_amount_usd !== null ? { maxAmountUsd: row.max_amount_usd } : {}),
+    }));
+  }
+
+  saveAddressBookEntry(entry: AddressBookEntry): void {
+    this.runQuery(
+      `INSERT OR REPLACE INTO address_book (address, chain_id, label, max_amount_usd, created_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [
+        entry.address.toLowerCase(),
+        entry.chainId ?? 0,
+        entry.label,
+        entry.maxAmountUsd ?? null,
+        new Date().toISOString(),
+      ]
+    );
+  }
+
+  removeAddressBookEntry(address: string, chainId?: ChainId): boolean {
+    const result = this.runQuery<{ changes: number }>(
+      'DELETE FROM address_book WHERE address = ? AND chain_id = ?',
+      [address.toLowerCase(), chainId ?? 0]
+    );
+    return result.changes > 0;
+  }
+}
@@ -1,8 +1,16 @@
 import { v4 as uuidv4 } from 'uuid';
+
+import type { ReorgStore, StoredSnapshotBlock } from '../../services/treasury/ReorgMonitor';
+import type { BackfillCursor, BackfillStore } from '../../services/treasury/SnapshotBackfill';
+import { SnapshotBackfillRecord, TreasurySnapshotRecord } from '../../types/database';
+import { BlockFinality, ChainId, TreasurySnapshot } from '../../types/treasury';
+
 import { BaseRepository } from './BaseRepository';
-import { TreasurySnapshotRecord } from '../../types/database';
 
-export class TreasuryRepository extends BaseRepository<TreasurySnapshotRecord> {
+export class TreasuryRepository
+  extends BaseRepository<TreasurySnapshotRecord>
+  implements BackfillStore, ReorgStore
+{
   constructor() {
     super('treasury_snapshots');
   }
@@ -11,6 +19,7 @@ export class TreasuryRepository extends BaseRepository<TreasurySnapshotRecord> {
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS treasury_snapshots (
         id TEXT PRIMARY KEY,
+        snapshot_id TEXT,
         timestamp TEXT NOT NULL,
         chain_id INTEGER NOT NULL,
         address TEXT NOT NULL,
@@ -20,6 +29,9 @@ export class TreasuryRepository extends BaseRepository<TreasurySnapshotRecord> {
         balance_formatted REAL NOT NULL,
         balance_usd REAL,
         block_number INTEGER NOT NULL,
+        block_hash TEXT,
+        finality TEXT,
+        invalidated_at TEXT,
         created_at TEXT NOT NULL DEFAULT (datetime('now'))
       );
 
@@ -27,10 +39,35 @@ export class TreasuryRepository extends BaseRepository<TreasurySnapshotRecord> {
       CREATE INDEX IF NOT EXISTS idx_treasury_timestamp ON treasury_snapshots(timestamp);
       CREATE INDEX IF NOT EXISTS idx_treasury_token ON treasury_snapshots(token_address);
       CREATE INDEX IF NOT EXISTS idx_treasury_block ON treasury_snapshots(chain_id, block_number);
+
+      CREATE TABLE IF NOT EXISTS snapshot_backfills (
+        job_id TEXT PRIMARY KEY,
+        chain_id INTEGER NOT NULL,
+        address TEXT NOT NULL,
+        start_timestamp INTEGER NOT NULL,
+        end_timestamp INTEGER NOT NULL,
+        interval_ms INTEGER NOT NULL,
+        next_timestamp INTEGER NOT NULL,
+        last_block INTEGER,
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
     `);
+
+    // Tables created before snapshot grouping and finality tracking lack these columns
+    const columns = this.db.pragma('table_info(treasury_snapshots)') as Array<{ name: string }>;
+    for (const column of ['snapshot_id', 'block_hash', 'finality', 'invalidated_at']) {
+      if (!columns.some((existing) => existing.name === column)) {
+        this.db.exec(`ALTER TABLE treasury_snapshots ADD COLUMN ${column} TEXT`);
+      }
+    }
+    this.db.exec(
+      'CREATE INDEX IF NOT EXISTS idx_treasury_snapshot_id ON treasury_snapshots(snapshot_id)'
+    );
   }
 
-  create(snapshot: Omit<TreasurySnapshotRecord, 'id' | 'created_at'>): TreasurySnapshotRecord {
+  create(
+    snapshot: Omit<TreasurySnapshotRecord, 'id' | 'invalidated_at' | 'created_at'>
+  ): TreasurySnapshotRecord {
     const id = uuidv4();
     const now = new Date().toISOString();
 
@@ -46,10 +83,11 @@ export class TreasuryRepository extends BaseRepository<TreasurySnapshotRecord> {
     }
 
     this.runQuery(
-      `INSERT INTO treasury_snapshots (id, timestamp, chain_id, address, token_address, token_symbol, balance_raw, balance_formatted, balance_usd, block_number, created_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO treasury_snapshots (id, snapshot_id, timestamp, chain_id, address, token_address, token_symbol, balance_raw, balance_formatted, balance_usd, block_number, block_hash, finality, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         id,
+        snapshot.snapshot_id ?? null,
         snapshot.timestamp,
         snapshot.chain_id,
         snapshot.address.toLowerCase(),
@@ -59,6 +97,8 @@ export class TreasuryRepository extends BaseRepository<TreasurySnapshotRecord> {
         snapshot.balance_formatted,
         snapshot.balance_usd ?? null,
         snapshot.block_number,
+        snapshot.block_hash?.toLowerCase() ?? null,
+        snapshot.finality,
         now,
       ]
     );
@@ -70,6 +110,192 @@ export class TreasuryRepository extends BaseRepository<TreasurySnapshotRecord> {
     return record;
   }
 
+  /**
+   * Store every token balance of a monitor snapshot under one snapshot ID.
+   * Pass the ID of an earlier call to group the chains of a multi-chain snapshot.
+   */
+  createSnapshot(
+    snapshot: TreasurySnapshot,
+    snapshotId: string = uuidv4()
+  ): { snapshotId: string; records: TreasurySnapshotRecord[] } {
+    const timestamp = new Date(snapshot.timestamp).toISOString();
+    const records = this.transaction(() =>
+      snapshot.balances.map((balance) =>
+        this.create({
+          snapshot_id: snapshotId,
+          timestamp,
+          chain_id: snapshot.chainId,
+          address: snapshot.address,
+          token_address: balance.token,
+          token_symbol: balance.symbol,
+          balance_raw: balance.balance.toString(),
+          balance_formatted: Number(balance.balance) / 10 ** balance.decimals,
+          balance_usd: balance.usdValue,
+          block_number: snapshot.blockNumber,
+          block_hash: snapshot.blockHash,
+          finality: snapshot.finality,
+        })
+      )
+    );
+    return { snapshotId, records };
+  }
+
+  getBackfill(jobId: string): BackfillCursor | undefined {
+    const row = this.getOne<SnapshotBackfillRecord>(
+      'SELECT * FROM snapshot_backfills WHERE job_id = ?',
+      [jobId]
+    );
+    if (!row) {
+      return undefined;
+    }
+    return {
+      jobId: row.job_id,
+      chainId: row.chain_id,
+      address: row.address,
+      startTimestamp: row.start_timestamp,
+      endTimestamp: row.end_timestamp,
+      intervalMs: row.interval_ms,
+      nextTimestamp: row.next_timestamp,
+      ...(row.last_block !== null ? { lastBlock: row.last_block } : {}),
+    };
+  }
+
+  /**
+   * Store a backfilled snapshot (if any) and advance the backfill cursor in one transaction,
+   * so a resumed backfill neither repeats nor drops a point
+   */
+  saveBackfillPoint(cursor: BackfillCursor, snapshot?: TreasurySnapshot): void {
+    this.transaction(() => {
+      if (snapshot) {
+        this.createSnapshot(snapshot);
+      }
+      this.runQuery(
+        `INSERT OR REPLACE INTO snapshot_backfills (job_id, chain_id, address, start_timestamp, end_timestamp, interval_ms, next_timestamp, last_block, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          cursor.jobId,
+          cursor.chainId,
+          cursor.address.toLowerCase(),
+          cursor.startTimestamp,
+          cursor.endTimestamp,
+          cursor.intervalMs,
+          cursor.nextTimestamp,
+          cursor.lastBlock ?? null,
+          new Date().toISOString(),
+        ]
+      );
+    });
+  }
+
+  /**
+   * Grouped snapshots of a treasury whose block is not yet finalized, oldest block first.
+   * Rows without a block hash cannot be rechecked and are left out.
+   */
+  getUnfinalizedSnapshots(
+    chainId: ChainId,
+    address: string,
+    limit: number = 500
+  ): StoredSnapshotBlock[] {
+    if (limit <= 0 || limit > 10000) {
+      limit = 500;
+    }
+    return this.getAll<{
+      snapshot_id: string;
+      chain_id: number;
+      address: string;
+      block_number: number;
+      block_hash: string;
+      finality: string | null;
+      invalidated: number;
+    }>(
+      `SELECT snapshot_id, chain_id, address, block_number, block_hash, finality,
+         MAX(invalidated_at IS NOT NULL) as invalidated
+       FROM treasury_snapshots
+       WHERE chain_id = ? AND address = ? AND snapshot_id IS NOT NULL AND block_hash IS NOT NULL
+         AND (finality IS NULL OR finality != 'finalized')
+       GROUP BY snapshot_id, chain_id, address, block_number, block_hash, finality
+       ORDER BY block_number ASC LIMIT ?`,
+      [chainId, address.toLowerCase(), limit]
+    ).map((row) => ({
+      snapshotId: row.snapshot_id,
+      chainId: row.chain_id,
+      address: row.address,
+      blockNumber: row.block_number,
+      blockHash: row.block_hash,
+      finality: (row.finality ?? 'latest') as BlockFinality,
+      invalidated: row.invalidated === 1,
+    }));
+  }
+
+  setSnapshotFinality(snapshotId: string, chainId: ChainId, finality: BlockFinality): void {
+    this.runQuery(
+      'UPDATE treasury_snapshots SET finality = ? WHERE snapshot_id = ? AND chain_id = ?',
+      [finality, snapshotId, chainId]
+    );
+  }
+
+  /**
+   * Flag a snapshot's rows as reorged; flagged rows are left out of history queries
+   */
+  invalidateSnapshot(snapshotId: string, chainId: ChainId): number {
+    const result = this.runQuery<{ changes: number }>(
+      `UPDATE treasury_snapshots SET invalidated_at = ?
+       WHERE snapshot_id = ? AND chain_id = ? AND invalidated_at IS NULL`,
+      [new Date().toISOString(), snapshotId, chainId]
+    );
+    return result.changes;
+  }
+
+  /**
+   * Swap a snapshot's rows on one chain for a recomputed snapshot, keeping the original
+   * time so the series it belongs to stays in order
+   */
+  replaceSnapshot(snapshotId: string, snapshot: TreasurySnapshot): void {
+    this.transaction(() => {
+      const previous = this.getOne<{ timestamp: string | null }>(
+        'SELECT MIN(timestamp) as timestamp FROM treasury_snapshots WHERE snapshot_id = ? AND chain_id = ?',
+        [snapshotId, snapshot.chainId]
+      );
+      this.runQuery('DELETE FROM treasury_snapshots WHERE snapshot_id = ? AND chain_id = ?', [
+        snapshotId,
+        snapshot.chainId,
+      ]);
+      const timestamp =
+        typeof previous?.timestamp === 'string'
+          ? Date.parse(previous.timestamp)
+          : snapshot.timestamp;
+      this.createSnapshot({ ...snapshot, timestamp }, snapshotId);
+    });
+  }
+
+  findBySnapshotId(snapshotId: string): TreasurySnapshotRecord[] {
+    return this.getAll<TreasurySnapshotRecord>(
+      `SELECT * FROM treasury_snapshots 
+       WHERE snapshot_id = ? 
+       ORDER BY chain_id ASC, token_symbol ASC`,
+      [snapshotId]
+    );
+  }
+
+  /**
+   * Total USD value of each grouped snapshot across all chains, newest first
+   */
+  getSnapshotTotals(
+    limit: number = 100
+  ): Array<{ snapshot_id: string; timestamp: string; total_usd: number }> {
+    if (limit <= 0 || limit > 10000) {
+      limit = 100;
+    }
+    return this.getAll<{ snapshot_id: string; timestamp: string; total_usd: number }>(
+      `SELECT snapshot_id, MIN(timestamp) as timestamp, COALESCE(SUM(balance_usd), 0) as total_usd
+       FROM treasury_snapshots
+       WHERE snapshot_id IS NOT NULL AND invalidated_at IS NULL
+       GROUP BY snapshot_id
+       ORDER BY timestamp DESC LIMIT ?`,
+      [limit]
+    );
+  }
+
   findByChainAndAddress(
     chainId: number,
     address: string,
@@ -80,7 +306,7 @@ export class TreasuryRepository extends BaseRepository<TreasurySnapshotRecord> {
     }
     return this.getAll<TreasurySnapshotRecord>(
       `SELECT * FROM treasury_snapshots 
-       WHERE chain_id = ? AND address = ? 
+       WHERE chain_id = ? AND address = ? AND invalidated_at IS NULL
        ORDER BY timestamp DESC LIMIT ?`,
       [chainId, address.toLowerCase(), limit]
     );
@@ -92,7 +318,7 @@ export class TreasuryRepository extends BaseRepository<TreasurySnapshotRecord> {
     }
     return this.getAll<TreasurySnapshotRecord>(
       `SELECT * FROM treasury_snapshots 
-       WHERE token_address = ? 
+       WHERE token_address = ? AND invalidated_at IS NULL
        ORDER BY timestamp DESC LIMIT ?`,
       [tokenAddress.toLowerCase(), limit]
     );
@@ -105,7 +331,7 @@ export class TreasuryRepository extends BaseRepository<TreasurySnapshotRecord> {
   ): TreasurySnapshotRecord | undefined {
     return this.getOne<TreasurySnapshotRecord>(
       `SELECT * FROM treasury_snapshots 
-       WHERE chain_id = ? AND address = ? AND token_address = ? 
+       WHERE chain_id = ? AND address = ? AND token_address = ? AND invalidated_at IS NULL
        ORDER BY timestamp DESC LIMIT 1`,
       [chainId, address.toLowerCase(), tokenAddress.toLowerCase()]
     );
@@ -120,7 +346,7 @@ export class TreasuryRepository extends BaseRepository<TreasurySnapshotRecord> {
     return this.getAll<TreasurySnapshotRecord>(
       `SELECT * FROM treasury_snapshots 
        WHERE chain_id = ? AND address = ? 
-       AND timestamp >= ? AND timestamp < ? 
+       AND timestamp >= ? AND timestamp < ? AND invalidated_at IS NULL
        ORDER BY timestamp ASC`,
       [chainId, address.toLowerCase(), startTime, endTime]
     );
@@ -134,7 +360,7 @@ export class TreasuryRepository extends BaseRepository<TreasurySnapshotRecord> {
           PARTITION BY token_address ORDER BY timestamp DESC
         ) as rn
         FROM treasury_snapshots
-        WHERE chain_id = ? AND address = ? AND balance_usd IS NOT NULL
+        WHERE chain_id = ? AND address = ? AND balance_usd IS NOT NULL AND invalidated_at IS NULL
       ) WHERE rn = 1`,
       [chainId, address.toLowerCase()]
     );
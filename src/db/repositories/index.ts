@@ -2,3 +2,11 @@ export { BaseRepository } from './BaseRepository';
 export { PaymentRepository } from './PaymentRepository';
 export { TreasuryRepository } from './TreasuryRepository';
 export { AgentRunRepository, AgentRunSummary } from './AgentRunRepository';
+export { LiquidityAssessmentRepository } from './LiquidityAssessmentRepository';
+export { EscalationEventRepository } from './EscalationEventRepository';
+export { TokenMetadataRepository } from './TokenMetadataRepository';
+export { TokenDiscoveryRepository } from './TokenDiscoveryRepository';
+export { SafeRepository } from './SafeRepository';
+export { TransferRepository } from './TransferRepository';
+export { PegRepository } from './PegRepository';
+export { StressTestRepository } from './StressTestRepository';
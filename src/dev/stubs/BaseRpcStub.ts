@@ -0,0 +1,416 @@
+/**
+ * Fake Base JSON-RPC endpoint
+ * Serves an in-memory chain of USDC Transfer logs so settlement verification runs offline
+ */
+
+import { createHash } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+import {
+  decodeFunctionData,
+  erc20Abi,
+  keccak256,
+  parseTransaction,
+  recoverTransactionAddress,
+  TransactionSerialized,
+} from 'viem';
+
+import { BASE_CHAIN_ID, BASE_USDC_ADDRESS, USDC_DECIMALS } from '../../services/payments/types';
+
+export const TRANSFER_EVENT_TOPIC =
+  '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+export interface BaseRpcStubOptions {
+  port?: number;
+  chainId?: number;
+  usdcAddress?: string;
+  /** Unix seconds of block 0 */
+  genesisTimestamp?: number;
+  blockTimeSeconds?: number;
+  /** Blocks mined on every eth_blockNumber call, emulating a live chain between polls */
+  autoMineBlocks?: number;
+}
+
+export interface StubLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  blockHash: string;
+  transactionHash: string;
+  transactionIndex: string;
+  logIndex: string;
+  removed: boolean;
+}
+
+export interface StubReceipt {
+  transactionHash: string;
+  transactionIndex: string;
+  blockNumber: string;
+  blockHash: string;
+  from: string;
+  to: string;
+  status: '0x1' | '0x0';
+  gasUsed: string;
+  logs: StubLog[];
+}
+
+interface StubBlock {
+  number: number;
+  hash: string;
+  parentHash: string;
+  timestamp: number;
+}
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  method: string;
+  params?: unknown[];
+}
+
+interface LogFilter {
+  address?: string | string[];
+  topics?: Array<string | string[] | null>;
+  fromBlock?: string;
+  toBlock?: string;
+}
+
+type JsonRpcHandler = (params: unknown[]) => unknown;
+
+const BASE_FEE_PER_GAS = 10_000_000n; // 0.01 gwei
+const PRIORITY_FEE_PER_GAS = 1_000_000n;
+const TRANSFER_GAS = 52_000;
+
+export class JsonRpcStubError extends Error {
+  constructor(
+    public readonly code: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'JsonRpcStubError';
+  }
+}
+
+export class BaseRpcStub {
+  private options: Required<Omit<BaseRpcStubOptions, 'port'>> & { port: number };
+  private server: Server | null = null;
+  private blocks: StubBlock[] = [];
+  private receipts: Map<string, StubReceipt> = new Map();
+  private logs: StubLog[] = [];
+  private txCounter = 0;
+  private nonces: Map<string, number> = new Map();
+  protected handlers: Map<string, JsonRpcHandler> = new Map();
+
+  constructor(options: BaseRpcStubOptions = {}) {
+    this.options = {
+      port: options.port ?? 0,
+      chainId: options.chainId ?? BASE_CHAIN_ID,
+      usdcAddress: (options.usdcAddress ?? BASE_USDC_ADDRESS).toLowerCase(),
+      genesisTimestamp: options.genesisTimestamp ?? Math.floor(Date.now() / 1000),
+      blockTimeSeconds: options.blockTimeSeconds ?? 2,
+      autoMineBlocks: options.autoMineBlocks ?? 0,
+    };
+    this.mine(1);
+    this.registerDefaultHandlers();
+  }
+
+  async start(): Promise<string> {
+    if (this.server) {
+      return this.getUrl();
+    }
+    this.server = createServer((req, res) => void this.handleHttp(req, res));
+    await new Promise<void>((resolve) =>
+      this.server?.listen(this.options.port, '127.0.0.1', resolve)
+    );
+    return this.getUrl();
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  getUrl(): string {
+    if (!this.server) {
+      throw new Error('BaseRpcStub is not running');
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  getUsdcAddress(): string {
+    return this.options.usdcAddress;
+  }
+
+  getBlockNumber(): number {
+    return this.latestBlock().number;
+  }
+
+  /**
+   * Mine empty blocks, returning the new head number
+   */
+  mine(count: number = 1): number {
+    for (let i = 0; i < count; i++) {
+      const parent = this.blocks[this.blocks.length - 1];
+      const number = parent ? parent.number + 1 : 0;
+      this.blocks.push({
+        number,
+        hash: this.deterministicHash(`block:${number}`),
+        parentHash: parent?.hash ?? `0x${'0'.repeat(64)}`,
+        timestamp: this.options.genesisTimestamp + number * this.options.blockTimeSeconds,
+      });
+    }
+    return this.getBlockNumber();
+  }
+
+  /**
+   * Include a USDC transfer in a freshly mined block and return its transaction hash
+   */
+  recordUsdcTransfer(from: string, to: string, amountUsdc: number): string {
+    const atomic = BigInt(Math.round(amountUsdc * 10 ** USDC_DECIMALS));
+    return this.recordTransfer(this.options.usdcAddress, from, to, atomic);
+  }
+
+  /**
+   * Include an ERC-20 Transfer log in a freshly mined block and return its transaction hash
+   */
+  recordTransfer(
+    token: string,
+    from: string,
+    to: string,
+    amount: bigint,
+    transactionHash: string = this.deterministicHash(`tx:${++this.txCounter}`)
+  ): string {
+    this.mine(1);
+    const block = this.latestBlock();
+
+    const log: StubLog = {
+      address: token.toLowerCase(),
+      topics: [TRANSFER_EVENT_TOPIC, padTopic(from), padTopic(to)],
+      data: `0x${amount.toString(16).padStart(64, '0')}`,
+      blockNumber: toHex(block.number),
+      blockHash: block.hash,
+      transactionHash,
+      transactionIndex: '0x0',
+      logIndex: toHex(this.logs.length),
+      removed: false,
+    };
+
+    this.logs.push(log);
+    this.receipts.set(transactionHash, {
+      transactionHash,
+      transactionIndex: '0x0',
+      blockNumber: log.blockNumber,
+      blockHash: block.hash,
+      from: from.toLowerCase(),
+      to: token.toLowerCase(),
+      status: '0x1',
+      gasUsed: toHex(52000),
+      logs: [log],
+    });
+
+    return transactionHash;
+  }
+
+  getReceipt(transactionHash: string): StubReceipt | undefined {
+    return this.receipts.get(transactionHash.toLowerCase());
+  }
+
+  /**
+   * Answer a single JSON-RPC call in-process (also used by the HTTP handler)
+   */
+  async call(method: string, params: unknown[] = []): Promise<unknown> {
+    const handler = this.handlers.get(method);
+    if (!handler) {
+      throw new JsonRpcStubError(-32601, `Method not found: ${method}`);
+    }
+    return await handler(params);
+  }
+
+  protected latestBlock(): StubBlock {
+    const block = this.blocks[this.blocks.length - 1];
+    if (!block) {
+      throw new Error('BaseRpcStub has no blocks');
+    }
+    return block;
+  }
+
+  protected deterministicHash(seed: string): string {
+    return `0x${createHash('sha256').update(`base-rpc-stub:${seed}`).digest('hex')}`;
+  }
+
+  private registerDefaultHandlers(): void {
+    this.handlers.set('eth_chainId', () => toHex(this.options.chainId));
+    this.handlers.set('net_version', () => String(this.options.chainId));
+    this.handlers.set('eth_blockNumber', () => {
+      if (this.options.autoMineBlocks > 0) {
+        this.mine(this.options.autoMineBlocks);
+      }
+      return toHex(this.getBlockNumber());
+    });
+    this.handlers.set('eth_getBlockByNumber', ([tag]) => {
+      const block = this.resolveBlock(tag);
+      return block
+        ? {
+            number: toHex(block.number),
+            hash: block.hash,
+            parentHash: block.parentHash,
+            timestamp: toHex(block.timestamp),
+            baseFeePerGas: toHex(BASE_FEE_PER_GAS),
+            gasLimit: toHex(30_000_000),
+            gasUsed: '0x0',
+            transactions: [],
+          }
+        : null;
+    });
+    this.handlers.set('eth_getTransactionReceipt', ([hash]) =>
+      typeof hash === 'string' ? (this.getReceipt(hash) ?? null) : null
+    );
+    this.handlers.set('eth_getLogs', ([filter]) => this.filterLogs((filter ?? {}) as LogFilter));
+
+    // Enough of the signing surface for viem's local-account writeContract flow
+    this.handlers.set('eth_getTransactionCount', ([address]) =>
+      toHex(typeof address === 'string' ? (this.nonces.get(address.toLowerCase()) ?? 0) : 0)
+    );
+    this.handlers.set('eth_getBalance', () => toHex(10n ** 18n));
+    this.handlers.set('eth_gasPrice', () => toHex(BASE_FEE_PER_GAS + PRIORITY_FEE_PER_GAS));
+    this.handlers.set('eth_maxPriorityFeePerGas', () => toHex(PRIORITY_FEE_PER_GAS));
+    this.handlers.set('eth_estimateGas', () => toHex(TRANSFER_GAS));
+    this.handlers.set('eth_sendRawTransaction', ([raw]) => this.sendRawTransaction(raw));
+  }
+
+  /**
+   * Accept a signed ERC-20 `transfer` and include it as a Transfer log from the recovered signer
+   */
+  private async sendRawTransaction(raw: unknown): Promise<string> {
+    if (typeof raw !== 'string' || !raw.startsWith('0x')) {
+      throw new JsonRpcStubError(-32602, 'Expected a hex-encoded signed transaction');
+    }
+    const serializedTransaction = raw as TransactionSerialized;
+    const transaction = parseTransaction(serializedTransaction);
+    if (transaction.to === undefined || transaction.to === null || transaction.data === undefined) {
+      throw new JsonRpcStubError(-32000, 'Only ERC-20 transfer calls are supported');
+    }
+
+    const from = (await recoverTransactionAddress({ serializedTransaction })).toLowerCase();
+    const expectedNonce = this.nonces.get(from) ?? 0;
+    if (transaction.nonce !== expectedNonce) {
+      throw new JsonRpcStubError(-32000, `nonce mismatch: expected ${expectedNonce}`);
+    }
+
+    const { functionName, args } = decodeFunctionData({ abi: erc20Abi, data: transaction.data });
+    if (functionName !== 'transfer') {
+      throw new JsonRpcStubError(-32000, `Unsupported ERC-20 call: ${functionName}`);
+    }
+
+    this.nonces.set(from, expectedNonce + 1);
+    const [to, amount] = args;
+    return this.recordTransfer(transaction.to, from, to, amount, keccak256(serializedTransaction));
+  }
+
+  private resolveBlock(tag: unknown): StubBlock | undefined {
+    if (tag === 'latest' || tag === 'safe' || tag === 'finalized' || tag === 'pending') {
+      return this.latestBlock();
+    }
+    if (tag === 'earliest') {
+      return this.blocks[0];
+    }
+    if (typeof tag === 'string') {
+      return this.blocks[parseInt(tag, 16)];
+    }
+    return undefined;
+  }
+
+  private filterLogs(filter: LogFilter): StubLog[] {
+    const fromBlock = this.resolveBlock(filter.fromBlock ?? 'earliest')?.number ?? 0;
+    const toBlock = this.resolveBlock(filter.toBlock ?? 'latest')?.number ?? this.getBlockNumber();
+    const addresses =
+      filter.address === undefined
+        ? null
+        : (Array.isArray(filter.address) ? filter.address : [filter.address]).map((a) =>
+            a.toLowerCase()
+          );
+
+    return this.logs.filter((log) => {
+      const blockNumber = parseInt(log.blockNumber, 16);
+      if (blockNumber < fromBlock || blockNumber > toBlock) return false;
+      if (addresses && !addresses.includes(log.address)) return false;
+
+      return (filter.topics ?? []).every((expected, index) => {
+        if (expected === null) return true;
+        const topic = log.topics[index]?.toLowerCase();
+        const candidates = Array.isArray(expected) ? expected : [expected];
+        return candidates.some((candidate) => candidate.toLowerCase() === topic);
+      });
+    });
+  }
+
+  private async handleHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'POST') {
+      res.writeHead(405).end();
+      return;
+    }
+
+    let payload: JsonRpcRequest | JsonRpcRequest[];
+    try {
+      payload = JSON.parse(await readBody(req)) as JsonRpcRequest | JsonRpcRequest[];
+    } catch {
+      this.sendJson(res, {
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32700, message: 'Parse error' },
+      });
+      return;
+    }
+
+    // Batches run sequentially so state changes apply in request order
+    let response: Record<string, unknown> | Array<Record<string, unknown>>;
+    if (Array.isArray(payload)) {
+      response = [];
+      for (const request of payload) {
+        response.push(await this.dispatch(request));
+      }
+    } else {
+      response = await this.dispatch(payload);
+    }
+    this.sendJson(res, response);
+  }
+
+  private async dispatch(request: JsonRpcRequest): Promise<Record<string, unknown>> {
+    try {
+      const result = await this.call(request.method, request.params ?? []);
+      return { jsonrpc: '2.0', id: request.id, result };
+    } catch (error) {
+      const code = error instanceof JsonRpcStubError ? error.code : -32603;
+      const message = error instanceof Error ? error.message : 'Internal error';
+      return { jsonrpc: '2.0', id: request.id, error: { code, message } };
+    }
+  }
+
+  private sendJson(res: ServerResponse, body: unknown): void {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
+
+export function toHex(value: number | bigint): string {
+  return `0x${value.toString(16)}`;
+}
+
+export function padTopic(address: string): string {
+  return `0x${address.slice(2).toLowerCase().padStart(64, '0')}`;
+}
+
+export function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
@@ -0,0 +1,327 @@
+/**
+ * Local Kaiko stand-in
+ * Issues HTTP 402 challenges priced like KaikoGateway.estimateCost, verifies the
+ * USDC settlement against a Base JSON-RPC endpoint, then serves deterministic market data
+ */
+
+import { createHash } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+import { DEFAULT_HTTP402_CONFIG, formatPaymentAmount, HTTP402Config } from '../../config/payments';
+import { KAIKO_REQUEST_COSTS_USDC } from '../../services/kaiko/KaikoGateway';
+import { Http402Handler } from '../../services/payments/Http402Handler';
+import { KaikoDataType } from '../../types/kaiko';
+
+const DEFAULT_PAYMENT_ADDRESS = '0x0000000000000000000000000000000000000402';
+const ORDER_BOOK_LEVELS = 25;
+const LEVEL_STEP_BPS = 5;
+const DEPTH_BANDS = ['0_1', '0_2', '0_5', '1', '2', '5', '10'];
+
+/** Reference mid prices; unknown instruments get a stable hash-derived price */
+const REFERENCE_PRICES: Record<string, number> = {
+  'btc-usd': 65000,
+  'btc-usdc': 65000,
+  'eth-usd': 3200,
+  'eth-usdc': 3200,
+  'weth-usdc': 3200,
+  'usdc-usd': 1,
+  'usdt-usd': 1,
+  'dai-usd': 1,
+  'gno-usd': 250,
+  'arb-usd': 0.9,
+  'op-usd': 1.8,
+};
+
+export interface KaikoStubServerOptions {
+  port?: number;
+  /** Base JSON-RPC endpoint used to verify payment receipts */
+  baseRpcUrl: string;
+  /** Address the stub asks to be paid at */
+  paymentAddress?: string;
+  /** Overrides the per-request price of individual data types */
+  prices?: Partial<Record<KaikoDataType, number>>;
+  http402?: HTTP402Config;
+  /** Fixed "now" for response timestamps so payloads are byte-for-byte reproducible */
+  clock?: () => Date;
+}
+
+export interface KaikoStubInvoice {
+  invoiceId: string;
+  endpoint: string;
+  amountUsdc: number;
+  expiresAt: Date;
+  receipt?: string;
+}
+
+export class KaikoStubServer {
+  private options: Required<Omit<KaikoStubServerOptions, 'prices'>> & {
+    prices: Record<KaikoDataType, number>;
+  };
+  private paymentHandler: Http402Handler;
+  private server: Server | null = null;
+  private invoices: Map<string, KaikoStubInvoice> = new Map();
+  private redeemedReceipts: Set<string> = new Set();
+  private requestLog: Array<{ path: string; status: number }> = [];
+
+  constructor(options: KaikoStubServerOptions) {
+    const paymentAddress = options.paymentAddress ?? DEFAULT_PAYMENT_ADDRESS;
+    this.options = {
+      port: options.port ?? 0,
+      baseRpcUrl: options.baseRpcUrl,
+      paymentAddress,
+      prices: { ...KAIKO_REQUEST_COSTS_USDC, ...options.prices },
+      http402: options.http402 ?? DEFAULT_HTTP402_CONFIG,
+      clock: options.clock ?? ((): Date => new Date()),
+    };
+    this.paymentHandler = new Http402Handler({
+      baseRpcUrl: options.baseRpcUrl,
+      recipientAddress: paymentAddress,
+      confirmationBlocks: 1,
+    });
+  }
+
+  async start(): Promise<string> {
+    if (this.server) {
+      return this.getUrl();
+    }
+    this.server = createServer((req, res) => void this.handleHttp(req, res));
+    await new Promise<void>((resolve) =>
+      this.server?.listen(this.options.port, '127.0.0.1', resolve)
+    );
+    return this.getUrl();
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Base URL to use as KaikoConfig.apiBaseUrl
+   */
+  getUrl(): string {
+    if (!this.server) {
+      throw new Error('KaikoStubServer is not running');
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/v2`;
+  }
+
+  getPaymentAddress(): string {
+    return this.options.paymentAddress;
+  }
+
+  getInvoices(): KaikoStubInvoice[] {
+    return [...this.invoices.values()];
+  }
+
+  getRequestLog(): Array<{ path: string; status: number }> {
+    return [...this.requestLog];
+  }
+
+  private async handleHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://127.0.0.1');
+    const respond = (status: number, body: unknown, headers: Record<string, string> = {}): void => {
+      this.requestLog.push({ path: url.pathname, status });
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method !== 'GET') {
+      respond(405, { result: 'error', message: 'Method not allowed' });
+      return;
+    }
+
+    // Paths mirror KaikoGateway.buildEndpoint: {apiBaseUrl}/{dataType}/{instrument}
+    const [dataType, instrument] = url.pathname.split('/').filter(Boolean).slice(-2);
+    if (dataType === undefined || instrument === undefined || !this.isServed(dataType)) {
+      respond(404, { result: 'error', message: `Unknown endpoint ${url.pathname}` });
+      return;
+    }
+
+    const amountUsdc = this.options.prices[dataType];
+    const receiptHeader = req.headers[this.options.http402.paymentReceiptHeader.toLowerCase()];
+    const receipt = Array.isArray(receiptHeader) ? receiptHeader[0] : receiptHeader;
+
+    if (receipt === undefined || receipt === '') {
+      const challenge = this.paymentHandler.createPaymentRequest(url.pathname, amountUsdc);
+      const { requestId, expiresAt } = challenge.paymentRequired;
+      this.invoices.set(requestId, {
+        invoiceId: requestId,
+        endpoint: url.pathname,
+        amountUsdc,
+        expiresAt,
+      });
+
+      respond(
+        402,
+        {
+          result: 'payment_required',
+          message: challenge.message,
+          expires_at: expiresAt.toISOString(),
+        },
+        {
+          [this.options.http402.paymentRequiredHeader]: requestId,
+          [this.options.http402.paymentAmountHeader]: formatPaymentAmount(amountUsdc),
+          [this.options.http402.paymentAddressHeader]: this.options.paymentAddress,
+        }
+      );
+      return;
+    }
+
+    const transactionHash = receipt.toLowerCase();
+    if (this.redeemedReceipts.has(transactionHash)) {
+      respond(409, { result: 'error', message: 'Payment receipt already redeemed' });
+      return;
+    }
+
+    // A receipt only pays for the invoice it names, at that invoice's price
+    const invoiceHeader = req.headers[this.options.http402.paymentRequiredHeader.toLowerCase()];
+    const invoiceId = Array.isArray(invoiceHeader) ? invoiceHeader[0] : invoiceHeader;
+    const invoice = this.redeemableInvoice(invoiceId, url.pathname);
+    if (typeof invoice === 'string') {
+      respond(402, { result: 'payment_invalid', message: invoice });
+      return;
+    }
+
+    const settlement = await this.paymentHandler.verifySettlement({
+      transactionHash,
+      expectedAmount: invoice.amountUsdc,
+      expectedRecipient: this.options.paymentAddress,
+    });
+    const paid = settlement.paymentProof?.amount;
+    if (!settlement.verified || paid === undefined) {
+      respond(402, {
+        result: 'payment_invalid',
+        message: settlement.error ?? 'Unverified payment',
+      });
+      return;
+    }
+    if (formatPaymentAmount(paid) !== formatPaymentAmount(invoice.amountUsdc)) {
+      respond(402, {
+        result: 'payment_invalid',
+        message: `Paid ${paid} USDC for invoice ${invoice.invoiceId} of ${invoice.amountUsdc} USDC`,
+      });
+      return;
+    }
+
+    this.redeemedReceipts.add(transactionHash);
+    invoice.receipt = transactionHash;
+
+    const exchange = url.searchParams.get('exchange') ?? 'cbse';
+    respond(200, this.buildPayload(dataType, instrument.toLowerCase(), exchange));
+  }
+
+  private isServed(dataType: string): dataType is 'spot_price' | 'order_book' | 'liquidity_depth' {
+    return dataType === 'spot_price' || dataType === 'order_book' || dataType === 'liquidity_depth';
+  }
+
+  /**
+   * The open invoice a receipt names for this endpoint, or why it cannot be redeemed
+   */
+  private redeemableInvoice(
+    invoiceId: string | undefined,
+    endpoint: string
+  ): KaikoStubInvoice | string {
+    if (invoiceId === undefined || invoiceId === '') {
+      return `Payment receipt must name its invoice in ${this.options.http402.paymentRequiredHeader}`;
+    }
+    const invoice = this.invoices.get(invoiceId);
+    if (!invoice) {
+      return `Unknown invoice ${invoiceId}`;
+    }
+    if (invoice.endpoint !== endpoint) {
+      return `Invoice ${invoiceId} was issued for ${invoice.endpoint}`;
+    }
+    if (invoice.receipt !== undefined) {
+      return `Invoice ${invoiceId} is already paid`;
+    }
+    if (invoice.expiresAt.getTime() < Date.now()) {
+      return `Invoice ${invoiceId} expired at ${invoice.expiresAt.toISOString()}`;
+    }
+    return invoice;
+  }
+
+  private buildPayload(
+    dataType: 'spot_price' | 'order_book' | 'liquidity_depth',
+    instrument: string,
+    exchange: string
+  ): unknown {
+    const timestamp = this.options.clock().getTime();
+    const midPrice = referencePrice(instrument);
+
+    switch (dataType) {
+      case 'spot_price':
+        return {
+          result: 'success',
+          data: [0, 1, 2, 3].map((i) => ({
+            timestamp: timestamp - (3 - i) * 60_000,
+            price: String(midPrice * (1 + (seeded(instrument, `spot:${i}`) - 0.5) * 0.002)),
+            volume: String(Math.round(seeded(instrument, `volume:${i}`) * 1_000_000) / 100),
+            exchange,
+          })),
+        };
+
+      case 'order_book': {
+        const level = (side: 'bid' | 'ask', i: number): { amount: string; price: string } => {
+          const offsetBps = (i + 1) * LEVEL_STEP_BPS;
+          const price = midPrice * (1 + ((side === 'ask' ? 1 : -1) * offsetBps) / 10_000);
+          // Books get thicker away from mid, like a real venue
+          const notionalUsd = 25_000 * (1 + i * 0.35) * (0.6 + seeded(instrument, `${side}:${i}`));
+          return { amount: String(notionalUsd / price), price: String(price) };
+        };
+        return {
+          result: 'success',
+          data: [
+            {
+              poll_timestamp: timestamp,
+              exchange,
+              bids: Array.from({ length: ORDER_BOOK_LEVELS }, (_, i) => level('bid', i)),
+              asks: Array.from({ length: ORDER_BOOK_LEVELS }, (_, i) => level('ask', i)),
+            },
+          ],
+        };
+      }
+
+      case 'liquidity_depth': {
+        const snapshot: Record<string, unknown> = {
+          poll_timestamp: timestamp,
+          exchange,
+          mid_price: String(midPrice),
+        };
+        DEPTH_BANDS.forEach((band, i) => {
+          const percent = Number(band.replace('_', '.'));
+          // Cumulative depth grows sub-linearly with distance from mid
+          const baseDepthUsd = 400_000 * Math.sqrt(percent / 0.1) * (1 + i * 0.1);
+          snapshot[`bid_volume${band}`] = String(
+            (baseDepthUsd * (0.8 + seeded(instrument, `depth-bid:${band}`) * 0.4)) / midPrice
+          );
+          snapshot[`ask_volume${band}`] = String(
+            (baseDepthUsd * (0.8 + seeded(instrument, `depth-ask:${band}`) * 0.4)) / midPrice
+          );
+        });
+        return { result: 'success', data: [snapshot] };
+      }
+    }
+  }
+}
+
+function referencePrice(instrument: string): number {
+  const known = REFERENCE_PRICES[instrument];
+  if (known !== undefined) {
+    return known;
+  }
+  return Math.round((1 + seeded(instrument, 'mid') * 999) * 100) / 100;
+}
+
+/**
+ * Deterministic pseudo-random value in [0, 1) derived from the instrument and a label
+ */
+function seeded(instrument: string, label: string): number {
+  const digest = createHash('sha256').update(`${instrument}:${label}`).digest();
+  return digest.readUInt32BE(0) / 0x1_0000_0000;
+}
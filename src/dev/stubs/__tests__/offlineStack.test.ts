@@ -0,0 +1,182 @@
+/**
+ * End to end over the offline stack: the escalation ladder climbs L0 -> L5 and pays each
+ * Kaiko 402 invoice with a signed USDC transfer mined by the Base RPC stub
+ */
+
+import { parsePaymentAmount } from '../../../config/payments';
+import { PaymentRepository } from '../../../db/repositories/PaymentRepository';
+import { KaikoGateway } from '../../../services/kaiko/KaikoGateway';
+import { UsdcPaymentSigner } from '../../../services/payments/UsdcPaymentSigner';
+import { EscalationStateMachine } from '../../../state-machine/EscalationStateMachine';
+import { EscalationLevel, LEVEL_CONFIGS } from '../../../types/escalation';
+import { KaikoResponse } from '../../../types/kaiko';
+import { OfflineStack, startOfflineStack } from '../index';
+
+const PAYER_KEY = `0x${'11'.repeat(32)}`;
+const PAYER = '0x00000000000000000000000000000000000000aa';
+const OTHER_PAYEE = '0x00000000000000000000000000000000000000bb';
+
+type Purchase = (gateway: KaikoGateway) => Promise<KaikoResponse<unknown>>;
+
+const errorOf = (response: KaikoResponse<unknown>): string =>
+  !response.success && 'error' in response ? response.error : '';
+
+/** One paid Kaiko request per level on the way up */
+const PURCHASES: Record<Exclude<EscalationLevel, 'L0'>, Purchase> = {
+  L1: (gateway) => gateway.fetchSpotPrice('eth-usd'),
+  L2: (gateway) => gateway.fetchSpotPrice('btc-usd'),
+  L3: (gateway) => gateway.fetchLiquidityDepth('eth-usd'),
+  L4: (gateway) => gateway.fetchOrderBook('eth-usd'),
+  L5: (gateway) => gateway.fetchSpotPrice('arb-usd'),
+};
+
+describe('offline stack', () => {
+  let stack: OfflineStack;
+
+  beforeAll(() => {
+    process.env['DATABASE_PATH'] = ':memory:';
+  });
+
+  beforeEach(async () => {
+    stack = await startOfflineStack({ rpc: { autoMineBlocks: 1 } });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await stack.close();
+  });
+
+  const get = (path: string, headers: Record<string, string> = {}): Promise<Response> =>
+    fetch(`${stack.kaikoApiBaseUrl}/${path}`, { headers });
+
+  const invoice = async (path: string): Promise<{ id: string; amountUsdc: number }> => {
+    const response = await get(path);
+    expect(response.status).toBe(402);
+    return {
+      id: response.headers.get('X-Payment-Required') ?? '',
+      amountUsdc: parsePaymentAmount(response.headers.get('X-Payment-Amount') ?? ''),
+    };
+  };
+
+  const redeem = async (
+    path: string,
+    receipt: string,
+    invoiceId?: string
+  ): Promise<{ status: number; message: string }> => {
+    const response = await get(path, {
+      'X-Payment-Receipt': receipt,
+      ...(invoiceId !== undefined ? { 'X-Payment-Required': invoiceId } : {}),
+    });
+    const body = (await response.json()) as { message?: string };
+    return { status: response.status, message: body.message ?? '' };
+  };
+
+  const signerPaying = (allowedPayees: string[]): UsdcPaymentSigner =>
+    new UsdcPaymentSigner(new PaymentRepository(), {
+      baseRpcUrl: stack.baseRpcUrl,
+      privateKey: PAYER_KEY,
+      confirmationBlocks: 1,
+      pollIntervalMs: 10,
+      allowedPayees,
+    });
+
+  it('climbs the whole escalation ladder, paying every invoice on the fake chain', async () => {
+    const stateMachine = new EscalationStateMachine();
+    const signer = signerPaying([stack.paymentAddress]);
+    const gateway = new KaikoGateway({ apiBaseUrl: stack.kaikoApiBaseUrl }, signer);
+    // Skip each level's cooldown instead of waiting it out
+    const now = Date.now.bind(Date);
+    let skippedMs = 0;
+    jest.spyOn(Date, 'now').mockImplementation(() => now() + skippedMs);
+
+    for (const [level, buy] of Object.entries(PURCHASES) as Array<[EscalationLevel, Purchase]>) {
+      stateMachine.updateRisk(LEVEL_CONFIGS[level].riskThreshold);
+      expect(stateMachine.transition(level)).toMatchObject({ success: true, currentLevel: level });
+
+      const response = await buy(gateway);
+      expect(response).toMatchObject({ success: true });
+      stateMachine.updateBudget(gateway.getBudgetStatus().spentUsdc);
+      skippedMs += LEVEL_CONFIGS[level].cooldownMs;
+    }
+
+    const invoices = stack.kaiko.getInvoices();
+    const spent = invoices.reduce((sum, paid) => sum + paid.amountUsdc, 0);
+    expect(stateMachine.getCurrentState()).toMatchObject({ state: 'MONITORING', level: 'L5' });
+    expect(invoices).toHaveLength(Object.keys(PURCHASES).length);
+    for (const paid of invoices) {
+      expect(paid.receipt).toBeDefined();
+      expect(stack.rpc.getReceipt(paid.receipt ?? '')?.from).toBe(
+        signer.getPayerAddress().toLowerCase()
+      );
+    }
+    expect(gateway.getBudgetStatus().spentUsdc).toBeCloseTo(spent, 6);
+    expect(stateMachine.getContext().totalSpent).toBeCloseTo(spent, 6);
+  });
+
+  it('pays no invoice whose recipient is not the configured Kaiko payee', async () => {
+    const bySigner = new KaikoGateway(
+      { apiBaseUrl: stack.kaikoApiBaseUrl },
+      signerPaying([OTHER_PAYEE])
+    );
+    const byGateway = new KaikoGateway(
+      { apiBaseUrl: stack.kaikoApiBaseUrl, paymentWalletAddress: OTHER_PAYEE },
+      signerPaying([stack.paymentAddress])
+    );
+
+    const refusedBySigner = await bySigner.fetchSpotPrice('eth-usd');
+    const refusedByGateway = await byGateway.fetchSpotPrice('eth-usd');
+
+    expect(errorOf(refusedBySigner)).toContain('not an allowed payee');
+    expect(errorOf(refusedByGateway)).toContain('not the Kaiko payee');
+    expect(stack.kaiko.getInvoices().every((open) => open.receipt === undefined)).toBe(true);
+    expect(bySigner.getBudgetStatus().spentUsdc + byGateway.getBudgetStatus().spentUsdc).toBe(0);
+  });
+
+  it('reserves an invoice before paying it so concurrent requests cannot overspend', async () => {
+    const gateway = new KaikoGateway(
+      { apiBaseUrl: stack.kaikoApiBaseUrl, budgetLimitUsdc: 0.3 },
+      signerPaying([stack.paymentAddress])
+    );
+
+    const responses = await Promise.all([
+      gateway.fetchLiquidityDepth('eth-usd'),
+      gateway.fetchLiquidityDepth('btc-usd'),
+    ]);
+
+    expect(responses.filter((response) => response.success)).toHaveLength(1);
+    expect(stack.kaiko.getInvoices().filter((paid) => paid.receipt !== undefined)).toHaveLength(1);
+    expect(gateway.getBudgetStatus()).toMatchObject({ spentUsdc: 0.25, isBlocked: false });
+  });
+
+  it('redeems a receipt only for the invoice and amount it paid', async () => {
+    const spot = await invoice('spot_price/eth-usd');
+    const book = await invoice('order_book/eth-usd');
+    const underpaid = stack.rpc.recordUsdcTransfer(PAYER, stack.paymentAddress, spot.amountUsdc);
+    const overpaid = stack.rpc.recordUsdcTransfer(PAYER, stack.paymentAddress, book.amountUsdc);
+    const exact = stack.rpc.recordUsdcTransfer(PAYER, stack.paymentAddress, book.amountUsdc);
+
+    expect(await redeem('order_book/eth-usd', exact)).toMatchObject({ status: 402 });
+    expect(await redeem('order_book/eth-usd', exact, 'inv-unknown')).toEqual({
+      status: 402,
+      message: 'Unknown invoice inv-unknown',
+    });
+    expect(await redeem('order_book/eth-usd', exact, spot.id)).toEqual({
+      status: 402,
+      message: `Invoice ${spot.id} was issued for /v2/spot_price/eth-usd`,
+    });
+    expect(await redeem('order_book/eth-usd', underpaid, book.id)).toMatchObject({
+      status: 402,
+      message: `Insufficient payment: expected ${book.amountUsdc}, received ${spot.amountUsdc}`,
+    });
+    expect(await redeem('spot_price/eth-usd', overpaid, spot.id)).toEqual({
+      status: 402,
+      message: `Paid ${book.amountUsdc} USDC for invoice ${spot.id} of ${spot.amountUsdc} USDC`,
+    });
+
+    expect((await redeem('order_book/eth-usd', exact, book.id)).status).toBe(200);
+    expect(await redeem('order_book/eth-usd', exact, book.id)).toMatchObject({ status: 409 });
+    expect(stack.kaiko.getInvoices().find((open) => open.invoiceId === book.id)?.receipt).toBe(
+      exact.toLowerCase()
+    );
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Offline development stubs
+ * A fake Base JSON-RPC node plus a Kaiko 402 server wired to verify payments against it
+ */
+
+import { BaseRpcStub, BaseRpcStubOptions } from './BaseRpcStub';
+import { KaikoStubServer, KaikoStubServerOptions } from './KaikoStubServer';
+
+export { BaseRpcStub, JsonRpcStubError, TRANSFER_EVENT_TOPIC } from './BaseRpcStub';
+export type { BaseRpcStubOptions, StubLog, StubReceipt } from './BaseRpcStub';
+export { KaikoStubServer } from './KaikoStubServer';
+export type { KaikoStubInvoice, KaikoStubServerOptions } from './KaikoStubServer';
+
+export interface OfflineStack {
+  rpc: BaseRpcStub;
+  kaiko: KaikoStubServer;
+  /** Use as BASE_RPC_URL / SettlementVerifier.baseRpcUrl */
+  baseRpcUrl: string;
+  /** Use as KaikoConfig.apiBaseUrl */
+  kaikoApiBaseUrl: string;
+  /** Use as the Kaiko payment recipient when verifying settlements */
+  paymentAddress: string;
+  close: () => Promise<void>;
+}
+
+/**
+ * Start both stubs on ephemeral localhost ports
+ */
+export async function startOfflineStack(
+  options: {
+    rpc?: BaseRpcStubOptions;
+    kaiko?: Omit<KaikoStubServerOptions, 'baseRpcUrl'>;
+  } = {}
+): Promise<OfflineStack> {
+  const rpc = new BaseRpcStub(options.rpc);
+  const baseRpcUrl = await rpc.start();
+
+  const kaiko = new KaikoStubServer({ ...options.kaiko, baseRpcUrl });
+  let kaikoApiBaseUrl: string;
+  try {
+    kaikoApiBaseUrl = await kaiko.start();
+  } catch (error) {
+    await rpc.stop();
+    throw error;
+  }
+
+  return {
+    rpc,
+    kaiko,
+    baseRpcUrl,
+    kaikoApiBaseUrl,
+    paymentAddress: kaiko.getPaymentAddress(),
+    close: async (): Promise<void> => {
+      await Promise.all([kaiko.stop(), rpc.stop()]);
+    },
+  };
+}
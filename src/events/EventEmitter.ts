@@ -1,4 +1,4 @@
-import { v4 as uuidv4 } from 'uuid';
+import { randomUUID } from 'crypto';
 import {
   EventType,
   TreasurySentinelEvent,
@@ -41,7 +41,7 @@ export class TreasurySentinelEventEmitter {
     once: boolean
   ): () => void {
     const subscription: EventSubscription = {
-      id: uuidv4(),
+      id: randomUUID(),
       eventType,
       handler,
       once,
@@ -182,7 +182,7 @@ export class TreasurySentinelEventEmitter {
     return {
       ...eventData,
       timestamp: new Date(),
-      correlationId: correlationId ?? uuidv4(),
+      correlationId: correlationId ?? randomUUID(),
     } as T & { timestamp: Date; correlationId: string };
   }
 }
@@ -1,8 +1,8 @@
+import { PaymentRecord } from '../types/database';
 import { EscalationLevel } from '../types/escalation';
-import { TreasurySnapshot } from '../types/treasury';
-import { PaymentRecord } from '../types/kaiko';
 import { LiquidityMetrics } from '../types/liquidity';
-import { AgentRunRecord } from '../types/scheduler';
+import { AgentRun } from '../types/scheduler';
+import { TreasuryAlert, TreasurySnapshot } from '../types/treasury';
 
 export type EventType =
   | 'treasury:snapshot'
@@ -37,9 +37,19 @@ export interface TreasurySnapshotEvent extends BaseEvent {
 export interface TreasuryAlertEvent extends BaseEvent {
   type: 'treasury:alert';
   payload: {
-    alertType: 'low_balance' | 'large_outflow' | 'anomaly';
+    alertType:
+      | 'low_balance'
+      | 'large_outflow'
+      | 'anomaly'
+      | 'signer_change'
+      | 'unusual_transfer'
+      | 'balance_drop'
+      | 'chain_reorg'
+      | 'depeg';
     chainId: number;
     details: Record<string, unknown>;
+    /** Full alert, when the emitter raised a TreasuryAlert */
+    alert?: TreasuryAlert;
   };
 }
 
@@ -116,7 +126,7 @@ export interface AgentRunStartedEvent extends BaseEvent {
 export interface AgentRunCompletedEvent extends BaseEvent {
   type: 'agent:run_completed';
   payload: {
-    run: AgentRunRecord;
+    run: AgentRun;
   };
 }
 
@@ -1,3 +1,11 @@
+import {
+  EscalationStateId,
+  STATE_CONFIGS,
+  TRANSITION_CONFIGS,
+  TransitionKind,
+} from '../../state-machine/config';
+import { ESCALATION_LEVELS, EscalationLevel, LEVEL_CONFIGS } from '../../types/escalation';
+
 import {
   MermaidExportOptions,
   MermaidExportResult,
@@ -5,8 +13,30 @@ import {
   MermaidEdge,
   MermaidDiagramType,
 } from './types';
-import { EscalationLevel, EscalationEvent } from '../../types/escalation';
-import { ESCALATION_CONFIG } from '../../state-machine/config';
+
+/** Flowchart node shape per level, from calm to severe */
+const LEVEL_SHAPES: Record<EscalationLevel, [string, string]> = {
+  L0: ['([', '])'],
+  L1: ['[[', ']]'],
+  L2: ['{{', '}}'],
+  L3: ['>', ']'],
+  L4: ['[/', '/]'],
+  L5: ['[(', ')]'],
+};
+
+const EDGE_STYLES: Record<TransitionKind, 'solid' | 'dotted' | 'thick'> = {
+  escalation: 'solid',
+  'de-escalation': 'dotted',
+  'budget-block': 'thick',
+  'budget-restore': 'dotted',
+};
+
+function riskClass(level: EscalationLevel): 'low' | 'medium' | 'high' {
+  const { riskThreshold } = LEVEL_CONFIGS[level];
+  if (riskThreshold < 0.4) return 'low';
+  if (riskThreshold < 0.8) return 'medium';
+  return 'high';
+}
 
 export class MermaidExporter {
   private readonly defaultOptions: MermaidExportOptions = {
@@ -32,23 +62,15 @@ export class MermaidExporter {
     }
 
     // State definitions with descriptions
-    const levels = Object.values(EscalationLevel);
-    levels.forEach((level) => {
-      const config = ESCALATION_CONFIG[level];
-      if (config) {
-        lines.push(`    ${level}: ${level}`);
-        lines.push(`    note right of ${level}: ${config.description || level}`);
-      }
+    (Object.keys(STATE_CONFIGS) as EscalationStateId[]).forEach((id) => {
+      const config = STATE_CONFIGS[id];
+      lines.push(`    ${id}: ${id === 'BUDGET_BLOCKED' ? config.name : `${id} ${config.name}`}`);
+      lines.push(`    note right of ${id}: ${config.description}`);
     });
     lines.push('');
 
-    // Special states
-    lines.push('    BUDGET_BLOCKED: Budget Exhausted');
-    lines.push('    note right of BUDGET_BLOCKED: 10 USDC limit reached');
-    lines.push('');
-
     // Initial state
-    lines.push('    [*] --> L0_IDLE');
+    lines.push(`    [*] --> ${ESCALATION_LEVELS[0]}`);
     lines.push('');
 
     // Transitions
@@ -98,22 +120,20 @@ export class MermaidExporter {
     lines.push('    subgraph RiskLevels["Escalation Risk Levels"]');
     
     // Node definitions with shapes
-    lines.push('        L0_IDLE(["L0: Idle - No Risk"])');
-    lines.push('        L1_POLL[["L1: Polling - Low Risk"]]');
-    lines.push('        L2_ALERT{{"L2: Alert - Medium Risk"}}');
-    lines.push('        L3_STREAM>"L3: Stream - High Risk"]');
-    lines.push('        L4_ACTION[/"L4: Action - Critical Risk"/]');
-    lines.push('        L5_EMERGENCY[("L5: Emergency - Severe Risk")]');
+    ESCALATION_LEVELS.forEach((level) => {
+      const [open, close] = LEVEL_SHAPES[level];
+      lines.push(`        ${level}${open}"${level}: ${LEVEL_CONFIGS[level].name}"${close}`);
+    });
     lines.push('    end');
     lines.push('');
 
     // Budget blocked as separate node
-    lines.push('    BUDGET_BLOCKED{{"BUDGET BLOCKED"}}');
+    lines.push(`    BUDGET_BLOCKED{{"${STATE_CONFIGS.BUDGET_BLOCKED.name.toUpperCase()}"}}`);
     lines.push('');
 
     // Edges with labels
     const transitions = this.buildTransitions();
-    transitions.forEach((transition, index) => {
+    transitions.forEach((transition) => {
       let arrow = '-->';
       if (transition.style === 'dotted') {
         arrow = '-.->';
@@ -143,9 +163,12 @@ export class MermaidExporter {
     lines.push('    classDef high fill:#FF6347,stroke:#DC143C');
     lines.push('    classDef blocked fill:#808080,stroke:#000000');
     lines.push('');
-    lines.push('    class L0_IDLE,L1_POLL low');
-    lines.push('    class L2_ALERT,L3_STREAM medium');
-    lines.push('    class L4_ACTION,L5_EMERGENCY high');
+    (['low', 'medium', 'high'] as const).forEach((risk) => {
+      const levels = ESCALATION_LEVELS.filter((level) => riskClass(level) === risk);
+      if (levels.length > 0) {
+        lines.push(`    class ${levels.join(',')} ${risk}`);
+      }
+    });
     lines.push('    class BUDGET_BLOCKED blocked');
 
     // Highlight current state
@@ -187,7 +210,7 @@ export class MermaidExporter {
 
     // Transitions from history
     history.forEach((transition) => {
-      const time = transition.timestamp.toISOString().split('T')[1].slice(0, 8);
+      const time = transition.timestamp.toISOString().slice(11, 19);
       lines.push(`    Trigger->>StateMachine: Transition at ${time}`);
       lines.push(`    StateMachine->>StateMachine: ${transition.from} → ${transition.to}`);
       
@@ -214,42 +237,19 @@ export class MermaidExporter {
     guard?: string;
     style?: 'solid' | 'dotted' | 'thick';
   }> {
-    return [
-      // Escalation transitions
-      { from: 'L0_IDLE', to: 'L1_POLL', label: 'RISK_DETECTED', guard: 'hasRisk' },
-      { from: 'L1_POLL', to: 'L2_ALERT', label: 'RISK_ELEVATED', guard: 'riskAboveThreshold' },
-      { from: 'L2_ALERT', to: 'L3_STREAM', label: 'RISK_HIGH', guard: 'requiresStreaming' },
-      { from: 'L3_STREAM', to: 'L4_ACTION', label: 'RISK_CRITICAL', guard: 'requiresAction' },
-      { from: 'L4_ACTION', to: 'L5_EMERGENCY', label: 'RISK_SEVERE', guard: 'emergencyCondition' },
-      
-      // De-escalation transitions
-      { from: 'L5_EMERGENCY', to: 'L4_ACTION', label: 'RISK_DECREASED', style: 'dotted' },
-      { from: 'L4_ACTION', to: 'L3_STREAM', label: 'RISK_DECREASED', style: 'dotted' },
-      { from: 'L3_STREAM', to: 'L2_ALERT', label: 'RISK_DECREASED', style: 'dotted' },
-      { from: 'L2_ALERT', to: 'L1_POLL', label: 'RISK_DECREASED', style: 'dotted' },
-      { from: 'L1_POLL', to: 'L0_IDLE', label: 'RISK_CLEARED', style: 'dotted' },
-      
-      // Budget blocking - can happen from any paid level
-      { from: 'L2_ALERT', to: 'BUDGET_BLOCKED', label: 'BUDGET_EXCEEDED', guard: 'budgetExhausted', style: 'thick' },
-      { from: 'L3_STREAM', to: 'BUDGET_BLOCKED', label: 'BUDGET_EXCEEDED', guard: 'budgetExhausted', style: 'thick' },
-      { from: 'L4_ACTION', to: 'BUDGET_BLOCKED', label: 'BUDGET_EXCEEDED', guard: 'budgetExhausted', style: 'thick' },
-      { from: 'L5_EMERGENCY', to: 'BUDGET_BLOCKED', label: 'BUDGET_EXCEEDED', guard: 'budgetExhausted', style: 'thick' },
-      
-      // Recovery from budget block
-      { from: 'BUDGET_BLOCKED', to: 'L0_IDLE', label: 'BUDGET_RESET', guard: 'budgetReplenished', style: 'dotted' },
-    ];
+    return TRANSITION_CONFIGS.map((transition) => ({
+      from: transition.from,
+      to: transition.to,
+      label: transition.cost
+        ? `${transition.label} (${transition.cost} USDC)`
+        : transition.label,
+      guard: transition.guard,
+      style: EDGE_STYLES[transition.kind],
+    }));
   }
 
   private getLevelIndex(level: EscalationLevel): number {
-    const order: EscalationLevel[] = [
-      EscalationLevel.L0_IDLE,
-      EscalationLevel.L1_POLL,
-      EscalationLevel.L2_ALERT,
-      EscalationLevel.L3_STREAM,
-      EscalationLevel.L4_ACTION,
-      EscalationLevel.L5_EMERGENCY,
-    ];
-    return order.indexOf(level);
+    return ESCALATION_LEVELS.indexOf(level);
   }
 
   private wrapInMarkdown(diagram: string, type: string): string {
@@ -3,6 +3,45 @@
  * Manages service lifecycle and dependencies
  */
 
+import { findChainConfig, getChainRpcConfigs, getChains } from '../../config/chains';
+import { loadChainRegistry } from '../../config/chainsFile';
+import { loadStressScenarios } from '../../config/stressScenariosFile';
+import { AgentRunRepository } from '../../db/repositories/AgentRunRepository';
+import { EscalationEventRepository } from '../../db/repositories/EscalationEventRepository';
+import { LiquidityAssessmentRepository } from '../../db/repositories/LiquidityAssessmentRepository';
+import { PaymentRepository } from '../../db/repositories/PaymentRepository';
+import { PegRepository } from '../../db/repositories/PegRepository';
+import { SafeRepository } from '../../db/repositories/SafeRepository';
+import { StressTestRepository } from '../../db/repositories/StressTestRepository';
+import { TokenDiscoveryRepository } from '../../db/repositories/TokenDiscoveryRepository';
+import { TokenMetadataRepository } from '../../db/repositories/TokenMetadataRepository';
+import { TransferRepository } from '../../db/repositories/TransferRepository';
+import { TreasuryRepository } from '../../db/repositories/TreasuryRepository';
+import { getEventEmitter } from '../../events/EventEmitter';
+import { EscalationRegistry } from '../../state-machine/EscalationRegistry';
+import { EscalationStateMachine } from '../../state-machine/EscalationStateMachine';
+import { ChainName } from '../../types/treasury';
+import { ErrorCode, SentinelError } from '../../utils/errors';
+import { KaikoGateway } from '../kaiko/KaikoGateway';
+import { LiquidationPlanner } from '../liquidity/LiquidationPlanner';
+import { LiquidityMetrics } from '../liquidity/LiquidityMetrics';
+import { OrderBookAggregator } from '../liquidity/OrderBookAggregator';
+import { DepegMonitor } from '../oracle/DepegMonitor';
+import { Http402Handler } from '../payments/Http402Handler';
+import { UsdcPaymentSigner } from '../payments/UsdcPaymentSigner';
+import { createRpcPools, RpcPool } from '../rpc/RpcPool';
+import { AgentCycle } from '../scheduler/AgentCycle';
+import { AgentRunner } from '../scheduler/AgentRunner';
+import { SettlementVerifier } from '../settlement/SettlementVerifier';
+import { BASE_CHAIN_ID } from '../settlement/types';
+import { StressTester } from '../stress/StressTester';
+import { ReorgMonitor } from '../treasury/ReorgMonitor';
+import { SafeMonitor } from '../treasury/SafeMonitor';
+import { SnapshotBackfill } from '../treasury/SnapshotBackfill';
+import { TokenDiscovery } from '../treasury/TokenDiscovery';
+import { TransferAnomalyDetector } from '../treasury/TransferAnomalyDetector';
+import { TreasuryMonitor } from '../treasury/TreasuryMonitor';
+
 import {
   ServiceRegistry,
   RepositoryRegistry,
@@ -12,15 +51,6 @@ import {
   ServiceDefinition,
   ServiceKey,
 } from './types';
-import { TreasuryMonitor } from '../treasury/TreasuryMonitor';
-import { KaikoGateway } from '../kaiko/KaikoGateway';
-import { LiquidityMetrics } from '../liquidity/LiquidityMetrics';
-import { AgentRunner } from '../scheduler/AgentRunner';
-import { Http402Handler } from '../payments/Http402Handler';
-import { SettlementVerifier } from '../settlement/SettlementVerifier';
-import { PaymentRepository } from '../../db/repositories/PaymentRepository';
-import { TreasuryRepository } from '../../db/repositories/TreasuryRepository';
-import { AgentRunRepository } from '../../db/repositories/AgentRunRepository';
 
 export class ServiceContainer {
   private static instance: ServiceContainer | null = null;
@@ -61,6 +91,10 @@ export class ServiceContainer {
 
     this.log('Initializing service container...');
 
+    // Chains from CHAINS_CONFIG_PATH, before anything builds RPC pools from them
+    const chains = loadChainRegistry();
+    this.log(`Chain registry: ${chains.map((chain) => chain.name).join(', ')}`);
+
     // Register all service definitions
     this.registerServiceDefinitions();
     this.registerRepositoryDefinitions();
@@ -77,16 +111,104 @@ export class ServiceContainer {
   }
 
   private registerServiceDefinitions(): void {
+    // One pool per chain, shared so endpoint health is tracked across every reader
+    this.register<Record<ChainName, RpcPool>>('rpcPools', {
+      factory: () => createRpcPools(getChainRpcConfigs()),
+      singleton: true,
+      lazy: false,
+    });
+
     this.register<TreasuryMonitor>('treasuryMonitor', {
-      factory: () => new TreasuryMonitor(),
+      factory: () => {
+        const monitor = new TreasuryMonitor({}, getChainRpcConfigs(), this.rpcPools());
+        monitor.setMetadataCache(
+          this.services.get('tokenMetadataRepository') as TokenMetadataRepository
+        );
+        return monitor;
+      },
       singleton: true,
       lazy: false,
+      dependencies: ['rpcPools', 'tokenMetadataRepository'],
+    });
+
+    this.register<TokenDiscovery>('tokenDiscovery', {
+      factory: () =>
+        new TokenDiscovery(
+          this.services.get('treasuryMonitor') as TreasuryMonitor,
+          this.services.get('tokenDiscoveryRepository') as TokenDiscoveryRepository
+        ),
+      singleton: true,
+      lazy: true,
+      dependencies: ['treasuryMonitor', 'tokenDiscoveryRepository'],
+    });
+
+    this.register<SnapshotBackfill>('snapshotBackfill', {
+      factory: () =>
+        new SnapshotBackfill(
+          this.services.get('treasuryMonitor') as TreasuryMonitor,
+          this.services.get('treasuryRepository') as TreasuryRepository
+        ),
+      singleton: true,
+      lazy: true,
+      dependencies: ['treasuryMonitor', 'treasuryRepository'],
+    });
+
+    this.register<SafeMonitor>('safeMonitor', {
+      factory: () =>
+        new SafeMonitor(
+          this.services.get('treasuryMonitor') as TreasuryMonitor,
+          this.services.get('safeRepository') as SafeRepository,
+          getEventEmitter()
+        ),
+      singleton: true,
+      lazy: true,
+      dependencies: ['treasuryMonitor', 'safeRepository'],
+    });
+
+    this.register<TransferAnomalyDetector>('transferDetector', {
+      factory: () =>
+        new TransferAnomalyDetector(
+          this.services.get('treasuryMonitor') as TreasuryMonitor,
+          this.services.get('transferRepository') as TransferRepository,
+          getEventEmitter()
+        ),
+      singleton: true,
+      lazy: true,
+      dependencies: ['treasuryMonitor', 'transferRepository'],
+    });
+
+    this.register<DepegMonitor>('depegMonitor', {
+      factory: () =>
+        new DepegMonitor(
+          this.services.get('treasuryMonitor') as TreasuryMonitor,
+          this.services.get('pegRepository') as PegRepository,
+          getEventEmitter()
+        ),
+      singleton: true,
+      lazy: true,
+      dependencies: ['treasuryMonitor', 'pegRepository'],
     });
 
+    // Without SETTLEMENT_PRIVATE_KEY the gateway hands 402 challenges back instead of paying
     this.register<KaikoGateway>('kaikoGateway', {
-      factory: () => new KaikoGateway(),
+      factory: () => {
+        const privateKey = process.env['SETTLEMENT_PRIVATE_KEY'];
+        const paymentSigner =
+          privateKey !== undefined && privateKey !== ''
+            ? new UsdcPaymentSigner(
+                this.services.get('paymentRepository') as PaymentRepository,
+                { privateKey },
+                this.services.get('settlementVerifier') as SettlementVerifier
+              )
+            : undefined;
+        return new KaikoGateway(
+          { paymentWalletAddress: process.env['KAIKO_PAYMENT_ADDRESS'] ?? '' },
+          paymentSigner
+        );
+      },
       singleton: true,
       lazy: false,
+      dependencies: ['paymentRepository', 'settlementVerifier'],
     });
 
     this.register<LiquidityMetrics>('liquidityMetrics', {
@@ -99,22 +221,129 @@ export class ServiceContainer {
       dependencies: ['kaikoGateway'],
     });
 
+    this.register<OrderBookAggregator>('orderBookAggregator', {
+      factory: () => new OrderBookAggregator(),
+      singleton: true,
+      lazy: false,
+    });
+
+    // Advisory only: plans are reported, never executed
+    this.register<LiquidationPlanner>('liquidationPlanner', {
+      factory: () => new LiquidationPlanner(),
+      singleton: true,
+      lazy: true,
+    });
+
     this.register<Http402Handler>('http402Handler', {
-      factory: () => new Http402Handler(),
+      factory: () => new Http402Handler({}, this.basePool()),
       singleton: true,
       lazy: false,
+      dependencies: ['rpcPools'],
     });
 
     this.register<SettlementVerifier>('settlementVerifier', {
-      factory: () => new SettlementVerifier(),
+      factory: () =>
+        new SettlementVerifier(
+          {
+            baseRpcUrl: process.env['BASE_RPC_URL'] ?? 'https://mainnet.base.org',
+            receiverAddress: process.env['PAYMENT_RECIPIENT_ADDRESS'] ?? '',
+          },
+          this.basePool()
+        ),
       singleton: true,
       lazy: false,
+      dependencies: ['rpcPools'],
+    });
+
+    this.register<ReorgMonitor>('reorgMonitor', {
+      factory: () =>
+        new ReorgMonitor(
+          this.services.get('treasuryMonitor') as TreasuryMonitor,
+          this.services.get('treasuryRepository') as TreasuryRepository,
+          getEventEmitter(),
+          {},
+          this.services.get('settlementVerifier') as SettlementVerifier,
+          this.services.get('paymentRepository') as PaymentRepository
+        ),
+      singleton: true,
+      lazy: true,
+      dependencies: [
+        'treasuryMonitor',
+        'treasuryRepository',
+        'settlementVerifier',
+        'paymentRepository',
+      ],
+    });
+
+    this.register<StressTester>('stressTester', {
+      factory: () =>
+        new StressTester(
+          this.services.get('liquidityMetrics') as LiquidityMetrics,
+          this.services.get('stressTestRepository') as StressTestRepository,
+          { scenarios: loadStressScenarios() }
+        ),
+      singleton: true,
+      lazy: true,
+      dependencies: ['liquidityMetrics', 'stressTestRepository'],
     });
 
     this.register<AgentRunner>('agentRunner', {
-      factory: () => new AgentRunner(),
+      factory: () => {
+        const cycle = new AgentCycle({
+          treasuryMonitor: this.services.get('treasuryMonitor') as TreasuryMonitor,
+          stateMachine: new EscalationStateMachine(
+            {},
+            this.services.get('escalationEventRepository') as EscalationEventRepository
+          ),
+          kaikoGateway: this.services.get('kaikoGateway') as KaikoGateway,
+          liquidityMetrics: this.services.get('liquidityMetrics') as LiquidityMetrics,
+          orderBookAggregator: this.services.get('orderBookAggregator') as OrderBookAggregator,
+          treasuryRepository: this.services.get('treasuryRepository') as TreasuryRepository,
+          assessmentRepository: this.services.get(
+            'liquidityAssessmentRepository'
+          ) as LiquidityAssessmentRepository,
+          events: getEventEmitter(),
+          settlementVerifier: this.services.get('settlementVerifier') as SettlementVerifier,
+          safeMonitor: this.services.get('safeMonitor') as SafeMonitor,
+          transferDetector: this.services.get('transferDetector') as TransferAnomalyDetector,
+          reorgMonitor: this.services.get('reorgMonitor') as ReorgMonitor,
+          depegMonitor: this.services.get('depegMonitor') as DepegMonitor,
+          stressTester: this.services.get('stressTester') as StressTester,
+          escalationRegistry: this.services.get('escalationRegistry') as EscalationRegistry,
+        });
+        return new AgentRunner({}, cycle);
+      },
       singleton: true,
       lazy: true, // Lazy since it's only needed when scheduler runs
+      dependencies: [
+        'treasuryMonitor',
+        'kaikoGateway',
+        'liquidityMetrics',
+        'orderBookAggregator',
+        'treasuryRepository',
+        'liquidityAssessmentRepository',
+        'escalationEventRepository',
+        'settlementVerifier',
+        'safeMonitor',
+        'transferDetector',
+        'reorgMonitor',
+        'depegMonitor',
+        'stressTester',
+        'escalationRegistry',
+      ],
+    });
+
+    // One ladder per monitored treasury; each resumes from its own escalation history
+    this.register<EscalationRegistry>('escalationRegistry', {
+      factory: () =>
+        new EscalationRegistry(
+          (this.services.get('treasuryMonitor') as TreasuryMonitor).getTreasuryConfigs(),
+          {},
+          this.services.get('escalationEventRepository') as EscalationEventRepository
+        ),
+      singleton: true,
+      lazy: true,
+      dependencies: ['treasuryMonitor', 'escalationEventRepository'],
     });
   }
 
@@ -136,6 +365,54 @@ export class ServiceContainer {
       singleton: true,
       lazy: false,
     });
+
+    this.register<LiquidityAssessmentRepository>('liquidityAssessmentRepository', {
+      factory: () => new LiquidityAssessmentRepository(),
+      singleton: true,
+      lazy: false,
+    });
+
+    this.register<EscalationEventRepository>('escalationEventRepository', {
+      factory: () => new EscalationEventRepository(),
+      singleton: true,
+      lazy: false,
+    });
+
+    this.register<TokenMetadataRepository>('tokenMetadataRepository', {
+      factory: () => new TokenMetadataRepository(),
+      singleton: true,
+      lazy: false,
+    });
+
+    this.register<TokenDiscoveryRepository>('tokenDiscoveryRepository', {
+      factory: () => new TokenDiscoveryRepository(),
+      singleton: true,
+      lazy: false,
+    });
+
+    this.register<SafeRepository>('safeRepository', {
+      factory: () => new SafeRepository(),
+      singleton: true,
+      lazy: false,
+    });
+
+    this.register<TransferRepository>('transferRepository', {
+      factory: () => new TransferRepository(),
+      singleton: true,
+      lazy: false,
+    });
+
+    this.register<PegRepository>('pegRepository', {
+      factory: () => new PegRepository(),
+      singleton: true,
+      lazy: false,
+    });
+
+    this.register<StressTestRepository>('stressTestRepository', {
+      factory: () => new StressTestRepository(),
+      singleton: true,
+      lazy: false,
+    });
   }
 
   register<T>(key: string, definition: ServiceDefinition<T>): void {
@@ -250,6 +527,27 @@ export class ServiceContainer {
     this.initialized = false;
   }
 
+  private rpcPools(): Record<ChainName, RpcPool> {
+    return this.services.get('rpcPools') as Record<ChainName, RpcPool>;
+  }
+
+  /**
+   * Pool of the chain Kaiko payments settle on, looked up by chain ID so a registry that
+   * renames Base still finds it
+   */
+  private basePool(): RpcPool {
+    const base = findChainConfig(BASE_CHAIN_ID);
+    const pool = base ? this.rpcPools()[base.name] : undefined;
+    if (!pool) {
+      throw new SentinelError(
+        ErrorCode.CONFIGURATION_ERROR,
+        `Kaiko payments settle on Base (chain ${BASE_CHAIN_ID}), which the chain registry does not list`,
+        { details: { chains: getChains().map((chain) => chain.name) } }
+      );
+    }
+    return pool;
+  }
+
   private log(message: string): void {
     if (this.config.enableLogging) {
       console.log(`[ServiceContainer] ${message}`);
@@ -2,29 +2,68 @@
  * Dependency injection container types for treasury-sentinel services
  */
 
-import { TreasuryMonitor } from '../treasury/TreasuryMonitor';
+import { AgentRunRepository } from '../../db/repositories/AgentRunRepository';
+import { EscalationEventRepository } from '../../db/repositories/EscalationEventRepository';
+import { LiquidityAssessmentRepository } from '../../db/repositories/LiquidityAssessmentRepository';
+import { PaymentRepository } from '../../db/repositories/PaymentRepository';
+import { PegRepository } from '../../db/repositories/PegRepository';
+import { SafeRepository } from '../../db/repositories/SafeRepository';
+import { StressTestRepository } from '../../db/repositories/StressTestRepository';
+import { TokenDiscoveryRepository } from '../../db/repositories/TokenDiscoveryRepository';
+import { TokenMetadataRepository } from '../../db/repositories/TokenMetadataRepository';
+import { TransferRepository } from '../../db/repositories/TransferRepository';
+import { TreasuryRepository } from '../../db/repositories/TreasuryRepository';
+import { EscalationRegistry } from '../../state-machine/EscalationRegistry';
+import { ChainName } from '../../types/treasury';
 import { KaikoGateway } from '../kaiko/KaikoGateway';
+import { LiquidationPlanner } from '../liquidity/LiquidationPlanner';
 import { LiquidityMetrics } from '../liquidity/LiquidityMetrics';
-import { AgentRunner } from '../scheduler/AgentRunner';
+import { OrderBookAggregator } from '../liquidity/OrderBookAggregator';
+import { DepegMonitor } from '../oracle/DepegMonitor';
 import { Http402Handler } from '../payments/Http402Handler';
+import { RpcPool } from '../rpc/RpcPool';
+import { AgentRunner } from '../scheduler/AgentRunner';
 import { SettlementVerifier } from '../settlement/SettlementVerifier';
-import { PaymentRepository } from '../../db/repositories/PaymentRepository';
-import { TreasuryRepository } from '../../db/repositories/TreasuryRepository';
-import { AgentRunRepository } from '../../db/repositories/AgentRunRepository';
+import { StressTester } from '../stress/StressTester';
+import { ReorgMonitor } from '../treasury/ReorgMonitor';
+import { SafeMonitor } from '../treasury/SafeMonitor';
+import { SnapshotBackfill } from '../treasury/SnapshotBackfill';
+import { TokenDiscovery } from '../treasury/TokenDiscovery';
+import { TransferAnomalyDetector } from '../treasury/TransferAnomalyDetector';
+import { TreasuryMonitor } from '../treasury/TreasuryMonitor';
 
 export interface ServiceRegistry {
+  rpcPools: Record<ChainName, RpcPool>;
   treasuryMonitor: TreasuryMonitor;
   kaikoGateway: KaikoGateway;
   liquidityMetrics: LiquidityMetrics;
+  orderBookAggregator: OrderBookAggregator;
+  liquidationPlanner: LiquidationPlanner;
   agentRunner: AgentRunner;
   http402Handler: Http402Handler;
   settlementVerifier: SettlementVerifier;
+  escalationRegistry: EscalationRegistry;
+  tokenDiscovery: TokenDiscovery;
+  snapshotBackfill: SnapshotBackfill;
+  safeMonitor: SafeMonitor;
+  transferDetector: TransferAnomalyDetector;
+  reorgMonitor: ReorgMonitor;
+  depegMonitor: DepegMonitor;
+  stressTester: StressTester;
 }
 
 export interface RepositoryRegistry {
   paymentRepository: PaymentRepository;
   treasuryRepository: TreasuryRepository;
   agentRunRepository: AgentRunRepository;
+  liquidityAssessmentRepository: LiquidityAssessmentRepository;
+  escalationEventRepository: EscalationEventRepository;
+  tokenMetadataRepository: TokenMetadataRepository;
+  tokenDiscoveryRepository: TokenDiscoveryRepository;
+  safeRepository: SafeRepository;
+  transferRepository: TransferRepository;
+  pegRepository: PegRepository;
+  stressTestRepository: StressTestRepository;
 }
 
 export interface ServiceContainerConfig {
@@ -4,3 +4,6 @@ export * from './liquidity';
 export * from './scheduler';
 export * from './payments';
 export * from './base';
+export * from './rpc';
+export * from './oracle';
+export * from './stress';
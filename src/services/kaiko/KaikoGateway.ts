@@ -14,19 +14,47 @@ import {
   KaikoOrderBookResponse,
   KaikoLiquidityDepthResponse,
   KaikoDataType,
+  KaikoPaymentObserver,
 } from '../../types/kaiko';
+import type { PaymentSignerResult } from '../payments/types';
+import type { UsdcPaymentSigner } from '../payments/UsdcPaymentSigner';
+
+import { KaikoHttpClient } from './KaikoHttpClient';
+import { mapKaikoResponse } from './KaikoResponseMapper';
 
 const DEFAULT_BUDGET_LIMIT_USDC = 10;
 const BASE_CHAIN_ID = 8453;
 const BASE_USDC_ADDRESS = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const DEFAULT_REQUEST_TIMEOUT_MS = 15000;
+
+/**
+ * Per-request USDC price of each Kaiko data type
+ */
+export const KAIKO_REQUEST_COSTS_USDC: Record<KaikoDataType, number> = {
+  spot_price: 0.01,
+  ohlcv: 0.02,
+  vwap: 0.02,
+  trades: 0.05,
+  order_book: 0.1,
+  liquidity_depth: 0.25,
+};
 
 export class KaikoGateway {
   private config: KaikoConfig;
   private budget: KaikoBudgetStatus;
   private pendingPayments: Map<string, KaikoPaymentRequired>;
   private completedPayments: KaikoPaymentReceipt[];
+  private client: KaikoHttpClient;
+  private paymentSigner: UsdcPaymentSigner | null;
+  private paymentObserver: KaikoPaymentObserver | null = null;
+  /** Invoices being paid, held against the budget until their spend is recorded */
+  private reservedUsdc = 0;
 
-  constructor(config: Partial<KaikoConfig> = {}) {
+  /**
+   * With a payment signer the gateway settles affordable 402 invoices itself and
+   * retries with the receipt; without one the challenge is returned to the caller.
+   */
+  constructor(config: Partial<KaikoConfig> = {}, paymentSigner?: UsdcPaymentSigner) {
     this.config = {
       apiBaseUrl: config.apiBaseUrl || 'https://api.kaiko.io/v2',
       apiKey: config.apiKey || '',
@@ -34,8 +62,14 @@ export class KaikoGateway {
       settlementChainId: config.settlementChainId || BASE_CHAIN_ID,
       settlementTokenAddress: config.settlementTokenAddress || BASE_USDC_ADDRESS,
       paymentWalletAddress: config.paymentWalletAddress || '',
+      requestTimeoutMs: config.requestTimeoutMs || DEFAULT_REQUEST_TIMEOUT_MS,
     };
 
+    this.client = new KaikoHttpClient({
+      apiKey: this.config.apiKey,
+      timeoutMs: this.config.requestTimeoutMs,
+    });
+
     this.budget = {
       totalBudgetUsdc: this.config.budgetLimitUsdc,
       spentUsdc: 0,
@@ -46,13 +80,21 @@ export class KaikoGateway {
 
     this.pendingPayments = new Map();
     this.completedPayments = [];
+    this.paymentSigner = paymentSigner ?? null;
+  }
+
+  /**
+   * Follow the payments made through the signer; null stops following
+   */
+  setPaymentObserver(observer: KaikoPaymentObserver | null): void {
+    this.paymentObserver = observer;
   }
 
   /**
    * Check if budget allows for a payment of given amount
    */
   canAfford(amountUsdc: number): boolean {
-    return !this.budget.isBlocked && this.budget.remainingUsdc >= amountUsdc;
+    return !this.budget.isBlocked && this.budget.remainingUsdc - this.reservedUsdc >= amountUsdc;
   }
 
   /**
@@ -123,7 +165,11 @@ export class KaikoGateway {
       return response;
     } catch (error) {
       if (this.isPaymentRequiredError(error)) {
-        return this.handlePaymentRequired(error as KaikoPaymentRequired);
+        const response = this.handlePaymentRequired<T>(error as KaikoPaymentRequired);
+        if (this.paymentSigner && 'paymentRequired' in response) {
+          return this.payAndRetry<T>(request, response.paymentRequired, this.paymentSigner);
+        }
+        return response;
       }
       return {
         success: false,
@@ -133,55 +179,135 @@ export class KaikoGateway {
   }
 
   /**
-   * Execute the actual API call (mock implementation for now)
+   * Execute the API call over HTTP and map Kaiko's JSON into the typed response.
+   * A 402 challenge surfaces as a thrown KaikoPaymentRequired.
    */
   private async executeApiCall<T>(
     request: KaikoMarketDataRequest
   ): Promise<KaikoResponse<T>> {
     const endpoint = this.buildEndpoint(request);
-    const estimatedCost = this.estimateCost(request.dataType);
+    const body = await this.client.get(endpoint);
+
+    return {
+      success: true,
+      data: mapKaikoResponse(request, body) as T,
+      cost: 0,
+    };
+  }
 
-    // Simulate API call - in production this would be actual fetch
-    // For now, simulate successful response for basic requests
-    if (this.canAfford(estimatedCost)) {
-      const mockData = this.generateMockData<T>(request);
-      this.recordSpend(estimatedCost);
+  /**
+   * Settle an invoice on-chain, then repeat the original request with the receipt and invoice headers
+   */
+  private async payAndRetry<T>(
+    request: KaikoMarketDataRequest,
+    paymentRequired: KaikoPaymentRequired,
+    paymentSigner: UsdcPaymentSigner
+  ): Promise<KaikoResponse<T>> {
+    const payee = this.config.paymentWalletAddress;
+    if (payee !== '' && paymentRequired.paymentAddress.toLowerCase() !== payee.toLowerCase()) {
+      this.pendingPayments.delete(paymentRequired.invoiceId);
       return {
-        success: true,
-        data: mockData,
-        cost: estimatedCost,
+        success: false,
+        error: `Invoice ${paymentRequired.invoiceId} names ${paymentRequired.paymentAddress}, not the Kaiko payee ${payee}`,
       };
     }
 
-    // Simulate 402 response when budget is tight
-    throw this.create402Response(estimatedCost, endpoint);
+    // Reserved before the first await, so concurrent requests see it in canAfford
+    const amountUsdc = paymentRequired.requiredAmountUsdc;
+    this.reservedUsdc += amountUsdc;
+    this.paymentObserver?.paymentRequired(paymentRequired);
+    let payment: PaymentSignerResult;
+    try {
+      payment = await paymentSigner.payInvoice(
+        paymentRequired,
+        `kaiko:${request.dataType}:${request.instrument}`,
+        (transactionHash) =>
+          this.paymentObserver?.paymentSubmitted(paymentRequired, transactionHash)
+      );
+    } catch (error) {
+      this.reservedUsdc -= amountUsdc;
+      throw error;
+    }
+    // A transfer that timed out may still land, so it stays reserved
+    if (payment.settlementPending !== true) {
+      this.reservedUsdc -= amountUsdc;
+    }
+    if (!payment.success || payment.transactionHash === undefined) {
+      if (payment.settlementPending !== true) {
+        this.paymentObserver?.paymentFailed(
+          paymentRequired,
+          payment.error ?? 'unknown error',
+          payment.transactionHash
+        );
+      }
+      return {
+        success: false,
+        error: `Payment for invoice ${paymentRequired.invoiceId} failed: ${payment.error ?? 'unknown error'}`,
+      };
+    }
+
+    // Settled funds are spent whether or not the paid request then succeeds
+    this.completedPayments.push({
+      invoiceId: paymentRequired.invoiceId,
+      transactionHash: payment.transactionHash,
+      amountUsdc: paymentRequired.requiredAmountUsdc,
+      paidAt: new Date(),
+      settledOnChain: this.config.settlementChainId,
+      verified: true,
+    });
+    this.pendingPayments.delete(paymentRequired.invoiceId);
+    this.recordSpend(paymentRequired.requiredAmountUsdc);
+    this.paymentObserver?.paymentConfirmed(paymentRequired, payment.transactionHash);
+
+    try {
+      const body = await this.client.get(
+        paymentRequired.dataEndpoint,
+        payment.transactionHash,
+        paymentRequired.invoiceId
+      );
+      return {
+        success: true,
+        data: mapKaikoResponse(request, body) as T,
+        cost: paymentRequired.requiredAmountUsdc,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Paid request failed after settlement ${payment.transactionHash}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      };
+    }
   }
 
   /**
    * Build API endpoint URL
    */
   private buildEndpoint(request: KaikoMarketDataRequest): string {
-    const { instrument, exchange, dataType } = request;
-    let path = `/${dataType}/${instrument}`;
+    const { instrument, exchange, dataType, startTime, endTime, interval } = request;
+    const url = new URL(
+      `${this.config.apiBaseUrl}/${dataType}/${encodeURIComponent(instrument)}`
+    );
     if (exchange) {
-      path += `?exchange=${exchange}`;
+      url.searchParams.set('exchange', exchange);
+    }
+    if (startTime) {
+      url.searchParams.set('start_time', startTime.toISOString());
+    }
+    if (endTime) {
+      url.searchParams.set('end_time', endTime.toISOString());
     }
-    return `${this.config.apiBaseUrl}${path}`;
+    if (interval) {
+      url.searchParams.set('interval', interval);
+    }
+    return url.toString();
   }
 
   /**
    * Estimate cost for a data type request
    */
-  private estimateCost(dataType: KaikoDataType): number {
-    const costs: Record<KaikoDataType, number> = {
-      spot_price: 0.01,
-      ohlcv: 0.02,
-      vwap: 0.02,
-      trades: 0.05,
-      order_book: 0.1,
-      liquidity_depth: 0.25,
-    };
-    return costs[dataType] || 0.05;
+  estimateCost(dataType: KaikoDataType): number {
+    return KAIKO_REQUEST_COSTS_USDC[dataType] || 0.05;
   }
 
   /**
@@ -205,11 +331,14 @@ export class KaikoGateway {
     this.pendingPayments.set(paymentRequired.invoiceId, paymentRequired);
 
     if (!this.canAfford(paymentRequired.requiredAmountUsdc)) {
-      this.budget.isBlocked = true;
+      // Reservations may still be released; only recorded spend blocks the budget
+      if (this.budget.remainingUsdc < paymentRequired.requiredAmountUsdc) {
+        this.budget.isBlocked = true;
+      }
       return {
         success: false,
         error: 'Insufficient budget for required payment',
-        budgetBlocked: true,
+        ...(this.budget.isBlocked ? { budgetBlocked: true } : {}),
       };
     }
 
@@ -219,23 +348,6 @@ export class KaikoGateway {
     };
   }
 
-  /**
-   * Create a 402 response for simulation
-   */
-  private create402Response(
-    amount: number,
-    endpoint: string
-  ): KaikoPaymentRequired {
-    return {
-      statusCode: 402,
-      requiredAmountUsdc: amount,
-      paymentAddress: this.config.paymentWalletAddress,
-      invoiceId: `inv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      expiresAt: new Date(Date.now() + 15 * 60 * 1000), // 15 minutes
-      dataEndpoint: endpoint,
-    };
-  }
-
   /**
    * Record a spend against the budget
    */
@@ -308,105 +420,6 @@ export class KaikoGateway {
     return true;
   }
 
-  /**
-   * Generate mock data for testing (to be replaced with real API calls)
-   */
-  private generateMockData<T>(request: KaikoMarketDataRequest): T {
-    const now = new Date();
-
-    switch (request.dataType) {
-      case 'spot_price':
-        return {
-          instrument: request.instrument,
-          exchange: request.exchange || 'aggregate',
-          price: 1850.0 + Math.random() * 100,
-          volume24h: 1000000 + Math.random() * 500000,
-          timestamp: now,
-          confidence: 0.95 + Math.random() * 0.05,
-        } as T;
-
-      case 'order_book':
-        return {
-          instrument: request.instrument,
-          exchange: request.exchange || 'aggregate',
-          bids: this.generateOrderBookLevels(1850, 'bid'),
-          asks: this.generateOrderBookLevels(1850, 'ask'),
-          timestamp: now,
-          depth: 10,
-        } as T;
-
-      case 'liquidity_depth':
-        return {
-          instrument: request.instrument,
-          exchange: request.exchange || 'aggregate',
-          depthBands: this.generateDepthBands(),
-          impactCurve: this.generateImpactCurve(),
-          timestamp: now,
-        } as T;
-
-      default:
-        return {} as T;
-    }
-  }
-
-  private generateOrderBookLevels(
-    midPrice: number,
-    side: 'bid' | 'ask'
-  ): Array<{ price: number; quantity: number; cumulativeQuantity: number }> {
-    const levels = [];
-    let cumulative = 0;
-    for (let i = 0; i < 10; i++) {
-      const offset = (i + 1) * 0.5;
-      const price = side === 'bid' ? midPrice - offset : midPrice + offset;
-      const quantity = 10 + Math.random() * 50;
-      cumulative += quantity;
-      levels.push({ price, quantity, cumulativeQuantity: cumulative });
-    }
-    return levels;
-  }
-
-  private generateDepthBands(): Array<{
-    percentFromMid: number;
-    bidDepthUsd: number;
-    askDepthUsd: number;
-    totalDepthUsd: number;
-  }> {
-    return [0.1, 0.25, 0.5, 1.0, 2.0, 5.0].map((percent) => {
-      const bidDepth = 100000 * percent * (0.8 + Math.random() * 0.4);
-      const askDepth = 100000 * percent * (0.8 + Math.random() * 0.4);
-      return {
-        percentFromMid: percent,
-        bidDepthUsd: bidDepth,
-        askDepthUsd: askDepth,
-        totalDepthUsd: bidDepth + askDepth,
-      };
-    });
-  }
-
-  private generateImpactCurve(): Array<{
-    sizeUsd: number;
-    priceImpactBps: number;
-    side: 'buy' | 'sell';
-  }> {
-    const sizes = [10000, 50000, 100000, 500000, 1000000];
-    const curve: Array<{ sizeUsd: number; priceImpactBps: number; side: 'buy' | 'sell' }> = [];
-
-    for (const size of sizes) {
-      curve.push({
-        sizeUsd: size,
-        priceImpactBps: Math.sqrt(size / 1000) * (1 + Math.random() * 0.2),
-        side: 'buy',
-      });
-      curve.push({
-        sizeUsd: size,
-        priceImpactBps: Math.sqrt(size / 1000) * (1 + Math.random() * 0.2),
-        side: 'sell',
-      });
-    }
-
-    return curve;
-  }
-
   /**
    * Get payment history
    */
@@ -421,6 +434,20 @@ export class KaikoGateway {
     return Array.from(this.pendingPayments.values());
   }
 
+  /**
+   * Carry spend recorded before a restart (e.g. in the persisted state machine) into the budget
+   */
+  restoreSpend(spentUsdc: number): void {
+    if (spentUsdc <= this.budget.spentUsdc) {
+      return;
+    }
+    this.budget.spentUsdc = spentUsdc;
+    this.budget.remainingUsdc = this.budget.totalBudgetUsdc - spentUsdc;
+    if (this.budget.remainingUsdc <= 0) {
+      this.budget.isBlocked = true;
+    }
+  }
+
   /**
    * Reset budget (for testing/demo purposes)
    */
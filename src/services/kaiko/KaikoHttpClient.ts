@@ -0,0 +1,143 @@
+/**
+ * Kaiko REST transport
+ * Performs authenticated GETs and turns HTTP 402 challenges into KaikoPaymentRequired
+ */
+
+import { DEFAULT_HTTP402_CONFIG, HTTP402Config, parsePaymentAmount } from '../../config/payments';
+import { KaikoPaymentRequired } from '../../types/kaiko';
+import { ApiError } from '../../utils/errors';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_INVOICE_TTL_MS = 15 * 60 * 1000; // 15 minutes
+
+export interface KaikoHttpClientConfig {
+  apiKey: string;
+  timeoutMs: number;
+  http402: HTTP402Config;
+}
+
+export class KaikoHttpClient {
+  private config: KaikoHttpClientConfig;
+
+  constructor(config: Partial<KaikoHttpClientConfig> = {}) {
+    this.config = {
+      apiKey: config.apiKey ?? '',
+      timeoutMs: config.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      http402: config.http402 ?? DEFAULT_HTTP402_CONFIG,
+    };
+  }
+
+  /**
+   * GET a Kaiko endpoint and return the decoded JSON body.
+   * Throws KaikoPaymentRequired on 402 and ApiError on any other failure.
+   * When a payment receipt (settlement tx hash) is given it is sent in the receipt header,
+   * with the invoice it settles echoed back in the payment-required header.
+   */
+  async get(endpoint: string, paymentReceipt?: string, invoiceId?: string): Promise<unknown> {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (this.config.apiKey) {
+      headers['X-Api-Key'] = this.config.apiKey;
+    }
+    if (paymentReceipt !== undefined) {
+      headers[this.config.http402.paymentReceiptHeader] = paymentReceipt;
+    }
+    if (invoiceId !== undefined) {
+      headers[this.config.http402.paymentRequiredHeader] = invoiceId;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetch(endpoint, { method: 'GET', headers, signal: controller.signal });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new ApiError(`Kaiko request failed: ${message}`, {
+        details: { endpoint },
+        retryable: true,
+        ...(error instanceof Error ? { cause: error } : {}),
+      });
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (response.status === 402) {
+      throw await this.parsePaymentRequired(response, endpoint);
+    }
+
+    if (!response.ok) {
+      throw new ApiError(`Kaiko returned HTTP ${response.status} for ${endpoint}`, {
+        statusCode: response.status,
+        details: { endpoint },
+      });
+    }
+
+    try {
+      return await response.json();
+    } catch {
+      throw new ApiError(`Kaiko returned a non-JSON body for ${endpoint}`, {
+        statusCode: response.status,
+        details: { endpoint },
+      });
+    }
+  }
+
+  /**
+   * Build a KaikoPaymentRequired from the 402 headers.
+   * The amount header carries atomic USDC units (6 decimals).
+   */
+  private async parsePaymentRequired(
+    response: Response,
+    endpoint: string
+  ): Promise<KaikoPaymentRequired> {
+    const { paymentRequiredHeader, paymentAmountHeader, paymentAddressHeader } =
+      this.config.http402;
+
+    const invoiceId = response.headers.get(paymentRequiredHeader);
+    const atomicAmount = response.headers.get(paymentAmountHeader);
+    const paymentAddress = response.headers.get(paymentAddressHeader);
+
+    if (invoiceId === null || atomicAmount === null || paymentAddress === null) {
+      throw new ApiError(`Malformed 402 challenge from ${endpoint}: missing payment headers`, {
+        statusCode: 402,
+        details: { endpoint, invoiceId, atomicAmount, paymentAddress },
+      });
+    }
+
+    const requiredAmountUsdc = parsePaymentAmount(atomicAmount);
+    if (!Number.isFinite(requiredAmountUsdc) || requiredAmountUsdc <= 0) {
+      throw new ApiError(`Malformed 402 challenge from ${endpoint}: invalid amount`, {
+        statusCode: 402,
+        details: { endpoint, atomicAmount },
+      });
+    }
+
+    return {
+      statusCode: 402,
+      requiredAmountUsdc,
+      paymentAddress,
+      invoiceId,
+      expiresAt: await this.parseExpiry(response),
+      dataEndpoint: endpoint,
+    };
+  }
+
+  /**
+   * Challenges may carry an `expires_at` in the body; otherwise fall back to a 15 minute TTL
+   */
+  private async parseExpiry(response: Response): Promise<Date> {
+    try {
+      const body = (await response.json()) as { expires_at?: string | number };
+      if (body.expires_at !== undefined) {
+        const expiresAt = new Date(body.expires_at);
+        if (!isNaN(expiresAt.getTime())) {
+          return expiresAt;
+        }
+      }
+    } catch {
+      // Body is optional on 402 responses
+    }
+    return new Date(Date.now() + DEFAULT_INVOICE_TTL_MS);
+  }
+}
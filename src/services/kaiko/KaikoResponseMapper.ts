@@ -0,0 +1,244 @@
+/**
+ * Kaiko JSON → gateway response mapping
+ * Kaiko wraps results in `{ result, data: [...] }` and encodes numbers as strings
+ */
+
+import {
+  DepthBand,
+  ImpactPoint,
+  KaikoDataType,
+  KaikoLiquidityDepthResponse,
+  KaikoMarketDataRequest,
+  KaikoOrderBookResponse,
+  KaikoSpotPriceResponse,
+  OrderBookLevel,
+} from '../../types/kaiko';
+import { ApiError } from '../../utils/errors';
+
+type KaikoNumeric = number | string;
+
+interface KaikoEnvelope<T> {
+  result?: string;
+  data?: T[];
+}
+
+interface KaikoRawSpotPrice {
+  timestamp: KaikoNumeric;
+  price: KaikoNumeric | null;
+  volume?: KaikoNumeric | null;
+  confidence?: KaikoNumeric;
+  exchange?: string;
+}
+
+interface KaikoRawOrder {
+  amount: KaikoNumeric;
+  price: KaikoNumeric;
+}
+
+interface KaikoRawOrderBook {
+  poll_timestamp?: KaikoNumeric;
+  timestamp?: KaikoNumeric;
+  exchange?: string;
+  bids: KaikoRawOrder[];
+  asks: KaikoRawOrder[];
+}
+
+/**
+ * Depth snapshots expose one `bid_volumeX_Y` / `ask_volumeX_Y` field per band,
+ * where `X_Y` is the distance from mid in percent (`0_1` = 0.1%) and volumes are in base units.
+ */
+interface KaikoRawDepth {
+  poll_timestamp?: KaikoNumeric;
+  timestamp?: KaikoNumeric;
+  exchange?: string;
+  mid_price?: KaikoNumeric;
+  [field: string]: unknown;
+}
+
+const DEPTH_FIELD_PATTERN = /^(bid|ask)_volume(\d+)(?:_(\d+))?$/;
+
+export function mapKaikoResponse(
+  request: KaikoMarketDataRequest,
+  body: unknown
+): KaikoSpotPriceResponse | KaikoOrderBookResponse | KaikoLiquidityDepthResponse {
+  switch (request.dataType) {
+    case 'spot_price':
+      return mapSpotPrice(request, body);
+    case 'order_book':
+      return mapOrderBook(request, body);
+    case 'liquidity_depth':
+      return mapLiquidityDepth(request, body);
+    default:
+      throw new ApiError(`Unsupported Kaiko data type: ${request.dataType}`, {
+        details: { dataType: request.dataType },
+      });
+  }
+}
+
+export function mapSpotPrice(
+  request: KaikoMarketDataRequest,
+  body: unknown
+): KaikoSpotPriceResponse {
+  const rows = unwrap<KaikoRawSpotPrice>(body, 'spot_price');
+  // Kaiko returns buckets oldest first; the last priced bucket is the current rate
+  const latest = [...rows].reverse().find((row) => row.price !== null);
+  if (!latest) {
+    throw malformed('spot_price', 'no priced interval in response');
+  }
+
+  return {
+    instrument: request.instrument,
+    exchange: latest.exchange ?? request.exchange ?? 'aggregate',
+    price: toNumber(latest.price, 'price'),
+    volume24h: rows.reduce(
+      (sum, row) =>
+        sum +
+        (row.volume === null || row.volume === undefined ? 0 : toNumber(row.volume, 'volume')),
+      0
+    ),
+    timestamp: toDate(latest.timestamp),
+    confidence: latest.confidence === undefined ? 1 : toNumber(latest.confidence, 'confidence'),
+  };
+}
+
+export function mapOrderBook(
+  request: KaikoMarketDataRequest,
+  body: unknown
+): KaikoOrderBookResponse {
+  const rows = unwrap<KaikoRawOrderBook>(body, 'order_book');
+  const snapshot = rows[rows.length - 1];
+  if (!snapshot || !Array.isArray(snapshot.bids) || !Array.isArray(snapshot.asks)) {
+    throw malformed('order_book', 'missing bids/asks');
+  }
+
+  const bids = toLevels(snapshot.bids, (a, b) => b.price - a.price);
+  const asks = toLevels(snapshot.asks, (a, b) => a.price - b.price);
+
+  return {
+    instrument: request.instrument,
+    exchange: snapshot.exchange ?? request.exchange ?? 'aggregate',
+    bids,
+    asks,
+    timestamp: toDate(snapshot.poll_timestamp ?? snapshot.timestamp ?? Date.now()),
+    depth: Math.max(bids.length, asks.length),
+  };
+}
+
+export function mapLiquidityDepth(
+  request: KaikoMarketDataRequest,
+  body: unknown
+): KaikoLiquidityDepthResponse {
+  const rows = unwrap<KaikoRawDepth>(body, 'liquidity_depth');
+  const snapshot = rows[rows.length - 1];
+  if (!snapshot) {
+    throw malformed('liquidity_depth', 'empty depth snapshot');
+  }
+  if (snapshot.mid_price === undefined) {
+    throw malformed('liquidity_depth', 'missing mid_price');
+  }
+  const midPrice = toNumber(snapshot.mid_price, 'mid_price');
+
+  const bands = new Map<number, DepthBand>();
+  for (const [field, value] of Object.entries(snapshot)) {
+    const match = DEPTH_FIELD_PATTERN.exec(field);
+    if (!match || (typeof value !== 'number' && typeof value !== 'string')) continue;
+
+    const [, side, whole, fraction] = match;
+    const percentFromMid = Number(fraction !== undefined ? `${whole}.${fraction}` : whole);
+    const depthUsd = toNumber(value, field) * midPrice;
+
+    const band = bands.get(percentFromMid) ?? {
+      percentFromMid,
+      bidDepthUsd: 0,
+      askDepthUsd: 0,
+      totalDepthUsd: 0,
+    };
+    if (side === 'bid') {
+      band.bidDepthUsd = depthUsd;
+    } else {
+      band.askDepthUsd = depthUsd;
+    }
+    band.totalDepthUsd = band.bidDepthUsd + band.askDepthUsd;
+    bands.set(percentFromMid, band);
+  }
+
+  if (bands.size === 0) {
+    throw malformed('liquidity_depth', 'no depth bands');
+  }
+
+  const depthBands = [...bands.values()].sort((a, b) => a.percentFromMid - b.percentFromMid);
+
+  return {
+    instrument: request.instrument,
+    exchange: snapshot.exchange ?? request.exchange ?? 'aggregate',
+    depthBands,
+    impactCurve: deriveImpactCurve(depthBands),
+    timestamp: toDate(snapshot.poll_timestamp ?? snapshot.timestamp ?? Date.now()),
+  };
+}
+
+/**
+ * Consuming all depth within a band moves the price by that band's distance from mid,
+ * so each band yields one (size, impact) point per side.
+ */
+function deriveImpactCurve(depthBands: DepthBand[]): ImpactPoint[] {
+  const curve: ImpactPoint[] = [];
+  for (const band of depthBands) {
+    const priceImpactBps = band.percentFromMid * 100;
+    curve.push({ sizeUsd: band.askDepthUsd, priceImpactBps, side: 'buy' });
+    curve.push({ sizeUsd: band.bidDepthUsd, priceImpactBps, side: 'sell' });
+  }
+  return curve;
+}
+
+function toLevels(
+  orders: KaikoRawOrder[],
+  compare: (a: { price: number }, b: { price: number }) => number
+): OrderBookLevel[] {
+  const sorted = orders
+    .map((order) => ({
+      price: toNumber(order.price, 'price'),
+      quantity: toNumber(order.amount, 'amount'),
+    }))
+    .sort(compare);
+
+  let cumulativeQuantity = 0;
+  return sorted.map(({ price, quantity }) => {
+    cumulativeQuantity += quantity;
+    return { price, quantity, cumulativeQuantity };
+  });
+}
+
+function unwrap<T>(body: unknown, dataType: KaikoDataType): T[] {
+  const envelope = body as KaikoEnvelope<T> | null;
+  if (!envelope || typeof envelope !== 'object' || !Array.isArray(envelope.data)) {
+    throw malformed(dataType, 'missing data array');
+  }
+  if (envelope.result !== undefined && envelope.result !== 'success') {
+    throw malformed(dataType, `result was "${envelope.result}"`);
+  }
+  return envelope.data;
+}
+
+function toNumber(value: KaikoNumeric | null | undefined, field: string): number {
+  const parsed = typeof value === 'number' ? value : Number(value);
+  if (value === null || value === undefined || !Number.isFinite(parsed)) {
+    throw new ApiError(`Malformed Kaiko response: field "${field}" is not numeric`, {
+      details: { field, value },
+    });
+  }
+  return parsed;
+}
+
+function toDate(value: KaikoNumeric): Date {
+  // Kaiko timestamps are epoch milliseconds, occasionally ISO strings
+  const date =
+    typeof value === 'number' || /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+  return isNaN(date.getTime()) ? new Date() : date;
+}
+
+function malformed(dataType: KaikoDataType, reason: string): ApiError {
+  return new ApiError(`Malformed Kaiko ${dataType} response: ${reason}`, {
+    details: { dataType },
+  });
+}
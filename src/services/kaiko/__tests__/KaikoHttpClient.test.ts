@@ -0,0 +1,169 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+import { KaikoPaymentRequired } from '../../../types/kaiko';
+import { ApiError } from '../../../utils/errors';
+import { KaikoHttpClient } from '../KaikoHttpClient';
+
+type Handler = (request: IncomingMessage, response: ServerResponse) => void;
+
+const PAYMENT_ADDRESS = '0x1111111111111111111111111111111111111111';
+
+describe('KaikoHttpClient', () => {
+  let server: Server;
+  let endpoint: string;
+  let handler: Handler;
+  let received: IncomingMessage[];
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      received.push(request);
+      handler(request, response);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v2/data/spot`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve, reject) =>
+      server.close((error) => (error ? reject(error) : resolve()))
+    );
+  });
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  const challenge =
+    (headers: Record<string, string>, body?: unknown): Handler =>
+    (_request, response): void => {
+      response.writeHead(402, { 'Content-Type': 'application/json', ...headers });
+      response.end(body === undefined ? '' : JSON.stringify(body));
+    };
+
+  const paymentHeaders = {
+    'X-Payment-Required': 'inv-1',
+    'X-Payment-Amount': '1500000',
+    'X-Payment-Address': PAYMENT_ADDRESS,
+  };
+
+  const paymentRequired = async (client: KaikoHttpClient): Promise<KaikoPaymentRequired> => {
+    try {
+      await client.get(endpoint);
+    } catch (error) {
+      return error as KaikoPaymentRequired;
+    }
+    throw new Error('expected a 402 challenge');
+  };
+
+  const failure = async (client: KaikoHttpClient): Promise<ApiError> => {
+    const error: unknown = await client.get(endpoint).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    return error as ApiError;
+  };
+
+  it('returns the decoded body and sends the API key', async () => {
+    handler = (_request, response): void => {
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ result: 'success', data: [] }));
+    };
+
+    const body = await new KaikoHttpClient({ apiKey: 'key-1' }).get(endpoint);
+
+    expect(body).toEqual({ result: 'success', data: [] });
+    expect(received[0]?.headers['x-api-key']).toBe('key-1');
+  });
+
+  it('parses a 402 challenge into KaikoPaymentRequired', async () => {
+    handler = challenge(paymentHeaders, { expires_at: '2030-01-01T00:00:00.000Z' });
+
+    const invoice = await paymentRequired(new KaikoHttpClient());
+
+    expect(invoice).toEqual({
+      statusCode: 402,
+      requiredAmountUsdc: 1.5,
+      paymentAddress: PAYMENT_ADDRESS,
+      invoiceId: 'inv-1',
+      expiresAt: new Date('2030-01-01T00:00:00.000Z'),
+      dataEndpoint: endpoint,
+    });
+  });
+
+  it('falls back to a 15 minute expiry when the body has none', async () => {
+    handler = challenge(paymentHeaders);
+    const before = Date.now();
+
+    const invoice = await paymentRequired(new KaikoHttpClient());
+
+    const ttl = invoice.expiresAt.getTime() - before;
+    expect(ttl).toBeGreaterThanOrEqual(15 * 60 * 1000);
+    expect(ttl).toBeLessThan(16 * 60 * 1000);
+  });
+
+  it('reads the headers named in the HTTP 402 config', async () => {
+    handler = challenge({
+      'X-Invoice': 'inv-2',
+      'X-Amount': '250000',
+      'X-Pay-To': PAYMENT_ADDRESS,
+    });
+    const client = new KaikoHttpClient({
+      http402: {
+        enabled: true,
+        acceptedPaymentMethods: ['base_usdc'],
+        paymentReceiptHeader: 'X-Receipt',
+        paymentRequiredHeader: 'X-Invoice',
+        paymentAmountHeader: 'X-Amount',
+        paymentAddressHeader: 'X-Pay-To',
+      },
+    });
+
+    const invoice = await paymentRequired(client);
+
+    expect(invoice.invoiceId).toBe('inv-2');
+    expect(invoice.requiredAmountUsdc).toBe(0.25);
+  });
+
+  it('rejects a 402 challenge without payment headers', async () => {
+    handler = challenge({ 'X-Payment-Required': 'inv-1' });
+
+    const error = await failure(new KaikoHttpClient());
+
+    expect(error.statusCode).toBe(402);
+    expect(error.message).toContain('missing payment headers');
+  });
+
+  it.each(['0', 'abc'])('rejects a 402 challenge with amount %s', async (amount) => {
+    handler = challenge({ ...paymentHeaders, 'X-Payment-Amount': amount });
+
+    const error = await failure(new KaikoHttpClient());
+
+    expect(error.statusCode).toBe(402);
+    expect(error.message).toContain('invalid amount');
+  });
+
+  it('sends the payment receipt and its invoice on a paid retry', async () => {
+    handler = (_request, response): void => {
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end('{}');
+    };
+
+    await new KaikoHttpClient().get(endpoint, '0xabc', 'inv-1');
+
+    expect(received[0]?.headers['x-payment-receipt']).toBe('0xabc');
+    expect(received[0]?.headers['x-payment-required']).toBe('inv-1');
+  });
+
+  it('throws ApiError on other HTTP failures and non-JSON bodies', async () => {
+    handler = (_request, response): void => {
+      response.writeHead(500);
+      response.end();
+    };
+    expect((await failure(new KaikoHttpClient())).statusCode).toBe(500);
+
+    handler = (_request, response): void => {
+      response.writeHead(200, { 'Content-Type': 'text/plain' });
+      response.end('not json');
+    };
+    await expect(new KaikoHttpClient().get(endpoint)).rejects.toThrow('non-JSON body');
+  });
+});
@@ -0,0 +1,153 @@
+import { KaikoMarketDataRequest } from '../../../types/kaiko';
+import { ApiError } from '../../../utils/errors';
+import {
+  mapKaikoResponse,
+  mapLiquidityDepth,
+  mapOrderBook,
+  mapSpotPrice,
+} from '../KaikoResponseMapper';
+
+const request = (dataType: KaikoMarketDataRequest['dataType']): KaikoMarketDataRequest => ({
+  instrument: 'eth-usd',
+  dataType,
+});
+
+describe('mapSpotPrice', () => {
+  it('takes the last priced bucket and sums the volume', () => {
+    const spot = mapSpotPrice(request('spot_price'), {
+      result: 'success',
+      data: [
+        { timestamp: 1700000000000, price: '2000.5', volume: '10' },
+        { timestamp: 1700000060000, price: '2001', volume: 5, exchange: 'cbse' },
+        { timestamp: 1700000120000, price: null, volume: null },
+      ],
+    });
+
+    expect(spot).toEqual({
+      instrument: 'eth-usd',
+      exchange: 'cbse',
+      price: 2001,
+      volume24h: 15,
+      timestamp: new Date(1700000060000),
+      confidence: 1,
+    });
+  });
+
+  it('falls back to the requested exchange, then aggregate', () => {
+    const body = { data: [{ timestamp: '1700000000000', price: 1 }] };
+
+    expect(mapSpotPrice({ ...request('spot_price'), exchange: 'krkn' }, body).exchange).toBe(
+      'krkn'
+    );
+    expect(mapSpotPrice(request('spot_price'), body).exchange).toBe('aggregate');
+  });
+
+  it('rejects responses without a priced bucket', () => {
+    expect(() =>
+      mapSpotPrice(request('spot_price'), { data: [{ timestamp: 1, price: null }] })
+    ).toThrow('no priced interval');
+  });
+
+  it('rejects a failed result, a missing data array and non-numeric fields', () => {
+    expect(() => mapSpotPrice(request('spot_price'), { result: 'error', data: [] })).toThrow(
+      'result was "error"'
+    );
+    expect(() => mapSpotPrice(request('spot_price'), { result: 'success' })).toThrow(
+      'missing data array'
+    );
+    expect(() =>
+      mapSpotPrice(request('spot_price'), { data: [{ timestamp: 1, price: 'n/a' }] })
+    ).toThrow(ApiError);
+  });
+});
+
+describe('mapOrderBook', () => {
+  it('sorts both sides from the touch and accumulates quantity', () => {
+    const book = mapOrderBook(request('order_book'), {
+      data: [
+        {
+          poll_timestamp: 1700000000000,
+          exchange: 'cbse',
+          bids: [
+            { price: '99', amount: '2' },
+            { price: '100', amount: '1' },
+          ],
+          asks: [
+            { price: '102', amount: '3' },
+            { price: '101', amount: '1' },
+            { price: '103', amount: '1' },
+          ],
+        },
+      ],
+    });
+
+    expect(book.bids).toEqual([
+      { price: 100, quantity: 1, cumulativeQuantity: 1 },
+      { price: 99, quantity: 2, cumulativeQuantity: 3 },
+    ]);
+    expect(book.asks.map((level) => level.price)).toEqual([101, 102, 103]);
+    expect(book.asks[2]?.cumulativeQuantity).toBe(5);
+    expect(book.depth).toBe(3);
+    expect(book.timestamp).toEqual(new Date(1700000000000));
+  });
+
+  it('rejects a snapshot without bids and asks', () => {
+    expect(() => mapOrderBook(request('order_book'), { data: [{ bids: [] }] })).toThrow(
+      'missing bids/asks'
+    );
+  });
+});
+
+describe('mapLiquidityDepth', () => {
+  it('converts base volumes per band to USD and derives the impact curve', () => {
+    const depth = mapLiquidityDepth(request('liquidity_depth'), {
+      data: [
+        {
+          timestamp: '2024-01-01T00:00:00.000Z',
+          mid_price: '2000',
+          bid_volume1: '3',
+          ask_volume1: 2,
+          bid_volume0_1: '0.5',
+          ask_volume0_1: '0.25',
+          unrelated: 'ignored',
+        },
+      ],
+    });
+
+    expect(depth.depthBands).toEqual([
+      { percentFromMid: 0.1, bidDepthUsd: 1000, askDepthUsd: 500, totalDepthUsd: 1500 },
+      { percentFromMid: 1, bidDepthUsd: 6000, askDepthUsd: 4000, totalDepthUsd: 10000 },
+    ]);
+    expect(depth.impactCurve).toEqual([
+      { sizeUsd: 500, priceImpactBps: 10, side: 'buy' },
+      { sizeUsd: 1000, priceImpactBps: 10, side: 'sell' },
+      { sizeUsd: 4000, priceImpactBps: 100, side: 'buy' },
+      { sizeUsd: 6000, priceImpactBps: 100, side: 'sell' },
+    ]);
+    expect(depth.timestamp).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+  });
+
+  it('rejects snapshots without a mid price or bands', () => {
+    expect(() => mapLiquidityDepth(request('liquidity_depth'), { data: [{}] })).toThrow(
+      'missing mid_price'
+    );
+    expect(() =>
+      mapLiquidityDepth(request('liquidity_depth'), { data: [{ mid_price: 1 }] })
+    ).toThrow('no depth bands');
+  });
+});
+
+describe('mapKaikoResponse', () => {
+  it('dispatches on the data type', () => {
+    const spot = mapKaikoResponse(request('spot_price'), {
+      data: [{ timestamp: 1, price: 3 }],
+    });
+    expect(spot).toMatchObject({ price: 3 });
+  });
+
+  it('rejects data types it cannot map', () => {
+    expect(() => mapKaikoResponse(request('trades'), { data: [] })).toThrow(
+      'Unsupported Kaiko data type: trades'
+    );
+  });
+});
@@ -2,4 +2,7 @@
  * Kaiko Gateway Service Exports
  */
 
-export { KaikoGateway } from './KaikoGateway';
+export { KaikoGateway, KAIKO_REQUEST_COSTS_USDC } from './KaikoGateway';
+export { KaikoHttpClient } from './KaikoHttpClient';
+export type { KaikoHttpClientConfig } from './KaikoHttpClient';
+export { mapKaikoResponse, mapSpotPrice, mapOrderBook, mapLiquidityDepth } from './KaikoResponseMapper';
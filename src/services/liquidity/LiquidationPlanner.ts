@@ -0,0 +1,237 @@
+/**
+ * Almgren–Chriss liquidation schedules for advisory reports
+ */
+
+import {
+  DEFAULT_LIQUIDATION_PLANNER_CONFIG,
+  ImpactCurve,
+  LinearImpactModel,
+  LiquidationFrontierPoint,
+  LiquidationPlan,
+  LiquidationPlannerConfig,
+  LiquidationStep,
+} from '../../types/liquidity';
+import { ErrorCode, SentinelError } from '../../utils/errors';
+
+/** Hours per year, matching the 365-day annualization of calculateAnnualizedVolatility */
+const HOURS_PER_YEAR = 365 * 24;
+
+export interface LiquidationPlanInput {
+  /** USD value of the position to sell */
+  positionSize: number;
+  /** Impact curve of the position's token; only the sell side is used */
+  curve: ImpactCurve;
+  /** Annualized volatility of the token's price, e.g. 0.6 for 60% */
+  annualVolatility: number;
+  /** Weight of cost variance against expected cost, per USD; 0 sells at an even pace */
+  riskAversion: number;
+  /** Whole hours to spread the sale over; the configured horizon when omitted */
+  horizonHours?: number;
+}
+
+interface ScheduleOutcome {
+  schedule: LiquidationStep[];
+  expectedShortfall: number;
+  shortfallVariance: number;
+  halfLifeHours: number;
+}
+
+export class LiquidationPlanner {
+  private config: LiquidationPlannerConfig;
+
+  constructor(config: Partial<LiquidationPlannerConfig> = {}) {
+    this.config = { ...DEFAULT_LIQUIDATION_PLANNER_CONFIG, ...config };
+  }
+
+  /**
+   * Hour-by-hour sell schedule minimizing expected impact cost plus riskAversion times its
+   * variance. The book is assumed to refill between hours, so each hour's sale slips along
+   * the sell curve fitted as a line; the risk is the price moving on what is still held.
+   */
+  plan(input: LiquidationPlanInput): LiquidationPlan {
+    const { positionSize, curve, annualVolatility, riskAversion } = input;
+    const horizonHours = input.horizonHours ?? this.config.horizonHours;
+
+    if (!(positionSize > 0)) {
+      throw new SentinelError(ErrorCode.VALIDATION_ERROR, 'positionSize must be positive');
+    }
+    if (!Number.isInteger(horizonHours) || horizonHours < 1) {
+      throw new SentinelError(
+        ErrorCode.VALIDATION_ERROR,
+        `horizonHours must be a whole number of hours, got ${horizonHours}`
+      );
+    }
+    if (!(annualVolatility >= 0) || !(riskAversion >= 0)) {
+      throw new SentinelError(
+        ErrorCode.VALIDATION_ERROR,
+        'annualVolatility and riskAversion must be non-negative'
+      );
+    }
+
+    const impact = this.fitImpact(curve);
+    const hourlyVariance = annualVolatility ** 2 / HOURS_PER_YEAR;
+    const tradingSpeed = speedFor(riskAversion, hourlyVariance, impact.slippagePerUsd);
+    const outcome = this.simulate(positionSize, horizonHours, tradingSpeed, impact, hourlyVariance);
+
+    return {
+      advisory: true,
+      tokenAddress: curve.tokenAddress,
+      tokenSymbol: curve.tokenSymbol,
+      positionSize,
+      basePrice: curve.basePrice,
+      annualVolatility,
+      riskAversion,
+      horizonHours,
+      impact,
+      tradingSpeed,
+      schedule: outcome.schedule,
+      expectedShortfall: outcome.expectedShortfall,
+      shortfallVariance: outcome.shortfallVariance,
+      shortfallStdDev: Math.sqrt(outcome.shortfallVariance),
+      halfLifeHours: outcome.halfLifeHours,
+      extrapolated: outcome.schedule.some((step) => step.sellSize > impact.fittedUpTo),
+      frontier: this.frontier(positionSize, horizonHours, tradingSpeed, impact, hourlyVariance),
+      generatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Least-squares line through the fully filled sell points of the curve. A fit that slopes
+   * down or starts below zero is replaced by a line through the origin.
+   */
+  fitImpact(curve: ImpactCurve): LinearImpactModel {
+    const points = curve.points.filter(
+      (point) => point.side === 'sell' && point.tradeSize <= curve.maxTradeableSize.sell
+    );
+    if (points.length === 0) {
+      throw new SentinelError(
+        ErrorCode.VALIDATION_ERROR,
+        `Impact curve for ${curve.tokenSymbol} has no fully filled sell-side point`
+      );
+    }
+
+    const fittedUpTo = Math.max(...points.map((point) => point.tradeSize));
+    const n = points.length;
+    const sumQ = points.reduce((sum, point) => sum + point.tradeSize, 0);
+    const sumS = points.reduce((sum, point) => sum + point.expectedSlippage, 0);
+    const sumQQ = points.reduce((sum, point) => sum + point.tradeSize ** 2, 0);
+    const sumQS = points.reduce((sum, point) => sum + point.tradeSize * point.expectedSlippage, 0);
+    const denominator = n * sumQQ - sumQ ** 2;
+
+    if (n > 1 && denominator > 0) {
+      const slope = (n * sumQS - sumQ * sumS) / denominator;
+      const intercept = (sumS - slope * sumQ) / n;
+      if (slope >= 0 && intercept >= 0) {
+        return { fixedSlippage: intercept, slippagePerUsd: slope, fittedUpTo };
+      }
+    }
+
+    return { fixedSlippage: 0, slippagePerUsd: Math.max(sumQS / sumQQ, 0), fittedUpTo };
+  }
+
+  /**
+   * Schedules from an even pace up to maxUrgency over the horizon, or the planned speed when
+   * faster, at evenly spaced speeds
+   */
+  private frontier(
+    positionSize: number,
+    horizonHours: number,
+    plannedSpeed: number,
+    impact: LinearImpactModel,
+    hourlyVariance: number
+  ): LiquidationFrontierPoint[] {
+    const count = Math.max(this.config.frontierPoints, 2);
+    const maxSpeed = Math.max(
+      this.config.maxUrgency / horizonHours,
+      Number.isFinite(plannedSpeed) ? plannedSpeed : 0
+    );
+
+    return Array.from({ length: count }, (_, index) => {
+      const tradingSpeed = (maxSpeed * index) / (count - 1);
+      const outcome = this.simulate(
+        positionSize,
+        horizonHours,
+        tradingSpeed,
+        impact,
+        hourlyVariance
+      );
+      return {
+        tradingSpeed,
+        riskAversion: riskAversionFor(tradingSpeed, hourlyVariance, impact.slippagePerUsd),
+        expectedShortfall: outcome.expectedShortfall,
+        shortfallStdDev: Math.sqrt(outcome.shortfallVariance),
+        halfLifeHours: outcome.halfLifeHours,
+      };
+    });
+  }
+
+  /**
+   * Holdings x_j = X sinh(κ(N - j)) / sinh(κN) after each hour, and what selling down
+   * that path costs and risks
+   */
+  private simulate(
+    positionSize: number,
+    horizonHours: number,
+    tradingSpeed: number,
+    impact: LinearImpactModel,
+    hourlyVariance: number
+  ): ScheduleOutcome {
+    const half = positionSize / 2;
+    const schedule: LiquidationStep[] = [];
+    let held = positionSize;
+    let expectedShortfall = 0;
+    let shortfallVariance = 0;
+    let halfLifeHours = horizonHours;
+
+    for (let hour = 1; hour <= horizonHours; hour++) {
+      const remaining =
+        hour === horizonHours
+          ? 0
+          : positionSize * remainingShare(tradingSpeed, horizonHours - hour, horizonHours);
+      const sellSize = held - remaining;
+      const expectedCost = sellSize * (impact.fixedSlippage + impact.slippagePerUsd * sellSize);
+
+      if (held > half && remaining <= half && sellSize > 0) {
+        halfLifeHours = hour - 1 + (held - half) / sellSize;
+      }
+
+      schedule.push({ hour, sellSize, remaining, expectedCost });
+      expectedShortfall += expectedCost;
+      shortfallVariance += hourlyVariance * remaining ** 2;
+      held = remaining;
+    }
+
+    return { schedule, expectedShortfall, shortfallVariance, halfLifeHours };
+  }
+}
+
+/**
+ * κ solving cosh(κ) = 1 + λσ² / 2η for one-hour steps, η being slippagePerUsd; infinite
+ * when selling faster costs nothing more
+ */
+function speedFor(riskAversion: number, hourlyVariance: number, slippagePerUsd: number): number {
+  if (riskAversion === 0 || hourlyVariance === 0) return 0;
+  if (slippagePerUsd === 0) return Infinity;
+  return Math.acosh(1 + (riskAversion * hourlyVariance) / (2 * slippagePerUsd));
+}
+
+function riskAversionFor(
+  tradingSpeed: number,
+  hourlyVariance: number,
+  slippagePerUsd: number
+): number {
+  if (tradingSpeed === 0) return 0;
+  if (hourlyVariance === 0) return Infinity;
+  return (2 * slippagePerUsd * (Math.cosh(tradingSpeed) - 1)) / hourlyVariance;
+}
+
+/**
+ * sinh(κ·hoursLeft) / sinh(κ·horizon) without overflow; hoursLeft / horizon at κ = 0
+ */
+function remainingShare(tradingSpeed: number, hoursLeft: number, horizon: number): number {
+  if (tradingSpeed === 0) return hoursLeft / horizon;
+  if (!Number.isFinite(tradingSpeed)) return 0;
+  const a = tradingSpeed * hoursLeft;
+  const b = tradingSpeed * horizon;
+  return (Math.exp(a - b) * (1 - Math.exp(-2 * a))) / (1 - Math.exp(-2 * b));
+}
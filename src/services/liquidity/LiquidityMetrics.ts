@@ -2,7 +2,9 @@
  * Liquidity risk metrics calculation service
  */
 
+import { getStablecoinSymbols } from '../../config/chains';
 import {
+  AggregatedOrderBook,
   LiquidityRiskAssessment,
   LCRResult,
   ExitHalfLife,
@@ -10,12 +12,14 @@ import {
   DepthBand,
   ImpactCurve,
   ImpactPoint,
+  TradeSide,
+  VenueDepth,
   VolatilityThresholds,
   LiquidityMetricsConfig,
   DEFAULT_VOLATILITY_THRESHOLDS,
   DEFAULT_LIQUIDITY_CONFIG,
 } from '../../types/liquidity';
-import { TreasurySnapshot, TokenBalance } from '../../types/treasury';
+import { TokenBalance } from '../../types/treasury';
 
 export class LiquidityMetrics {
   private config: LiquidityMetricsConfig;
@@ -25,57 +29,111 @@ export class LiquidityMetrics {
     config: Partial<LiquidityMetricsConfig> = {},
     thresholds: Partial<VolatilityThresholds> = {}
   ) {
-    this.config = { ...DEFAULT_LIQUIDITY_CONFIG, ...config };
+    this.config = { ...DEFAULT_LIQUIDITY_CONFIG, hqlaSymbols: getStablecoinSymbols(), ...config };
     this.volatilityThresholds = { ...DEFAULT_VOLATILITY_THRESHOLDS, ...thresholds };
   }
 
   /**
    * Calculate Liquidity Coverage Ratio
    * LCR = High Quality Liquid Assets / Net Cash Outflows (30-day)
+   * Given balances, liquid assets are counted with highQualityLiquidAssets.
    */
   calculateLCR(
-    liquidAssets: number,
+    liquidAssets: number | TokenBalance[],
     projectedOutflows: number,
-    projectedInflows: number = 0
+    projectedInflows: number = 0,
+    isHighQuality: (symbol: string) => boolean = (symbol) =>
+      this.config.hqlaSymbols.includes(symbol)
   ): LCRResult {
+    const hqla =
+      typeof liquidAssets === 'number'
+        ? liquidAssets
+        : this.highQualityLiquidAssets(liquidAssets, isHighQuality);
     const netOutflows = Math.max(projectedOutflows - Math.min(projectedInflows, projectedOutflows * 0.75), 0);
-    const ratio = netOutflows > 0 ? liquidAssets / netOutflows : Infinity;
+    const ratio = netOutflows > 0 ? hqla / netOutflows : Infinity;
 
     return {
       ratio,
-      highQualityLiquidAssets: liquidAssets,
+      highQualityLiquidAssets: hqla,
       netCashOutflows30Day: netOutflows,
       isCompliant: ratio >= this.config.lcrComplianceThreshold,
       complianceThreshold: this.config.lcrComplianceThreshold,
     };
   }
 
+  /**
+   * USD value of high quality assets that can be withdrawn now. A decoded position counts
+   * only the withdrawable part of its high quality underlying, and nothing when locked.
+   */
+  highQualityLiquidAssets(
+    balances: TokenBalance[],
+    isHighQuality: (symbol: string) => boolean = (symbol) =>
+      this.config.hqlaSymbols.includes(symbol)
+  ): number {
+    return balances.reduce((sum, balance) => {
+      const { position } = balance;
+      if (position === undefined) {
+        return isHighQuality(balance.symbol) ? sum + balance.usdValue : sum;
+      }
+      if (position.withdrawability === 'locked') {
+        return sum;
+      }
+      return (
+        sum +
+        position.underlying
+          .filter((asset) => isHighQuality(asset.symbol))
+          .reduce((total, asset) => total + asset.withdrawableUsd, 0)
+      );
+    }, 0);
+  }
+
   /**
    * Calculate exit half-life for a position
-   * Time required to liquidate 50% of position without excessive market impact
+   * Time required to liquidate 50% of position without excessive market impact.
+   * With a sell-side impact curve, what the bids absorb within maxExitSlippage is sold at
+   * once and only the rest is paced by the participation rate.
    */
   calculateExitHalfLife(
     tokenAddress: string,
     tokenSymbol: string,
     positionSize: number,
-    averageDailyVolume: number
+    averageDailyVolume: number,
+    sellCurve?: ImpactCurve
   ): ExitHalfLife {
     const maxDailyExecution = averageDailyVolume * this.config.maxParticipationRate;
-    const halfPosition = positionSize / 2;
-    const halfLifeHours = maxDailyExecution > 0 ? (halfPosition / maxDailyExecution) * 24 : Infinity;
-    const fullExitHours = maxDailyExecution > 0 ? (positionSize / maxDailyExecution) * 24 : Infinity;
+    const bookExitSize = sellCurve ? Math.min(this.immediateExitSize(sellCurve), positionSize) : 0;
+    const hoursToSell = (size: number): number => {
+      const remaining = Math.max(size - bookExitSize, 0);
+      if (remaining === 0) return 0;
+      return maxDailyExecution > 0 ? (remaining / maxDailyExecution) * 24 : Infinity;
+    };
 
     return {
       tokenAddress,
       tokenSymbol,
       positionSize,
-      halfLifeHours,
-      fullExitHours,
+      halfLifeHours: hoursToSell(positionSize / 2),
+      fullExitHours: hoursToSell(positionSize),
       averageDailyVolume,
       participationRate: this.config.maxParticipationRate,
+      bookExitSize,
     };
   }
 
+  /**
+   * Largest sell-side curve size (USD) the bids fill completely within maxExitSlippage
+   */
+  immediateExitSize(curve: ImpactCurve): number {
+    return curve.points
+      .filter(
+        (point) =>
+          point.side === 'sell' &&
+          point.tradeSize <= curve.maxTradeableSize.sell &&
+          point.expectedSlippage <= this.config.maxExitSlippage
+      )
+      .reduce((max, point) => Math.max(max, point.tradeSize), 0);
+  }
+
   /**
    * Detect volatility regime from historical returns
    */
@@ -115,7 +173,9 @@ export class LiquidityMetrics {
   }
 
   /**
-   * Generate depth bands from order book data
+   * Generate depth bands from order book data, narrowest band first. Cumulative
+   * liquidity counts every level from the mid out to the band's edge; the plain
+   * figures count only what the band adds over the previous one.
    */
   generateDepthBands(
     midPrice: number,
@@ -123,19 +183,13 @@ export class LiquidityMetrics {
     asks: Array<{ price: number; quantity: number }>
   ): DepthBand[] {
     const bands: DepthBand[] = [];
+    let previousBid = 0;
+    let previousAsk = 0;
 
-    for (const percentage of this.config.depthBandPercentages) {
+    for (const percentage of [...this.config.depthBandPercentages].sort((a, b) => a - b)) {
       const lowerBound = midPrice * (1 - percentage / 100);
       const upperBound = midPrice * (1 + percentage / 100);
 
-      const bidLiquidity = bids
-        .filter((b) => b.price >= lowerBound)
-        .reduce((sum, b) => sum + b.quantity * b.price, 0);
-
-      const askLiquidity = asks
-        .filter((a) => a.price <= upperBound)
-        .reduce((sum, a) => sum + a.quantity * a.price, 0);
-
       const cumulativeBid = bids
         .filter((b) => b.price >= lowerBound)
         .reduce((sum, b) => sum + b.quantity * b.price, 0);
@@ -147,51 +201,120 @@ export class LiquidityMetrics {
       bands.push({
         priceLevel: midPrice,
         percentFromMid: percentage,
-        bidLiquidity,
-        askLiquidity,
+        bidLiquidity: cumulativeBid - previousBid,
+        askLiquidity: cumulativeAsk - previousAsk,
         cumulativeBidLiquidity: cumulativeBid,
         cumulativeAskLiquidity: cumulativeAsk,
       });
+      previousBid = cumulativeBid;
+      previousAsk = cumulativeAsk;
     }
 
     return bands;
   }
 
   /**
-   * Calculate market impact curve for a token
+   * Generate depth bands around an aggregated book's mid, each split by venue so a
+   * band's exit liquidity can be traced to where it rests
+   */
+  generateAggregatedDepthBands(book: AggregatedOrderBook): DepthBand[] {
+    // An exchange quoted in several currencies counts as one venue
+    const exchanges = [...new Set(book.venues.map((venue) => venue.exchange))];
+    const perVenue = exchanges.map((exchange) => ({
+      exchange,
+      bands: this.generateDepthBands(
+        book.midPrice,
+        book.bids.filter((level) => level.exchange === exchange),
+        book.asks.filter((level) => level.exchange === exchange)
+      ),
+    }));
+
+    return this.generateDepthBands(book.midPrice, book.bids, book.asks).map((band, index) => ({
+      ...band,
+      venues: perVenue.flatMap(({ exchange, bands }): VenueDepth[] => {
+        const venueBand = bands[index];
+        if (!venueBand) return [];
+        return [
+          {
+            exchange,
+            bidLiquidity: venueBand.bidLiquidity,
+            askLiquidity: venueBand.askLiquidity,
+            cumulativeBidLiquidity: venueBand.cumulativeBidLiquidity,
+            cumulativeAskLiquidity: venueBand.cumulativeAskLiquidity,
+            bidShare:
+              band.cumulativeBidLiquidity > 0
+                ? venueBand.cumulativeBidLiquidity / band.cumulativeBidLiquidity
+                : 0,
+            askShare:
+              band.cumulativeAskLiquidity > 0
+                ? venueBand.cumulativeAskLiquidity / band.cumulativeAskLiquidity
+                : 0,
+          },
+        ];
+      }),
+    }));
+  }
+
+  /**
+   * Calculate market impact curves for a token: buying walks the asks, selling walks the bids
    */
   calculateImpactCurve(
     tokenAddress: string,
     tokenSymbol: string,
     basePrice: number,
+    bids: Array<{ price: number; quantity: number }>,
     asks: Array<{ price: number; quantity: number }>
   ): ImpactCurve {
-    const sortedAsks = [...asks].sort((a, b) => a.price - b.price);
+    const buy = this.walkBook('buy', basePrice, [...asks].sort((a, b) => a.price - b.price));
+    const sell = this.walkBook('sell', basePrice, [...bids].sort((a, b) => b.price - a.price));
+
+    return {
+      tokenAddress,
+      tokenSymbol,
+      basePrice,
+      points: [...buy.points, ...sell.points],
+      maxTradeableSize: { buy: buy.maxTradeableSize, sell: sell.maxTradeableSize },
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Fill each curve size against one side of the book, best price first
+   */
+  private walkBook(
+    side: TradeSide,
+    basePrice: number,
+    levels: Array<{ price: number; quantity: number }>
+  ): { points: ImpactPoint[]; maxTradeableSize: number } {
     const points: ImpactPoint[] = [];
     let maxTradeableSize = 0;
 
     for (const targetSize of this.config.impactCurveSizes) {
       let remainingSize = targetSize;
-      let totalCost = 0;
+      let totalValue = 0;
       let totalQuantity = 0;
 
-      for (const ask of sortedAsks) {
+      for (const level of levels) {
         if (remainingSize <= 0) break;
 
-        const fillQuantity = Math.min(remainingSize / ask.price, ask.quantity);
-        const fillValue = fillQuantity * ask.price;
+        const fillQuantity = Math.min(remainingSize / level.price, level.quantity);
+        const fillValue = fillQuantity * level.price;
 
-        totalCost += fillValue;
+        totalValue += fillValue;
         totalQuantity += fillQuantity;
         remainingSize -= fillValue;
       }
 
       if (totalQuantity > 0) {
-        const executionPrice = totalCost / totalQuantity;
-        const slippage = (executionPrice - basePrice) / basePrice;
+        const executionPrice = totalValue / totalQuantity;
+        const slippage =
+          side === 'buy'
+            ? (executionPrice - basePrice) / basePrice
+            : (basePrice - executionPrice) / basePrice;
         const priceImpact = slippage * 100;
 
         points.push({
+          side,
           tradeSize: targetSize,
           expectedSlippage: slippage,
           priceImpact,
@@ -204,14 +327,7 @@ export class LiquidityMetrics {
       }
     }
 
-    return {
-      tokenAddress,
-      tokenSymbol,
-      basePrice,
-      points,
-      maxTradeableSize,
-      timestamp: new Date(),
-    };
+    return { points, maxTradeableSize };
   }
 
   /**
@@ -0,0 +1,142 @@
+/**
+ * Consolidates order books for one asset from several venues into a single USD book
+ */
+
+import { KaikoOrderBookResponse } from '../../types/kaiko';
+import {
+  AggregatedOrderBook,
+  DEFAULT_ORDER_BOOK_AGGREGATOR_CONFIG,
+  ExcludedOrderBook,
+  OrderBookAggregatorConfig,
+  VenueLevel,
+  VenueOrderBook,
+} from '../../types/liquidity';
+
+/**
+ * Venue book as fetched, with the quote currency of its instrument
+ */
+export interface QuotedOrderBook {
+  quote: string;
+  book: KaikoOrderBookResponse;
+}
+
+export class OrderBookAggregator {
+  private config: OrderBookAggregatorConfig;
+
+  constructor(config: Partial<OrderBookAggregatorConfig> = {}) {
+    this.config = { ...DEFAULT_ORDER_BOOK_AGGREGATOR_CONFIG, ...config };
+  }
+
+  /**
+   * Merge venue books into one USD book. Prices are converted with the quote currency's USD
+   * rate; `quoteUsd` adds or overrides configured rates for this call. A repeated exchange
+   * and quote keeps only its newest book. A book is stale when it trails the freshest book by
+   * more than `maxBookAgeMs` or `now` by more than `maxClockAgeMs`; a replay passes the time
+   * the recorded books arrived so it aggregates the same way.
+   * Returns undefined when no book survives.
+   */
+  aggregate(
+    base: string,
+    books: QuotedOrderBook[],
+    quoteUsd: Record<string, number> = {},
+    now: number = Date.now()
+  ): AggregatedOrderBook | undefined {
+    const rates = { ...this.config.quoteUsd, ...lowercaseKeys(quoteUsd) };
+    const excluded: ExcludedOrderBook[] = [];
+    const exclude = (entry: QuotedOrderBook, reason: ExcludedOrderBook['reason']): void => {
+      excluded.push({
+        exchange: entry.book.exchange,
+        quote: entry.quote.toLowerCase(),
+        reason,
+        timestamp: entry.book.timestamp,
+      });
+    };
+
+    const newestFirst = [...books].sort(
+      (a, b) => b.book.timestamp.getTime() - a.book.timestamp.getTime()
+    );
+    const freshest = newestFirst[0]?.book.timestamp.getTime();
+    const seen = new Set<string>();
+
+    const venues: VenueOrderBook[] = [];
+    const bids: VenueLevel[] = [];
+    const asks: VenueLevel[] = [];
+
+    for (const entry of newestFirst) {
+      const { book } = entry;
+      const quote = entry.quote.toLowerCase();
+      const key = `${book.exchange}:${quote}`;
+
+      if (seen.has(key)) {
+        exclude(entry, 'duplicate');
+        continue;
+      }
+      seen.add(key);
+
+      const bookTime = book.timestamp.getTime();
+      if (
+        (freshest !== undefined && freshest - bookTime > this.config.maxBookAgeMs) ||
+        now - bookTime > this.config.maxClockAgeMs
+      ) {
+        exclude(entry, 'stale');
+        continue;
+      }
+
+      const bestBid = book.bids[0]?.price;
+      const bestAsk = book.asks[0]?.price;
+      if (bestBid === undefined || bestAsk === undefined) {
+        exclude(entry, 'empty');
+        continue;
+      }
+
+      const rate = rates[quote];
+      if (rate === undefined || !(rate > 0)) {
+        exclude(entry, 'unpriced_quote');
+        continue;
+      }
+
+      venues.push({
+        exchange: book.exchange,
+        quote,
+        quoteUsd: rate,
+        midPrice: ((bestBid + bestAsk) / 2) * rate,
+        timestamp: book.timestamp,
+      });
+      for (const level of book.bids) {
+        bids.push({ exchange: book.exchange, price: level.price * rate, quantity: level.quantity });
+      }
+      for (const level of book.asks) {
+        asks.push({ exchange: book.exchange, price: level.price * rate, quantity: level.quantity });
+      }
+    }
+
+    const newest = venues[0];
+    if (!newest) {
+      return undefined;
+    }
+
+    return {
+      base: base.toLowerCase(),
+      midPrice: median(venues.map((venue) => venue.midPrice)),
+      bids: bids.sort((a, b) => b.price - a.price),
+      asks: asks.sort((a, b) => a.price - b.price),
+      venues,
+      excluded,
+      timestamp: newest.timestamp,
+    };
+  }
+}
+
+function lowercaseKeys(rates: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(rates).map(([code, rate]) => [code.toLowerCase(), rate])
+  );
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? (sorted[middle] ?? 0)
+    : ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2;
+}
@@ -0,0 +1,65 @@
+import { KaikoOrderBookResponse } from '../../../types/kaiko';
+import { LiquidityMetrics } from '../LiquidityMetrics';
+import { OrderBookAggregator, QuotedOrderBook } from '../OrderBookAggregator';
+
+const NOW = Date.parse('2024-03-01T12:00:00Z');
+
+function quoted(
+  exchange: string,
+  ageMs: number,
+  bid: [number, number],
+  ask: [number, number]
+): QuotedOrderBook {
+  const book: KaikoOrderBookResponse = {
+    instrument: 'eth-usd',
+    exchange,
+    bids: [{ price: bid[0], quantity: bid[1], cumulativeQuantity: bid[1] }],
+    asks: [{ price: ask[0], quantity: ask[1], cumulativeQuantity: ask[1] }],
+    timestamp: new Date(NOW - ageMs),
+    depth: 1,
+  };
+  return { quote: 'usd', book };
+}
+
+describe('OrderBookAggregator', () => {
+  const aggregator = new OrderBookAggregator({ maxBookAgeMs: 60_000, maxClockAgeMs: 300_000 });
+
+  it('drops books that trail the freshest one', () => {
+    const book = aggregator.aggregate(
+      'ETH',
+      [quoted('cbse', 0, [3000, 1], [3002, 1]), quoted('krkn', 61_000, [2990, 1], [2994, 1])],
+      {},
+      NOW
+    );
+
+    expect(book?.venues.map((venue) => venue.exchange)).toEqual(['cbse']);
+    expect(book?.excluded).toEqual([
+      expect.objectContaining({ exchange: 'krkn', reason: 'stale' }),
+    ]);
+  });
+
+  it('drops books that trail the clock even when they agree with each other', () => {
+    const books = [
+      quoted('cbse', 600_000, [3000, 1], [3002, 1]),
+      quoted('krkn', 601_000, [2999, 1], [3003, 1]),
+    ];
+
+    expect(aggregator.aggregate('ETH', books, {}, NOW)).toBeUndefined();
+    expect(aggregator.aggregate('ETH', books, {}, NOW - 600_000)?.venues).toHaveLength(2);
+  });
+
+  it('splits both sides of each depth band by venue', () => {
+    const book = aggregator.aggregate(
+      'ETH',
+      [quoted('cbse', 0, [2999, 3], [3001, 1]), quoted('bnce', 0, [2999, 1], [3001, 3])],
+      {},
+      NOW
+    );
+    const bands = book ? new LiquidityMetrics().generateAggregatedDepthBands(book) : [];
+
+    expect(bands[0]?.venues).toEqual([
+      expect.objectContaining({ exchange: 'cbse', bidShare: 0.75, askShare: 0.25 }),
+      expect.objectContaining({ exchange: 'bnce', bidShare: 0.25, askShare: 0.75 }),
+    ]);
+  });
+});
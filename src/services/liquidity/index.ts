@@ -1,2 +1,6 @@
-export { LiquidityMetrics } from './LiquidityMetrics';
 export * from '../../types/liquidity';
+export { LiquidationPlanner } from './LiquidationPlanner';
+export type { LiquidationPlanInput } from './LiquidationPlanner';
+export { LiquidityMetrics } from './LiquidityMetrics';
+export { OrderBookAggregator } from './OrderBookAggregator';
+export type { QuotedOrderBook } from './OrderBookAggregator';
@@ -0,0 +1,622 @@
+/**
+ * Peg monitoring for stablecoins and liquid staking tokens: samples each pegged asset's pool
+ * price and Chainlink price at the snapshot block, keeps a rolling history of deviations
+ * from par, raises graded TreasuryAlerts as a peg breaks, and reports how stressed each peg
+ * is for the escalation risk score
+ */
+
+import { randomUUID } from 'crypto';
+
+import { decodeFunctionResult, encodeFunctionData, Hex, parseAbi } from 'viem';
+
+import { TreasurySentinelEventEmitter } from '../../events/EventEmitter';
+import {
+  ChainId,
+  ChainName,
+  PegGrade,
+  PegSample,
+  PegStatus,
+  TreasuryAlert,
+  TreasurySnapshot,
+  UnderlyingAsset,
+} from '../../types/treasury';
+import { wrapError } from '../../utils/errors';
+import { createLogger } from '../../utils/logger';
+import { ContractCall } from '../treasury/Multicall';
+import { toUnits } from '../treasury/positions';
+import { TreasuryMonitor } from '../treasury/TreasuryMonitor';
+
+import {
+  chainlinkCalls,
+  ChainlinkFeed,
+  decodeChainlinkAnswer,
+  decodeTwapTick,
+  observeCall,
+  tickToPrice,
+} from './PriceOracle';
+
+const log = createLogger('DepegMonitor');
+
+const CURVE_POOL_ABI = parseAbi([
+  'function get_dy(int128 i, int128 j, uint256 dx) view returns (uint256)',
+]);
+
+const REDEMPTION_RATE_ABI = parseAbi([
+  'function getExchangeRate() view returns (uint256)',
+  'function stEthPerToken() view returns (uint256)',
+]);
+
+/**
+ * Pool the asset's market price is read from, against an asset assumed to hold the peg
+ * (USDT for USDC, WETH for stETH). Uniswap V3 pools give a TWAP; Curve pools the output of
+ * selling one token.
+ */
+export type PegPool =
+  | {
+      kind: 'uniswap-v3';
+      pool: string;
+      /** The pegged asset is token0 of the pool */
+      baseIsToken0: boolean;
+      baseDecimals: number;
+      quoteDecimals: number;
+    }
+  | {
+      kind: 'curve';
+      pool: string;
+      /** Coin indexes of the pegged asset and of the peg asset */
+      i: number;
+      j: number;
+      baseDecimals: number;
+      quoteDecimals: number;
+    };
+
+/**
+ * An asset expected to trade at a fixed rate to its peg
+ */
+export interface PeggedAsset {
+  /** 'USD', or the symbol of the asset it should trade at (e.g. 'ETH') */
+  peg: string;
+  /** Chainlink feed quoting the asset in its peg */
+  feed?: ChainlinkFeed;
+  pool?: PegPool;
+  /**
+   * Contract reporting how many peg units one token redeems for (18 decimals); par is 1
+   * without it. For non-rebasing LSTs such as rETH and wstETH.
+   */
+  redemptionRate?: { contract: string; functionName: 'getExchangeRate' | 'stEthPerToken' };
+}
+
+export interface DepegMonitorConfig {
+  /** Pegged assets per chain, by token symbol */
+  assets: Partial<Record<ChainName, Record<string, PeggedAsset>>>;
+  /** Absolute deviation from par at which each grade starts */
+  thresholds: Record<TreasuryAlert['severity'], number>;
+  /** Samples in a row a deviation must hold for before it is graded; critical ones count at once */
+  confirmSamples: number;
+  /** Older samples do not count toward confirming a deviation */
+  maxSampleAgeMs: number;
+  /** Samples older than this are pruned */
+  retentionMs: number;
+  twapWindowSeconds: number;
+  /** Allowance on top of a feed's heartbeat before its answer is ignored */
+  heartbeatGraceSeconds: number;
+}
+
+const ETHEREUM_USDC_USDT = '0x3416cF6C708Da44DB2624D63ea0AAef7113527C6';
+const ARBITRUM_USDC_USD: ChainlinkFeed = {
+  aggregator: '0x50834F3163758fcC1Df9973b6e91f0F0F0434aD3',
+  heartbeatSeconds: 86400,
+};
+
+/**
+ * The main stablecoins and LSTs. Stablecoins without a source on a chain (see the chain
+ * registry's `stablecoins`) are not sampled there.
+ */
+export const DEFAULT_PEGGED_ASSETS: Partial<Record<ChainName, Record<string, PeggedAsset>>> = {
+  ethereum: {
+    USDC: {
+      peg: 'USD',
+      feed: { aggregator: '0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6', heartbeatSeconds: 86400 },
+      pool: {
+        kind: 'uniswap-v3',
+        pool: ETHEREUM_USDC_USDT,
+        baseIsToken0: true,
+        baseDecimals: 6,
+        quoteDecimals: 6,
+      },
+    },
+    USDT: {
+      peg: 'USD',
+      feed: { aggregator: '0x3E7d1eAB13ad0104d2750B8863b489D65364e32D', heartbeatSeconds: 86400 },
+      pool: {
+        kind: 'uniswap-v3',
+        pool: ETHEREUM_USDC_USDT,
+        baseIsToken0: false,
+        baseDecimals: 6,
+        quoteDecimals: 6,
+      },
+    },
+    DAI: {
+      peg: 'USD',
+      feed: { aggregator: '0xAed0c38402a5d19df6E4c03F4E2DceD6e29c1ee9', heartbeatSeconds: 3600 },
+      pool: {
+        kind: 'uniswap-v3',
+        pool: '0x5777d92f208679DB4b9778590Fa3CAB3aC9e2168',
+        baseIsToken0: true,
+        baseDecimals: 18,
+        quoteDecimals: 6,
+      },
+    },
+    stETH: {
+      peg: 'ETH',
+      feed: { aggregator: '0x86392dC19c0b719886221c78AB11eb8Cf5c52812', heartbeatSeconds: 86400 },
+      pool: {
+        kind: 'curve',
+        pool: '0xDC24316b9AE028F1497c275EB9192a3Ea0f67022',
+        i: 1,
+        j: 0,
+        baseDecimals: 18,
+        quoteDecimals: 18,
+      },
+    },
+    wstETH: {
+      peg: 'ETH',
+      pool: {
+        kind: 'uniswap-v3',
+        pool: '0x109830a1AAaD605BbF02a9dFA7B0B92EC2FB7dAa',
+        baseIsToken0: true,
+        baseDecimals: 18,
+        quoteDecimals: 18,
+      },
+      redemptionRate: {
+        contract: '0x7f39C581F595B53c5cb19bD0b3f8dA6c935E2Ca0',
+        functionName: 'stEthPerToken',
+      },
+    },
+    rETH: {
+      peg: 'ETH',
+      feed: { aggregator: '0x536218f9E9Eb48863970252233c8F271f554C2d0', heartbeatSeconds: 86400 },
+      pool: {
+        kind: 'uniswap-v3',
+        pool: '0x553e9C493678d8606d6a5ba284643dB2110Df823',
+        baseIsToken0: true,
+        baseDecimals: 18,
+        quoteDecimals: 18,
+      },
+      redemptionRate: {
+        contract: '0xae78736Cd615f374D3085123A210448E74Fc6393',
+        functionName: 'getExchangeRate',
+      },
+    },
+  },
+  arbitrum: {
+    USDC: { peg: 'USD', feed: ARBITRUM_USDC_USD },
+    'USDC.e': { peg: 'USD', feed: ARBITRUM_USDC_USD },
+  },
+  base: {
+    USDC: {
+      peg: 'USD',
+      feed: { aggregator: '0x7e860098F58bBFC8648a4311b374B1D669a2bc6B', heartbeatSeconds: 86400 },
+    },
+  },
+};
+
+export const DEFAULT_DEPEG_MONITOR_CONFIG: DepegMonitorConfig = {
+  assets: DEFAULT_PEGGED_ASSETS,
+  thresholds: { low: 0.005, medium: 0.01, high: 0.02, critical: 0.05 },
+  confirmSamples: 3,
+  maxSampleAgeMs: 6 * 60 * 60 * 1000,
+  retentionMs: 30 * 24 * 60 * 60 * 1000,
+  twapWindowSeconds: 600,
+  heartbeatGraceSeconds: 600,
+};
+
+/**
+ * Where peg samples are kept; implemented by PegRepository
+ */
+export interface PegStore {
+  /** Latest samples of an asset, newest first */
+  getPegSamples(chainId: ChainId, symbol: string, limit: number): PegSample[];
+  /** Record samples and drop those taken before `pruneBeforeMs` */
+  savePegSamples(samples: PegSample[], pruneBeforeMs?: number): void;
+}
+
+const GRADE_ORDER: Record<PegGrade, number> = { none: 0, low: 1, medium: 2, high: 3, critical: 4 };
+
+/**
+ * The deviation every value agrees on: the one closest to zero when all point the same way,
+ * 0 otherwise
+ */
+function agreedDeviation(deviations: number[]): number {
+  if (deviations.length === 0 || (deviations.some((d) => d > 0) && deviations.some((d) => d < 0))) {
+    return 0;
+  }
+  return deviations.reduce((closest, d) => (Math.abs(d) < Math.abs(closest) ? d : closest));
+}
+
+/**
+ * USD value held in a symbol on the snapshot's chain, counting position underlyings; with
+ * `priceUsd` the holdings are revalued at that price
+ */
+function exposureUsd(snapshot: TreasurySnapshot, symbol: string, priceUsd?: number): number {
+  return snapshot.balances
+    .flatMap(
+      (balance): Array<Pick<UnderlyingAsset, 'symbol' | 'amount' | 'decimals' | 'usdValue'>> =>
+        balance.position ? balance.position.underlying : [{ ...balance, amount: balance.balance }]
+    )
+    .filter((asset) => asset.symbol === symbol)
+    .reduce(
+      (sum, asset) =>
+        sum +
+        (priceUsd !== undefined
+          ? toUnits(asset.amount, asset.decimals) * priceUsd
+          : asset.usdValue),
+      0
+    );
+}
+
+/**
+ * USD price of an asset pegged to another priced asset (an LST to ETH): the peg asset's `ok`
+ * quote on the snapshot times the sampled market rate. Undefined for USD pegs, for assets the
+ * snapshot already prices, and when the peg asset has no trusted quote.
+ */
+export function pegPriceUsd(snapshot: TreasurySnapshot, status: PegStatus): number | undefined {
+  if (status.chainId !== snapshot.chainId || status.peg === 'USD') {
+    return undefined;
+  }
+  const trusted = (symbol: string): number | undefined =>
+    snapshot.prices?.find((quote) => quote.symbol === symbol && quote.status === 'ok')?.priceUsd;
+  if (trusted(status.symbol) !== undefined) {
+    return undefined;
+  }
+  const pegUsd = trusted(status.peg);
+  return pegUsd !== undefined ? pegUsd * status.price : undefined;
+}
+
+/**
+ * pegPriceUsd for every status that has one, by symbol
+ */
+export function pegPricesUsd(
+  snapshot: TreasurySnapshot,
+  statuses: PegStatus[]
+): Map<string, number> {
+  const prices = new Map<string, number>();
+  for (const status of statuses) {
+    const priceUsd = pegPriceUsd(snapshot, status);
+    if (priceUsd !== undefined) {
+      prices.set(status.symbol, priceUsd);
+    }
+  }
+  return prices;
+}
+
+export class DepegMonitor {
+  private config: DepegMonitorConfig;
+
+  constructor(
+    private monitor: TreasuryMonitor,
+    private store: PegStore,
+    private events: TreasurySentinelEventEmitter,
+    config: Partial<DepegMonitorConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_DEPEG_MONITOR_CONFIG, ...config };
+  }
+
+  /**
+   * Read every pegged asset of the snapshot's chain at the snapshot block. Assets no source
+   * answered for, or whose redemption rate could not be read, get no sample.
+   */
+  async sample(snapshot: TreasurySnapshot): Promise<PegSample[]> {
+    const assets = Object.entries(this.config.assets[snapshot.chainName] ?? {});
+    if (assets.length === 0) {
+      return [];
+    }
+
+    const reads = assets.map(([symbol, asset]) => ({ symbol, asset, calls: this.callsFor(asset) }));
+    const results = await this.monitor.readContractsAt(
+      snapshot.chainName,
+      reads.flatMap((read) => read.calls),
+      snapshot.blockNumber
+    );
+
+    const samples: PegSample[] = [];
+    let offset = 0;
+    for (const { symbol, asset, calls } of reads) {
+      const sample = this.toSample(
+        snapshot,
+        symbol,
+        asset,
+        results.slice(offset, offset + calls.length)
+      );
+      offset += calls.length;
+      if (sample) {
+        samples.push(sample);
+      }
+    }
+    return samples;
+  }
+
+  /**
+   * Sample every snapshot's chain, grade each asset over its rolling history, record the
+   * samples and alert on the pegs whose grade got worse. A chain whose reads fail is logged
+   * and sampled again next cycle.
+   */
+  async checkCycle(snapshots: TreasurySnapshot[], correlationId?: string): Promise<PegStatus[]> {
+    const statuses: PegStatus[] = [];
+    const recorded: PegSample[] = [];
+    const alerts: TreasuryAlert[] = [];
+    const seen = new Set<ChainId>();
+
+    for (const snapshot of snapshots) {
+      if (seen.has(snapshot.chainId)) {
+        continue;
+      }
+      seen.add(snapshot.chainId);
+
+      let samples: PegSample[];
+      try {
+        samples = await this.sample(snapshot);
+      } catch (error) {
+        log.warn(`Peg sampling failed on ${snapshot.chainName}`, undefined, wrapError(error));
+        continue;
+      }
+
+      for (const sample of samples) {
+        const history = this.store.getPegSamples(
+          sample.chainId,
+          sample.symbol,
+          this.config.confirmSamples
+        );
+        const { status, previousGrade } = this.grade(sample, history);
+        sample.grade = status.grade;
+        statuses.push(status);
+        recorded.push(sample);
+        if (GRADE_ORDER[status.grade] > GRADE_ORDER[previousGrade]) {
+          alerts.push(this.raiseAlert(snapshot, sample, status));
+        }
+      }
+    }
+
+    if (recorded.length > 0) {
+      this.store.savePegSamples(recorded, Date.now() - this.config.retentionMs);
+    }
+    for (const alert of alerts) {
+      await this.events.emit(
+        this.events.createCorrelatedEvent(
+          {
+            type: 'treasury:alert',
+            payload: {
+              alertType: 'depeg',
+              chainId: alert.chainId,
+              details: alert.metadata ?? {},
+              alert,
+            },
+          },
+          correlationId
+        )
+      );
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Grade of a deviation's magnitude against the thresholds
+   */
+  gradeOf(deviation: number): PegGrade {
+    const magnitude = Math.abs(deviation);
+    const { thresholds } = this.config;
+    if (magnitude >= thresholds.critical) return 'critical';
+    if (magnitude >= thresholds.high) return 'high';
+    if (magnitude >= thresholds.medium) return 'medium';
+    if (magnitude >= thresholds.low) return 'low';
+    return 'none';
+  }
+
+  /**
+   * Status of a new sample given the stored history (newest first). A deviation counts once
+   * `confirmSamples` recent samples in a row agree on it, so one bad pool read cannot raise
+   * an alert; a critical deviation counts at once.
+   */
+  private grade(
+    sample: PegSample,
+    history: PegSample[]
+  ): { status: PegStatus; previousGrade: PegGrade } {
+    const recent = history
+      .filter(
+        (earlier) =>
+          earlier.timestamp < sample.timestamp &&
+          earlier.timestamp >= sample.timestamp - this.config.maxSampleAgeMs
+      )
+      .slice(0, this.config.confirmSamples - 1);
+    const window = [sample.deviation, ...recent.map((earlier) => earlier.deviation)];
+
+    const deviation =
+      this.gradeOf(sample.deviation) === 'critical'
+        ? sample.deviation
+        : window.length >= this.config.confirmSamples
+          ? agreedDeviation(window)
+          : 0;
+    const grade = this.gradeOf(deviation);
+
+    return {
+      status: {
+        chainId: sample.chainId,
+        symbol: sample.symbol,
+        peg: sample.peg,
+        deviation,
+        grade,
+        stress:
+          grade === 'none' ? 0 : Math.min(Math.abs(deviation) / this.config.thresholds.critical, 1),
+        price: sample.poolPrice ?? sample.oraclePrice ?? sample.par,
+        blockNumber: sample.blockNumber,
+        sampledAt: sample.timestamp,
+      },
+      previousGrade:
+        history.find((earlier) => earlier.timestamp < sample.timestamp)?.grade ?? 'none',
+    };
+  }
+
+  /**
+   * Reads for one asset, in order: feed (latestRoundData, decimals), pool, redemption rate
+   */
+  private callsFor(asset: PeggedAsset): ContractCall[] {
+    const calls: ContractCall[] = [];
+    if (asset.feed) {
+      calls.push(...chainlinkCalls(asset.feed.aggregator));
+    }
+    if (asset.pool?.kind === 'uniswap-v3') {
+      calls.push(observeCall(asset.pool.pool, this.config.twapWindowSeconds));
+    } else if (asset.pool?.kind === 'curve') {
+      calls.push({
+        target: asset.pool.pool as Hex,
+        callData: encodeFunctionData({
+          abi: CURVE_POOL_ABI,
+          functionName: 'get_dy',
+          args: [
+            BigInt(asset.pool.i),
+            BigInt(asset.pool.j),
+            10n ** BigInt(asset.pool.baseDecimals),
+          ],
+        }),
+      });
+    }
+    if (asset.redemptionRate) {
+      calls.push({
+        target: asset.redemptionRate.contract as Hex,
+        callData: encodeFunctionData({
+          abi: REDEMPTION_RATE_ABI,
+          functionName: asset.redemptionRate.functionName,
+        }),
+      });
+    }
+    return calls;
+  }
+
+  private toSample(
+    snapshot: TreasurySnapshot,
+    symbol: string,
+    asset: PeggedAsset,
+    results: Array<Hex | undefined>
+  ): PegSample | undefined {
+    let index = 0;
+    let oraclePrice: number | undefined;
+    if (asset.feed) {
+      const answer = decodeChainlinkAnswer(results[index], results[index + 1]);
+      const maxAge = asset.feed.heartbeatSeconds + this.config.heartbeatGraceSeconds;
+      if (answer && Math.floor(snapshot.timestamp / 1000) - answer.updatedAt <= maxAge) {
+        oraclePrice = answer.priceUsd;
+      }
+      index += 2;
+    }
+
+    let poolPrice: number | undefined;
+    if (asset.pool) {
+      poolPrice = decodePoolPrice(asset.pool, results[index], this.config.twapWindowSeconds);
+      index++;
+    }
+
+    let par = 1;
+    if (asset.redemptionRate) {
+      const rate = decodeRedemptionRate(asset.redemptionRate.functionName, results[index]);
+      if (rate === undefined) {
+        log.warn(`Redemption rate of ${symbol} on ${snapshot.chainName} not read; skipped`);
+        return undefined;
+      }
+      par = rate;
+    }
+
+    const deviations = [poolPrice, oraclePrice]
+      .filter((price): price is number => price !== undefined)
+      .map((price) => price / par - 1);
+    if (deviations.length === 0) {
+      return undefined;
+    }
+
+    return {
+      chainId: snapshot.chainId,
+      symbol,
+      peg: asset.peg,
+      blockNumber: snapshot.blockNumber,
+      timestamp: snapshot.timestamp,
+      par,
+      ...(poolPrice !== undefined ? { poolPrice } : {}),
+      ...(oraclePrice !== undefined ? { oraclePrice } : {}),
+      deviation: agreedDeviation(deviations),
+      grade: 'none',
+    };
+  }
+
+  private raiseAlert(
+    snapshot: TreasurySnapshot,
+    sample: PegSample,
+    status: PegStatus
+  ): TreasuryAlert {
+    const exposure = exposureUsd(snapshot, sample.symbol, pegPriceUsd(snapshot, status));
+    const sources = [
+      ...(sample.poolPrice !== undefined ? [`pool ${sample.poolPrice.toPrecision(5)}`] : []),
+      ...(sample.oraclePrice !== undefined ? [`oracle ${sample.oraclePrice.toPrecision(5)}`] : []),
+    ];
+    return {
+      id: randomUUID(),
+      severity: status.grade === 'none' ? 'low' : status.grade,
+      type: 'depeg',
+      message: `${sample.symbol} on ${snapshot.chainName} is ${(Math.abs(status.deviation) * 100).toFixed(2)}% ${status.deviation < 0 ? 'below' : 'above'} its ${sample.peg} peg (par ${sample.par.toPrecision(5)}, ${sources.join(', ')})`,
+      treasuryAddress: snapshot.address,
+      chainId: sample.chainId,
+      timestamp: sample.timestamp,
+      acknowledged: false,
+      metadata: {
+        symbol: sample.symbol,
+        peg: sample.peg,
+        par: sample.par,
+        deviation: status.deviation,
+        sampleDeviation: sample.deviation,
+        ...(sample.poolPrice !== undefined ? { poolPrice: sample.poolPrice } : {}),
+        ...(sample.oraclePrice !== undefined ? { oraclePrice: sample.oraclePrice } : {}),
+        grade: status.grade,
+        stress: status.stress,
+        exposureUsd: exposure,
+        blockNumber: sample.blockNumber,
+      },
+    };
+  }
+}
+
+/**
+ * Price of the pegged asset in the pool's other asset; undefined when the read failed
+ */
+function decodePoolPrice(
+  pool: PegPool,
+  result: Hex | undefined,
+  twapWindowSeconds: number
+): number | undefined {
+  if (pool.kind === 'uniswap-v3') {
+    const tick = decodeTwapTick(result, twapWindowSeconds);
+    return tick !== undefined ? tickToPrice(tick, pool) : undefined;
+  }
+  if (result === undefined) {
+    return undefined;
+  }
+  try {
+    const out = decodeFunctionResult({ abi: CURVE_POOL_ABI, functionName: 'get_dy', data: result });
+    return Number(out) / 10 ** pool.quoteDecimals;
+  } catch {
+    return undefined;
+  }
+}
+
+function decodeRedemptionRate(
+  functionName: 'getExchangeRate' | 'stEthPerToken',
+  result: Hex | undefined
+): number | undefined {
+  if (result === undefined) {
+    return undefined;
+  }
+  try {
+    const rate = decodeFunctionResult({ abi: REDEMPTION_RATE_ABI, functionName, data: result });
+    return rate > 0n ? Number(rate) / 1e18 : undefined;
+  } catch {
+    return undefined;
+  }
+}
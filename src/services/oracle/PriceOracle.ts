@@ -0,0 +1,376 @@
+/**
+ * Free on-chain USD prices: Chainlink aggregators first, with Uniswap V3 TWAPs as the fallback
+ * and the cross-check. Quotes are read at the snapshot block, so a historical snapshot is
+ * valued with the prices of its time. Only quotes that are stale or disagree need a paid
+ * Kaiko price (see AgentCycle).
+ */
+
+import { decodeFunctionResult, encodeFunctionData, Hex, parseAbi } from 'viem';
+
+import { ChainName, PriceQuote } from '../../types/treasury';
+import { ContractCall } from '../treasury/Multicall';
+
+const AGGREGATOR_ABI = parseAbi([
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+  'function decimals() view returns (uint8)',
+]);
+
+const POOL_ABI = parseAbi([
+  'function observe(uint32[] secondsAgos) view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)',
+]);
+
+/**
+ * A Chainlink USD aggregator
+ */
+export interface ChainlinkFeed {
+  aggregator: string;
+  /** Longest the feed goes without an update when the price is flat */
+  heartbeatSeconds: number;
+}
+
+/**
+ * A Uniswap V3 pool pairing the priced token with a quote token
+ */
+export interface TwapPool {
+  pool: string;
+  /** The priced token is token0 of the pool */
+  baseIsToken0: boolean;
+  baseDecimals: number;
+  quoteDecimals: number;
+  /** Valued by its own fresh Chainlink quote, or at par when it has none (a stablecoin) */
+  quoteSymbol: string;
+}
+
+export interface PriceOracleConfig {
+  /** USD feeds per chain, by token symbol */
+  chainlinkFeeds: Partial<Record<ChainName, Record<string, ChainlinkFeed>>>;
+  /** TWAP pools per chain, by token symbol */
+  twapPools: Partial<Record<ChainName, Record<string, TwapPool>>>;
+  /** Allowance on top of a feed's heartbeat before its answer counts as stale */
+  heartbeatGraceSeconds: number;
+  /** Largest relative difference between Chainlink and the TWAP that still counts as agreeing */
+  maxDeviation: number;
+  twapWindowSeconds: number;
+}
+
+/**
+ * Where and when the oracle reads
+ */
+export interface PriceContext {
+  chain: ChainName;
+  /** Time the prices are for (the snapshot time), Unix milliseconds */
+  timestamp: number;
+  /** Contract reads at the snapshot block; undefined where a call reverted */
+  read(calls: ContractCall[]): Promise<Array<Hex | undefined>>;
+}
+
+function chainlinkFeed(aggregator: string, heartbeatSeconds: number): ChainlinkFeed {
+  return { aggregator, heartbeatSeconds };
+}
+
+const ETHEREUM_ETH_USD = chainlinkFeed('0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419', 3600);
+const ARBITRUM_ETH_USD = chainlinkFeed('0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612', 86400);
+const ARBITRUM_USDC_USD = chainlinkFeed('0x50834F3163758fcC1Df9973b6e91f0F0F0434aD3', 86400);
+const OPTIMISM_ETH_USD = chainlinkFeed('0x13e3Ee699D1909E989722E753853AE30b17e08c5', 1200);
+const BASE_ETH_USD = chainlinkFeed('0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70', 1200);
+
+/**
+ * Chainlink USD feeds of the main treasury assets. Wrapped tokens use the feed of the asset
+ * they wrap (WETH the ETH feed, WBTC the BTC feed).
+ */
+export const DEFAULT_CHAINLINK_FEEDS: Partial<Record<ChainName, Record<string, ChainlinkFeed>>> = {
+  ethereum: {
+    ETH: ETHEREUM_ETH_USD,
+    WETH: ETHEREUM_ETH_USD,
+    WBTC: chainlinkFeed('0xF4030086522a5bEEa4988F8cA5B36dbC97BeE88c', 3600),
+    LINK: chainlinkFeed('0x2c1d072e956AFFC0D435Cb7AC38EF18d24d9127c', 3600),
+    USDC: chainlinkFeed('0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6', 86400),
+    USDT: chainlinkFeed('0x3E7d1eAB13ad0104d2750B8863b489D65364e32D', 86400),
+    DAI: chainlinkFeed('0xAed0c38402a5d19df6E4c03F4E2DceD6e29c1ee9', 3600),
+  },
+  gnosis: {
+    WETH: chainlinkFeed('0xa767f745331D267c7751297D982b050c93985627', 86400),
+    GNO: chainlinkFeed('0x22441d81416430A54336aB28765abd31a792Ad37', 86400),
+  },
+  arbitrum: {
+    ETH: ARBITRUM_ETH_USD,
+    WETH: ARBITRUM_ETH_USD,
+    WBTC: chainlinkFeed('0x6ce185860a4963106506C203335A2910413708e9', 86400),
+    ARB: chainlinkFeed('0xb2A824043730FE05F3DA2efaFa1CBbe83fa548D6', 86400),
+    USDC: ARBITRUM_USDC_USD,
+    'USDC.e': ARBITRUM_USDC_USD,
+  },
+  optimism: {
+    ETH: OPTIMISM_ETH_USD,
+    WETH: OPTIMISM_ETH_USD,
+    OP: chainlinkFeed('0x0D276FC14719f9292D5C1eA2198673d1f4269246', 1200),
+  },
+  base: {
+    ETH: BASE_ETH_USD,
+    WETH: BASE_ETH_USD,
+    USDC: chainlinkFeed('0x7e860098F58bBFC8648a4311b374B1D669a2bc6B', 86400),
+  },
+};
+
+const ETHEREUM_WETH_USDC: TwapPool = {
+  pool: '0x88e6A0c2dDD26FEEb64F039a2c41296FcB3f5640',
+  baseIsToken0: false,
+  baseDecimals: 18,
+  quoteDecimals: 6,
+  quoteSymbol: 'USDC',
+};
+const ARBITRUM_WETH_USDC: TwapPool = {
+  pool: '0xC6962004f452bE9203591991D15f6b388e09E8D0',
+  baseIsToken0: true,
+  baseDecimals: 18,
+  quoteDecimals: 6,
+  quoteSymbol: 'USDC',
+};
+const BASE_WETH_USDC: TwapPool = {
+  pool: '0xd0b53D9277642d899DF5C87A3966A349A798F224',
+  baseIsToken0: true,
+  baseDecimals: 18,
+  quoteDecimals: 6,
+  quoteSymbol: 'USDC',
+};
+
+/** The deepest WETH/USDC 0.05% pools */
+export const DEFAULT_TWAP_POOLS: Partial<Record<ChainName, Record<string, TwapPool>>> = {
+  ethereum: { ETH: ETHEREUM_WETH_USDC, WETH: ETHEREUM_WETH_USDC },
+  arbitrum: { ETH: ARBITRUM_WETH_USDC, WETH: ARBITRUM_WETH_USDC },
+  base: { ETH: BASE_WETH_USDC, WETH: BASE_WETH_USDC },
+};
+
+export const DEFAULT_PRICE_ORACLE_CONFIG: PriceOracleConfig = {
+  chainlinkFeeds: DEFAULT_CHAINLINK_FEEDS,
+  twapPools: DEFAULT_TWAP_POOLS,
+  heartbeatGraceSeconds: 600,
+  maxDeviation: 0.02,
+  twapWindowSeconds: 1800,
+};
+
+interface ChainlinkAnswer {
+  priceUsd: number;
+  /** Unix seconds */
+  updatedAt: number;
+  stale: boolean;
+}
+
+export class PriceOracle {
+  private config: PriceOracleConfig;
+
+  constructor(config: Partial<PriceOracleConfig> = {}) {
+    this.config = { ...DEFAULT_PRICE_ORACLE_CONFIG, ...config };
+  }
+
+  /**
+   * Quote every symbol with a feed or pool on the chain, in one batch of reads. Chainlink is
+   * used while fresh; a TWAP replaces a stale or missing answer. Where both were read, a
+   * difference above `maxDeviation` marks the quote `disagree`.
+   */
+  async quote(context: PriceContext): Promise<PriceQuote[]> {
+    const feeds = this.config.chainlinkFeeds[context.chain] ?? {};
+    const pools = this.config.twapPools[context.chain] ?? {};
+    const symbols = [...new Set([...Object.keys(feeds), ...Object.keys(pools)])];
+    if (symbols.length === 0) {
+      return [];
+    }
+
+    // Symbols sharing a feed or pool (ETH and WETH) read it once
+    const aggregators = [...new Set(Object.values(feeds).map((feed) => feed.aggregator))];
+    const poolAddresses = [...new Set(Object.values(pools).map((pool) => pool.pool))];
+    const calls: ContractCall[] = [
+      ...aggregators.flatMap(chainlinkCalls),
+      ...poolAddresses.map((pool) => observeCall(pool, this.config.twapWindowSeconds)),
+    ];
+    const results = await context.read(calls);
+
+    const nowSeconds = Math.floor(context.timestamp / 1000);
+    const chainlink = new Map<string, ChainlinkAnswer>();
+    for (const [symbol, feed] of Object.entries(feeds)) {
+      const index = aggregators.indexOf(feed.aggregator) * 2;
+      const answer = decodeChainlinkAnswer(results[index], results[index + 1]);
+      if (answer) {
+        const maxAge = feed.heartbeatSeconds + this.config.heartbeatGraceSeconds;
+        chainlink.set(symbol, { ...answer, stale: nowSeconds - answer.updatedAt > maxAge });
+      }
+    }
+
+    const twaps = new Map<string, number>();
+    for (const [symbol, pool] of Object.entries(pools)) {
+      const tick = decodeTwapTick(
+        results[aggregators.length * 2 + poolAddresses.indexOf(pool.pool)],
+        this.config.twapWindowSeconds
+      );
+      const quote = chainlink.get(pool.quoteSymbol);
+      const quoteUsd = quote === undefined ? 1 : quote.stale ? undefined : quote.priceUsd;
+      if (tick !== undefined && quoteUsd !== undefined) {
+        twaps.set(symbol, tickToPrice(tick, pool) * quoteUsd);
+      }
+    }
+
+    return symbols.map((symbol) => this.combine(symbol, chainlink.get(symbol), twaps.get(symbol)));
+  }
+
+  private combine(
+    symbol: string,
+    chainlink: ChainlinkAnswer | undefined,
+    twapUsd: number | undefined
+  ): PriceQuote {
+    const deviation =
+      chainlink !== undefined && twapUsd !== undefined
+        ? Math.abs(chainlink.priceUsd - twapUsd) / chainlink.priceUsd
+        : undefined;
+    const agrees = deviation === undefined || deviation <= this.config.maxDeviation;
+    const read = {
+      ...(chainlink !== undefined
+        ? { chainlinkUsd: chainlink.priceUsd, updatedAt: chainlink.updatedAt * 1000 }
+        : {}),
+      ...(twapUsd !== undefined ? { twapUsd } : {}),
+      ...(deviation !== undefined ? { deviation } : {}),
+    };
+
+    if (chainlink !== undefined && !chainlink.stale) {
+      return {
+        symbol,
+        priceUsd: chainlink.priceUsd,
+        source: 'chainlink',
+        status: agrees ? 'ok' : 'disagree',
+        ...read,
+      };
+    }
+    if (twapUsd !== undefined) {
+      return {
+        symbol,
+        priceUsd: twapUsd,
+        source: 'uniswap-twap',
+        status: agrees ? 'ok' : 'disagree',
+        ...read,
+      };
+    }
+    if (chainlink !== undefined) {
+      return {
+        symbol,
+        priceUsd: chainlink.priceUsd,
+        source: 'chainlink',
+        status: 'stale',
+        ...read,
+      };
+    }
+    return unavailableQuote(symbol);
+  }
+}
+
+/**
+ * Quote for a symbol no free source could price, e.g. a held token without a feed or pool
+ */
+export function unavailableQuote(symbol: string): PriceQuote {
+  return { symbol, priceUsd: 0, source: null, status: 'unavailable' };
+}
+
+/**
+ * latestRoundData and decimals reads of an aggregator, in that order
+ */
+export function chainlinkCalls(aggregator: string): ContractCall[] {
+  return [
+    {
+      target: aggregator as Hex,
+      callData: encodeFunctionData({ abi: AGGREGATOR_ABI, functionName: 'latestRoundData' }),
+    },
+    {
+      target: aggregator as Hex,
+      callData: encodeFunctionData({ abi: AGGREGATOR_ABI, functionName: 'decimals' }),
+    },
+  ];
+}
+
+/**
+ * Tick cumulatives of a Uniswap V3 pool at the start and end of the window
+ */
+export function observeCall(pool: string, windowSeconds: number): ContractCall {
+  return {
+    target: pool as Hex,
+    callData: encodeFunctionData({
+      abi: POOL_ABI,
+      functionName: 'observe',
+      args: [[windowSeconds, 0]],
+    }),
+  };
+}
+
+/**
+ * Price and update time (Unix seconds) of a latestRoundData read; undefined for reverted or
+ * non-positive answers
+ */
+export function decodeChainlinkAnswer(
+  roundData: Hex | undefined,
+  decimals: Hex | undefined
+): { priceUsd: number; updatedAt: number } | undefined {
+  if (roundData === undefined || decimals === undefined) {
+    return undefined;
+  }
+  try {
+    const [, answer, , updatedAt] = decodeFunctionResult({
+      abi: AGGREGATOR_ABI,
+      functionName: 'latestRoundData',
+      data: roundData,
+    });
+    const scale = decodeFunctionResult({
+      abi: AGGREGATOR_ABI,
+      functionName: 'decimals',
+      data: decimals,
+    });
+    if (answer <= 0n) {
+      return undefined;
+    }
+    return { priceUsd: Number(answer) / 10 ** scale, updatedAt: Number(updatedAt) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Time-weighted average tick over the window, rounded toward negative infinity like the
+ * Uniswap OracleLibrary; undefined when the pool cannot look back that far
+ */
+export function decodeTwapTick(
+  observation: Hex | undefined,
+  windowSeconds: number
+): number | undefined {
+  if (observation === undefined) {
+    return undefined;
+  }
+  try {
+    const [tickCumulatives] = decodeFunctionResult({
+      abi: POOL_ABI,
+      functionName: 'observe',
+      data: observation,
+    });
+    const [start, end] = tickCumulatives;
+    if (start === undefined || end === undefined) {
+      return undefined;
+    }
+    const delta = end - start;
+    const window = BigInt(windowSeconds);
+    let tick = delta / window;
+    if (delta < 0n && delta % window !== 0n) {
+      tick -= 1n;
+    }
+    return Number(tick);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Price of the pool's base token in its quote token at a tick
+ */
+export function tickToPrice(
+  tick: number,
+  pool: Pick<TwapPool, 'baseIsToken0' | 'baseDecimals' | 'quoteDecimals'>
+): number {
+  return (
+    Math.pow(1.0001, pool.baseIsToken0 ? tick : -tick) *
+    10 ** (pool.baseDecimals - pool.quoteDecimals)
+  );
+}
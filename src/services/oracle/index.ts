@@ -0,0 +1,14 @@
+export { DEFAULT_DEPEG_MONITOR_CONFIG, DEFAULT_PEGGED_ASSETS, DepegMonitor } from './DepegMonitor';
+export type { DepegMonitorConfig, PegPool, PegStore, PeggedAsset } from './DepegMonitor';
+export {
+  DEFAULT_CHAINLINK_FEEDS,
+  DEFAULT_PRICE_ORACLE_CONFIG,
+  DEFAULT_TWAP_POOLS,
+  PriceOracle,
+  chainlinkCalls,
+  decodeChainlinkAnswer,
+  decodeTwapTick,
+  observeCall,
+  tickToPrice,
+} from './PriceOracle';
+export type { ChainlinkFeed, PriceContext, PriceOracleConfig, TwapPool } from './PriceOracle';
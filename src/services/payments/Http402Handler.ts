@@ -1,4 +1,7 @@
 import { v4 as uuidv4 } from 'uuid';
+
+import { RpcPool } from '../rpc/RpcPool';
+
 import {
   PaymentRequest,
   PaymentProof,
@@ -14,7 +17,9 @@ export class Http402Handler {
   private config: PaymentHandlerConfig;
   private pendingPayments: Map<string, PaymentRequest> = new Map();
 
-  constructor(config: Partial<PaymentHandlerConfig> = {}) {
+  private rpc: RpcPool;
+
+  constructor(config: Partial<PaymentHandlerConfig> = {}, rpcPool?: RpcPool) {
     this.config = {
       baseRpcUrl: config.baseRpcUrl || process.env.BASE_RPC_URL || 'https://mainnet.base.org',
       usdcContractAddress: config.usdcContractAddress || BASE_USDC_ADDRESS,
@@ -22,6 +27,7 @@ export class Http402Handler {
       confirmationBlocks: config.confirmationBlocks || 3,
       verificationTimeoutMs: config.verificationTimeoutMs || 60000,
     };
+    this.rpc = rpcPool ?? RpcPool.fromUrl('base', this.config.baseRpcUrl);
   }
 
   createPaymentRequest(endpoint: string, amountUSDC: number): Http402Response {
@@ -173,35 +179,11 @@ export class Http402Handler {
   }
 
   private async fetchTransactionReceipt(txHash: string): Promise<TransactionReceipt | null> {
-    const response = await fetch(this.config.baseRpcUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        method: 'eth_getTransactionReceipt',
-        params: [txHash],
-        id: 1,
-      }),
-    });
-
-    const data = await response.json();
-    return data.result;
+    return this.rpc.request<TransactionReceipt | null>('eth_getTransactionReceipt', [txHash]);
   }
 
   private async fetchBlockInfo(blockNumber: string): Promise<BlockInfo> {
-    const response = await fetch(this.config.baseRpcUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        method: 'eth_getBlockByNumber',
-        params: [blockNumber, false],
-        id: 1,
-      }),
-    });
-
-    const data = await response.json();
-    return data.result;
+    return this.rpc.request<BlockInfo>('eth_getBlockByNumber', [blockNumber, false]);
   }
 
   private parseUSDCTransfer(logs: TransactionLog[]): USDCTransfer | null {
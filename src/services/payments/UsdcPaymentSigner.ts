@@ -0,0 +1,267 @@
+/**
+ * Autonomous USDC payer for HTTP 402 challenges
+ * Signs and broadcasts the Base USDC transfer an invoice demands, waits for settlement
+ * and records every step in the payments table
+ */
+
+import {
+  Address,
+  Chain,
+  createWalletClient,
+  encodeFunctionData,
+  erc20Abi,
+  Hex,
+  http,
+  isAddress,
+  keccak256,
+  Transport,
+  WalletClient,
+} from 'viem';
+import { PrivateKeyAccount, privateKeyToAccount } from 'viem/accounts';
+import { base } from 'viem/chains';
+
+import { DEFAULT_PAYMENT_CONFIG, formatPaymentAmount } from '../../config/payments';
+import { PaymentRepository } from '../../db/repositories/PaymentRepository';
+import { PaymentRecord } from '../../types/database';
+import { KaikoPaymentRequired } from '../../types/kaiko';
+import { ErrorCode, SentinelError, wrapError } from '../../utils/errors';
+import { createLogger } from '../../utils/logger';
+import { SettlementVerifier } from '../settlement/SettlementVerifier';
+
+import {
+  BASE_CHAIN_ID,
+  BASE_USDC_ADDRESS,
+  PaymentSignerConfig,
+  PaymentSignerResult,
+} from './types';
+
+const PRIVATE_KEY_PATTERN = /^0x[a-fA-F0-9]{64}$/;
+
+const log = createLogger('UsdcPaymentSigner');
+
+export class UsdcPaymentSigner {
+  private config: PaymentSignerConfig;
+  private account: PrivateKeyAccount;
+  private walletClient: WalletClient<Transport, Chain, PrivateKeyAccount>;
+  private verifier: SettlementVerifier;
+
+  /**
+   * Pass the shared settlement verifier so ReorgMonitor rechecks the payments made here;
+   * without one the signer verifies through a verifier of its own
+   */
+  constructor(
+    private paymentRepository: PaymentRepository,
+    config: Partial<PaymentSignerConfig> = {},
+    settlementVerifier?: SettlementVerifier
+  ) {
+    this.config = {
+      baseRpcUrl: config.baseRpcUrl ?? process.env['BASE_RPC_URL'] ?? 'https://mainnet.base.org',
+      privateKey: config.privateKey ?? process.env['SETTLEMENT_PRIVATE_KEY'] ?? '',
+      usdcContractAddress: config.usdcContractAddress ?? BASE_USDC_ADDRESS,
+      confirmationBlocks: config.confirmationBlocks ?? DEFAULT_PAYMENT_CONFIG.confirmationBlocks,
+      settlementTimeoutMs: config.settlementTimeoutMs ?? DEFAULT_PAYMENT_CONFIG.paymentTimeoutMs,
+      pollIntervalMs: config.pollIntervalMs ?? 2000,
+      maxPaymentUsdc: config.maxPaymentUsdc ?? DEFAULT_PAYMENT_CONFIG.maxPaymentAmountUSDC,
+      allowedPayees:
+        config.allowedPayees ??
+        [process.env['KAIKO_PAYMENT_ADDRESS'] ?? ''].filter((address) => address !== ''),
+    };
+
+    if (!PRIVATE_KEY_PATTERN.test(this.config.privateKey)) {
+      throw new SentinelError(
+        ErrorCode.CONFIGURATION_ERROR,
+        'SETTLEMENT_PRIVATE_KEY must be set to a 32-byte hex key to pay 402 invoices'
+      );
+    }
+
+    // Without a payee allowlist, whoever answers with a 402 chooses where the budget goes
+    if (
+      this.config.allowedPayees.length === 0 ||
+      !this.config.allowedPayees.every((address) => isAddress(address))
+    ) {
+      throw new SentinelError(
+        ErrorCode.CONFIGURATION_ERROR,
+        "KAIKO_PAYMENT_ADDRESS must be set to Kaiko's payee address to pay 402 invoices",
+        { details: { allowedPayees: this.config.allowedPayees } }
+      );
+    }
+
+    this.account = privateKeyToAccount(this.config.privateKey as Hex);
+    this.walletClient = createWalletClient({
+      account: this.account,
+      chain: base,
+      transport: http(this.config.baseRpcUrl),
+    });
+    this.verifier =
+      settlementVerifier ??
+      new SettlementVerifier({
+        baseRpcUrl: this.config.baseRpcUrl,
+        // Every settlement names the invoice's receiver
+        receiverAddress: '',
+        usdcContractAddress: this.config.usdcContractAddress,
+        confirmationBlocks: this.config.confirmationBlocks,
+      });
+  }
+
+  /**
+   * Address the transfers are sent from
+   */
+  getPayerAddress(): string {
+    return this.account.address;
+  }
+
+  /**
+   * Pay a 402 invoice and wait until the transfer has `confirmationBlocks` confirmations.
+   * Invoices already settled (or broadcast) by an earlier attempt are resumed, never paid twice.
+   * `onTransaction` receives the transfer's hash as soon as it is recorded, before broadcast.
+   */
+  async payInvoice(
+    challenge: KaikoPaymentRequired,
+    purpose: string,
+    onTransaction?: (transactionHash: string) => void
+  ): Promise<PaymentSignerResult> {
+    const previous = this.paymentRepository.findByKaikoRequestId(challenge.invoiceId);
+    if (previous?.status === 'confirmed' && previous.tx_hash !== null) {
+      onTransaction?.(previous.tx_hash);
+      return { success: true, paymentId: previous.id, transactionHash: previous.tx_hash };
+    }
+    if (previous?.status === 'pending') {
+      if (previous.tx_hash === null) {
+        // The transfer may have gone out before its hash was stored; paying again could pay twice
+        return {
+          success: false,
+          paymentId: previous.id,
+          error: `Payment ${previous.id} for invoice ${challenge.invoiceId} has no transaction hash; reconcile it before paying again`,
+        };
+      }
+      onTransaction?.(previous.tx_hash);
+      return this.awaitSettlement(challenge, previous, previous.tx_hash);
+    }
+
+    const rejection = this.validateChallenge(challenge);
+    if (rejection !== null) {
+      return { success: false, error: rejection };
+    }
+
+    // Sign before recording so the row carries the hash from the start; nothing is broadcast yet
+    let serializedTransaction: Hex;
+    try {
+      const request = await this.walletClient.prepareTransactionRequest({
+        to: this.config.usdcContractAddress as Address,
+        data: encodeFunctionData({
+          abi: erc20Abi,
+          functionName: 'transfer',
+          args: [challenge.paymentAddress as Address, this.toAtomicAmount(challenge)],
+        }),
+      });
+      serializedTransaction = await this.walletClient.signTransaction(request);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Signing failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+    const transactionHash = keccak256(serializedTransaction);
+
+    const record = this.paymentRepository.create({
+      timestamp: new Date().toISOString(),
+      amount_usdc: challenge.requiredAmountUsdc,
+      recipient: challenge.paymentAddress,
+      tx_hash: transactionHash,
+      status: 'pending',
+      chain_id: BASE_CHAIN_ID,
+      purpose,
+      kaiko_request_id: challenge.invoiceId,
+    });
+    onTransaction?.(transactionHash);
+
+    try {
+      await this.walletClient.sendRawTransaction({ serializedTransaction });
+    } catch (error) {
+      // The node may have taken the transaction before the call failed, so its receipt decides
+      log.warn(
+        'Broadcast reported an error, verifying on-chain',
+        { transactionHash },
+        wrapError(error)
+      );
+    }
+
+    return this.awaitSettlement(challenge, record, transactionHash);
+  }
+
+  private async awaitSettlement(
+    challenge: KaikoPaymentRequired,
+    record: PaymentRecord,
+    transactionHash: string
+  ): Promise<PaymentSignerResult> {
+    // A resumed payment may still be tracked from an earlier wait, or verified by a recheck since
+    const tracked = this.verifier.getSettlementForPayment(record.id);
+    if (tracked?.status === 'VERIFIED') {
+      this.paymentRepository.updateStatus(record.id, 'confirmed', transactionHash);
+      return { success: true, paymentId: record.id, transactionHash };
+    }
+    if (tracked) {
+      this.verifier.cancelPendingSettlement(tracked.id);
+    }
+
+    const settlement = this.verifier.createPendingSettlement(
+      this.toAtomicAmount(challenge),
+      this.account.address,
+      record.id,
+      this.config.settlementTimeoutMs,
+      {
+        receiverAddress: challenge.paymentAddress,
+        // The invoice only needs the transfer included; rechecks follow it until it is final
+        requiredFinality: 'latest',
+      }
+    );
+    this.verifier.attachTransaction(settlement.id, transactionHash);
+
+    const result = await this.verifier.pollForSettlement(
+      settlement.id,
+      this.config.pollIntervalMs
+    );
+
+    if (result.success) {
+      this.paymentRepository.updateStatus(record.id, 'confirmed', transactionHash);
+      return { success: true, paymentId: record.id, transactionHash };
+    }
+
+    // A timed-out or unseen transfer may still land, so it stays pending and keeps counting against spend
+    if (result.status !== 'EXPIRED') {
+      this.verifier.cancelPendingSettlement(settlement.id);
+      this.paymentRepository.updateStatus(record.id, 'failed', transactionHash);
+    }
+    return {
+      success: false,
+      paymentId: record.id,
+      transactionHash,
+      error: result.error ?? `Settlement ${result.status.toLowerCase()}`,
+      ...(result.status === 'EXPIRED' ? { settlementPending: true } : {}),
+    };
+  }
+
+  private validateChallenge(challenge: KaikoPaymentRequired): string | null {
+    if (!isAddress(challenge.paymentAddress)) {
+      return `Invalid payment address: ${challenge.paymentAddress}`;
+    }
+    const payee = challenge.paymentAddress.toLowerCase();
+    if (!this.config.allowedPayees.some((address) => address.toLowerCase() === payee)) {
+      return `Invoice ${challenge.invoiceId} names ${challenge.paymentAddress}, which is not an allowed payee`;
+    }
+    if (challenge.expiresAt.getTime() <= Date.now()) {
+      return `Invoice ${challenge.invoiceId} expired at ${challenge.expiresAt.toISOString()}`;
+    }
+    if (challenge.requiredAmountUsdc <= 0) {
+      return `Invalid invoice amount: ${challenge.requiredAmountUsdc}`;
+    }
+    if (challenge.requiredAmountUsdc > this.config.maxPaymentUsdc) {
+      return `Invoice amount ${challenge.requiredAmountUsdc} USDC exceeds the ${this.config.maxPaymentUsdc} USDC cap`;
+    }
+    return null;
+  }
+
+  private toAtomicAmount(challenge: KaikoPaymentRequired): bigint {
+    return BigInt(formatPaymentAmount(challenge.requiredAmountUsdc));
+  }
+}
@@ -1,2 +1,3 @@
 export * from './types';
 export * from './Http402Handler';
+export * from './UsdcPaymentSigner';
@@ -50,3 +50,27 @@ export interface PaymentVerificationParams {
 export const USDC_DECIMALS = 6;
 export const BASE_CHAIN_ID = 8453;
 export const BASE_USDC_ADDRESS = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+
+export interface PaymentSignerConfig {
+  baseRpcUrl: string;
+  /** 0x-prefixed hex key of the wallet that funds 402 invoices */
+  privateKey: string;
+  usdcContractAddress: string;
+  confirmationBlocks: number;
+  settlementTimeoutMs: number;
+  pollIntervalMs: number;
+  /** Hard cap on a single invoice, independent of the gateway budget */
+  maxPaymentUsdc: number;
+  /** Kaiko's payee addresses; invoices naming any other recipient are refused */
+  allowedPayees: string[];
+}
+
+export interface PaymentSignerResult {
+  success: boolean;
+  /** PaymentRepository record id */
+  paymentId?: string;
+  transactionHash?: string;
+  error?: string;
+  /** The transfer timed out unconfirmed but may still land; its record stays pending */
+  settlementPending?: boolean;
+}
@@ -0,0 +1,98 @@
+/**
+ * Block finality per chain: which blocks are safe or finalized, read from the `safe` and
+ * `finalized` block tags where nodes support them and from a depth behind the head otherwise.
+ * Each chain's FinalityRule comes from the chain registry (see config/chains).
+ */
+
+import { BlockFinality, FinalityHeads, FinalityRule } from '../../types/treasury';
+
+import { RpcPool } from './RpcPool';
+
+const FINALITY_ORDER: Record<BlockFinality, number> = { latest: 0, safe: 1, finalized: 2 };
+
+/**
+ * Header fields used to pin and recheck a block
+ * @interface BlockHeader
+ */
+export interface BlockHeader {
+  number: number;
+  hash: string;
+  parentHash: string;
+  /** Unix seconds */
+  timestamp: number;
+}
+
+function toHex(value: number): string {
+  return `0x${value.toString(16)}`;
+}
+
+/**
+ * Header of a block by number or tag; null when the node does not have it (yet)
+ */
+export async function fetchBlockHeader(
+  pool: RpcPool,
+  block: number | BlockFinality
+): Promise<BlockHeader | null> {
+  const header = await pool.request<{
+    number: string;
+    hash: string;
+    parentHash: string;
+    timestamp: string;
+  } | null>('eth_getBlockByNumber', [typeof block === 'number' ? toHex(block) : block, false]);
+  if (!header) {
+    return null;
+  }
+  return {
+    number: parseInt(header.number, 16),
+    hash: header.hash.toLowerCase(),
+    parentHash: header.parentHash.toLowerCase(),
+    timestamp: parseInt(header.timestamp, 16),
+  };
+}
+
+/**
+ * Latest, safe and finalized block numbers of a chain. When a tag read fails or the node
+ * does not know the tag, that level falls back to the rule's depth behind the head.
+ */
+export async function fetchFinalityHeads(
+  pool: RpcPool,
+  rule: FinalityRule
+): Promise<FinalityHeads> {
+  const latest = parseInt(await pool.request<string>('eth_blockNumber'), 16);
+  let safe = Math.max(latest - rule.safeDepth, 0);
+  let finalized = Math.max(latest - rule.finalizedDepth, 0);
+
+  if (rule.blockTags) {
+    const [safeHeader, finalizedHeader] = await Promise.all([
+      fetchBlockHeader(pool, 'safe').catch(() => null),
+      fetchBlockHeader(pool, 'finalized').catch(() => null),
+    ]);
+    if (safeHeader) {
+      safe = safeHeader.number;
+    }
+    if (finalizedHeader) {
+      finalized = finalizedHeader.number;
+    }
+  }
+
+  // Endpoints behind one another can answer out of order
+  safe = Math.min(safe, latest);
+  return { latest, safe, finalized: Math.min(finalized, safe) };
+}
+
+/**
+ * Finality of a block given the chain's current heads
+ */
+export function finalityOf(blockNumber: number, heads: FinalityHeads): BlockFinality {
+  if (blockNumber <= heads.finalized) {
+    return 'finalized';
+  }
+  return blockNumber <= heads.safe ? 'safe' : 'latest';
+}
+
+/**
+ * True when `finality` is at least as settled as `required`
+ */
+export function meetsFinality(finality: BlockFinality, required: BlockFinality): boolean {
+  return FINALITY_ORDER[finality] >= FINALITY_ORDER[required];
+}
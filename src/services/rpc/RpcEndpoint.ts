@@ -0,0 +1,148 @@
+import { RpcEndpointConfig, RpcEndpointStatus, RpcRequest } from '../../types/rpc';
+import { ServiceHealth } from '../base/BaseService';
+import { CircuitBreakerService } from '../base/RetryableService';
+
+export interface JsonRpcResponse<R = unknown> {
+  id?: number;
+  result?: R;
+  error?: { code?: number; message: string };
+}
+
+/**
+ * One JSON-RPC provider behind a circuit breaker. Only transport failures (network errors,
+ * timeouts, non-2xx, unparseable bodies) count against the circuit; a JSON-RPC error such as
+ * a revert is a valid answer and is returned to the caller.
+ */
+export class RpcEndpoint extends CircuitBreakerService {
+  readonly url: string;
+  readonly weight: number;
+  private blockHeight: number | undefined;
+  private lagging = false;
+  private archive: boolean | undefined;
+
+  constructor(
+    config: RpcEndpointConfig,
+    private requestTimeoutMs: number,
+    circuitConfig: { failureThreshold?: number; recoveryTimeout?: number } = {}
+  ) {
+    super(
+      { name: `rpc:${new URL(config.url).host}`, version: '1.0.0', enabled: true },
+      {},
+      circuitConfig
+    );
+    this.url = config.url;
+    this.weight = config.weight;
+    this.archive = config.archive;
+  }
+
+  async initialize(): Promise<void> {
+    this.initialized = true;
+    return Promise.resolve();
+  }
+
+  async shutdown(): Promise<void> {
+    this.initialized = false;
+    return Promise.resolve();
+  }
+
+  async healthCheck(): Promise<ServiceHealth> {
+    const status =
+      this.getCircuitState() === 'open' ? 'unhealthy' : this.lagging ? 'degraded' : 'healthy';
+    this.updateHealth(status, { blockHeight: this.blockHeight, lagging: this.lagging });
+    return Promise.resolve(this.getHealth());
+  }
+
+  async send<R>(method: string, params: unknown[]): Promise<JsonRpcResponse<R>> {
+    return this.post<JsonRpcResponse<R>>({ jsonrpc: '2.0', method, params, id: 1 });
+  }
+
+  /**
+   * One HTTP request carrying every call; responses are returned in request order
+   */
+  async sendBatch<R>(requests: RpcRequest[]): Promise<Array<JsonRpcResponse<R>>> {
+    const data = await this.post<Array<JsonRpcResponse<R>> | JsonRpcResponse<R>>(
+      requests.map(({ method, params }, id) => ({ jsonrpc: '2.0', method, params, id }))
+    );
+    if (!Array.isArray(data)) {
+      throw new Error(`${this.url} does not accept batch requests`);
+    }
+    // Batch responses may come back in any order
+    const byId = new Map(data.map((item) => [item.id, item]));
+    return requests.map(
+      (_, id) => byId.get(id) ?? { error: { message: `No response for batch item ${id}` } }
+    );
+  }
+
+  isOpen(): boolean {
+    return this.getCircuitState() === 'open';
+  }
+
+  isLagging(): boolean {
+    return this.lagging;
+  }
+
+  getBlockHeight(): number | undefined {
+    return this.blockHeight;
+  }
+
+  recordBlockHeight(blockHeight: number): void {
+    this.blockHeight = blockHeight;
+  }
+
+  setLagging(lagging: boolean): void {
+    this.lagging = lagging;
+  }
+
+  /**
+   * Whether historical reads may be sent here: configured archives and endpoints not yet
+   * known to prune state
+   */
+  servesHistory(): boolean {
+    return this.archive !== false;
+  }
+
+  isArchive(): boolean {
+    return this.archive === true;
+  }
+
+  markPruned(): void {
+    this.archive = false;
+  }
+
+  getStatus(): RpcEndpointStatus {
+    return {
+      url: this.url,
+      weight: this.weight,
+      circuitState: this.getCircuitState(),
+      ...(this.blockHeight !== undefined ? { blockHeight: this.blockHeight } : {}),
+      lagging: this.lagging,
+      ...(this.archive !== undefined ? { archive: this.archive } : {}),
+      requestCount: this.metrics.requestCount,
+      errorCount: this.metrics.errorCount,
+      averageLatencyMs: this.metrics.averageLatency,
+    };
+  }
+
+  private async post<T>(body: unknown): Promise<T> {
+    return this.withCircuitBreaker(() =>
+      this.withTiming(async () => {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), this.requestTimeoutMs);
+        try {
+          const response = await fetch(this.url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+            signal: controller.signal,
+          });
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status} from ${this.url}`);
+          }
+          return (await response.json()) as T;
+        } finally {
+          clearTimeout(timer);
+        }
+      })
+    );
+  }
+}
@@ -0,0 +1,336 @@
+/**
+ * Per-chain JSON-RPC pool: weighted failover across providers, per-endpoint circuit breaking,
+ * optional quorum reads, block-height lag flagging and archive routing for historical reads
+ */
+
+import {
+  RpcEndpointConfig,
+  RpcEndpointStatus,
+  RpcPoolConfig,
+  RpcRequest,
+  RpcRequestOptions,
+} from '../../types/rpc';
+import { ChainName, ChainRpcConfig } from '../../types/treasury';
+import { ErrorCode, SentinelError } from '../../utils/errors';
+import { createLogger } from '../../utils/logger';
+
+import { JsonRpcResponse, RpcEndpoint } from './RpcEndpoint';
+
+const log = createLogger('RpcPool');
+
+export const DEFAULT_RPC_POOL_CONFIG: RpcPoolConfig = {
+  requestTimeoutMs: 10_000,
+  lagThresholdBlocks: 10,
+  lagCheckIntervalMs: 60_000,
+  quorum: 0,
+  quorumSampleSize: 3,
+  failureThreshold: 3,
+  recoveryTimeoutMs: 60_000,
+};
+
+/**
+ * How full nodes answer reads of state they have pruned (geth, erigon, nethermind, reth and
+ * hosted providers word it differently)
+ */
+const PRUNED_STATE_PATTERN =
+  /missing trie node|state (is )?not available|historical state|pruned|archive node/i;
+
+/**
+ * True for the error RpcPool throws when no endpoint can serve state at a past block
+ */
+export function isArchiveRequired(error: unknown): boolean {
+  return error instanceof SentinelError && error.details['archiveRequired'] === true;
+}
+
+export class RpcPool {
+  private config: RpcPoolConfig;
+  private endpoints: RpcEndpoint[];
+  private lastLagCheck = 0;
+
+  constructor(
+    readonly name: string,
+    endpoints: RpcEndpointConfig[],
+    config: Partial<RpcPoolConfig> = {}
+  ) {
+    if (endpoints.length === 0) {
+      throw new SentinelError(ErrorCode.CONFIGURATION_ERROR, `No RPC endpoints for ${name}`, {
+        details: { pool: name },
+      });
+    }
+    this.config = { ...DEFAULT_RPC_POOL_CONFIG, ...config };
+    this.endpoints = endpoints.map((endpoint) => {
+      const rpc = new RpcEndpoint(endpoint, this.config.requestTimeoutMs, {
+        failureThreshold: this.config.failureThreshold,
+        recoveryTimeout: this.config.recoveryTimeoutMs,
+      });
+      // Failures surface through failover; the listener keeps EventEmitter from throwing
+      rpc.on('error', () => undefined);
+      rpc.on('circuit-open', ({ error }: { error: string }) =>
+        log.warn(`${name}: circuit opened for ${rpc.url}`, { error })
+      );
+      return rpc;
+    });
+  }
+
+  /**
+   * Pool with a single endpoint, for services configured with one URL
+   */
+  static fromUrl(name: string, url: string, config: Partial<RpcPoolConfig> = {}): RpcPool {
+    return new RpcPool(name, [{ url, weight: 1 }], config);
+  }
+
+  /**
+   * Send to endpoints in failover order until one answers; a JSON-RPC error is an answer
+   * and is thrown without trying further endpoints. Historical reads also fail over when an
+   * endpoint reports pruned state.
+   */
+  async request<R>(
+    method: string,
+    params: unknown[] = [],
+    options: RpcRequestOptions = {}
+  ): Promise<R> {
+    const response = await this.withFailover(method, options, async (endpoint) => {
+      const response = await endpoint.send<R>(method, params);
+      this.checkState(endpoint, options, response);
+      return response;
+    });
+    return this.unwrap(method, response);
+  }
+
+  /**
+   * Send a JSON-RPC batch to one endpoint (with failover); failed items come back undefined
+   */
+  async batch<R>(
+    requests: RpcRequest[],
+    options: RpcRequestOptions = {}
+  ): Promise<Array<R | undefined>> {
+    if (requests.length === 0) {
+      return [];
+    }
+    const responses = await this.withFailover('batch', options, async (endpoint) => {
+      const responses = await endpoint.sendBatch<R>(requests);
+      responses.forEach((response) => this.checkState(endpoint, options, response));
+      return responses;
+    });
+    return responses.map((response) => (response.error ? undefined : response.result));
+  }
+
+  /**
+   * Ask several endpoints in parallel and return the answer `quorum` of them agree on.
+   * Falls back to a plain request when quorum is disabled or the pool is too small for it.
+   * Params should pin a block number so honest endpoints can agree.
+   */
+  async quorumRequest<R>(
+    method: string,
+    params: unknown[] = [],
+    options: RpcRequestOptions = {}
+  ): Promise<R> {
+    const { quorum, quorumSampleSize } = this.config;
+    if (quorum <= 1 || this.candidates(options).length < quorum) {
+      return this.request<R>(method, params, options);
+    }
+
+    await this.refreshLagIfDue();
+    const sample = this.failoverOrder(options).slice(0, Math.max(quorum, quorumSampleSize));
+    const settled = await Promise.allSettled(
+      sample.map(async (endpoint) => {
+        const response = await endpoint.send<R>(method, params);
+        this.checkState(endpoint, options, response);
+        return response;
+      })
+    );
+
+    const votes = new Map<string, { result: R; count: number }>();
+    const failures: string[] = [];
+    settled.forEach((outcome, index) => {
+      const url = sample[index]?.url ?? 'unknown';
+      if (outcome.status === 'rejected') {
+        failures.push(`${url}: ${errorMessage(outcome.reason)}`);
+        return;
+      }
+      const { result, error } = outcome.value;
+      if (error || result === undefined) {
+        failures.push(`${url}: ${error?.message ?? 'empty result'}`);
+        return;
+      }
+      const key = JSON.stringify(result);
+      const vote = votes.get(key) ?? { result, count: 0 };
+      vote.count++;
+      votes.set(key, vote);
+    });
+
+    const agreed = Array.from(votes.values()).find((vote) => vote.count >= quorum);
+    if (!agreed) {
+      throw new SentinelError(
+        ErrorCode.RPC_ERROR,
+        `${this.name}: no ${quorum}-of-${sample.length} quorum for ${method}`,
+        {
+          details: { method, distinctAnswers: votes.size, failures },
+          retryable: true,
+        }
+      );
+    }
+    return agreed.result;
+  }
+
+  /**
+   * Read every endpoint's block height and flag those trailing the highest head
+   */
+  async checkLag(): Promise<RpcEndpointStatus[]> {
+    this.lastLagCheck = Date.now();
+    await Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        try {
+          const { result } = await endpoint.send<string>('eth_blockNumber', []);
+          if (result !== undefined) {
+            endpoint.recordBlockHeight(parseInt(result, 16));
+          }
+        } catch {
+          // Unreachable endpoints keep their last height and are handled by the circuit
+        }
+      })
+    );
+
+    const heights = this.endpoints
+      .map((endpoint) => endpoint.getBlockHeight())
+      .filter((height): height is number => height !== undefined);
+    const head = heights.length > 0 ? Math.max(...heights) : undefined;
+
+    for (const endpoint of this.endpoints) {
+      const height = endpoint.getBlockHeight();
+      const lagging =
+        head !== undefined &&
+        height !== undefined &&
+        head - height > this.config.lagThresholdBlocks;
+      if (lagging && !endpoint.isLagging()) {
+        log.warn(`${this.name}: ${endpoint.url} is lagging`, { blocksBehind: head - height });
+      }
+      endpoint.setLagging(lagging);
+    }
+
+    return this.getStatus();
+  }
+
+  getStatus(): RpcEndpointStatus[] {
+    return this.endpoints.map((endpoint) => endpoint.getStatus());
+  }
+
+  private async withFailover<T>(
+    operation: string,
+    options: RpcRequestOptions,
+    send: (endpoint: RpcEndpoint) => Promise<T>
+  ): Promise<T> {
+    await this.refreshLagIfDue();
+    const failures: string[] = [];
+
+    for (const endpoint of this.failoverOrder(options)) {
+      try {
+        return await send(endpoint);
+      } catch (error) {
+        failures.push(`${endpoint.url}: ${errorMessage(error)}`);
+      }
+    }
+
+    if (options.historical && !this.endpoints.some((endpoint) => endpoint.servesHistory())) {
+      throw new SentinelError(
+        ErrorCode.RPC_ERROR,
+        `${this.name}: no archive RPC endpoint can serve historical ${operation}`,
+        { details: { operation, failures, archiveRequired: true } }
+      );
+    }
+    throw new SentinelError(
+      ErrorCode.RPC_ERROR,
+      `${this.name}: all ${this.endpoints.length} RPC endpoints failed for ${operation}`,
+      { details: { operation, failures }, retryable: true }
+    );
+  }
+
+  /**
+   * Endpoints a request may go to: historical reads skip endpoints known to prune state
+   */
+  private candidates(options: RpcRequestOptions): RpcEndpoint[] {
+    return options.historical
+      ? this.endpoints.filter((endpoint) => endpoint.servesHistory())
+      : this.endpoints;
+  }
+
+  /**
+   * Healthy endpoints in weighted random order (so load spreads by weight), then lagging
+   * ones, then open circuits, which are only tried once their recovery timeout allows.
+   * Historical reads try configured archives first within each rank.
+   */
+  private failoverOrder(options: RpcRequestOptions = {}): RpcEndpoint[] {
+    const rank = (endpoint: RpcEndpoint): number =>
+      (endpoint.isOpen() ? 4 : endpoint.isLagging() ? 2 : 0) +
+      (options.historical && !endpoint.isArchive() ? 1 : 0);
+    return this.candidates(options)
+      .map((endpoint) => ({ endpoint, key: Math.random() ** (1 / endpoint.weight) }))
+      .sort((a, b) => rank(a.endpoint) - rank(b.endpoint) || b.key - a.key)
+      .map(({ endpoint }) => endpoint);
+  }
+
+  /**
+   * A historical read answered with pruned state marks the endpoint as non-archive and
+   * throws so failover moves on; it does not count against the circuit
+   */
+  private checkState<R>(
+    endpoint: RpcEndpoint,
+    options: RpcRequestOptions,
+    response: JsonRpcResponse<R>
+  ): void {
+    if (!options.historical || !response.error) {
+      return;
+    }
+    if (PRUNED_STATE_PATTERN.test(response.error.message)) {
+      if (endpoint.servesHistory()) {
+        log.warn(`${this.name}: ${endpoint.url} has pruned historical state`);
+      }
+      endpoint.markPruned();
+      throw new Error(`pruned state: ${response.error.message}`);
+    }
+  }
+
+  private async refreshLagIfDue(): Promise<void> {
+    if (
+      this.endpoints.length > 1 &&
+      Date.now() - this.lastLagCheck > this.config.lagCheckIntervalMs
+    ) {
+      await this.checkLag();
+    }
+  }
+
+  private unwrap<R>(method: string, response: JsonRpcResponse<R>): R {
+    if (response.error) {
+      throw new SentinelError(
+        ErrorCode.RPC_ERROR,
+        `${this.name}: ${method} failed: ${response.error.message}`,
+        { details: { method, code: response.error.code } }
+      );
+    }
+    if (response.result === undefined) {
+      throw new SentinelError(ErrorCode.RPC_ERROR, `${this.name}: empty response for ${method}`, {
+        details: { method },
+      });
+    }
+    return response.result;
+  }
+}
+
+/**
+ * One pool per chain from its configured endpoints
+ */
+export function createRpcPools(
+  chainConfigs: Record<ChainName, ChainRpcConfig>,
+  config: Partial<RpcPoolConfig> = {}
+): Record<ChainName, RpcPool> {
+  return Object.fromEntries(
+    Object.entries(chainConfigs).map(([chain, chainConfig]) => [
+      chain,
+      new RpcPool(chain, chainConfig.rpcEndpoints, config),
+    ])
+  );
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,10 @@
+export { RpcEndpoint } from './RpcEndpoint';
+export type { JsonRpcResponse } from './RpcEndpoint';
+export { DEFAULT_RPC_POOL_CONFIG, RpcPool, createRpcPools, isArchiveRequired } from './RpcPool';
+export {
+  fetchBlockHeader,
+  fetchFinalityHeads,
+  finalityOf,
+  meetsFinality,
+} from './Finality';
+export type { BlockHeader } from './Finality';
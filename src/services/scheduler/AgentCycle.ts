@@ -0,0 +1,1065 @@
+/**
+ * One monitoring cycle of the Treasury Sentinel agent
+ * Snapshot -> peg check -> risk score -> escalation -> Kaiko spot prices where on-chain prices are stale or
+ * disagree (L1+) -> paid Kaiko depth (L3+) -> assessment -> persistence
+ */
+
+import { randomUUID } from 'crypto';
+
+import { getStablecoinSymbols } from '../../config/chains';
+import { LiquidityAssessmentRepository } from '../../db/repositories/LiquidityAssessmentRepository';
+import { TreasuryRepository } from '../../db/repositories/TreasuryRepository';
+import { TreasurySentinelEventEmitter } from '../../events/EventEmitter';
+import {
+  EscalationRegistry,
+  TreasuryEscalationState,
+} from '../../state-machine/EscalationRegistry';
+import {
+  compareLevels,
+  EscalationStateMachine,
+  LEVEL_ORDER,
+  levelForRiskScore,
+  StateMachineResult,
+} from '../../state-machine/EscalationStateMachine';
+import {
+  PaymentSettlementVerifier,
+  reconcilePendingPayment,
+  resumeStateMachine,
+  ResumeResult,
+} from '../../state-machine/persistence';
+import { EscalationLevel } from '../../types/escalation';
+import { KaikoPaymentObserver, KaikoSpotPriceResponse } from '../../types/kaiko';
+import {
+  DepthBand,
+  ExitHalfLife,
+  ImpactCurve,
+  LCRResult,
+  LiquidityRiskAssessment,
+  VolatilityRegime,
+} from '../../types/liquidity';
+import { AgentCycleInputs, RecordedKaikoRequest, RunReplayOptions } from '../../types/scheduler';
+import {
+  PegStatus,
+  PriceQuote,
+  TokenBalance,
+  TreasurySnapshot,
+  UnderlyingAsset,
+} from '../../types/treasury';
+import { ErrorCode, SentinelError } from '../../utils/errors';
+import { KaikoGateway } from '../kaiko/KaikoGateway';
+import { LiquidityMetrics } from '../liquidity/LiquidityMetrics';
+import { OrderBookAggregator, QuotedOrderBook } from '../liquidity/OrderBookAggregator';
+import { DepegMonitor, pegPricesUsd } from '../oracle/DepegMonitor';
+import { StressTester } from '../stress/StressTester';
+import { toUnits } from '../treasury/positions';
+import { ReorgMonitor } from '../treasury/ReorgMonitor';
+import { SafeMonitor } from '../treasury/SafeMonitor';
+import { TransferAnomalyDetector } from '../treasury/TransferAnomalyDetector';
+import { TreasuryMonitor } from '../treasury/TreasuryMonitor';
+
+import { MarketDataSource, RecordedMarketData, RecordingMarketData } from './CycleRecording';
+
+/** Points calculateOverallRiskScore assigns to exit half-lives, which only exist at L5 */
+const EXIT_HALF_LIFE_MAX_SCORE = 30;
+const MAX_RISK_SCORE = 100;
+
+export interface AgentCycleConfig {
+  /**
+   * Projected 30-day net cash outflows used as the LCR denominator; must be positive, since
+   * without outflows the LCR is unbounded and scores as risk-free
+   */
+  projectedMonthlyOutflowsUsd: number;
+  /**
+   * Holdings counted as high quality liquid assets; everything else is priced on Kaiko.
+   * Defaults to the chain registry's stablecoins.
+   */
+  stablecoinSymbols: string[];
+  /** Number of past snapshots whose returns feed the volatility regime */
+  volatilityWindow: number;
+  /** Kaiko exchange code; omitted for Kaiko's default venue */
+  kaikoExchange?: string;
+  /**
+   * Venues whose order books are aggregated for depth and impact; each costs one request
+   * per holding. Omitted for the USD book on `kaikoExchange` alone.
+   */
+  kaikoVenues?: KaikoVenue[];
+  /**
+   * Share of the treasury that, fully depegged, puts peg stress at its maximum; smaller
+   * exposures or deviations scale down from there
+   */
+  fullPegStressShare: number;
+}
+
+/**
+ * Kaiko market an order book is fetched from: `${symbol}-${quote}` on `exchange`
+ */
+export interface KaikoVenue {
+  /** Kaiko exchange code; omitted for Kaiko's default venue */
+  exchange?: string;
+  /** Quote currency code, e.g. 'usd', 'usdt', 'eth' */
+  quote: string;
+}
+
+export const DEFAULT_AGENT_CYCLE_CONFIG: Omit<AgentCycleConfig, 'stablecoinSymbols'> = {
+  projectedMonthlyOutflowsUsd: Number(process.env['PROJECTED_MONTHLY_OUTFLOWS_USD']),
+  volatilityWindow: 30,
+  fullPegStressShare: 0.25,
+};
+
+export interface AgentCycleDependencies {
+  treasuryMonitor: TreasuryMonitor;
+  stateMachine: EscalationStateMachine;
+  kaikoGateway: KaikoGateway;
+  liquidityMetrics: LiquidityMetrics;
+  orderBookAggregator: OrderBookAggregator;
+  treasuryRepository: TreasuryRepository;
+  assessmentRepository: LiquidityAssessmentRepository;
+  events: TreasurySentinelEventEmitter;
+  /** Settles a payment the persisted state machine left pending; needed by resume() and run() */
+  settlementVerifier?: PaymentSettlementVerifier;
+  /** Tracks signer sets and executions of treasuries that are Safe multisigs */
+  safeMonitor?: SafeMonitor;
+  /** Alerts on outbound transfers that depart from each treasury's usual pattern */
+  transferDetector?: TransferAnomalyDetector;
+  /** Repairs stored snapshots and settlements hit by a reorg before the cycle reads them */
+  reorgMonitor?: ReorgMonitor;
+  /** Samples stablecoin and LST pegs; broken pegs raise the risk score */
+  depegMonitor?: DepegMonitor;
+  /** Applies the named stress scenarios to each run's treasury and stores the results */
+  stressTester?: StressTester;
+  /** Per-treasury ladders sharing the budget; each run updates the treasuries it snapshots */
+  escalationRegistry?: EscalationRegistry;
+}
+
+/**
+ * Escalation step the state machine refused during a cycle
+ */
+export interface BlockedEscalation {
+  fromLevel: EscalationLevel;
+  attemptedLevel: EscalationLevel;
+  /** Refusing guard or check, e.g. 'BUDGET_LIMIT', 'COOLDOWN_ACTIVE', 'INVALID_TRANSITION' */
+  blockedBy: string;
+  reason: string;
+  /** The machine was BUDGET_BLOCKED or the budget guard refused the step */
+  budgetExhausted: boolean;
+}
+
+/**
+ * What a cycle decided; a replay produces the same shape without persisting anything
+ */
+export interface AgentCycleDecision {
+  escalationLevel: EscalationLevel;
+  /** Set when the cycle stopped short of the level its risk score called for */
+  blockedEscalation: BlockedEscalation | null;
+  kaikoRequestCount: number;
+  budgetSpentUsdc: number;
+  riskScore: number;
+  assessment: LiquidityRiskAssessment;
+}
+
+export interface AgentCycleResult extends AgentCycleDecision {
+  treasurySnapshotId: string;
+  liquidityMetricsId: string;
+  /** Every registered treasury's own escalation state after the run, most escalated first */
+  treasuryStates: TreasuryEscalationState[];
+  /** Everything the decisions depended on, for replay */
+  inputs: AgentCycleInputs;
+}
+
+export type AgentCycleReplayOptions = Pick<
+  RunReplayOptions,
+  'skipKaikoRequests' | 'overrideBudget'
+>;
+
+/**
+ * A decision and the snapshots it was made on, revalued with any Kaiko prices it bought
+ */
+interface PricedDecision {
+  decision: AgentCycleDecision;
+  pricedSnapshots: TreasurySnapshot[];
+}
+
+interface Holding {
+  token: string;
+  symbol: string;
+  usdValue: number;
+}
+
+/**
+ * State a replayed cycle decides with; owned by the caller so it can span several runs
+ */
+export interface ReplayContext {
+  stateMachine: EscalationStateMachine;
+  /** Null when market data is skipped */
+  market: MarketDataSource | null;
+  /** Spend before the cycle, used when there is no market data source */
+  spentUsdc: number;
+}
+
+interface DecisionContext extends ReplayContext {
+  /** Events are only emitted for live runs */
+  correlationId: string | null;
+  /** Checked before each batch of Kaiko requests */
+  signal?: AbortSignal;
+}
+
+interface MarketData {
+  depthBands: Map<string, DepthBand[]>;
+  impactCurves: Map<string, ImpactCurve>;
+  exitHalfLives: ExitHalfLife[];
+  requestCount: number;
+}
+
+export class AgentCycle {
+  private config: AgentCycleConfig;
+
+  constructor(
+    private deps: AgentCycleDependencies,
+    config: Partial<AgentCycleConfig> = {}
+  ) {
+    this.config = {
+      ...DEFAULT_AGENT_CYCLE_CONFIG,
+      stablecoinSymbols: getStablecoinSymbols(),
+      ...config,
+    };
+    const outflows = this.config.projectedMonthlyOutflowsUsd;
+    if (!Number.isFinite(outflows) || outflows <= 0) {
+      throw new SentinelError(
+        ErrorCode.CONFIGURATION_ERROR,
+        'PROJECTED_MONTHLY_OUTFLOWS_USD must be a positive USD amount to score the LCR',
+        { details: { projectedMonthlyOutflowsUsd: outflows } }
+      );
+    }
+  }
+
+  /**
+   * Restore the state machine from its last persisted snapshot, settle a payment it left
+   * pending and carry its spend into the Kaiko budget. Call once on boot, before run().
+   */
+  async resume(): Promise<ResumeResult> {
+    const { stateMachine, settlementVerifier, kaikoGateway } = this.deps;
+    if (!settlementVerifier) {
+      throw new SentinelError(
+        ErrorCode.CONFIGURATION_ERROR,
+        'AgentCycle needs a settlementVerifier to resume a persisted state machine'
+      );
+    }
+
+    const result = await resumeStateMachine(stateMachine, settlementVerifier);
+    kaikoGateway.restoreSpend(result.snapshot.context.totalSpent);
+    return result;
+  }
+
+  /**
+   * Run one cycle; `correlationId` ties the emitted events to the agent run. Once `signal`
+   * aborts, the cycle stops at the next stage boundary and sends no further paid request.
+   */
+  async run(
+    correlationId: string = randomUUID(),
+    signal?: AbortSignal
+  ): Promise<AgentCycleResult> {
+    const { kaikoGateway, stateMachine, settlementVerifier } = this.deps;
+    const startedAt = Date.now();
+    if (settlementVerifier && stateMachine.getContext().pendingPayment) {
+      await reconcilePendingPayment(stateMachine, settlementVerifier);
+    }
+    const initialState = stateMachine.getCurrentState();
+    const budget = kaikoGateway.getBudgetStatus();
+
+    throwIfAborted(signal, 'reorg check');
+    await this.deps.reorgMonitor?.checkCycle(correlationId);
+    throwIfAborted(signal, 'snapshot');
+    const taken = await this.deps.treasuryMonitor.takeMultiChainSnapshot();
+    if (taken.length === 0) {
+      throw new SentinelError(ErrorCode.CHAIN_ERROR, 'No treasury snapshot could be taken', {
+        retryable: true,
+      });
+    }
+    throwIfAborted(signal, 'peg check');
+    const pegs = (await this.deps.depegMonitor?.checkCycle(taken, correlationId)) ?? [];
+    // LSTs have no USD feed of their own; value them before anything weighs them by exposure
+    const snapshots = taken.map((snapshot) => valuePeggedAssets(snapshot, pegs));
+    throwIfAborted(signal, 'snapshot persistence');
+    const treasurySnapshotId = await this.persistSnapshots(snapshots, correlationId);
+    throwIfAborted(signal, 'Safe check');
+    const safeActivity = await this.deps.safeMonitor?.checkCycle(snapshots, correlationId);
+    throwIfAborted(signal, 'transfer check');
+    await this.deps.transferDetector?.checkCycle(
+      snapshots,
+      safeActivity?.executions ?? [],
+      correlationId
+    );
+    const portfolioReturns = this.portfolioReturns();
+    throwIfAborted(signal, 'escalation');
+
+    const market = new RecordingMarketData(kaikoGateway);
+    kaikoGateway.setPaymentObserver(this.paymentObserver(stateMachine));
+    let priced: PricedDecision;
+    try {
+      priced = await this.decide(snapshots, portfolioReturns, pegs, {
+        stateMachine,
+        market,
+        spentUsdc: budget.spentUsdc,
+        correlationId,
+        ...(signal !== undefined ? { signal } : {}),
+      });
+    } finally {
+      kaikoGateway.setPaymentObserver(null);
+    }
+    const { decision, pricedSnapshots } = priced;
+    throwIfAborted(signal, 'assessment');
+
+    const record = this.deps.assessmentRepository.create(
+      decision.assessment,
+      decision.escalationLevel,
+      correlationId
+    );
+    this.deps.stressTester?.runAll(
+      pricedSnapshots,
+      decision.assessment,
+      correlationId,
+      tradedVolumesUsd(market.requests)
+    );
+    const treasuryStates = await this.updateTreasuries(
+      snapshots,
+      pegs,
+      this.deps.liquidityMetrics.detectVolatilityRegime(portfolioReturns),
+      decision.budgetSpentUsdc
+    );
+
+    return {
+      ...decision,
+      treasurySnapshotId,
+      liquidityMetricsId: record.id,
+      treasuryStates,
+      inputs: {
+        startedAt,
+        snapshots,
+        portfolioReturns,
+        initialState,
+        budget: { spentUsdc: budget.spentUsdc, totalBudgetUsdc: budget.totalBudgetUsdc },
+        kaikoRequests: market.requests,
+        pegs,
+      },
+    };
+  }
+
+  /**
+   * Re-run the decisions of a recorded cycle on a scratch state machine with the current
+   * thresholds and guards. Nothing is persisted or emitted and no Kaiko request is sent.
+   */
+  async replay(
+    inputs: AgentCycleInputs,
+    options: AgentCycleReplayOptions = {}
+  ): Promise<AgentCycleDecision> {
+    const { overrideBudget } = options;
+    const { context } = inputs.initialState;
+    // Shift the last escalation so cooldown guards see the same elapsed time as the original run
+    const clockOffset = Date.now() - inputs.startedAt;
+
+    const stateMachine = new EscalationStateMachine();
+    stateMachine.restore({
+      ...inputs.initialState,
+      context: {
+        ...context,
+        ...(overrideBudget !== undefined ? { budgetLimit: overrideBudget } : {}),
+        ...(context.lastEscalationTime !== undefined
+          ? { lastEscalationTime: context.lastEscalationTime + clockOffset }
+          : {}),
+      },
+    });
+
+    const market =
+      options.skipKaikoRequests === true
+        ? null
+        : new RecordedMarketData(
+            inputs.kaikoRequests,
+            inputs.budget.spentUsdc,
+            overrideBudget ?? inputs.budget.totalBudgetUsdc
+          );
+
+    return this.replayWith(inputs, {
+      stateMachine,
+      market,
+      spentUsdc: inputs.budget.spentUsdc,
+    });
+  }
+
+  /**
+   * Decide on recorded inputs with a caller-supplied state machine and market data,
+   * e.g. to carry one simulated budget across a series of runs
+   */
+  async replayWith(inputs: AgentCycleInputs, context: ReplayContext): Promise<AgentCycleDecision> {
+    const { decision } = await this.decide(
+      inputs.snapshots,
+      inputs.portfolioReturns,
+      inputs.pegs ?? [],
+      { ...context, correlationId: null }
+    );
+    return decision;
+  }
+
+  /**
+   * Risk score -> escalation -> market data -> assessment, shared by live runs and replays
+   */
+  private async decide(
+    snapshots: TreasurySnapshot[],
+    portfolioReturns: number[],
+    pegs: PegStatus[],
+    context: DecisionContext
+  ): Promise<PricedDecision> {
+    const { liquidityMetrics } = this.deps;
+    const { stateMachine, market } = context;
+    const spent = (): number => market?.getSpentUsdc() ?? context.spentUsdc;
+
+    let lcr = this.calculateLCR(snapshots);
+    const volatilityRegime = liquidityMetrics.detectVolatilityRegime(portfolioReturns);
+    const pegStress = this.pegStress(pegs, snapshots);
+
+    const spentBefore = spent();
+    stateMachine.updateBudget(spentBefore);
+    const { level: escalationLevel, blocked } = await this.escalate(
+      this.scoreRisk(lcr, [], volatilityRegime, pegStress),
+      context
+    );
+
+    throwIfAborted(context.signal, 'price verification');
+    const priced =
+      market !== null &&
+      compareLevels(escalationLevel, 'L1') >= 0 &&
+      stateMachine.getCurrentState().state !== 'BUDGET_BLOCKED'
+        ? await this.verifyPrices(snapshots, market)
+        : { snapshots, requestCount: 0 };
+    if (priced.snapshots !== snapshots) {
+      lcr = this.calculateLCR(priced.snapshots);
+    }
+
+    throwIfAborted(context.signal, 'market data');
+    const marketData =
+      market !== null &&
+      compareLevels(escalationLevel, 'L3') >= 0 &&
+      stateMachine.getCurrentState().state !== 'BUDGET_BLOCKED'
+        ? await this.fetchMarketData(priced.snapshots, escalationLevel, market)
+        : this.emptyMarketData();
+
+    const spentAfter = spent();
+    stateMachine.updateBudget(spentAfter);
+
+    const primary = priced.snapshots.reduce((a, b) =>
+      b.totalUsdValue > a.totalUsdValue ? b : a
+    );
+    const assessment = liquidityMetrics.buildAssessment(
+      primary.address,
+      primary.chainId,
+      lcr,
+      marketData.exitHalfLives,
+      volatilityRegime,
+      marketData.depthBands,
+      marketData.impactCurves
+    );
+    stateMachine.updateRisk(
+      this.scoreRisk(lcr, marketData.exitHalfLives, volatilityRegime, pegStress)
+    );
+
+    return {
+      decision: {
+        escalationLevel: stateMachine.getContext().currentLevel,
+        blockedEscalation: blocked,
+        kaikoRequestCount: priced.requestCount + marketData.requestCount,
+        budgetSpentUsdc: spentAfter - spentBefore,
+        riskScore: stateMachine.getContext().riskScore,
+        assessment,
+      },
+      pricedSnapshots: priced.snapshots,
+    };
+  }
+
+  /**
+   * Step every registered treasury's own ladder: first its value-weighted share of the run's
+   * Kaiko spend, then the risk score of its own holdings. The registry rebalances the shared
+   * budget on each update, so a treasury whose share is spent ends BUDGET_BLOCKED.
+   */
+  private async updateTreasuries(
+    snapshots: TreasurySnapshot[],
+    pegs: PegStatus[],
+    volatilityRegime: VolatilityRegime,
+    budgetSpentUsdc: number
+  ): Promise<TreasuryEscalationState[]> {
+    const registry = this.deps.escalationRegistry;
+    if (!registry) {
+      return [];
+    }
+
+    const total = snapshots.reduce((sum, snapshot) => sum + snapshot.totalUsdValue, 0);
+    for (const snapshot of snapshots) {
+      const { chainId, address } = snapshot;
+      const machine = registry.get(chainId, address);
+      if (!machine) {
+        continue;
+      }
+
+      const share = total > 0 ? snapshot.totalUsdValue / total : 1 / snapshots.length;
+      registry.recordSpend(
+        chainId,
+        address,
+        machine.getContext().totalSpent + budgetSpentUsdc * share
+      );
+      const riskScore = this.scoreRisk(
+        this.calculateLCR([snapshot], this.config.projectedMonthlyOutflowsUsd * share),
+        [],
+        volatilityRegime,
+        this.pegStress(pegs, [snapshot])
+      );
+      registry.updateRisk(chainId, address, riskScore);
+      await this.escalate(riskScore, {
+        stateMachine: machine,
+        market: null,
+        spentUsdc: machine.getContext().totalSpent,
+        correlationId: null,
+      });
+    }
+
+    registry.rebalance();
+    return registry.getTreasuryStates();
+  }
+
+  private calculateLCR(
+    snapshots: TreasurySnapshot[],
+    projectedOutflowsUsd: number = this.config.projectedMonthlyOutflowsUsd
+  ): LCRResult {
+    return this.deps.liquidityMetrics.calculateLCR(
+      snapshots.flatMap((snapshot) => snapshot.balances),
+      projectedOutflowsUsd,
+      0,
+      (symbol) => this.isStablecoin(symbol)
+    );
+  }
+
+  private async persistSnapshots(
+    snapshots: TreasurySnapshot[],
+    correlationId: string
+  ): Promise<string> {
+    const { events, treasuryRepository } = this.deps;
+    const snapshotId = randomUUID();
+
+    for (const snapshot of snapshots) {
+      treasuryRepository.createSnapshot(snapshot, snapshotId);
+      await events.emit(
+        events.createCorrelatedEvent(
+          { type: 'treasury:snapshot', payload: { snapshot, chainId: snapshot.chainId } },
+          correlationId
+        )
+      );
+    }
+
+    return snapshotId;
+  }
+
+  /**
+   * Period-over-period returns of total treasury value, oldest first
+   */
+  private portfolioReturns(): number[] {
+    const totals = this.deps.treasuryRepository
+      .getSnapshotTotals(this.config.volatilityWindow + 1)
+      .map((row) => row.total_usd)
+      .reverse();
+
+    const returns: number[] = [];
+    for (let i = 1; i < totals.length; i++) {
+      const previous = totals[i - 1] ?? 0;
+      const current = totals[i] ?? 0;
+      if (previous > 0) {
+        returns.push((current - previous) / previous);
+      }
+    }
+    return returns;
+  }
+
+  /**
+   * Peg stress in [0, 1]: each graded peg's stress weighted by the share of the treasury held
+   * in that asset on that chain, relative to `fullPegStressShare`
+   */
+  private pegStress(pegs: PegStatus[], snapshots: TreasurySnapshot[]): number {
+    const total = snapshots.reduce((sum, snapshot) => sum + snapshot.totalUsdValue, 0);
+    if (total <= 0) {
+      return 0;
+    }
+
+    let weighted = 0;
+    for (const peg of pegs) {
+      if (peg.stress <= 0) {
+        continue;
+      }
+      const exposure = snapshots
+        .filter((snapshot) => snapshot.chainId === peg.chainId)
+        .flatMap((snapshot) => snapshot.balances)
+        .flatMap((balance): Holding[] =>
+          balance.position ? balance.position.underlying : [balance]
+        )
+        .filter((asset) => asset.symbol === peg.symbol)
+        .reduce((sum, asset) => sum + asset.usdValue, 0);
+      weighted += (exposure / total) * peg.stress;
+    }
+    return Math.min(weighted / this.config.fullPegStressShare, 1);
+  }
+
+  /**
+   * Risk score in [0, 1]. Before L5 there are no exit half-lives, so the score is
+   * normalised over the components actually measured instead of capping below L4.
+   * Peg stress sets a floor: a broken peg on a large holding escalates on its own.
+   */
+  private scoreRisk(
+    lcr: LCRResult,
+    exitHalfLives: ExitHalfLife[],
+    volatilityRegime: VolatilityRegime,
+    pegStress: number
+  ): number {
+    const score = this.deps.liquidityMetrics.calculateOverallRiskScore(
+      lcr,
+      exitHalfLives,
+      volatilityRegime
+    );
+    const maxScore =
+      exitHalfLives.length > 0 ? MAX_RISK_SCORE : MAX_RISK_SCORE - EXIT_HALF_LIFE_MAX_SCORE;
+    return Math.max(Math.min(score / maxScore, 1), pegStress);
+  }
+
+  /**
+   * Step the state machine toward the level the risk score calls for.
+   * Guards (budget, cooldown, no level skipping) decide how far it actually gets.
+   */
+  private async escalate(
+    riskScore: number,
+    context: DecisionContext
+  ): Promise<{ level: EscalationLevel; blocked: BlockedEscalation | null }> {
+    const { stateMachine, correlationId } = context;
+    stateMachine.updateRisk(riskScore);
+    const target = levelForRiskScore(riskScore);
+
+    if (compareLevels(target, stateMachine.getContext().currentLevel) < 0) {
+      await this.emitTransition(stateMachine.deEscalate(target), correlationId);
+    }
+
+    while (compareLevels(target, stateMachine.getContext().currentLevel) > 0) {
+      const result = stateMachine.transition(
+        this.nextLevel(stateMachine.getContext().currentLevel)
+      );
+      await this.emitTransition(result, correlationId);
+      if (!result.success) {
+        const blockedBy = result.guardResult?.blockedBy ?? 'UNKNOWN';
+        return {
+          level: stateMachine.getContext().currentLevel,
+          blocked: {
+            fromLevel: result.currentLevel,
+            attemptedLevel: this.nextLevel(result.currentLevel),
+            blockedBy,
+            reason:
+              result.guardResult?.reason ?? `${result.event} refused in ${result.currentState}`,
+            budgetExhausted:
+              blockedBy === 'BUDGET_LIMIT' || result.currentState === 'BUDGET_BLOCKED',
+          },
+        };
+      }
+    }
+
+    return { level: stateMachine.getContext().currentLevel, blocked: null };
+  }
+
+  /**
+   * Walk the state machine through a Kaiko payment so every step is persisted before the
+   * transfer is broadcast; a crash mid-payment then resumes with the hash to reconcile
+   */
+  private paymentObserver(stateMachine: EscalationStateMachine): KaikoPaymentObserver {
+    const tracks = (invoiceId: string): boolean =>
+      stateMachine.getContext().pendingPayment?.invoiceId === invoiceId;
+
+    return {
+      paymentRequired: (invoice): void => {
+        stateMachine.send({
+          type: 'PAYMENT_REQUIRED',
+          payload: {
+            amount: invoice.requiredAmountUsdc,
+            invoiceId: invoice.invoiceId,
+            recipient: invoice.paymentAddress,
+          },
+          timestamp: Date.now(),
+        });
+      },
+      paymentSubmitted: (invoice, txHash): void => {
+        if (
+          tracks(invoice.invoiceId) &&
+          stateMachine.getCurrentState().state === 'AWAITING_PAYMENT'
+        ) {
+          stateMachine.send({
+            type: 'PAYMENT_REQUIRED',
+            payload: { txHash },
+            timestamp: Date.now(),
+          });
+        }
+      },
+      paymentConfirmed: (invoice, txHash): void => {
+        if (!tracks(invoice.invoiceId)) {
+          return;
+        }
+        const timestamp = Date.now();
+        stateMachine.send({
+          type: 'PAYMENT_CONFIRMED',
+          payload: { amount: invoice.requiredAmountUsdc, txHash },
+          timestamp,
+        });
+        stateMachine.send({ type: 'COOLDOWN_COMPLETE', timestamp });
+      },
+      paymentFailed: (invoice, reason, txHash): void => {
+        if (tracks(invoice.invoiceId)) {
+          stateMachine.send({
+            type: 'PAYMENT_FAILED',
+            payload: { reason, ...(txHash !== undefined ? { txHash } : {}) },
+            timestamp: Date.now(),
+          });
+        }
+      },
+    };
+  }
+
+  private async emitTransition(
+    result: StateMachineResult,
+    correlationId: string | null
+  ): Promise<void> {
+    const { events } = this.deps;
+    if (correlationId === null) {
+      return;
+    }
+
+    if (result.success && result.previousLevel !== result.currentLevel) {
+      await events.emit(
+        events.createCorrelatedEvent(
+          {
+            type: 'escalation:level_change',
+            payload: {
+              previousLevel: result.previousLevel,
+              newLevel: result.currentLevel,
+              reason: result.guardResult?.reason ?? `${result.event} from ${result.previousState}`,
+              guardsPassed: result.guardResult?.allowed
+                ? ['budget', 'payment', 'cooldown', 'threshold']
+                : [],
+            },
+          },
+          correlationId
+        )
+      );
+      return;
+    }
+
+    if (!result.success && result.guardResult) {
+      const blockedBy = result.guardResult.blockedBy;
+      await events.emit(
+        events.createCorrelatedEvent(
+          {
+            type: 'escalation:blocked',
+            payload: {
+              attemptedLevel: this.nextLevel(result.currentLevel),
+              reason:
+                blockedBy === 'BUDGET_LIMIT'
+                  ? 'budget_exhausted'
+                  : blockedBy === 'COOLDOWN_ACTIVE'
+                    ? 'rate_limited'
+                    : 'guard_failed',
+              details: result.guardResult.reason,
+            },
+          },
+          correlationId
+        )
+      );
+    }
+  }
+
+  /**
+   * Paid Kaiko data per volatile holding: depth bands (L3) and impact curves (L4) from
+   * the order books of every configured venue aggregated, and exit half-lives from traded
+   * volume and the sell side of the curve (L5)
+   */
+  private async fetchMarketData(
+    snapshots: TreasurySnapshot[],
+    level: EscalationLevel,
+    market: MarketDataSource
+  ): Promise<MarketData> {
+    const { liquidityMetrics, orderBookAggregator } = this.deps;
+    const data = this.emptyMarketData();
+    const venues = this.config.kaikoVenues ?? [
+      {
+        quote: 'usd',
+        ...(this.config.kaikoExchange !== undefined ? { exchange: this.config.kaikoExchange } : {}),
+      },
+    ];
+    const quoteUsd = quoteRates(snapshots);
+    let budgetBlocked = false;
+
+    for (const holding of this.volatileHoldings(snapshots)) {
+      const symbol = holding.symbol.toLowerCase();
+      const books: QuotedOrderBook[] = [];
+
+      for (const venue of venues) {
+        data.requestCount++;
+        const book = await market.fetchOrderBook(`${symbol}-${venue.quote}`, venue.exchange);
+        if (book.success) {
+          books.push({ quote: venue.quote, book: book.data });
+        } else if ('budgetBlocked' in book && book.budgetBlocked === true) {
+          budgetBlocked = true;
+          break;
+        }
+      }
+      if (budgetBlocked) {
+        break;
+      }
+
+      const aggregated = orderBookAggregator.aggregate(symbol, books, quoteUsd, market.now());
+      if (!aggregated) {
+        continue;
+      }
+
+      data.depthBands.set(
+        holding.symbol,
+        liquidityMetrics.generateAggregatedDepthBands(aggregated)
+      );
+
+      if (compareLevels(level, 'L4') >= 0) {
+        data.impactCurves.set(
+          holding.symbol,
+          liquidityMetrics.calculateImpactCurve(
+            holding.token,
+            holding.symbol,
+            aggregated.midPrice,
+            aggregated.bids,
+            aggregated.asks
+          )
+        );
+      }
+
+      if (compareLevels(level, 'L5') >= 0) {
+        data.requestCount++;
+        const spot = await market.fetchSpotPrice(`${symbol}-usd`, this.config.kaikoExchange);
+        if (spot.success) {
+          data.exitHalfLives.push(
+            liquidityMetrics.calculateExitHalfLife(
+              holding.token,
+              holding.symbol,
+              holding.usdValue,
+              spot.data.volume24h * spot.data.price,
+              data.impactCurves.get(holding.symbol)
+            )
+          );
+        }
+      }
+    }
+
+    return data;
+  }
+
+  /**
+   * Kaiko spot prices for the held symbols whose on-chain quote is stale, disagrees or is
+   * unavailable, and the snapshots revalued with them. Symbols the free oracles agree on
+   * cost nothing; when every quote is fine no request is made.
+   */
+  private async verifyPrices(
+    snapshots: TreasurySnapshot[],
+    market: MarketDataSource
+  ): Promise<{ snapshots: TreasurySnapshot[]; requestCount: number }> {
+    const prices = new Map<string, number>();
+    let requestCount = 0;
+
+    for (const symbol of this.unverifiedSymbols(snapshots)) {
+      requestCount++;
+      const spot = await market.fetchSpotPrice(
+        `${symbol.toLowerCase()}-usd`,
+        this.config.kaikoExchange
+      );
+      if (!spot.success) {
+        if ('budgetBlocked' in spot && spot.budgetBlocked === true) {
+          break;
+        }
+        continue;
+      }
+      if (spot.data.price > 0) {
+        prices.set(symbol, spot.data.price);
+      }
+    }
+
+    return {
+      snapshots:
+        prices.size > 0
+          ? snapshots.map((snapshot) => repriceSnapshot(snapshot, prices))
+          : snapshots,
+      requestCount,
+    };
+  }
+
+  /**
+   * Symbols with a balance whose on-chain quote on that chain is not usable as is; held
+   * symbols without a free source carry an `unavailable` quote from the TreasuryMonitor
+   */
+  private unverifiedSymbols(snapshots: TreasurySnapshot[]): string[] {
+    const symbols = new Set<string>();
+    for (const snapshot of snapshots) {
+      const held = new Set(
+        snapshot.balances
+          .flatMap((balance) =>
+            balance.position
+              ? balance.position.underlying.map(({ symbol, amount }) => ({ symbol, amount }))
+              : [{ symbol: balance.symbol, amount: balance.balance }]
+          )
+          .filter((asset) => asset.amount > 0n)
+          .map((asset) => asset.symbol)
+      );
+      for (const quote of snapshot.prices ?? []) {
+        if (quote.status !== 'ok' && held.has(quote.symbol)) {
+          symbols.add(quote.symbol);
+        }
+      }
+    }
+    return [...symbols];
+  }
+
+  /**
+   * Non-stablecoin holdings merged across chains by symbol, largest first. Decoded positions
+   * count as the assets they hold, which are what would have to be sold.
+   */
+  private volatileHoldings(snapshots: TreasurySnapshot[]): Holding[] {
+    const holdings = new Map<string, Holding>();
+
+    for (const snapshot of snapshots) {
+      const exposures = snapshot.balances.flatMap((balance): Holding[] =>
+        balance.position ? balance.position.underlying : [balance]
+      );
+      for (const balance of exposures) {
+        if (this.isStablecoin(balance.symbol) || balance.usdValue <= 0) {
+          continue;
+        }
+        const existing = holdings.get(balance.symbol);
+        holdings.set(balance.symbol, {
+          token: existing?.token ?? balance.token,
+          symbol: balance.symbol,
+          usdValue: (existing?.usdValue ?? 0) + balance.usdValue,
+        });
+      }
+    }
+
+    return [...holdings.values()].sort((a, b) => b.usdValue - a.usdValue);
+  }
+
+  private isStablecoin(symbol: string): boolean {
+    return this.config.stablecoinSymbols.includes(symbol);
+  }
+
+  private nextLevel(level: EscalationLevel): EscalationLevel {
+    return LEVEL_ORDER[Math.min(LEVEL_ORDER.indexOf(level) + 1, LEVEL_ORDER.length - 1)] ?? 'L5';
+  }
+
+  private emptyMarketData(): MarketData {
+    return { depthBands: new Map(), impactCurves: new Map(), exitHalfLives: [], requestCount: 0 };
+  }
+}
+
+/**
+ * Revalue holdings the snapshot could not price that are pegged to an asset it could, such as
+ * stETH, wstETH and rETH, at the peg asset's price times their sampled market rate
+ */
+function valuePeggedAssets(snapshot: TreasurySnapshot, pegs: PegStatus[]): TreasurySnapshot {
+  const prices = pegPricesUsd(snapshot, pegs);
+  if (prices.size === 0) {
+    return snapshot;
+  }
+  return {
+    ...repriceSnapshot(snapshot, prices),
+    prices: [
+      ...(snapshot.prices ?? []).filter((quote) => !prices.has(quote.symbol)),
+      ...[...prices].map(([symbol, priceUsd]): PriceQuote => ({
+        symbol,
+        priceUsd,
+        source: 'peg',
+        status: 'ok',
+      })),
+    ],
+  };
+}
+
+/**
+ * Stop a cycle whose run was aborted, e.g. by the scheduler's jobTimeout
+ */
+function throwIfAborted(signal: AbortSignal | undefined, stage: string): void {
+  if (signal?.aborted === true) {
+    throw new SentinelError(ErrorCode.UNKNOWN, `Agent cycle aborted before ${stage}`, {
+      retryable: true,
+    });
+  }
+}
+
+/**
+ * Daily USD volume per lowercase symbol from the spot prices a cycle fetched
+ */
+function tradedVolumesUsd(requests: RecordedKaikoRequest[]): Map<string, number> {
+  const volumes = new Map<string, number>();
+  for (const { dataType, instrument, response } of requests) {
+    if (dataType !== 'spot_price' || !response.success) {
+      continue;
+    }
+    const spot = response.data as KaikoSpotPriceResponse;
+    volumes.set(instrument.replace(/-usd$/, ''), spot.volume24h * spot.price);
+  }
+  return volumes;
+}
+
+/**
+ * The snapshot with the given symbols revalued, in plain balances and position underlyings
+ */
+function repriceSnapshot(
+  snapshot: TreasurySnapshot,
+  prices: Map<string, number>
+): TreasurySnapshot {
+  const balances = snapshot.balances.map((balance): TokenBalance => {
+    if (balance.position) {
+      const underlying = balance.position.underlying.map((asset): UnderlyingAsset => {
+        const price = prices.get(asset.symbol);
+        return price === undefined
+          ? asset
+          : {
+              ...asset,
+              usdValue: toUnits(asset.amount, asset.decimals) * price,
+              withdrawableUsd: toUnits(asset.withdrawableAmount, asset.decimals) * price,
+            };
+      });
+      const position = {
+        ...balance.position,
+        underlying,
+        usdValue: underlying.reduce((sum, asset) => sum + asset.usdValue, 0),
+        withdrawableUsd: underlying.reduce((sum, asset) => sum + asset.withdrawableUsd, 0),
+      };
+      return { ...balance, usdValue: position.usdValue, position };
+    }
+    const price = prices.get(balance.symbol);
+    return price === undefined
+      ? balance
+      : { ...balance, usdValue: toUnits(balance.balance, balance.decimals) * price };
+  });
+
+  return {
+    ...snapshot,
+    balances,
+    totalUsdValue: balances.reduce((sum, balance) => sum + balance.usdValue, 0),
+  };
+}
+
+/**
+ * USD rates for order book quote currencies from the snapshots' trusted on-chain prices,
+ * keyed by lowercase symbol. A quote nothing in the treasury prices falls back to the
+ * aggregator's configured rates or leaves its books out.
+ */
+function quoteRates(snapshots: TreasurySnapshot[]): Record<string, number> {
+  const rates: Record<string, number> = {};
+  for (const quote of snapshots.flatMap((snapshot) => snapshot.prices ?? [])) {
+    const code = quote.symbol.toLowerCase();
+    if (quote.status === 'ok' && quote.priceUsd > 0 && rates[code] === undefined) {
+      rates[code] = quote.priceUsd;
+    }
+  }
+  return rates;
+}
@@ -1,40 +1,107 @@
 /**
  * APScheduler-style agent runner for Treasury Sentinel
- * Handles 15-minute cron-based agent runs with SQLite persistence
+ * Handles cron-scheduled agent runs (every 15 minutes by default) with SQLite persistence
  */
 
-import { v4 as uuidv4 } from 'uuid';
+import { randomUUID } from 'crypto';
+
+import { SchedulerConfig as CronSchedulerConfig } from '../../config/scheduler';
+import { DatabaseManager } from '../../db/DatabaseManager';
+import { getEventEmitter, TreasurySentinelEventEmitter } from '../../events/EventEmitter';
+import { LEVEL_ORDER } from '../../state-machine/EscalationStateMachine';
 import {
+  AgentCycleInputs,
   AgentRun,
+  RunDifference,
   RunStatus,
   ScheduledJob,
   AgentRunQuery,
   AgentRunSummary,
+  RunCycleOptions,
   RunReplayOptions,
   RunReplayResult,
   SchedulerConfig,
   DEFAULT_SCHEDULER_CONFIG,
 } from '../../types/scheduler';
-import { DatabaseManager } from '../../config/database';
+import { ErrorCode, SentinelError } from '../../utils/errors';
+import { createLogger } from '../../utils/logger';
+
+import { AgentCycle, AgentCycleDecision } from './AgentCycle';
+import { CronScheduler } from './CronScheduler';
+import { parseCycleInputs, serializeCycleInputs } from './CycleRecording';
+
+const log = createLogger('AgentRunner');
+
+export const AGENT_JOB_NAME = 'treasury-sentinel-agent';
+
+/** Risk score and USDC differences below these are reported but not flagged significant */
+const RISK_SCORE_TOLERANCE = 0.01;
+const BUDGET_TOLERANCE_USDC = 0.01;
 
 export class AgentRunner {
   private config: SchedulerConfig;
   private db: DatabaseManager;
   private isRunning: boolean = false;
   private currentRun: AgentRun | null = null;
-  private intervalId: NodeJS.Timeout | null = null;
-  private jobId: string;
+  private scheduler: CronScheduler | null = null;
 
-  constructor(config: Partial<SchedulerConfig> = {}) {
+  constructor(
+    config: Partial<SchedulerConfig> = {},
+    private cycle: AgentCycle | null = null,
+    private events: TreasurySentinelEventEmitter = getEventEmitter()
+  ) {
     this.config = { ...DEFAULT_SCHEDULER_CONFIG, ...config };
     this.db = new DatabaseManager();
-    this.jobId = uuidv4();
   }
 
   async initialize(): Promise<void> {
     await this.db.initialize();
     await this.ensureTablesExist();
-    await this.registerJob();
+  }
+
+  /**
+   * Schedule runCycle on the configured cron expression and timezone.
+   * Misfires, concurrency, timeouts and retries follow the scheduler config.
+   * The escalation state persisted before the last shutdown is restored first.
+   */
+  async start(schedulerConfig: Partial<CronSchedulerConfig> = {}): Promise<void> {
+    if (this.scheduler) {
+      return;
+    }
+
+    if (this.cycle) {
+      const resumed = await this.cycle.resume();
+      if (resumed.reconciliation === 'pending' || resumed.reconciliation === 'failed') {
+        log.warn(`Pending payment ${resumed.reconciliation}`, { reason: resumed.reason });
+      }
+    }
+
+    const scheduler = new CronScheduler(this.db, {
+      cronExpression: this.config.cronExpression,
+      timezone: this.config.timezone,
+      ...schedulerConfig,
+    });
+    await scheduler.initialize();
+    await scheduler.addJob({
+      name: AGENT_JOB_NAME,
+      handler: ({ scheduledAt, signal, attempt, maxAttempts }) =>
+        this.runCycle(scheduledAt, { signal, willRetry: attempt < maxAttempts }),
+    });
+    this.scheduler = scheduler;
+    await scheduler.start();
+  }
+
+  /**
+   * Stop scheduling new runs and wait for the current one to finish
+   */
+  async stop(): Promise<void> {
+    const scheduler = this.scheduler;
+    this.scheduler = null;
+    await scheduler?.stop();
+  }
+
+  async getScheduledJobs(): Promise<ScheduledJob[]> {
+    return this.scheduler ? this.scheduler.getJobs() : [];
   }
 
   private async ensureTablesExist(): Promise<void> {
@@ -46,7 +113,7 @@ export class AgentRunner {
         started_at TEXT,
         completed_at TEXT,
         status TEXT NOT NULL DEFAULT 'pending',
-        escalation_level INTEGER DEFAULT 0,
+        escalation_level INTEGER DEFAULT 0, -- index in LEVEL_ORDER (L0 = 0)
         treasury_snapshot_id TEXT,
         liquidity_metrics_id TEXT,
         kaiko_request_count INTEGER DEFAULT 0,
@@ -57,65 +124,106 @@ export class AgentRunner {
       )
     `;
 
-    const createJobsTable = `
-      CREATE TABLE IF NOT EXISTS scheduled_jobs (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        cron_expression TEXT NOT NULL,
-        enabled INTEGER DEFAULT 1,
-        last_run TEXT,
-        next_run TEXT,
-        run_count INTEGER DEFAULT 0,
-        failure_count INTEGER DEFAULT 0,
-        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+    const createInputsTable = `
+      CREATE TABLE IF NOT EXISTS agent_run_inputs (
+        run_id TEXT PRIMARY KEY,
+        inputs TEXT NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
       )
     `;
 
     await this.db.run(createRunsTable);
-    await this.db.run(createJobsTable);
+    await this.db.run(createInputsTable);
   }
 
-  private async registerJob(): Promise<void> {
-    const existingJob = await this.db.get<ScheduledJob>(
-      'SELECT * FROM scheduled_jobs WHERE name = ?',
-      ['treasury-sentinel-agent']
-    );
-
-    if (!existingJob) {
-      const nextRun = this.calculateNextRun();
-      await this.db.run(
-        `INSERT INTO scheduled_jobs (id, name, cron_expression, next_run) VALUES (?, ?, ?, ?)`,
-        [this.jobId, 'treasury-sentinel-agent', this.config.cronExpression, nextRun.toISOString()]
+  /**
+   * Execute one full monitoring cycle as a recorded agent run; aborting `signal` stops the
+   * cycle at its next stage and fails the run
+   */
+  async runCycle(
+    scheduledAt: Date = new Date(),
+    options: RunCycleOptions = {}
+  ): Promise<AgentRun> {
+    const { signal, willRetry = false } = options;
+    const cycle = this.requireCycle();
+    if (this.isRunning) {
+      throw new SentinelError(
+        ErrorCode.VALIDATION_ERROR,
+        `Agent run ${this.currentRun?.id ?? ''} is still in progress`
       );
-    } else {
-      this.jobId = existingJob.id;
     }
-  }
 
-  private calculateNextRun(): Date {
-    // Simple 15-minute interval calculation
-    const now = new Date();
-    const minutes = now.getMinutes();
-    const nextInterval = Math.ceil((minutes + 1) / 15) * 15;
-    const nextRun = new Date(now);
-    nextRun.setMinutes(nextInterval, 0, 0);
-    if (nextRun <= now) {
-      nextRun.setMinutes(nextRun.getMinutes() + 15);
+    // Claimed before the first await so a concurrent call cannot start a second run
+    this.isRunning = true;
+    let run: AgentRun;
+    try {
+      run = await this.createRun(scheduledAt);
+    } catch (error) {
+      this.isRunning = false;
+      throw error;
+    }
+    this.currentRun = run;
+
+    try {
+      await this.startRun(run.id);
+      await this.events.emit(
+        this.events.createCorrelatedEvent(
+          { type: 'agent:run_started', payload: { runId: run.id, scheduledTime: run.scheduledAt } },
+          run.id
+        )
+      );
+
+      const result = await cycle.run(run.id, signal);
+      await this.db.run('INSERT INTO agent_run_inputs (run_id, inputs) VALUES (?, ?)', [
+        run.id,
+        serializeCycleInputs(result.inputs),
+      ]);
+      await this.completeRun(run.id, {
+        escalationLevel: result.escalationLevel,
+        treasurySnapshotId: result.treasurySnapshotId,
+        liquidityMetricsId: result.liquidityMetricsId,
+        kaikoRequestCount: result.kaikoRequestCount,
+        budgetSpentUsdc: result.budgetSpentUsdc,
+        metadata: this.decisionMetadata(result),
+      });
+
+      const completed = await this.getRun(run.id);
+      if (!completed) {
+        throw new SentinelError(ErrorCode.RECORD_NOT_FOUND, `Run not found: ${run.id}`);
+      }
+      await this.events.emit(
+        this.events.createCorrelatedEvent(
+          { type: 'agent:run_completed', payload: { run: completed } },
+          run.id
+        )
+      );
+      return completed;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await this.failRun(run.id, message);
+      await this.events.emit(
+        this.events.createCorrelatedEvent(
+          { type: 'agent:run_failed', payload: { runId: run.id, error: message, willRetry } },
+          run.id
+        )
+      );
+      throw error;
+    } finally {
+      this.isRunning = false;
+      this.currentRun = null;
     }
-    return nextRun;
   }
 
-  async createRun(): Promise<AgentRun> {
+  async createRun(scheduledAt: Date = new Date()): Promise<AgentRun> {
     const runNumber = await this.getNextRunNumber();
     const run: AgentRun = {
-      id: uuidv4(),
+      id: randomUUID(),
       runNumber,
-      scheduledAt: new Date(),
+      scheduledAt,
       startedAt: null,
       completedAt: null,
       status: 'pending',
-      escalationLevel: 0,
+      escalationLevel: 'L0',
       treasurySnapshotId: null,
       liquidityMetricsId: null,
       kaikoRequestCount: 0,
@@ -128,7 +236,7 @@ export class AgentRunner {
       `INSERT INTO agent_runs 
        (id, run_number, scheduled_at, status, escalation_level, metadata) 
        VALUES (?, ?, ?, ?, ?, ?)`,
-      [run.id, run.runNumber, run.scheduledAt.toISOString(), run.status, run.escalationLevel, JSON.stringify(run.metadata)]
+      [run.id, run.runNumber, run.scheduledAt.toISOString(), run.status, LEVEL_ORDER.indexOf(run.escalationLevel), JSON.stringify(run.metadata)]
     );
 
     return run;
@@ -168,7 +276,7 @@ export class AgentRunner {
       [
         completedAt.toISOString(),
         'completed' as RunStatus,
-        updates.escalationLevel,
+        updates.escalationLevel !== undefined ? LEVEL_ORDER.indexOf(updates.escalationLevel) : undefined,
         updates.treasurySnapshotId,
         updates.liquidityMetricsId,
         updates.kaikoRequestCount,
@@ -213,7 +321,7 @@ export class AgentRunner {
     }
     if (query.escalationLevel !== undefined) {
       conditions.push('escalation_level = ?');
-      params.push(query.escalationLevel);
+      params.push(LEVEL_ORDER.indexOf(query.escalationLevel));
     }
 
     const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
@@ -244,18 +352,20 @@ export class AgentRunner {
             THEN (julianday(completed_at) - julianday(started_at)) * 86400000 
             ELSE NULL END) as avgDuration,
         SUM(budget_spent_usdc) as totalBudget
-      FROM agent_runs`
+      FROM agent_runs
+      WHERE json_extract(metadata, '$.isReplay') IS NULL`
     );
 
     const levelCounts = await this.db.all<{ level: number; count: number }[]>(
       `SELECT escalation_level as level, COUNT(*) as count 
        FROM agent_runs 
+       WHERE json_extract(metadata, '$.isReplay') IS NULL
        GROUP BY escalation_level`
     );
 
-    const runsByEscalationLevel: Record<number, number> = {};
+    const runsByEscalationLevel: AgentRunSummary['runsByEscalationLevel'] = {};
     for (const row of levelCounts) {
-      runsByEscalationLevel[row.level] = row.count;
+      runsByEscalationLevel[LEVEL_ORDER[row.level] ?? 'L0'] = row.count;
     }
 
     return {
@@ -268,31 +378,136 @@ export class AgentRunner {
     };
   }
 
+  /**
+   * Re-execute a recorded run's decisions against its stored inputs with the current
+   * thresholds and guards, and report where the outcome differs.
+   * Replays are kept out of getRunSummary; with `dryRun` nothing is written at all.
+   */
   async replayRun(options: RunReplayOptions): Promise<RunReplayResult> {
+    const cycle = this.requireCycle();
+    if (!this.config.enableReplay) {
+      throw new SentinelError(ErrorCode.CONFIGURATION_ERROR, 'Run replay is disabled');
+    }
+
     const originalRun = await this.getRun(options.runId);
     if (!originalRun) {
-      throw new Error(`Run not found: ${options.runId}`);
+      throw new SentinelError(ErrorCode.RECORD_NOT_FOUND, `Run not found: ${options.runId}`);
+    }
+    const inputs = await this.getRunInputs(originalRun.id);
+    if (!inputs) {
+      throw new SentinelError(
+        ErrorCode.RECORD_NOT_FOUND,
+        `No recorded inputs for run ${originalRun.id}; only completed cycles can be replayed`
+      );
     }
 
-    // Create a new replay run
-    const replayRun = await this.createRun();
-    replayRun.metadata = {
-      ...replayRun.metadata,
-      isReplay: true,
-      originalRunId: originalRun.id,
-      replayOptions: options,
+    const decision = await cycle.replay(inputs, options);
+    const outcome: Pick<
+      AgentRun,
+      | 'escalationLevel'
+      | 'treasurySnapshotId'
+      | 'kaikoRequestCount'
+      | 'budgetSpentUsdc'
+      | 'metadata'
+    > = {
+      escalationLevel: decision.escalationLevel,
+      treasurySnapshotId: originalRun.treasurySnapshotId,
+      kaikoRequestCount: decision.kaikoRequestCount,
+      budgetSpentUsdc: decision.budgetSpentUsdc,
+      metadata: {
+        ...this.decisionMetadata(decision),
+        isReplay: true,
+        originalRunId: originalRun.id,
+        replayOptions: options,
+      },
     };
 
-    // For now, return a placeholder result
-    // Full implementation would re-execute the run logic
+    let replayRun: AgentRun | null;
+    if (options.dryRun === true) {
+      const now = new Date();
+      replayRun = {
+        id: randomUUID(),
+        runNumber: originalRun.runNumber,
+        scheduledAt: originalRun.scheduledAt,
+        startedAt: now,
+        completedAt: now,
+        status: 'completed',
+        liquidityMetricsId: null,
+        errorMessage: null,
+        ...outcome,
+      };
+    } else {
+      const created = await this.createRun(originalRun.scheduledAt);
+      await this.startRun(created.id);
+      await this.completeRun(created.id, outcome);
+      replayRun = await this.getRun(created.id);
+      if (!replayRun) {
+        throw new SentinelError(ErrorCode.RECORD_NOT_FOUND, `Run not found: ${created.id}`);
+      }
+    }
+
     return {
       originalRun,
       replayRun,
-      differences: [],
+      differences: this.diffRuns(originalRun, replayRun),
       success: true,
     };
   }
 
+  async getRunInputs(runId: string): Promise<AgentCycleInputs | null> {
+    const row = await this.db.get<{ inputs: string }>(
+      'SELECT inputs FROM agent_run_inputs WHERE run_id = ?',
+      [runId]
+    );
+    return row ? parseCycleInputs(row.inputs) : null;
+  }
+
+  private requireCycle(): AgentCycle {
+    if (!this.cycle) {
+      throw new SentinelError(
+        ErrorCode.CONFIGURATION_ERROR,
+        'AgentRunner needs an AgentCycle to run monitoring cycles'
+      );
+    }
+    return this.cycle;
+  }
+
+  private decisionMetadata(decision: AgentCycleDecision): Record<string, unknown> {
+    return {
+      riskScore: decision.riskScore,
+      riskLevel: decision.assessment.riskLevel,
+      volatilityRegime: decision.assessment.volatilityRegime,
+    };
+  }
+
+  /**
+   * Fields whose values differ between the runs; numeric noise below tolerance is not significant
+   */
+  private diffRuns(original: AgentRun, replay: AgentRun): RunDifference[] {
+    const numeric = (value: unknown): number => (typeof value === 'number' ? value : 0);
+    const { metadata: before } = original;
+    const { metadata: after } = replay;
+    const candidates: Array<[string, unknown, unknown, number | null]> = [
+      ['escalationLevel', original.escalationLevel, replay.escalationLevel, null],
+      ['riskScore', before['riskScore'], after['riskScore'], RISK_SCORE_TOLERANCE],
+      ['riskLevel', before['riskLevel'], after['riskLevel'], null],
+      ['volatilityRegime', before['volatilityRegime'], after['volatilityRegime'], null],
+      ['kaikoRequestCount', original.kaikoRequestCount, replay.kaikoRequestCount, 0],
+      ['budgetSpentUsdc', original.budgetSpentUsdc, replay.budgetSpentUsdc, BUDGET_TOLERANCE_USDC],
+    ];
+
+    return candidates
+      .filter(([, originalValue, replayValue]) => originalValue !== replayValue)
+      .map(([field, originalValue, replayValue, tolerance]) => ({
+        field,
+        originalValue,
+        replayValue,
+        significant:
+          tolerance === null ||
+          Math.abs(numeric(originalValue) - numeric(replayValue)) >= tolerance,
+      }));
+  }
+
   private mapRowToAgentRun(row: Record<string, unknown>): AgentRun {
     return {
       id: row.id as string,
@@ -301,7 +516,7 @@ export class AgentRunner {
       startedAt: row.started_at ? new Date(row.started_at as string) : null,
       completedAt: row.completed_at ? new Date(row.completed_at as string) : null,
       status: row.status as RunStatus,
-      escalationLevel: row.escalation_level as number,
+      escalationLevel: LEVEL_ORDER[row.escalation_level as number] ?? 'L0',
       treasurySnapshotId: row.treasury_snapshot_id as string | null,
       liquidityMetricsId: row.liquidity_metrics_id as string | null,
       kaikoRequestCount: row.kaiko_request_count as number,
@@ -312,10 +527,7 @@ export class AgentRunner {
   }
 
   async close(): Promise<void> {
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
-    }
+    await this.stop();
     await this.db.close();
   }
 }
@@ -0,0 +1,226 @@
+/**
+ * Counterfactual budget sweeps: "what if the Kaiko budget had been N USDC"
+ * Replays a window of recorded agent runs once per budget, carrying the simulated
+ * state machine and spend from one run to the next
+ */
+
+import { BUDGET_CONFIG } from '../../config/budget';
+import { EscalationStateMachine, LEVEL_ORDER } from '../../state-machine/EscalationStateMachine';
+import { LEVEL_CONFIGS } from '../../types/escalation';
+import {
+  AgentCycleInputs,
+  AgentRun,
+  BudgetScenarioResult,
+  BudgetSimulationOptions,
+  BudgetSimulationPoint,
+  BudgetSimulationResult,
+  DeniedEscalation,
+} from '../../types/scheduler';
+import { ErrorCode, SentinelError } from '../../utils/errors';
+
+import { AgentCycle } from './AgentCycle';
+import { AgentRunner } from './AgentRunner';
+import { RecordedMarketData } from './CycleRecording';
+
+/** Default sweep, as multiples of BUDGET_CONFIG.maxBudgetUsdc */
+const DEFAULT_BUDGET_MULTIPLIERS = [0.5, 1, 2.5, 5];
+/** Two months of 15-minute runs */
+const MAX_WINDOW_RUNS = 6_000;
+
+interface RecordedRun {
+  run: AgentRun;
+  inputs: AgentCycleInputs;
+}
+
+/**
+ * Budgets from min to max inclusive in `step` USDC increments
+ */
+export function budgetRange(min: number, max: number, step: number): number[] {
+  if (!(step > 0) || min < 0 || max < min) {
+    throw new SentinelError(
+      ErrorCode.VALIDATION_ERROR,
+      `Invalid budget range: ${min}..${max} step ${step}`
+    );
+  }
+
+  const budgets: number[] = [];
+  for (let i = 0; min + i * step <= max + 1e-9; i++) {
+    budgets.push(Math.round((min + i * step) * 100) / 100);
+  }
+  return budgets;
+}
+
+export class BudgetSimulator {
+  constructor(
+    private runner: AgentRunner,
+    private cycle: AgentCycle
+  ) {}
+
+  async simulate(options: BudgetSimulationOptions): Promise<BudgetSimulationResult> {
+    const { startDate, endDate } = options;
+    if (startDate.getTime() >= endDate.getTime()) {
+      throw new SentinelError(ErrorCode.VALIDATION_ERROR, 'startDate must be before endDate');
+    }
+
+    const budgets =
+      options.budgets ??
+      DEFAULT_BUDGET_MULTIPLIERS.map((multiplier) => BUDGET_CONFIG.maxBudgetUsdc * multiplier);
+    if (budgets.length === 0 || budgets.some((budget) => !Number.isFinite(budget) || budget < 0)) {
+      throw new SentinelError(
+        ErrorCode.VALIDATION_ERROR,
+        'Budgets must be a non-empty list of non-negative USDC amounts'
+      );
+    }
+
+    const { runs, skippedRunIds } = await this.loadWindow(startDate, endDate);
+
+    const scenarios: BudgetScenarioResult[] = [];
+    for (const budget of [...new Set(budgets)].sort((a, b) => a - b)) {
+      scenarios.push(await this.simulateBudget(budget, runs));
+    }
+
+    return {
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+      runCount: runs.length,
+      skippedRunIds,
+      scenarios,
+    };
+  }
+
+  /**
+   * Completed live runs in the window, oldest first, with their recorded inputs
+   */
+  private async loadWindow(
+    startDate: Date,
+    endDate: Date
+  ): Promise<{ runs: RecordedRun[]; skippedRunIds: string[] }> {
+    const completed = await this.runner.queryRuns({
+      startDate,
+      endDate,
+      status: 'completed',
+      limit: MAX_WINDOW_RUNS,
+    });
+
+    const runs: RecordedRun[] = [];
+    const skippedRunIds: string[] = [];
+    for (const run of completed.filter((r) => r.metadata['isReplay'] !== true).reverse()) {
+      const inputs = await this.runner.getRunInputs(run.id);
+      if (inputs) {
+        runs.push({ run, inputs });
+      } else {
+        skippedRunIds.push(run.id);
+      }
+    }
+    return { runs, skippedRunIds };
+  }
+
+  private async simulateBudget(
+    budgetUsdc: number,
+    runs: RecordedRun[]
+  ): Promise<BudgetScenarioResult> {
+    const stateMachine = new EscalationStateMachine({ budgetLimit: budgetUsdc });
+    const spendCurve: BudgetSimulationPoint[] = [];
+    const deniedEscalations: DeniedEscalation[] = [];
+    const firstReachedAt: BudgetScenarioResult['firstReachedAt'] = {};
+    let blockedAt: BudgetScenarioResult['blockedAt'] = null;
+    let cumulativeSpentUsdc = 0;
+    let previousStartedAt: number | null = null;
+    // The gateway stays blocked once it refuses a payment, like KaikoGateway does
+    let gatewayBlocked = false;
+
+    for (const { run, inputs } of runs) {
+      if (previousStartedAt === null) {
+        // Start from the first run's recorded state with the simulated budget untouched
+        const { context } = inputs.initialState;
+        stateMachine.restore({
+          ...inputs.initialState,
+          context: { ...context, budgetLimit: budgetUsdc, totalSpent: 0 },
+        });
+        this.shiftClock(stateMachine, Date.now() - inputs.startedAt);
+      } else {
+        // Replays run back to back; let cooldowns see the time that passed between the runs
+        this.shiftClock(stateMachine, -(inputs.startedAt - previousStartedAt));
+      }
+      previousStartedAt = inputs.startedAt;
+
+      const market: RecordedMarketData = new RecordedMarketData(
+        inputs.kaikoRequests,
+        cumulativeSpentUsdc,
+        gatewayBlocked ? cumulativeSpentUsdc : budgetUsdc
+      );
+      const decision = await this.cycle.replayWith(inputs, {
+        stateMachine,
+        market,
+        spentUsdc: cumulativeSpentUsdc,
+      });
+
+      // Data the recorded run never bought has no known price; charge the level's estimate
+      let estimatedSpendUsdc = 0;
+      if (market.getUnrecordedCount() > 0) {
+        estimatedSpendUsdc = Math.min(
+          LEVEL_CONFIGS[decision.escalationLevel].estimatedCost,
+          Math.max(budgetUsdc - market.getSpentUsdc(), 0)
+        );
+        stateMachine.updateBudget(market.getSpentUsdc() + estimatedSpendUsdc);
+      }
+      cumulativeSpentUsdc = market.getSpentUsdc() + estimatedSpendUsdc;
+
+      const timestamp = run.scheduledAt.getTime();
+      const date = run.scheduledAt.toISOString();
+      gatewayBlocked ||= market.isBudgetBlocked();
+      const budgetBlocked =
+        gatewayBlocked || stateMachine.getCurrentState().state === 'BUDGET_BLOCKED';
+
+      spendCurve.push({
+        runId: run.id,
+        timestamp,
+        date,
+        level: decision.escalationLevel,
+        originalLevel: run.escalationLevel,
+        spentUsdc: decision.budgetSpentUsdc + estimatedSpendUsdc,
+        cumulativeSpentUsdc,
+        estimatedSpendUsdc,
+        budgetBlocked,
+      });
+
+      if (budgetBlocked && blockedAt === null) {
+        blockedAt = { runId: run.id, timestamp, date };
+      }
+      const blocked = decision.blockedEscalation;
+      if (blocked?.budgetExhausted === true) {
+        deniedEscalations.push({
+          runId: run.id,
+          timestamp,
+          date,
+          fromLevel: blocked.fromLevel,
+          attemptedLevel: blocked.attemptedLevel,
+          reason: blocked.reason,
+        });
+      }
+      for (const level of LEVEL_ORDER.slice(0, LEVEL_ORDER.indexOf(decision.escalationLevel) + 1)) {
+        firstReachedAt[level] ??= timestamp;
+      }
+    }
+
+    return {
+      budgetUsdc,
+      blockedAt,
+      deniedEscalations,
+      spendCurve,
+      totalSpentUsdc: cumulativeSpentUsdc,
+      firstReachedAt,
+    };
+  }
+
+  private shiftClock(stateMachine: EscalationStateMachine, offsetMs: number): void {
+    const snapshot = stateMachine.getCurrentState();
+    const { lastEscalationTime } = snapshot.context;
+    if (lastEscalationTime !== undefined) {
+      stateMachine.restore({
+        ...snapshot,
+        context: { ...snapshot.context, lastEscalationTime: lastEscalationTime + offsetMs },
+      });
+    }
+  }
+}
@@ -0,0 +1,302 @@
+/**
+ * Five-field cron expressions evaluated in a named IANA timezone
+ * Fields: minute hour day-of-month month day-of-week
+ */
+
+import { ErrorCode, SentinelError } from '../../utils/errors';
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  aliases?: Record<string, number>;
+}
+
+interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const MINUTE_MS = 60_000;
+/** Upper bound on search steps; every step advances at least a minute and usually a day or more */
+const MAX_SEARCH_STEPS = 100_000;
+
+const MONTH_ALIASES: Record<string, number> = {
+  JAN: 1,
+  FEB: 2,
+  MAR: 3,
+  APR: 4,
+  MAY: 5,
+  JUN: 6,
+  JUL: 7,
+  AUG: 8,
+  SEP: 9,
+  OCT: 10,
+  NOV: 11,
+  DEC: 12,
+};
+
+const DAY_ALIASES: Record<string, number> = {
+  SUN: 0,
+  MON: 1,
+  TUE: 2,
+  WED: 3,
+  THU: 4,
+  FRI: 5,
+  SAT: 6,
+};
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, aliases: MONTH_ALIASES },
+  // 7 is accepted as Sunday and folded into 0
+  { name: 'day-of-week', min: 0, max: 7, aliases: DAY_ALIASES },
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export class CronExpression {
+  readonly expression: string;
+  readonly timezone: string;
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  /** Standard cron: when both day fields are restricted, either may match */
+  private dayOfMonthRestricted: boolean;
+  private dayOfWeekRestricted: boolean;
+
+  constructor(expression: string, timezone: string = 'UTC') {
+    this.expression = expression.trim();
+    this.timezone = timezone;
+    getFormatter(timezone);
+
+    const source = MACROS[this.expression.toLowerCase()] ?? this.expression;
+    const parts = source.split(/\s+/);
+    if (parts.length !== FIELDS.length) {
+      throw invalid(expression, `expected 5 fields, got ${parts.length}`);
+    }
+
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = parts.map((part, i) =>
+      parseField(part, FIELDS[i] as FieldSpec, expression)
+    ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+    if (dayOfWeek.delete(7)) {
+      dayOfWeek.add(0);
+    }
+
+    this.minutes = minute;
+    this.hours = hour;
+    this.daysOfMonth = dayOfMonth;
+    this.months = month;
+    this.daysOfWeek = dayOfWeek;
+    this.dayOfMonthRestricted = parts[2]?.startsWith('*') !== true;
+    this.dayOfWeekRestricted = parts[4]?.startsWith('*') !== true;
+  }
+
+  /**
+   * First fire time strictly after `after`.
+   * Wall-clock times skipped by a DST change never fire; times repeated when clocks fall back
+   * fire on each occurrence.
+   */
+  next(after: Date = new Date()): Date {
+    let cursor = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+
+    for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+      const wall = toWallTime(cursor, this.timezone);
+
+      if (!this.months.has(wall.month)) {
+        cursor = this.advanceTo(cursor, {
+          ...wall,
+          month: wall.month + 1,
+          day: 1,
+          hour: 0,
+          minute: 0,
+        });
+        continue;
+      }
+      if (!this.matchesDay(wall)) {
+        cursor = this.advanceTo(cursor, { ...wall, day: wall.day + 1, hour: 0, minute: 0 });
+        continue;
+      }
+      if (!this.hours.has(wall.hour)) {
+        cursor += (60 - wall.minute) * MINUTE_MS;
+        continue;
+      }
+      if (!this.minutes.has(wall.minute)) {
+        cursor += MINUTE_MS;
+        continue;
+      }
+      return new Date(cursor);
+    }
+
+    throw invalid(this.expression, 'no fire time found; the expression may never match');
+  }
+
+  /**
+   * Fire times in (from, to], oldest first, capped at `limit`
+   */
+  between(from: Date, to: Date, limit: number = Number.MAX_SAFE_INTEGER): Date[] {
+    const times: Date[] = [];
+    let cursor = from;
+    while (times.length < limit) {
+      const next = this.next(cursor);
+      if (next.getTime() > to.getTime()) {
+        break;
+      }
+      times.push(next);
+      cursor = next;
+    }
+    return times;
+  }
+
+  private matchesDay(wall: WallTime): boolean {
+    const dayOfWeek = new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay();
+    const domMatch = this.daysOfMonth.has(wall.day);
+    const dowMatch = this.daysOfWeek.has(dayOfWeek);
+
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return domMatch || dowMatch;
+    }
+    return domMatch && dowMatch;
+  }
+
+  /**
+   * Jump to a later wall-clock time, falling back to a one-minute step if the
+   * conversion does not move forward (e.g. around a DST transition)
+   */
+  private advanceTo(cursor: number, wall: WallTime): number {
+    const target = fromWallTime(wall, this.timezone);
+    return target > cursor ? target : cursor + MINUTE_MS;
+  }
+}
+
+/**
+ * Throws a CONFIGURATION_ERROR for unknown IANA timezone names
+ */
+export function validateTimezone(timezone: string): void {
+  getFormatter(timezone);
+}
+
+function parseField(source: string, spec: FieldSpec, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of source.split(',')) {
+    const [range = '', stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw invalid(expression, `bad step "${stepText ?? ''}" in ${spec.name}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [low = '', high = ''] = range.split('-');
+      start = parseValue(low, spec, expression);
+      end = parseValue(high, spec, expression);
+    } else {
+      start = parseValue(range, spec, expression);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    if (start > end) {
+      throw invalid(expression, `range ${range} in ${spec.name} is reversed`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(text: string, spec: FieldSpec, expression: string): number {
+  const alias = spec.aliases?.[text.toUpperCase()];
+  const value = alias ?? (/^\d+$/.test(text) ? Number(text) : NaN);
+  if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw invalid(expression, `"${text}" is outside ${spec.name} ${spec.min}-${spec.max}`);
+  }
+  return value;
+}
+
+function invalid(expression: string, reason: string): SentinelError {
+  return new SentinelError(
+    ErrorCode.CONFIGURATION_ERROR,
+    `Invalid cron expression "${expression}": ${reason}`
+  );
+}
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+      });
+    } catch {
+      throw new SentinelError(ErrorCode.CONFIGURATION_ERROR, `Unknown timezone: ${timezone}`);
+    }
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+function toWallTime(instant: number, timezone: string): WallTime {
+  const fields: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') {
+      fields[part.type] = Number(part.value);
+    }
+  }
+  return {
+    year: fields['year'] ?? 1970,
+    month: fields['month'] ?? 1,
+    day: fields['day'] ?? 1,
+    hour: fields['hour'] ?? 0,
+    minute: fields['minute'] ?? 0,
+  };
+}
+
+/**
+ * UTC instant of a wall-clock time; out-of-range fields roll over like Date.UTC
+ */
+function fromWallTime(wall: WallTime, timezone: string): number {
+  const naive = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+  const offsetAt = (instant: number): number => {
+    const local = toWallTime(instant, timezone);
+    return (
+      Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) -
+      Math.floor(instant / MINUTE_MS) * MINUTE_MS
+    );
+  };
+
+  const firstGuess = naive - offsetAt(naive);
+  const secondOffset = offsetAt(firstGuess);
+  return naive - secondOffset;
+}
@@ -0,0 +1,458 @@
+/**
+ * Cron job scheduler with SQLite-persisted job state
+ * Fires jobs on their cron schedule in a named timezone, bounded by maxConcurrentJobs,
+ * jobTimeout and retry backoff, and handles runs missed while the process was down
+ */
+
+import { randomUUID } from 'crypto';
+
+import { defaultSchedulerConfig, SchedulerConfig } from '../../config/scheduler';
+import { DatabaseManager } from '../../db/DatabaseManager';
+import { ScheduledJob } from '../../types/scheduler';
+import { ErrorCode, SentinelError } from '../../utils/errors';
+import { createLogger } from '../../utils/logger';
+
+import { CronExpression } from './CronExpression';
+
+const log = createLogger('Scheduler');
+
+/** setTimeout stores delays as a signed 32-bit integer */
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+
+export interface CronJobContext {
+  jobId: string;
+  jobName: string;
+  /** Fire time this execution belongs to (in the past for caught-up misfires) */
+  scheduledAt: Date;
+  attempt: number;
+  /** A failed attempt below this number is retried after the backoff delay */
+  maxAttempts: number;
+  /** Aborted when the attempt exceeds jobTimeout */
+  signal: AbortSignal;
+}
+
+export type CronJobHandler = (context: CronJobContext) => Promise<unknown>;
+
+export interface CronJobOptions {
+  name: string;
+  handler: CronJobHandler;
+  /** Defaults to the scheduler's cronExpression */
+  cronExpression?: string;
+  /** Defaults to the scheduler's timezone */
+  timezone?: string;
+}
+
+export interface CronJobOutcome {
+  jobName: string;
+  scheduledAt: Date;
+  status: 'completed' | 'failed' | 'skipped';
+  attempts: number;
+  error?: string;
+}
+
+interface RegisteredJob {
+  id: string;
+  name: string;
+  cron: CronExpression;
+  handler: CronJobHandler;
+  timer: NodeJS.Timeout | null;
+}
+
+interface ScheduledJobRow {
+  id: string;
+  name: string;
+  cron_expression: string;
+  enabled: number;
+  last_run: string | null;
+  next_run: string | null;
+  run_count: number;
+  failure_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export class CronScheduler {
+  private config: SchedulerConfig;
+  private jobs: Map<string, RegisteredJob> = new Map();
+  private inFlight: Set<Promise<CronJobOutcome>> = new Set();
+  private activeCount = 0;
+  private started = false;
+
+  constructor(
+    private db: DatabaseManager,
+    config: Partial<SchedulerConfig> = {}
+  ) {
+    this.config = {
+      ...defaultSchedulerConfig,
+      ...config,
+      retry: { ...defaultSchedulerConfig.retry, ...config.retry },
+    };
+  }
+
+  async initialize(): Promise<void> {
+    await this.db.run(`
+      CREATE TABLE IF NOT EXISTS scheduled_jobs (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        cron_expression TEXT NOT NULL,
+        enabled INTEGER DEFAULT 1,
+        last_run TEXT,
+        next_run TEXT,
+        run_count INTEGER DEFAULT 0,
+        failure_count INTEGER DEFAULT 0,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+  }
+
+  /**
+   * Register a job, reusing its persisted row (and counters) when one exists by name
+   */
+  async addJob(options: CronJobOptions): Promise<ScheduledJob> {
+    if (this.jobs.has(options.name)) {
+      throw new SentinelError(
+        ErrorCode.DUPLICATE_RECORD,
+        `Job "${options.name}" is already registered`
+      );
+    }
+
+    const cron = new CronExpression(
+      options.cronExpression ?? this.config.cronExpression,
+      options.timezone ?? this.config.timezone
+    );
+    const existing = await this.findRow(options.name);
+    const now = new Date().toISOString();
+
+    let id: string;
+    if (!existing) {
+      id = randomUUID();
+      await this.db.run(
+        `INSERT INTO scheduled_jobs (id, name, cron_expression, next_run, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [id, options.name, cron.expression, cron.next().toISOString(), now, now]
+      );
+    } else {
+      id = existing.id;
+      if (existing.cron_expression !== cron.expression) {
+        // A new schedule invalidates the stored next_run, so nothing counts as missed
+        await this.db.run(
+          'UPDATE scheduled_jobs SET cron_expression = ?, next_run = ?, updated_at = ? WHERE id = ?',
+          [cron.expression, cron.next().toISOString(), now, id]
+        );
+      }
+    }
+
+    const job: RegisteredJob = {
+      id,
+      name: options.name,
+      cron,
+      handler: options.handler,
+      timer: null,
+    };
+    this.jobs.set(options.name, job);
+    if (this.started) {
+      await this.activate(job);
+    }
+
+    const row = await this.findRow(options.name);
+    if (!row) {
+      throw new SentinelError(ErrorCode.RECORD_NOT_FOUND, `Job not found: ${options.name}`);
+    }
+    return this.mapRowToScheduledJob(row);
+  }
+
+  /**
+   * Handle misfires, then arm a timer for every enabled job
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    for (const job of this.jobs.values()) {
+      await this.activate(job);
+    }
+  }
+
+  /**
+   * Disarm all timers and wait for running jobs to settle
+   */
+  async stop(): Promise<void> {
+    this.started = false;
+    for (const job of this.jobs.values()) {
+      if (job.timer) {
+        clearTimeout(job.timer);
+        job.timer = null;
+      }
+    }
+    await Promise.allSettled([...this.inFlight]);
+  }
+
+  /**
+   * Run a job immediately, outside its schedule
+   */
+  async triggerJob(name: string): Promise<CronJobOutcome> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new SentinelError(ErrorCode.NOT_FOUND, `Job "${name}" is not registered`);
+    }
+    return this.track(this.execute(job, new Date()));
+  }
+
+  async setEnabled(name: string, enabled: boolean): Promise<void> {
+    await this.db.run('UPDATE scheduled_jobs SET enabled = ?, updated_at = ? WHERE name = ?', [
+      enabled ? 1 : 0,
+      new Date().toISOString(),
+      name,
+    ]);
+    const job = this.jobs.get(name);
+    if (job?.timer) {
+      clearTimeout(job.timer);
+      job.timer = null;
+    }
+    if (enabled && job && this.started) {
+      await this.arm(job, job.cron.next());
+    }
+  }
+
+  async getJobs(): Promise<ScheduledJob[]> {
+    const rows = await this.db.all<ScheduledJobRow[]>(
+      'SELECT * FROM scheduled_jobs ORDER BY name ASC'
+    );
+    return rows.map((row) => this.mapRowToScheduledJob(row));
+  }
+
+  private async activate(job: RegisteredJob): Promise<void> {
+    const row = await this.findRow(job.name);
+    if (!row || row.enabled === 0) {
+      return;
+    }
+
+    const now = new Date();
+    const storedNext = row.next_run !== null ? new Date(row.next_run) : null;
+    if (storedNext && storedNext.getTime() <= now.getTime()) {
+      await this.handleMisfires(job, storedNext, now);
+    }
+
+    if (this.started) {
+      await this.arm(job, job.cron.next(new Date()));
+    }
+  }
+
+  /**
+   * Fire times from the persisted next_run up to now were missed while the process was down
+   */
+  private async handleMisfires(job: RegisteredJob, firstMissed: Date, now: Date): Promise<void> {
+    const missed = [firstMissed, ...job.cron.between(firstMissed, now)];
+
+    if (this.config.misfirePolicy === 'skip' || this.config.maxCatchUpRuns <= 0) {
+      log.warn(`${job.name}: skipping missed runs`, { missed: missed.length });
+      return;
+    }
+
+    // Replay the most recent misfires; older ones are coalesced away
+    const replay = missed.slice(-this.config.maxCatchUpRuns);
+    log.warn(`${job.name}: catching up missed runs`, {
+      replayed: replay.length,
+      missed: missed.length,
+    });
+    for (const scheduledAt of replay) {
+      await this.track(this.execute(job, scheduledAt));
+    }
+  }
+
+  private async arm(job: RegisteredJob, fireAt: Date): Promise<void> {
+    await this.db.run('UPDATE scheduled_jobs SET next_run = ?, updated_at = ? WHERE id = ?', [
+      fireAt.toISOString(),
+      new Date().toISOString(),
+      job.id,
+    ]);
+
+    const delay = Math.max(fireAt.getTime() - Date.now(), 0);
+    job.timer = setTimeout(
+      () => {
+        job.timer = null;
+        if (delay > MAX_TIMER_DELAY_MS) {
+          void this.arm(job, fireAt);
+          return;
+        }
+        void this.track(this.execute(job, fireAt)).then(() =>
+          this.started ? this.arm(job, job.cron.next(new Date())) : undefined
+        );
+      },
+      Math.min(delay, MAX_TIMER_DELAY_MS)
+    );
+  }
+
+  private track(execution: Promise<CronJobOutcome>): Promise<CronJobOutcome> {
+    this.inFlight.add(execution);
+    void execution.finally(() => this.inFlight.delete(execution));
+    return execution;
+  }
+
+  private async execute(job: RegisteredJob, scheduledAt: Date): Promise<CronJobOutcome> {
+    if (this.activeCount >= this.config.maxConcurrentJobs) {
+      log.warn(`${job.name}: skipped run, too many jobs already running`, {
+        scheduledAt: scheduledAt.toISOString(),
+        activeJobs: this.activeCount,
+        maxConcurrentJobs: this.config.maxConcurrentJobs,
+      });
+      return { jobName: job.name, scheduledAt, status: 'skipped', attempts: 0 };
+    }
+
+    this.activeCount++;
+    const startedAt = new Date();
+    let attempts = 0;
+    let lastError: string | undefined;
+
+    try {
+      while (attempts < this.config.retry.maxAttempts) {
+        attempts++;
+        try {
+          await this.runAttempt(job, scheduledAt, attempts);
+          lastError = undefined;
+          break;
+        } catch (error) {
+          lastError = error instanceof Error ? error.message : 'Unknown error';
+          // Retrying would overlap the handler that is still running
+          if (isStalled(error)) {
+            break;
+          }
+          if (attempts < this.config.retry.maxAttempts) {
+            await sleep(this.calculateDelay(attempts));
+          }
+        }
+      }
+    } finally {
+      this.activeCount--;
+    }
+
+    const failed = lastError !== undefined;
+    await this.db.run(
+      `UPDATE scheduled_jobs SET
+        last_run = ?,
+        run_count = run_count + 1,
+        failure_count = failure_count + ?,
+        updated_at = ?
+      WHERE id = ?`,
+      [startedAt.toISOString(), failed ? 1 : 0, new Date().toISOString(), job.id]
+    );
+
+    return {
+      jobName: job.name,
+      scheduledAt,
+      status: failed ? 'failed' : 'completed',
+      attempts,
+      ...(lastError !== undefined ? { error: lastError } : {}),
+    };
+  }
+
+  /**
+   * One handler call bounded by jobTimeout; the handler's signal is aborted on timeout.
+   * A timed-out attempt fails once its handler has settled, so a retry never overlaps it.
+   * A handler that ignores the abort for abortGracePeriod fails the run as stalled instead.
+   */
+  private async runAttempt(job: RegisteredJob, scheduledAt: Date, attempt: number): Promise<void> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        // Settle the race before abort listeners get a chance to resolve the handler
+        reject(
+          new SentinelError(
+            ErrorCode.UNKNOWN,
+            `Job "${job.name}" timed out after ${this.config.jobTimeout}ms`,
+            { retryable: true }
+          )
+        );
+        controller.abort();
+      }, this.config.jobTimeout);
+    });
+
+    const execution = job.handler({
+      jobId: job.id,
+      jobName: job.name,
+      scheduledAt,
+      attempt,
+      maxAttempts: this.config.retry.maxAttempts,
+      signal: controller.signal,
+    });
+
+    try {
+      await Promise.race([execution, timeout]);
+    } catch (error) {
+      if (
+        controller.signal.aborted &&
+        !(await settlesWithin(execution, this.config.abortGracePeriod))
+      ) {
+        log.warn(`${job.name}: handler ignored its abort; releasing its slot`, {
+          abortGracePeriod: this.config.abortGracePeriod,
+        });
+        throw new SentinelError(
+          ErrorCode.UNKNOWN,
+          `Job "${job.name}" timed out after ${this.config.jobTimeout}ms and did not stop ` +
+            `within ${this.config.abortGracePeriod}ms of being aborted`,
+          { details: { stalled: true } }
+        );
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private calculateDelay(attempt: number): number {
+    const { initialDelay, backoffMultiplier, maxDelay } = this.config.retry;
+    return Math.min(initialDelay * Math.pow(backoffMultiplier, attempt - 1), maxDelay);
+  }
+
+  private findRow(name: string): Promise<ScheduledJobRow | undefined> {
+    return this.db.get<ScheduledJobRow>('SELECT * FROM scheduled_jobs WHERE name = ?', [name]);
+  }
+
+  private mapRowToScheduledJob(row: ScheduledJobRow): ScheduledJob {
+    return {
+      id: row.id,
+      name: row.name,
+      cronExpression: row.cron_expression,
+      enabled: row.enabled === 1,
+      lastRun: row.last_run !== null ? new Date(row.last_run) : null,
+      nextRun: row.next_run !== null ? new Date(row.next_run) : null,
+      runCount: row.run_count,
+      failureCount: row.failure_count,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * True once `promise` settles, false if it is still pending after `ms`
+ */
+async function settlesWithin(promise: Promise<unknown>, ms: number): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const expired = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), ms);
+  });
+  try {
+    return await Promise.race([
+      promise.then(
+        () => true,
+        () => true
+      ),
+      expired,
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function isStalled(error: unknown): boolean {
+  return error instanceof SentinelError && error.details['stalled'] === true;
+}
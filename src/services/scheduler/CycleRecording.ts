@@ -0,0 +1,261 @@
+/**
+ * Recording and playback of the market data an agent cycle consumed,
+ * so past runs can be re-executed deterministically
+ */
+
+import {
+  KaikoDataType,
+  KaikoOrderBookResponse,
+  KaikoResponse,
+  KaikoSpotPriceResponse,
+} from '../../types/kaiko';
+import { AgentCycleInputs, RecordedKaikoRequest } from '../../types/scheduler';
+import { ErrorCode, SentinelError } from '../../utils/errors';
+import { KaikoGateway } from '../kaiko/KaikoGateway';
+
+/**
+ * Kaiko calls a cycle makes; the live KaikoGateway or recorded responses during replay
+ */
+export interface MarketDataSource {
+  fetchOrderBook(
+    instrument: string,
+    exchange?: string
+  ): Promise<KaikoResponse<KaikoOrderBookResponse>>;
+  fetchSpotPrice(
+    instrument: string,
+    exchange?: string
+  ): Promise<KaikoResponse<KaikoSpotPriceResponse>>;
+  /** Cumulative USDC spent on market data */
+  getSpentUsdc(): number;
+  /** Clock order book ages are measured against; a replay answers with the recorded one */
+  now(): number;
+}
+
+/**
+ * Passes calls through to the gateway and keeps every response for the run record
+ */
+export class RecordingMarketData implements MarketDataSource {
+  readonly requests: RecordedKaikoRequest[] = [];
+
+  constructor(private gateway: KaikoGateway) {}
+
+  async fetchOrderBook(
+    instrument: string,
+    exchange?: string
+  ): Promise<KaikoResponse<KaikoOrderBookResponse>> {
+    const response = await this.gateway.fetchOrderBook(instrument, exchange);
+    this.record('order_book', instrument, exchange, response);
+    return response;
+  }
+
+  async fetchSpotPrice(
+    instrument: string,
+    exchange?: string
+  ): Promise<KaikoResponse<KaikoSpotPriceResponse>> {
+    const response = await this.gateway.fetchSpotPrice(instrument, exchange);
+    this.record('spot_price', instrument, exchange, response);
+    return response;
+  }
+
+  getSpentUsdc(): number {
+    return this.gateway.getBudgetStatus().spentUsdc;
+  }
+
+  now(): number {
+    return Date.now();
+  }
+
+  private record(
+    dataType: KaikoDataType,
+    instrument: string,
+    exchange: string | undefined,
+    response: KaikoResponse<unknown>
+  ): void {
+    this.requests.push({
+      dataType,
+      instrument,
+      ...(exchange !== undefined ? { exchange } : {}),
+      response,
+      receivedAt: Date.now(),
+    });
+  }
+}
+
+/**
+ * Serves recorded responses in the order they were requested, charging their recorded
+ * cost against a simulated budget. Requests the original run never made get an error,
+ * so a replay never reaches the paid API.
+ */
+export class RecordedMarketData implements MarketDataSource {
+  private queues = new Map<string, RecordedKaikoRequest[]>();
+  private spentUsdc: number;
+  private unrecorded = 0;
+  private budgetBlocked = false;
+  private lastReceivedAt: number | undefined;
+
+  constructor(
+    requests: RecordedKaikoRequest[],
+    spentUsdc: number,
+    private budgetLimitUsdc: number
+  ) {
+    this.spentUsdc = spentUsdc;
+    for (const request of requests) {
+      const key = requestKey(request.dataType, request.instrument, request.exchange);
+      this.queues.set(key, [...(this.queues.get(key) ?? []), request]);
+    }
+  }
+
+  fetchOrderBook(
+    instrument: string,
+    exchange?: string
+  ): Promise<KaikoResponse<KaikoOrderBookResponse>> {
+    return Promise.resolve(
+      this.serve('order_book', instrument, exchange) as KaikoResponse<KaikoOrderBookResponse>
+    );
+  }
+
+  fetchSpotPrice(
+    instrument: string,
+    exchange?: string
+  ): Promise<KaikoResponse<KaikoSpotPriceResponse>> {
+    return Promise.resolve(
+      this.serve('spot_price', instrument, exchange) as KaikoResponse<KaikoSpotPriceResponse>
+    );
+  }
+
+  getSpentUsdc(): number {
+    return this.spentUsdc;
+  }
+
+  /**
+   * When the latest response served so far arrived in the recorded run
+   */
+  now(): number {
+    return this.lastReceivedAt ?? Date.now();
+  }
+
+  /**
+   * Requests the recorded run never made, so no response or cost is known for them
+   */
+  getUnrecordedCount(): number {
+    return this.unrecorded;
+  }
+
+  /**
+   * Whether a recorded response was refused because it would have overrun the budget
+   */
+  isBudgetBlocked(): boolean {
+    return this.budgetBlocked;
+  }
+
+  private serve(
+    dataType: KaikoDataType,
+    instrument: string,
+    exchange: string | undefined
+  ): KaikoResponse<unknown> {
+    const recorded = this.queues.get(requestKey(dataType, instrument, exchange))?.shift();
+    if (!recorded) {
+      this.unrecorded++;
+      return { success: false, error: `No recorded ${dataType} response for ${instrument}` };
+    }
+
+    const { response } = recorded;
+    const receivedAt = receivedAtOf(recorded);
+    if (receivedAt !== undefined) {
+      this.lastReceivedAt = Math.max(this.lastReceivedAt ?? receivedAt, receivedAt);
+    }
+    if (response.success) {
+      if (this.spentUsdc + response.cost > this.budgetLimitUsdc) {
+        this.budgetBlocked = true;
+        return {
+          success: false,
+          error: `Budget blocked - ${this.budgetLimitUsdc} USDC limit reached`,
+          budgetBlocked: true,
+        };
+      }
+      this.spentUsdc += response.cost;
+    }
+    return response;
+  }
+}
+
+/**
+ * JSON for the agent_run_inputs table; bigint balances are stored as decimal strings
+ */
+export function serializeCycleInputs(inputs: AgentCycleInputs): string {
+  return JSON.stringify(inputs, (_key, value: unknown) =>
+    typeof value === 'bigint' ? value.toString() : value
+  );
+}
+
+export function parseCycleInputs(json: string): AgentCycleInputs {
+  let inputs: AgentCycleInputs;
+  try {
+    inputs = JSON.parse(json) as AgentCycleInputs;
+  } catch (error) {
+    throw new SentinelError(ErrorCode.DATABASE_ERROR, 'Recorded cycle inputs are not valid JSON', {
+      ...(error instanceof Error ? { cause: error } : {}),
+    });
+  }
+
+  return {
+    ...inputs,
+    snapshots: inputs.snapshots.map((snapshot) => ({
+      ...snapshot,
+      balances: snapshot.balances.map((balance) => ({
+        ...balance,
+        balance: BigInt(balance.balance as unknown as string),
+        ...(balance.position
+          ? {
+              position: {
+                ...balance.position,
+                underlying: balance.position.underlying.map((asset) => ({
+                  ...asset,
+                  amount: BigInt(asset.amount as unknown as string),
+                  withdrawableAmount: BigInt(asset.withdrawableAmount as unknown as string),
+                })),
+              },
+            }
+          : {}),
+      })),
+    })),
+    kaikoRequests: inputs.kaikoRequests.map((request) => ({
+      ...request,
+      response: request.response.success
+        ? {
+            ...request.response,
+            data: reviveTimestamp(request.response.data),
+          }
+        : request.response,
+    })),
+  };
+}
+
+function reviveTimestamp(data: unknown): unknown {
+  if (typeof data === 'object' && data !== null && 'timestamp' in data) {
+    return { ...data, timestamp: new Date(data.timestamp as string) };
+  }
+  return data;
+}
+
+/**
+ * When a recorded response arrived; for runs recorded before arrival times were kept, the
+ * timestamp of its data
+ */
+function receivedAtOf(recorded: RecordedKaikoRequest): number | undefined {
+  if (recorded.receivedAt !== undefined) {
+    return recorded.receivedAt;
+  }
+  const { response } = recorded;
+  return response.success &&
+    typeof response.data === 'object' &&
+    response.data !== null &&
+    'timestamp' in response.data &&
+    response.data.timestamp instanceof Date
+    ? response.data.timestamp.getTime()
+    : undefined;
+}
+
+function requestKey(dataType: KaikoDataType, instrument: string, exchange?: string): string {
+  return `${dataType}:${instrument}:${exchange ?? ''}`;
+}
@@ -0,0 +1,84 @@
+import { SentinelError } from '../../../utils/errors';
+import { CronExpression } from '../CronExpression';
+
+const iso = (dates: Date[]): string[] => dates.map((date) => date.toISOString());
+
+describe('CronExpression', () => {
+  it('fires on either day field when both are restricted', () => {
+    // The 13th or any Friday
+    const cron = new CronExpression('0 0 13 * FRI');
+
+    expect(
+      iso(cron.between(new Date('2024-10-05T00:00:00Z'), new Date('2024-10-19T00:00:00Z')))
+    ).toEqual(['2024-10-11T00:00:00.000Z', '2024-10-13T00:00:00.000Z', '2024-10-18T00:00:00.000Z']);
+  });
+
+  it('requires the restricted day field when the other is a wildcard', () => {
+    expect(new CronExpression('0 0 13 * *').next(new Date('2024-10-05T00:00:00Z'))).toEqual(
+      new Date('2024-10-13T00:00:00Z')
+    );
+    expect(new CronExpression('0 0 * * 5').next(new Date('2024-10-05T00:00:00Z'))).toEqual(
+      new Date('2024-10-11T00:00:00Z')
+    );
+  });
+
+  it('folds day-of-week 7 into Sunday and reads ranges, steps and aliases', () => {
+    expect(new CronExpression('0 0 * * 7').next(new Date('2024-10-05T00:00:00Z'))).toEqual(
+      new Date('2024-10-06T00:00:00Z')
+    );
+    expect(
+      iso(
+        new CronExpression('5/20 9-10 * JAN-MAR MON-FRI').between(
+          new Date('2024-01-01T09:00:00Z'),
+          new Date('2024-01-01T10:00:00Z')
+        )
+      )
+    ).toEqual(['2024-01-01T09:05:00.000Z', '2024-01-01T09:25:00.000Z', '2024-01-01T09:45:00.000Z']);
+  });
+
+  it('expands macros', () => {
+    const after = new Date('2024-05-15T10:30:00Z');
+
+    expect(new CronExpression('@hourly').next(after)).toEqual(new Date('2024-05-15T11:00:00Z'));
+    expect(new CronExpression('@daily').next(after)).toEqual(new Date('2024-05-16T00:00:00Z'));
+    expect(new CronExpression('@weekly').next(after)).toEqual(new Date('2024-05-19T00:00:00Z'));
+    expect(new CronExpression('@monthly').next(after)).toEqual(new Date('2024-06-01T00:00:00Z'));
+    expect(new CronExpression('@yearly').next(after)).toEqual(new Date('2025-01-01T00:00:00Z'));
+  });
+
+  it('evaluates the expression on the wall clock of its timezone', () => {
+    expect(
+      new CronExpression('0 9 * * *', 'Asia/Tokyo').next(new Date('2024-05-15T00:00:00Z'))
+    ).toEqual(new Date('2024-05-16T00:00:00Z'));
+  });
+
+  it('skips wall times that do not exist when clocks spring forward', () => {
+    // 02:30 does not happen in New York on 2024-03-10
+    const cron = new CronExpression('30 2 * * *', 'America/New_York');
+
+    expect(cron.next(new Date('2024-03-09T08:00:00Z'))).toEqual(new Date('2024-03-11T06:30:00Z'));
+  });
+
+  it('fires on both occurrences of a wall time repeated when clocks fall back', () => {
+    // 01:30 happens twice in New York on 2024-11-03, first in EDT then in EST
+    const cron = new CronExpression('30 1 * * *', 'America/New_York');
+
+    expect(
+      iso(cron.between(new Date('2024-11-03T00:00:00Z'), new Date('2024-11-04T12:00:00Z')))
+    ).toEqual(['2024-11-03T05:30:00.000Z', '2024-11-03T06:30:00.000Z', '2024-11-04T06:30:00.000Z']);
+  });
+
+  it.each([
+    ['* * * *', 'expected 5 fields'],
+    ['60 * * * *', 'outside minute'],
+    ['*/0 * * * *', 'bad step'],
+    ['0 0 * * FRI-MON', 'reversed'],
+  ])('rejects %s', (expression, reason) => {
+    expect(() => new CronExpression(expression)).toThrow(reason);
+  });
+
+  it('rejects unknown timezones and expressions that never fire', () => {
+    expect(() => new CronExpression('* * * * *', 'Mars/Olympus')).toThrow(SentinelError);
+    expect(() => new CronExpression('0 0 31 2 *').next()).toThrow('no fire time found');
+  });
+});
@@ -0,0 +1,118 @@
+import { SchedulerConfig } from '../../../config/scheduler';
+import { DatabaseManager } from '../../../db/DatabaseManager';
+import { CronJobContext, CronJobHandler, CronScheduler } from '../CronScheduler';
+
+const JOB = 'agent-run';
+
+describe('CronScheduler', () => {
+  let db: DatabaseManager;
+  let warn: jest.SpyInstance;
+
+  beforeEach(async () => {
+    db = new DatabaseManager({ dbPath: ':memory:', walMode: false });
+    await db.initialize();
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    warn.mockRestore();
+    await db.close();
+  });
+
+  const schedulerWith = async (
+    handler: CronJobHandler,
+    config: Partial<SchedulerConfig> = {}
+  ): Promise<CronScheduler> => {
+    const scheduler = new CronScheduler(db, {
+      cronExpression: '0 0 1 1 *',
+      jobTimeout: 1000,
+      abortGracePeriod: 1000,
+      ...config,
+      retry: { maxAttempts: 3, initialDelay: 1, backoffMultiplier: 2, maxDelay: 10 },
+    });
+    await scheduler.initialize();
+    await scheduler.addJob({ name: JOB, handler });
+    return scheduler;
+  };
+
+  const untilAborted = ({ signal }: CronJobContext): Promise<never> =>
+    new Promise((_, reject) =>
+      signal.addEventListener('abort', () => reject(new Error('aborted')))
+    );
+
+  it('retries a failing handler with backoff until it succeeds', async () => {
+    const attempts: number[] = [];
+    const scheduler = await schedulerWith(({ attempt }) => {
+      attempts.push(attempt);
+      return attempt < 3 ? Promise.reject(new Error('flaky')) : Promise.resolve();
+    });
+
+    const outcome = await scheduler.triggerJob(JOB);
+
+    expect(outcome).toMatchObject({ status: 'completed', attempts: 3 });
+    expect(attempts).toEqual([1, 2, 3]);
+    expect(await scheduler.getJobs()).toMatchObject([{ runCount: 1, failureCount: 0 }]);
+  });
+
+  it('fails the run once every attempt has failed', async () => {
+    const scheduler = await schedulerWith(() => Promise.reject(new Error('down')));
+
+    const outcome = await scheduler.triggerJob(JOB);
+
+    expect(outcome).toMatchObject({ status: 'failed', attempts: 3, error: 'down' });
+    expect(await scheduler.getJobs()).toMatchObject([{ runCount: 1, failureCount: 1 }]);
+  });
+
+  it('aborts attempts that exceed jobTimeout and retries them', async () => {
+    const signals: AbortSignal[] = [];
+    const scheduler = await schedulerWith(
+      (context) => {
+        signals.push(context.signal);
+        return untilAborted(context);
+      },
+      { jobTimeout: 10 }
+    );
+
+    const outcome = await scheduler.triggerJob(JOB);
+
+    expect(outcome).toMatchObject({ status: 'failed', attempts: 3 });
+    expect(outcome.error).toContain('timed out after 10ms');
+    expect(signals.map((signal) => signal.aborted)).toEqual([true, true, true]);
+  });
+
+  it('releases the slot of a handler that ignores the abort, without retrying it', async () => {
+    let calls = 0;
+    const scheduler = await schedulerWith(
+      () => {
+        calls++;
+        return calls === 1 ? new Promise<never>(() => undefined) : Promise.resolve();
+      },
+      { jobTimeout: 10, abortGracePeriod: 10, maxConcurrentJobs: 1 }
+    );
+
+    const stalled = await scheduler.triggerJob(JOB);
+
+    expect(stalled).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(stalled.error).toContain('did not stop within 10ms');
+    expect(await scheduler.triggerJob(JOB)).toMatchObject({ status: 'completed', attempts: 1 });
+    expect(await scheduler.getJobs()).toMatchObject([{ runCount: 2, failureCount: 1 }]);
+  });
+
+  it('skips a run while maxConcurrentJobs are already running', async () => {
+    let release: () => void = () => undefined;
+    const scheduler = await schedulerWith(
+      () =>
+        new Promise<void>((resolve) => {
+          release = resolve;
+        }),
+      { maxConcurrentJobs: 1 }
+    );
+
+    const running = scheduler.triggerJob(JOB);
+    const skipped = await scheduler.triggerJob(JOB);
+    release();
+
+    expect(skipped).toMatchObject({ status: 'skipped', attempts: 0 });
+    expect(await running).toMatchObject({ status: 'completed' });
+  });
+});
@@ -2,5 +2,21 @@
  * Scheduler service exports
  */
 
-export { AgentRunner } from './AgentRunner';
+export { AgentRunner, AGENT_JOB_NAME } from './AgentRunner';
+export { AgentCycle, DEFAULT_AGENT_CYCLE_CONFIG } from './AgentCycle';
+export type {
+  AgentCycleConfig,
+  AgentCycleDecision,
+  AgentCycleDependencies,
+  AgentCycleReplayOptions,
+  AgentCycleResult,
+  BlockedEscalation,
+  ReplayContext,
+} from './AgentCycle';
+export { BudgetSimulator, budgetRange } from './BudgetSimulator';
+export { CronExpression, validateTimezone } from './CronExpression';
+export { CronScheduler } from './CronScheduler';
+export { RecordedMarketData, RecordingMarketData } from './CycleRecording';
+export type { MarketDataSource } from './CycleRecording';
+export type { CronJobContext, CronJobHandler, CronJobOptions, CronJobOutcome } from './CronScheduler';
 export * from '../../types/scheduler';
@@ -1,36 +1,90 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import { ChainConfig, getChainConfig } from '../../config/chains';
+import { BlockFinality } from '../../types/treasury';
+import { wrapError } from '../../utils/errors';
+import { createLogger } from '../../utils/logger';
+import { fetchFinalityHeads, finalityOf, meetsFinality } from '../rpc/Finality';
+import { RpcPool } from '../rpc/RpcPool';
+
 import {
   SettlementConfig,
   SettlementVerification,
   PendingSettlement,
+  PendingSettlementOptions,
   SettlementResult,
-  SettlementStatus,
   TransferEvent,
   DEFAULT_SETTLEMENT_CONFIG,
   BASE_CHAIN_ID,
+  MIN_SETTLEMENT_TIMEOUT_MS,
 } from './types';
-import { v4 as uuidv4 } from 'uuid';
+
+const log = createLogger('SettlementVerifier');
 
 // USDC Transfer event signature
 const TRANSFER_EVENT_SIGNATURE = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
 
+/**
+ * How long a transfer takes to reach `requiredFinality` with `confirmationBlocks` on top,
+ * from the chain's finality depths and block time. Doubled because L2 batches are posted
+ * irregularly, and never under MIN_SETTLEMENT_TIMEOUT_MS.
+ */
+export function settlementTimeoutMs(
+  requiredFinality: BlockFinality = DEFAULT_SETTLEMENT_CONFIG.requiredFinality ?? 'safe',
+  confirmationBlocks: number = DEFAULT_SETTLEMENT_CONFIG.confirmationBlocks ?? 0,
+  chain: Pick<ChainConfig, 'avgBlockTime' | 'finality'> = getChainConfig(BASE_CHAIN_ID)
+): number {
+  const depth =
+    requiredFinality === 'finalized'
+      ? chain.finality.finalizedDepth
+      : requiredFinality === 'safe'
+        ? chain.finality.safeDepth
+        : 0;
+  return Math.max(
+    (depth + confirmationBlocks) * chain.avgBlockTime * 1000 * 2,
+    MIN_SETTLEMENT_TIMEOUT_MS
+  );
+}
+
 export class SettlementVerifier {
   private config: SettlementConfig;
   private pendingSettlements: Map<string, PendingSettlement> = new Map();
   private verifiedTransactions: Set<string> = new Set();
 
-  constructor(config: Partial<SettlementConfig> & { baseRpcUrl: string; receiverAddress: string }) {
-    this.config = {
+  private rpc: RpcPool;
+
+  constructor(
+    config: Partial<SettlementConfig> & { baseRpcUrl: string; receiverAddress: string },
+    rpcPool?: RpcPool
+  ) {
+    const chain = getChainConfig(BASE_CHAIN_ID);
+    const merged = {
+      finality: chain.finality,
       ...DEFAULT_SETTLEMENT_CONFIG,
       ...config,
     } as SettlementConfig;
+    const timeoutMs =
+      config.timeoutMs ??
+      settlementTimeoutMs(merged.requiredFinality, merged.confirmationBlocks, {
+        avgBlockTime: chain.avgBlockTime,
+        finality: merged.finality,
+      });
+    this.config = {
+      ...merged,
+      timeoutMs,
+      scanWindowBlocks:
+        config.scanWindowBlocks ?? Math.ceil(timeoutMs / (chain.avgBlockTime * 1000)),
+    };
+    this.rpc = rpcPool ?? RpcPool.fromUrl('base', this.config.baseRpcUrl);
   }
 
-  async createPendingSettlement(
+  createPendingSettlement(
     expectedAmount: bigint,
     expectedSender: string,
     paymentId: string,
-    timeoutMs?: number
-  ): Promise<PendingSettlement> {
+    timeoutMs?: number,
+    options: PendingSettlementOptions = {}
+  ): PendingSettlement {
     const id = uuidv4();
     const now = Date.now();
     const timeout = timeoutMs ?? this.config.timeoutMs;
@@ -43,13 +97,23 @@ export class SettlementVerifier {
       createdAt: now,
       expiresAt: now + timeout,
       status: 'PENDING',
+      receiverAddress: (options.receiverAddress ?? this.config.receiverAddress).toLowerCase(),
+      requiredFinality: options.requiredFinality ?? this.config.requiredFinality,
     };
 
     this.pendingSettlements.set(id, pending);
     return pending;
   }
 
-  async verifyTransaction(transactionHash: string): Promise<SettlementVerification> {
+  /**
+   * Check a transaction's USDC transfer to `receiverAddress` against its confirmations and
+   * finality; the receiver and finality default to the verifier's own
+   */
+  async verifyTransaction(
+    transactionHash: string,
+    receiverAddress: string = this.config.receiverAddress,
+    requiredFinality: BlockFinality = this.config.requiredFinality
+  ): Promise<SettlementVerification> {
     try {
       // Get transaction receipt
       const receipt = await this.getTransactionReceipt(transactionHash);
@@ -62,17 +126,21 @@ export class SettlementVerifier {
           sender: '',
           blockNumber: 0,
           confirmations: 0,
+          finality: 'latest',
           timestamp: Date.now(),
           error: 'Transaction not found',
         };
       }
 
+      const blockNumber = parseInt(receipt.blockNumber, 16);
+      const blockHash = receipt.blockHash.toLowerCase();
+
       // Parse transfer events
       const transfers = this.parseTransferEvents(receipt.logs);
       
       // Find USDC transfer to our receiver
       const relevantTransfer = transfers.find(
-        t => t.to.toLowerCase() === this.config.receiverAddress.toLowerCase()
+        t => t.to.toLowerCase() === receiverAddress.toLowerCase()
       );
 
       if (!relevantTransfer) {
@@ -81,26 +149,33 @@ export class SettlementVerifier {
           verified: false,
           amount: BigInt(0),
           sender: '',
-          blockNumber: receipt.blockNumber,
+          blockNumber,
+          blockHash,
           confirmations: 0,
+          finality: 'latest',
           timestamp: Date.now(),
           error: 'No USDC transfer to receiver found',
         };
       }
 
-      // Get current block for confirmations
-      const currentBlock = await this.getCurrentBlockNumber();
-      const confirmations = currentBlock - receipt.blockNumber;
+      // Confirmations alone do not cover an L2 block whose batch never reaches L1
+      const heads = await fetchFinalityHeads(this.rpc, this.config.finality);
+      const confirmations = heads.latest - blockNumber;
+      const finality = finalityOf(blockNumber, heads);
 
-      const verified = confirmations >= this.config.confirmationBlocks;
+      const verified =
+        confirmations >= this.config.confirmationBlocks &&
+        meetsFinality(finality, requiredFinality);
 
       return {
         transactionHash,
         verified,
         amount: relevantTransfer.amount,
         sender: relevantTransfer.from,
-        blockNumber: receipt.blockNumber,
+        blockNumber,
+        blockHash,
         confirmations,
+        finality,
         timestamp: Date.now(),
       };
     } catch (error) {
@@ -111,6 +186,7 @@ export class SettlementVerifier {
         sender: '',
         blockNumber: 0,
         confirmations: 0,
+        finality: 'latest',
         timestamp: Date.now(),
         error: error instanceof Error ? error.message : 'Verification failed',
       };
@@ -143,6 +219,19 @@ export class SettlementVerifier {
       };
     }
 
+    return this.verifySettlement(pending, transactionHash);
+  }
+
+  /**
+   * Verify a settlement against a transaction regardless of its expiry, which only bounds
+   * how long a payer waits; a recheck can run long after it
+   */
+  private async verifySettlement(
+    pending: PendingSettlement,
+    transactionHash: string
+  ): Promise<SettlementResult> {
+    const settlementId = pending.id;
+
     // Check if transaction already used
     if (this.verifiedTransactions.has(transactionHash)) {
       return {
@@ -153,9 +242,13 @@ export class SettlementVerifier {
       };
     }
 
-    pending.status = 'DETECTING';
+    pending.status = 'DETECTED';
     
-    const verification = await this.verifyTransaction(transactionHash);
+    const verification = await this.verifyTransaction(
+      transactionHash,
+      pending.receiverAddress,
+      pending.requiredFinality
+    );
 
     if (!verification.verified) {
       if (verification.confirmations > 0) {
@@ -226,21 +319,15 @@ export class SettlementVerifier {
     }
 
     while (Date.now() < pending.expiresAt) {
-      // Query recent transfer events
-      const transfers = await this.queryRecentTransfers();
-      
-      // Find matching transfer
-      const matchingTransfer = transfers.find(
-        t =>
-          t.to.toLowerCase() === this.config.receiverAddress.toLowerCase() &&
-          t.amount >= pending.expectedAmount &&
-          (!pending.expectedSender ||
-            t.from.toLowerCase() === pending.expectedSender.toLowerCase()) &&
-          !this.verifiedTransactions.has(t.transactionHash)
-      );
-
-      if (matchingTransfer) {
-        return this.verifyPendingSettlement(settlementId, matchingTransfer.transactionHash);
+      // A known transaction is checked through its receipt, however far back it landed
+      const transactionHash = pending.transactionHash ?? (await this.findMatchingTransfer(pending));
+
+      if (transactionHash !== undefined) {
+        const result = await this.verifyPendingSettlement(settlementId, transactionHash);
+        // A detected transfer keeps polling until it has enough confirmations
+        if (result.success || result.status === 'FAILED' || result.status === 'EXPIRED') {
+          return result;
+        }
       }
 
       // Wait before next poll
@@ -256,10 +343,97 @@ export class SettlementVerifier {
     };
   }
 
+  /**
+   * Recheck settlements whose block was not finalized when they were verified. One whose
+   * transaction left the canonical chain or moved to another block is verified again, as is
+   * a settlement still waiting on a known transaction, even past its expiry. Returns the
+   * results of those verifications; verified settlements only have their finality brought up
+   * to date, and are dropped from tracking once finalized.
+   */
+  async recheckSettlements(): Promise<SettlementResult[]> {
+    const results: SettlementResult[] = [];
+
+    for (const pending of this.pendingSettlements.values()) {
+      const verification = pending.verification;
+
+      if (pending.status === 'VERIFIED' && verification) {
+        if (verification.finality === 'finalized') {
+          this.pendingSettlements.delete(pending.id);
+          continue;
+        }
+        try {
+          const receipt = await this.getTransactionReceipt(verification.transactionHash);
+          if (receipt !== null && receipt.blockHash.toLowerCase() === verification.blockHash) {
+            const heads = await fetchFinalityHeads(this.rpc, this.config.finality);
+            pending.verification = {
+              ...verification,
+              confirmations: heads.latest - verification.blockNumber,
+              finality: finalityOf(verification.blockNumber, heads),
+            };
+            continue;
+          }
+        } catch (error) {
+          log.warn(
+            `Recheck of ${verification.transactionHash} failed`,
+            undefined,
+            wrapError(error)
+          );
+          continue;
+        }
+
+        log.warn(`Settlement ${pending.id} was reorged out`, {
+          blockNumber: verification.blockNumber,
+        });
+        this.verifiedTransactions.delete(verification.transactionHash);
+        delete pending.verification;
+        pending.status = 'CONFIRMING';
+        pending.transactionHash = verification.transactionHash;
+        results.push({
+          ...(await this.verifySettlement(pending, verification.transactionHash)),
+          reorged: true,
+        });
+      } else if (
+        (pending.status === 'DETECTED' ||
+          pending.status === 'CONFIRMING' ||
+          pending.status === 'EXPIRED') &&
+        pending.transactionHash !== undefined
+      ) {
+        results.push(await this.verifySettlement(pending, pending.transactionHash));
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Pin a pending settlement to a known transaction, e.g. one we broadcast ourselves,
+   * so polling ignores other transfers of the same amount
+   */
+  attachTransaction(settlementId: string, transactionHash: string): boolean {
+    const pending = this.pendingSettlements.get(settlementId);
+    if (!pending) {
+      return false;
+    }
+    pending.transactionHash = transactionHash;
+    return true;
+  }
+
   getPendingSettlement(settlementId: string): PendingSettlement | undefined {
     return this.pendingSettlements.get(settlementId);
   }
 
+  /**
+   * Settlement still tracked for a payment record, e.g. one kept for rechecks
+   */
+  getSettlementForPayment(paymentId: string): PendingSettlement | undefined {
+    for (const pending of this.pendingSettlements.values()) {
+      if (pending.paymentId === paymentId) {
+        return pending;
+      }
+    }
+    return undefined;
+  }
+
   cancelPendingSettlement(settlementId: string): boolean {
     return this.pendingSettlements.delete(settlementId);
   }
@@ -278,83 +452,71 @@ export class SettlementVerifier {
     return cleaned;
   }
 
-  private async getTransactionReceipt(hash: string): Promise<any> {
-    const response = await fetch(this.config.baseRpcUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        method: 'eth_getTransactionReceipt',
-        params: [hash],
-        id: 1,
-      }),
-    });
-
-    const data = await response.json();
-    return data.result;
+  /**
+   * Hash of an unclaimed recent transfer to the receiver that satisfies the settlement
+   */
+  private async findMatchingTransfer(pending: PendingSettlement): Promise<string | undefined> {
+    const transfers = await this.queryRecentTransfers(pending.receiverAddress);
+    return transfers.find(
+      t =>
+        t.to.toLowerCase() === pending.receiverAddress &&
+        t.amount >= pending.expectedAmount &&
+        (!pending.expectedSender || t.from.toLowerCase() === pending.expectedSender.toLowerCase()) &&
+        !this.verifiedTransactions.has(t.transactionHash)
+    )?.transactionHash;
+  }
+
+  private async getTransactionReceipt(hash: string): Promise<TransactionReceipt | null> {
+    return this.rpc.request<TransactionReceipt | null>('eth_getTransactionReceipt', [hash]);
   }
 
   private async getCurrentBlockNumber(): Promise<number> {
-    const response = await fetch(this.config.baseRpcUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        method: 'eth_blockNumber',
-        params: [],
-        id: 1,
-      }),
-    });
-
-    const data = await response.json();
-    return parseInt(data.result, 16);
+    const blockNumber = await this.rpc.request<string>('eth_blockNumber', []);
+    return parseInt(blockNumber, 16);
   }
 
-  private async queryRecentTransfers(): Promise<TransferEvent[]> {
-    const currentBlock = await this.getCurrentBlockNumber();
-    const fromBlock = currentBlock - 50; // Last ~50 blocks
-
-    const response = await fetch(this.config.baseRpcUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        method: 'eth_getLogs',
-        params: [
-          {
-            address: this.config.usdcContractAddress,
-            topics: [
-              TRANSFER_EVENT_SIGNATURE,
-              null,
-              this.padAddress(this.config.receiverAddress),
-            ],
-            fromBlock: '0x' + fromBlock.toString(16),
-            toBlock: 'latest',
-          },
-        ],
-        id: 1,
-      }),
-    });
-
-    const data = await response.json();
-    return this.parseTransferEvents(data.result ?? []);
+  private async queryRecentTransfers(receiverAddress: string): Promise<TransferEvent[]> {
+    try {
+      const currentBlock = await this.getCurrentBlockNumber();
+      const fromBlock = Math.max(currentBlock - this.config.scanWindowBlocks, 0);
+
+      const logs = await this.rpc.request<TransactionLog[]>('eth_getLogs', [
+        {
+          address: this.config.usdcContractAddress,
+          topics: [TRANSFER_EVENT_SIGNATURE, null, this.padAddress(receiverAddress)],
+          fromBlock: '0x' + fromBlock.toString(16),
+          toBlock: 'latest',
+        },
+      ]);
+      return this.parseTransferEvents(logs);
+    } catch {
+      // Every endpoint failed; the settlement poll tries again on its next interval
+      return [];
+    }
   }
 
-  private parseTransferEvents(logs: any[]): TransferEvent[] {
-    return logs
-      .filter(
-        (log: any) =>
-          log.address.toLowerCase() === this.config.usdcContractAddress.toLowerCase() &&
-          log.topics[0] === TRANSFER_EVENT_SIGNATURE
-      )
-      .map((log: any) => ({
+  private parseTransferEvents(logs: TransactionLog[]): TransferEvent[] {
+    const events: TransferEvent[] = [];
+    for (const log of logs) {
+      const [signature, from, to] = log.topics;
+      if (
+        log.address.toLowerCase() !== this.config.usdcContractAddress.toLowerCase() ||
+        signature !== TRANSFER_EVENT_SIGNATURE ||
+        from === undefined ||
+        to === undefined
+      ) {
+        continue;
+      }
+      events.push({
         transactionHash: log.transactionHash,
         blockNumber: parseInt(log.blockNumber, 16),
-        from: '0x' + log.topics[1].slice(26),
-        to: '0x' + log.topics[2].slice(26),
+        from: '0x' + from.slice(26),
+        to: '0x' + to.slice(26),
         amount: BigInt(log.data),
         timestamp: Date.now(),
-      }));
+      });
+    }
+    return events;
   }
 
   private padAddress(address: string): string {
@@ -365,3 +527,19 @@ export class SettlementVerifier {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 }
+
+interface TransactionReceipt {
+  transactionHash: string;
+  blockNumber: string;
+  blockHash: string;
+  status: string;
+  logs: TransactionLog[];
+}
+
+interface TransactionLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  transactionHash: string;
+}
@@ -1,9 +1,19 @@
+import { BlockFinality, FinalityRule } from '../../types/treasury';
+
 export interface SettlementConfig {
   baseRpcUrl: string;
   usdcContractAddress: string;
   receiverAddress: string;
+  /** Minimum blocks on top of the transfer, in addition to requiredFinality */
   confirmationBlocks: number;
+  /** Finality the transfer's block must reach before the settlement is verified */
+  requiredFinality: BlockFinality;
+  /** How Base blocks become safe and finalized */
+  finality: FinalityRule;
+  /** Defaults to the time a transfer needs to reach requiredFinality (see settlementTimeoutMs) */
   timeoutMs: number;
+  /** Blocks back from the head searched for a transfer whose hash is not known; defaults to timeoutMs worth */
+  scanWindowBlocks: number;
 }
 
 export interface TransferEvent {
@@ -21,7 +31,10 @@ export interface SettlementVerification {
   amount: bigint;
   sender: string;
   blockNumber: number;
+  /** Block the transfer was included in; a different hash later means it was reorged */
+  blockHash?: string;
   confirmations: number;
+  finality: BlockFinality;
   timestamp: number;
   error?: string;
 }
@@ -34,9 +47,22 @@ export interface PendingSettlement {
   createdAt: number;
   expiresAt: number;
   status: SettlementStatus;
+  /** Lowercase address the transfer must reach */
+  receiverAddress: string;
+  requiredFinality: BlockFinality;
+  /** Set when the paying transaction is already known */
+  transactionHash?: string;
   verification?: SettlementVerification;
 }
 
+/**
+ * Per-settlement overrides of the verifier's receiver and finality
+ */
+export interface PendingSettlementOptions {
+  receiverAddress?: string;
+  requiredFinality?: BlockFinality;
+}
+
 export type SettlementStatus = 
   | 'PENDING'
   | 'DETECTED'
@@ -51,6 +77,8 @@ export interface SettlementResult {
   status: SettlementStatus;
   verification?: SettlementVerification;
   error?: string;
+  /** Set by recheckSettlements when the verified transaction had left its block */
+  reorged?: boolean;
 }
 
 export const BASE_USDC_ADDRESS = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
@@ -59,5 +87,8 @@ export const BASE_CHAIN_ID = 8453;
 export const DEFAULT_SETTLEMENT_CONFIG: Partial<SettlementConfig> = {
   usdcContractAddress: BASE_USDC_ADDRESS,
   confirmationBlocks: 3,
-  timeoutMs: 120000, // 2 minutes
+  requiredFinality: 'safe',
 };
+
+/** Floor for derived settlement timeouts */
+export const MIN_SETTLEMENT_TIMEOUT_MS = 120000;
@@ -0,0 +1,331 @@
+/**
+ * Named stress scenarios applied to a treasury's snapshots and market data
+ */
+
+import { getStablecoinSymbols } from '../../config/chains';
+import {
+  DEFAULT_STRESS_SCENARIOS,
+  StressScenario,
+  StressShock,
+} from '../../config/stressScenarios';
+import { ExitHalfLife, ImpactCurve, LiquidityRiskAssessment } from '../../types/liquidity';
+import { StressedHolding, StressTestResult } from '../../types/stress';
+import { TokenBalance, TreasurySnapshot, UnderlyingAsset } from '../../types/treasury';
+import { LiquidityMetrics } from '../liquidity/LiquidityMetrics';
+import { toUnits } from '../treasury/positions';
+
+export interface StressTesterConfig {
+  scenarios: StressScenario[];
+  /**
+   * Holdings a scenario's correlated move leaves alone unless a shock names them; defaults
+   * to the chain registry's stablecoins
+   */
+  stablecoinSymbols: string[];
+}
+
+export const DEFAULT_STRESS_TESTER_CONFIG: Omit<StressTesterConfig, 'stablecoinSymbols'> = {
+  scenarios: DEFAULT_STRESS_SCENARIOS,
+};
+
+/**
+ * Where stress results are kept, one row per run and scenario
+ */
+export interface StressResultStore {
+  saveStressResults(results: StressTestResult[]): void;
+}
+
+type SymbolShock = Omit<StressShock, 'symbols'>;
+
+export class StressTester {
+  private config: StressTesterConfig;
+
+  constructor(
+    private metrics: LiquidityMetrics,
+    private store: StressResultStore,
+    config: Partial<StressTesterConfig> = {}
+  ) {
+    this.config = {
+      ...DEFAULT_STRESS_TESTER_CONFIG,
+      stablecoinSymbols: getStablecoinSymbols(),
+      ...config,
+    };
+  }
+
+  /**
+   * Test every configured scenario against a run's snapshots and assessment and store the
+   * results under the run. `tradedVolumesUsd` holds the daily USD volumes the run saw, keyed
+   * by lowercase symbol.
+   */
+  runAll(
+    snapshots: TreasurySnapshot[],
+    assessment: LiquidityRiskAssessment,
+    runId: string | null,
+    tradedVolumesUsd: Map<string, number> = new Map()
+  ): StressTestResult[] {
+    const results = this.config.scenarios.map((scenario) =>
+      this.test(scenario, snapshots, assessment, runId, tradedVolumesUsd)
+    );
+    this.store.saveStressResults(results);
+    return results;
+  }
+
+  /**
+   * Apply one scenario. Balances and position underlyings are repriced; the assessment
+   * supplies the outflows behind the LCR, the impact curves and the traded volumes. Exit
+   * half-lives the run measured (L5) are restated; below L5, volatile holdings get one
+   * derived from their impact curve (L4) and any traded volume the run saw.
+   */
+  test(
+    scenario: StressScenario,
+    snapshots: TreasurySnapshot[],
+    assessment: LiquidityRiskAssessment,
+    runId: string | null = null,
+    tradedVolumesUsd: Map<string, number> = new Map()
+  ): StressTestResult {
+    const shockFor = (symbol: string): SymbolShock | undefined => this.shockFor(scenario, symbol);
+    const shocked = snapshots.map((snapshot) => shockSnapshot(snapshot, shockFor));
+    const holdings = stressedHoldings(snapshots, shocked, shockFor);
+
+    const baselineValueUsd = snapshots.reduce((sum, snapshot) => sum + snapshot.totalUsdValue, 0);
+    const postShockValueUsd = shocked.reduce((sum, snapshot) => sum + snapshot.totalUsdValue, 0);
+
+    const lcr = this.metrics.calculateLCR(
+      shocked.flatMap((snapshot) => snapshot.balances),
+      assessment.lcr.netCashOutflows30Day,
+      0,
+      (symbol) => this.isStable(symbol)
+    );
+
+    const measured = assessment.exitHalfLives.map((exit): ExitHalfLife => {
+      const holding = holdings.get(exit.tokenSymbol);
+      if (!holding) {
+        return exit;
+      }
+      const priceFactor = holding.baselineUsd > 0 ? holding.shockedUsd / holding.baselineUsd : 1;
+      const volumeFactor = 1 + (shockFor(exit.tokenSymbol)?.volumeChange ?? 0);
+      const curve = assessment.impactCurves.get(exit.tokenSymbol);
+      return this.metrics.calculateExitHalfLife(
+        exit.tokenAddress,
+        exit.tokenSymbol,
+        exit.positionSize * priceFactor,
+        exit.averageDailyVolume * priceFactor * volumeFactor,
+        curve ? shockCurve(curve, priceFactor, holding.depthFactor) : undefined
+      );
+    });
+    const exitHalfLives = [
+      ...measured,
+      ...this.derivedExitHalfLives(assessment, snapshots, holdings, shockFor, tradedVolumesUsd),
+    ];
+
+    const volatilityRegime = scenario.volatilityRegime ?? assessment.volatilityRegime;
+    const riskScore = this.metrics.calculateOverallRiskScore(lcr, exitHalfLives, volatilityRegime);
+
+    return {
+      runId,
+      scenario: scenario.name,
+      testedAt: new Date(),
+      baselineValueUsd,
+      postShockValueUsd,
+      valueChange: baselineValueUsd > 0 ? postShockValueUsd / baselineValueUsd - 1 : 0,
+      holdings: [...holdings.values()],
+      lcr,
+      baselineLcrRatio: assessment.lcr.ratio,
+      exitHalfLives,
+      volatilityRegime,
+      riskScore,
+      riskLevel: this.metrics.getRiskLevel(riskScore),
+      baselineRiskLevel: assessment.riskLevel,
+    };
+  }
+
+  /**
+   * Shocked exit half-lives for volatile holdings the run measured none for, from the impact
+   * curve and the traded volume it recorded; holdings with neither are left out
+   */
+  private derivedExitHalfLives(
+    assessment: LiquidityRiskAssessment,
+    snapshots: TreasurySnapshot[],
+    holdings: Map<string, StressedHolding>,
+    shockFor: (symbol: string) => SymbolShock | undefined,
+    tradedVolumesUsd: Map<string, number>
+  ): ExitHalfLife[] {
+    const measured = new Set(assessment.exitHalfLives.map((exit) => exit.tokenSymbol));
+    return [...holdings.values()].flatMap((holding): ExitHalfLife[] => {
+      if (
+        measured.has(holding.symbol) ||
+        holding.baselineUsd <= 0 ||
+        this.isStable(holding.symbol)
+      ) {
+        return [];
+      }
+      const curve = assessment.impactCurves.get(holding.symbol);
+      const volumeUsd = tradedVolumesUsd.get(holding.symbol.toLowerCase());
+      if (!curve && volumeUsd === undefined) {
+        return [];
+      }
+      const priceFactor = holding.shockedUsd / holding.baselineUsd;
+      const volumeFactor = 1 + (shockFor(holding.symbol)?.volumeChange ?? 0);
+      return [
+        this.metrics.calculateExitHalfLife(
+          curve?.tokenAddress ?? tokenAddressOf(snapshots, holding.symbol),
+          holding.symbol,
+          holding.shockedUsd,
+          (volumeUsd ?? 0) * priceFactor * volumeFactor,
+          curve ? shockCurve(curve, priceFactor, holding.depthFactor) : undefined
+        ),
+      ];
+    });
+  }
+
+  private isStable(symbol: string): boolean {
+    const key = symbol.toLowerCase();
+    return this.config.stablecoinSymbols.some((candidate) => candidate.toLowerCase() === key);
+  }
+
+  /**
+   * The first shock naming the symbol, else the correlated move for volatile holdings
+   */
+  private shockFor(scenario: StressScenario, symbol: string): SymbolShock | undefined {
+    const key = symbol.toLowerCase();
+    const named = scenario.shocks.find((shock) =>
+      shock.symbols.some((candidate) => candidate.toLowerCase() === key)
+    );
+    if (named) {
+      return named;
+    }
+    return this.isStable(symbol) ? undefined : scenario.correlated;
+  }
+}
+
+/**
+ * Contract address of a held symbol, looking through position underlyings
+ */
+function tokenAddressOf(snapshots: TreasurySnapshot[], symbol: string): string {
+  const asset = snapshots
+    .flatMap((snapshot) => snapshot.balances)
+    .flatMap((balance): Array<Pick<TokenBalance, 'token' | 'symbol'>> =>
+      balance.position ? balance.position.underlying : [balance]
+    )
+    .find((candidate) => candidate.symbol === symbol);
+  return asset?.token ?? '';
+}
+
+/**
+ * USD value of an amount after the shock: an absolute price replaces the unit price, a
+ * relative one scales the current value
+ */
+function shockValue(
+  shock: SymbolShock | undefined,
+  amount: bigint,
+  decimals: number,
+  usdValue: number
+): number {
+  if (shock?.price !== undefined) {
+    return toUnits(amount, decimals) * shock.price;
+  }
+  return usdValue * (1 + (shock?.priceChange ?? 0));
+}
+
+/**
+ * The snapshot with every balance and position underlying revalued under the shock
+ */
+function shockSnapshot(
+  snapshot: TreasurySnapshot,
+  shockFor: (symbol: string) => SymbolShock | undefined
+): TreasurySnapshot {
+  const balances = snapshot.balances.map((balance): TokenBalance => {
+    if (balance.position) {
+      const underlying = balance.position.underlying.map((asset): UnderlyingAsset => {
+        const shock = shockFor(asset.symbol);
+        return {
+          ...asset,
+          usdValue: shockValue(shock, asset.amount, asset.decimals, asset.usdValue),
+          withdrawableUsd: shockValue(
+            shock,
+            asset.withdrawableAmount,
+            asset.decimals,
+            asset.withdrawableUsd
+          ),
+        };
+      });
+      const position = {
+        ...balance.position,
+        underlying,
+        usdValue: underlying.reduce((sum, asset) => sum + asset.usdValue, 0),
+        withdrawableUsd: underlying.reduce((sum, asset) => sum + asset.withdrawableUsd, 0),
+      };
+      return { ...balance, usdValue: position.usdValue, position };
+    }
+    return {
+      ...balance,
+      usdValue: shockValue(
+        shockFor(balance.symbol),
+        balance.balance,
+        balance.decimals,
+        balance.usdValue
+      ),
+    };
+  });
+
+  return {
+    ...snapshot,
+    balances,
+    totalUsdValue: balances.reduce((sum, balance) => sum + balance.usdValue, 0),
+  };
+}
+
+/**
+ * Held symbols across all chains with their value before and after the shock
+ */
+function stressedHoldings(
+  baseline: TreasurySnapshot[],
+  shocked: TreasurySnapshot[],
+  shockFor: (symbol: string) => SymbolShock | undefined
+): Map<string, StressedHolding> {
+  const holdings = new Map<string, StressedHolding>();
+  const add = (snapshots: TreasurySnapshot[], field: 'baselineUsd' | 'shockedUsd'): void => {
+    const held = snapshots.flatMap((snapshot) =>
+      snapshot.balances.flatMap((balance): Array<Pick<TokenBalance, 'symbol' | 'usdValue'>> =>
+        balance.position ? balance.position.underlying : [balance]
+      )
+    );
+    for (const { symbol, usdValue } of held) {
+      const holding = holdings.get(symbol) ?? {
+        symbol,
+        baselineUsd: 0,
+        shockedUsd: 0,
+        depthFactor: 1,
+      };
+      holding[field] += usdValue;
+      holdings.set(symbol, holding);
+    }
+  };
+  add(baseline, 'baselineUsd');
+  add(shocked, 'shockedUsd');
+
+  for (const holding of holdings.values()) {
+    const priceFactor = holding.baselineUsd > 0 ? holding.shockedUsd / holding.baselineUsd : 1;
+    holding.depthFactor = priceFactor * (1 + (shockFor(holding.symbol)?.depthChange ?? 0));
+  }
+  return holdings;
+}
+
+/**
+ * The impact curve of a book whose prices moved by priceFactor and whose USD depth is
+ * depthFactor times the original: each slippage is reached at depthFactor times the size
+ */
+function shockCurve(curve: ImpactCurve, priceFactor: number, depthFactor: number): ImpactCurve {
+  return {
+    ...curve,
+    basePrice: curve.basePrice * priceFactor,
+    points: curve.points.map((point) => ({
+      ...point,
+      tradeSize: point.tradeSize * depthFactor,
+      executionPrice: point.executionPrice * priceFactor,
+    })),
+    maxTradeableSize: {
+      buy: curve.maxTradeableSize.buy * depthFactor,
+      sell: curve.maxTradeableSize.sell * depthFactor,
+    },
+  };
+}
@@ -0,0 +1,3 @@
+export * from '../../types/stress';
+export { DEFAULT_STRESS_TESTER_CONFIG, StressTester } from './StressTester';
+export type { StressResultStore, StressTesterConfig } from './StressTester';
@@ -0,0 +1,107 @@
+/**
+ * Maps wall-clock times to block numbers by binary search over block timestamps.
+ * Block headers are kept by full nodes too, so no archive endpoint is needed here.
+ */
+
+import { ChainName } from '../../types/treasury';
+import { ErrorCode, SentinelError } from '../../utils/errors';
+import { RpcPool } from '../rpc/RpcPool';
+
+/** Timestamps kept per chain; a year of daily lookups needs well under this */
+const MAX_CACHED_BLOCKS = 20_000;
+
+function toHex(value: number): string {
+  return `0x${value.toString(16)}`;
+}
+
+export class BlockLocator {
+  /** Block number to Unix seconds, per chain */
+  private timestamps = new Map<ChainName, Map<number, number>>();
+
+  constructor(private pools: Record<ChainName, RpcPool>) {}
+
+  /**
+   * Unix seconds of a block
+   */
+  async getBlockTimestamp(chain: ChainName, blockNumber: number): Promise<number> {
+    const cache = this.cacheFor(chain);
+    const cached = cache.get(blockNumber);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const block = await this.poolFor(chain).request<{ timestamp: string } | null>(
+      'eth_getBlockByNumber',
+      [toHex(blockNumber), false]
+    );
+    if (!block) {
+      throw new SentinelError(ErrorCode.RPC_ERROR, `Block ${blockNumber} not found on ${chain}`, {
+        details: { chain, blockNumber },
+        retryable: true,
+      });
+    }
+
+    const timestamp = parseInt(block.timestamp, 16);
+    if (cache.size >= MAX_CACHED_BLOCKS) {
+      cache.clear();
+    }
+    cache.set(blockNumber, timestamp);
+    return timestamp;
+  }
+
+  /**
+   * The last block mined at or before `timestampMs`. Times past the head resolve to the head.
+   * `fromBlock` narrows the search when the answer is known to be at or after it, as when
+   * walking forward through a date range.
+   */
+  async findBlock(chain: ChainName, timestampMs: number, fromBlock = 0): Promise<number> {
+    const target = Math.floor(timestampMs / 1000);
+    const head = parseInt(await this.poolFor(chain).request<string>('eth_blockNumber'), 16);
+    if ((await this.getBlockTimestamp(chain, head)) <= target) {
+      return head;
+    }
+
+    let low = Math.min(Math.max(fromBlock, 0), head);
+    if ((await this.getBlockTimestamp(chain, low)) > target) {
+      if (low === 0 || (await this.getBlockTimestamp(chain, 0)) > target) {
+        throw new SentinelError(
+          ErrorCode.VALIDATION_ERROR,
+          `${new Date(timestampMs).toISOString()} is before the first block on ${chain}`,
+          { details: { chain, timestampMs } }
+        );
+      }
+      low = 0;
+    }
+
+    // Invariant: timestamp(low) <= target < timestamp(high)
+    let high = head;
+    while (high - low > 1) {
+      const mid = Math.floor((low + high) / 2);
+      if ((await this.getBlockTimestamp(chain, mid)) <= target) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  private poolFor(chain: ChainName): RpcPool {
+    const pool = this.pools[chain];
+    if (!pool) {
+      throw new SentinelError(ErrorCode.CONFIGURATION_ERROR, `No RPC pool for chain ${chain}`, {
+        details: { chain },
+      });
+    }
+    return pool;
+  }
+
+  private cacheFor(chain: ChainName): Map<number, number> {
+    let cache = this.timestamps.get(chain);
+    if (!cache) {
+      cache = new Map();
+      this.timestamps.set(chain, cache);
+    }
+    return cache;
+  }
+}
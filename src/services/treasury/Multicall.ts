@@ -0,0 +1,147 @@
+/**
+ * Multicall3 encoding for balance snapshots: every read of a chain goes out as one
+ * aggregate3 eth_call, or as a JSON-RPC batch when Multicall3 is unavailable
+ */
+
+import {
+  decodeFunctionData,
+  decodeFunctionResult,
+  encodeFunctionData,
+  erc20Abi,
+  Hex,
+  hexToString,
+  multicall3Abi,
+} from 'viem';
+
+import { SAFE_ABI } from './Safe';
+
+/** Deployed at the same address on every chain TreasuryMonitor supports */
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+/** One value a snapshot needs from the chain */
+export type BalanceCall =
+  | { kind: 'native' }
+  | { kind: 'balance'; token: string }
+  | { kind: 'decimals'; token: string }
+  | { kind: 'symbol'; token: string }
+  | { kind: 'safeOwners' }
+  | { kind: 'safeThreshold' }
+  | { kind: 'safeNonce' };
+
+/** A contract read as Multicall3 sends it */
+export interface ContractCall {
+  target: Hex;
+  callData: Hex;
+}
+
+export interface CallResult {
+  success: boolean;
+  returnData: Hex;
+}
+
+/**
+ * Contract and calldata for a call; native balances go through Multicall3.getEthBalance and
+ * Safe reads target the wallet itself
+ */
+export function toContractCall(call: BalanceCall, walletAddress: string): ContractCall {
+  const wallet = walletAddress as Hex;
+  switch (call.kind) {
+    case 'native':
+      return {
+        target: MULTICALL3_ADDRESS,
+        callData: encodeFunctionData({
+          abi: multicall3Abi,
+          functionName: 'getEthBalance',
+          args: [wallet],
+        }),
+      };
+    case 'balance':
+      return {
+        target: call.token as Hex,
+        callData: encodeFunctionData({ abi: erc20Abi, functionName: 'balanceOf', args: [wallet] }),
+      };
+    case 'decimals':
+      return {
+        target: call.token as Hex,
+        callData: encodeFunctionData({ abi: erc20Abi, functionName: 'decimals' }),
+      };
+    case 'symbol':
+      return {
+        target: call.token as Hex,
+        callData: encodeFunctionData({ abi: erc20Abi, functionName: 'symbol' }),
+      };
+    case 'safeOwners':
+      return {
+        target: wallet,
+        callData: encodeFunctionData({ abi: SAFE_ABI, functionName: 'getOwners' }),
+      };
+    case 'safeThreshold':
+      return {
+        target: wallet,
+        callData: encodeFunctionData({ abi: SAFE_ABI, functionName: 'getThreshold' }),
+      };
+    case 'safeNonce':
+      return {
+        target: wallet,
+        callData: encodeFunctionData({ abi: SAFE_ABI, functionName: 'nonce' }),
+      };
+  }
+}
+
+/**
+ * aggregate3 calldata; each call may fail without reverting the batch
+ */
+export function encodeAggregate3(calls: ContractCall[]): Hex {
+  return encodeFunctionData({
+    abi: multicall3Abi,
+    functionName: 'aggregate3',
+    args: [calls.map((call) => ({ ...call, allowFailure: true }))],
+  });
+}
+
+/**
+ * Address whose native balance a Multicall3.getEthBalance call reads; undefined for any other
+ * call, so a JSON-RPC batch can send it as eth_getBalance instead
+ */
+export function nativeBalanceOwner(call: ContractCall): Hex | undefined {
+  if (call.target !== MULTICALL3_ADDRESS) {
+    return undefined;
+  }
+  try {
+    const { functionName, args } = decodeFunctionData({ abi: multicall3Abi, data: call.callData });
+    return functionName === 'getEthBalance' ? args[0] : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function decodeAggregate3(data: Hex): CallResult[] {
+  const results = decodeFunctionResult({ abi: multicall3Abi, functionName: 'aggregate3', data });
+  return results.map(({ success, returnData }) => ({ success, returnData }));
+}
+
+/**
+ * Balance in the smallest unit; undefined when the call returned nothing
+ */
+export function decodeBalance(returnData: Hex): bigint | undefined {
+  return returnData === '0x' ? undefined : BigInt(returnData);
+}
+
+export function decodeDecimals(returnData: Hex): number | undefined {
+  return returnData === '0x' ? undefined : Number(BigInt(returnData));
+}
+
+/**
+ * ERC-20 symbol; older tokens (e.g. MKR) return bytes32 instead of string
+ */
+export function decodeSymbol(returnData: Hex): string | undefined {
+  if (returnData === '0x') {
+    return undefined;
+  }
+  try {
+    return decodeFunctionResult({ abi: erc20Abi, functionName: 'symbol', data: returnData });
+  } catch {
+    const symbol = hexToString(returnData.slice(0, 66) as Hex).replace(/\0+$/, '');
+    return symbol.length > 0 ? symbol : undefined;
+  }
+}
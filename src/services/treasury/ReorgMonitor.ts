@@ -0,0 +1,302 @@
+/**
+ * Reorg and finality tracking for stored snapshots: rechecks the block hash of every snapshot
+ * not yet finalized against the canonical chain, moves its finality forward as the chain
+ * settles, and invalidates and retakes the snapshots whose block was reorged away.
+ * Settlements verified on blocks that were not final are rechecked in the same pass, and the
+ * payment records behind them follow the outcome.
+ */
+
+import { TreasurySentinelEventEmitter } from '../../events/EventEmitter';
+import { PaymentStatus } from '../../types/database';
+import {
+  BlockFinality,
+  ChainId,
+  ChainName,
+  FinalityHeads,
+  TreasurySnapshot,
+} from '../../types/treasury';
+import { wrapError } from '../../utils/errors';
+import { createLogger } from '../../utils/logger';
+import { BlockHeader, finalityOf } from '../rpc/Finality';
+import type { SettlementVerifier } from '../settlement/SettlementVerifier';
+import { BASE_CHAIN_ID, SettlementResult } from '../settlement/types';
+
+import { TreasuryMonitor } from './TreasuryMonitor';
+
+const log = createLogger('ReorgMonitor');
+
+export interface ReorgMonitorConfig {
+  /** Unfinalized snapshots rechecked per treasury and pass, oldest block first */
+  maxSnapshots: number;
+}
+
+export const DEFAULT_REORG_MONITOR_CONFIG: ReorgMonitorConfig = {
+  maxSnapshots: 500,
+};
+
+/**
+ * Block a stored snapshot was read at, as far as reorg checks need it
+ */
+export interface StoredSnapshotBlock {
+  snapshotId: string;
+  chainId: ChainId;
+  address: string;
+  blockNumber: number;
+  blockHash: string;
+  finality: BlockFinality;
+  /** Found reorged and not yet replaced by a recomputed snapshot */
+  invalidated: boolean;
+}
+
+/**
+ * Where snapshots are kept; implemented by TreasuryRepository.
+ * Invalidated snapshots stay listed by getUnfinalizedSnapshots until they are replaced.
+ */
+export interface ReorgStore {
+  getUnfinalizedSnapshots(chainId: ChainId, address: string, limit?: number): StoredSnapshotBlock[];
+  setSnapshotFinality(snapshotId: string, chainId: ChainId, finality: BlockFinality): void;
+  invalidateSnapshot(snapshotId: string, chainId: ChainId): number;
+  replaceSnapshot(snapshotId: string, snapshot: TreasurySnapshot): void;
+}
+
+export type SettlementRechecker = Pick<
+  SettlementVerifier,
+  'recheckSettlements' | 'getPendingSettlement'
+>;
+
+/**
+ * Where payment records are kept; implemented by PaymentRepository
+ */
+export interface PaymentStatusStore {
+  updateStatus(id: string, status: PaymentStatus, txHash?: string): unknown;
+}
+
+export interface ReorgCheckResult {
+  /** Snapshots whose finality moved forward */
+  promoted: number;
+  /** Snapshots whose block is no longer canonical */
+  reorged: StoredSnapshotBlock[];
+  /** Reorged snapshots retaken at the same block height */
+  recomputed: TreasurySnapshot[];
+  /** Settlements verified again because their block was reorged or they were still confirming */
+  settlements: SettlementResult[];
+}
+
+export class ReorgMonitor {
+  private config: ReorgMonitorConfig;
+
+  constructor(
+    private monitor: TreasuryMonitor,
+    private store: ReorgStore,
+    private events: TreasurySentinelEventEmitter,
+    config: Partial<ReorgMonitorConfig> = {},
+    private settlements?: SettlementRechecker,
+    private payments?: PaymentStatusStore
+  ) {
+    this.config = { ...DEFAULT_REORG_MONITOR_CONFIG, ...config };
+  }
+
+  /**
+   * Recheck the treasury's unfinalized snapshots on one chain. Snapshots still on the
+   * canonical chain get their current finality; reorged ones are invalidated, alerted on and
+   * retaken at the same height. A snapshot that cannot be retaken yet (the height is past a
+   * lagging endpoint's head, or old state is unavailable) stays invalidated for the next pass.
+   */
+  async checkChain(
+    chain: ChainName,
+    correlationId?: string
+  ): Promise<Omit<ReorgCheckResult, 'settlements'>> {
+    const result: Omit<ReorgCheckResult, 'settlements'> = {
+      promoted: 0,
+      reorged: [],
+      recomputed: [],
+    };
+    const address = this.monitor.getWalletAddresses()[chain];
+    if (address === undefined) {
+      return result;
+    }
+
+    const { chainId } = this.monitor.getChainConfig(chain);
+    const stored = this.store.getUnfinalizedSnapshots(chainId, address, this.config.maxSnapshots);
+    if (stored.length === 0) {
+      return result;
+    }
+
+    const heads = await this.monitor.fetchFinalityHeads(chain);
+    const headers = new Map<number, BlockHeader | null>();
+    const canonical: Array<{ snapshot: StoredSnapshotBlock; canonicalHash: string | null }> = [];
+
+    for (const snapshot of stored) {
+      if (snapshot.blockNumber > heads.latest) {
+        // The endpoint that answered is behind the one the snapshot was read from
+        continue;
+      }
+
+      if (!snapshot.invalidated) {
+        const header = await this.headerAt(chain, snapshot.blockNumber, headers);
+        if (header?.hash === snapshot.blockHash) {
+          result.promoted += this.promote(snapshot, heads);
+          continue;
+        }
+        this.store.invalidateSnapshot(snapshot.snapshotId, snapshot.chainId);
+        result.reorged.push(snapshot);
+        canonical.push({ snapshot, canonicalHash: header?.hash ?? null });
+      }
+
+      try {
+        const recomputed = await this.monitor.takeSnapshot(chain, {
+          blockNumber: snapshot.blockNumber,
+        });
+        this.store.replaceSnapshot(snapshot.snapshotId, recomputed);
+        result.recomputed.push(recomputed);
+      } catch (error) {
+        log.warn(
+          `Snapshot ${snapshot.snapshotId} on ${chain} at block ${snapshot.blockNumber} not recomputed yet`,
+          undefined,
+          wrapError(error)
+        );
+      }
+    }
+
+    if (canonical.length > 0) {
+      await this.emitReorg(chain, chainId, address, canonical, correlationId);
+    }
+    return result;
+  }
+
+  /**
+   * Check every configured chain, then the settlements. A chain that fails is logged and
+   * left for the next pass.
+   */
+  async checkCycle(correlationId?: string): Promise<ReorgCheckResult> {
+    const result: ReorgCheckResult = { promoted: 0, reorged: [], recomputed: [], settlements: [] };
+    const chains = Object.keys(this.monitor.getWalletAddresses());
+
+    for (const chain of chains) {
+      try {
+        const checked = await this.checkChain(chain, correlationId);
+        result.promoted += checked.promoted;
+        result.reorged.push(...checked.reorged);
+        result.recomputed.push(...checked.recomputed);
+      } catch (error) {
+        log.warn(`Reorg check failed on ${chain}`, undefined, wrapError(error));
+      }
+    }
+
+    if (this.settlements) {
+      try {
+        result.settlements = await this.settlements.recheckSettlements();
+      } catch (error) {
+        log.warn('Settlement recheck failed', undefined, wrapError(error));
+      }
+      await this.syncPayments(this.settlements, result.settlements, correlationId);
+    }
+
+    return result;
+  }
+
+  /**
+   * Carry rechecked settlements into their payment records: confirmed once verified again,
+   * failed when the transfer no longer qualifies, and back to pending while a reorged
+   * transfer waits to be included again. Each reorged settlement also raises an alert.
+   */
+  private async syncPayments(
+    settlements: SettlementRechecker,
+    results: SettlementResult[],
+    correlationId?: string
+  ): Promise<void> {
+    for (const result of results) {
+      const paymentId = settlements.getPendingSettlement(result.settlementId)?.paymentId;
+      const transactionHash = result.verification?.transactionHash;
+
+      if (paymentId !== undefined && this.payments) {
+        if (result.success) {
+          this.payments.updateStatus(paymentId, 'confirmed', transactionHash);
+        } else if (result.status === 'FAILED') {
+          this.payments.updateStatus(paymentId, 'failed', transactionHash);
+        } else if (result.reorged === true) {
+          this.payments.updateStatus(paymentId, 'pending', transactionHash);
+        }
+      }
+
+      if (result.reorged === true) {
+        await this.events.emit(
+          this.events.createCorrelatedEvent(
+            {
+              type: 'treasury:alert',
+              payload: {
+                alertType: 'chain_reorg',
+                chainId: BASE_CHAIN_ID,
+                details: {
+                  settlementId: result.settlementId,
+                  paymentId,
+                  transactionHash,
+                  status: result.status,
+                },
+              },
+            },
+            correlationId
+          )
+        );
+      }
+    }
+  }
+
+  /**
+   * Store the snapshot's current finality; returns 1 when it moved forward
+   */
+  private promote(snapshot: StoredSnapshotBlock, heads: FinalityHeads): number {
+    const finality = finalityOf(snapshot.blockNumber, heads);
+    if (finality === snapshot.finality) {
+      return 0;
+    }
+    this.store.setSnapshotFinality(snapshot.snapshotId, snapshot.chainId, finality);
+    return 1;
+  }
+
+  private async headerAt(
+    chain: ChainName,
+    blockNumber: number,
+    headers: Map<number, BlockHeader | null>
+  ): Promise<BlockHeader | null> {
+    if (!headers.has(blockNumber)) {
+      headers.set(blockNumber, await this.monitor.fetchBlockHeader(chain, blockNumber));
+    }
+    return headers.get(blockNumber) ?? null;
+  }
+
+  private async emitReorg(
+    chain: ChainName,
+    chainId: ChainId,
+    address: string,
+    reorged: Array<{ snapshot: StoredSnapshotBlock; canonicalHash: string | null }>,
+    correlationId?: string
+  ): Promise<void> {
+    log.warn(
+      `${reorged.length} snapshot(s) of ${address} on ${chain} were reorged from block ${reorged[0]?.snapshot.blockNumber}`
+    );
+    await this.events.emit(
+      this.events.createCorrelatedEvent(
+        {
+          type: 'treasury:alert',
+          payload: {
+            alertType: 'chain_reorg',
+            chainId,
+            details: {
+              chain,
+              address,
+              snapshots: reorged.map(({ snapshot, canonicalHash }) => ({
+                snapshotId: snapshot.snapshotId,
+                blockNumber: snapshot.blockNumber,
+                blockHash: snapshot.blockHash,
+                canonicalHash,
+                finality: snapshot.finality,
+              })),
+            },
+          },
+        },
+        correlationId
+      )
+    );
+  }
+}
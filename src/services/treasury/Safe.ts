@@ -0,0 +1,91 @@
+/**
+ * Safe (Gnosis Safe) multisig reads: signer set, threshold and nonce, and the
+ * ExecutionSuccess / ExecutionFailure events a Safe logs for each executed transaction
+ */
+
+import { decodeFunctionData, decodeFunctionResult, Hex, parseAbi, toEventSelector } from 'viem';
+
+import { SafeInfo } from '../../types/treasury';
+
+export const SAFE_ABI = parseAbi([
+  'function getOwners() view returns (address[])',
+  'function getThreshold() view returns (uint256)',
+  'function nonce() view returns (uint256)',
+  'function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures) payable returns (bool)',
+]);
+
+/** Same signature in every Safe version; txHash is indexed from v1.4 on */
+export const EXECUTION_SUCCESS_TOPIC = toEventSelector('ExecutionSuccess(bytes32,uint256)');
+export const EXECUTION_FAILURE_TOPIC = toEventSelector('ExecutionFailure(bytes32,uint256)');
+
+/**
+ * Signer set from raw getOwners / getThreshold / nonce return data; undefined unless the
+ * address answers like a Safe (at least one owner, threshold between 1 and the owner count)
+ */
+export function decodeSafeInfo(
+  owners: Hex | undefined,
+  threshold: Hex | undefined,
+  nonce: Hex | undefined
+): SafeInfo | undefined {
+  if (
+    owners === undefined ||
+    threshold === undefined ||
+    nonce === undefined ||
+    [owners, threshold, nonce].includes('0x')
+  ) {
+    return undefined;
+  }
+  try {
+    const addresses = decodeFunctionResult({
+      abi: SAFE_ABI,
+      functionName: 'getOwners',
+      data: owners,
+    });
+    const required = Number(BigInt(threshold));
+    if (addresses.length === 0 || required < 1 || required > addresses.length) {
+      return undefined;
+    }
+    return {
+      owners: addresses.map((owner) => owner.toLowerCase()),
+      threshold: required,
+      nonce: Number(BigInt(nonce)),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * safeTxHash and refund payment of an execution log, for both the indexed (v1.4+) and
+ * unindexed (v1.3) event layouts
+ */
+export function decodeExecutionLog(
+  topics: string[],
+  data: string
+): { safeTxHash: string; payment: bigint } {
+  const words = data.slice(2).match(/.{64}/g) ?? [];
+  const indexedHash = topics[1];
+  if (indexedHash !== undefined) {
+    return { safeTxHash: indexedHash, payment: BigInt(`0x${words[0] ?? '0'}`) };
+  }
+  return { safeTxHash: `0x${words[0] ?? ''}`, payment: BigInt(`0x${words[1] ?? '0'}`) };
+}
+
+/**
+ * Destination, value and call type of an execTransaction call; undefined for other calldata,
+ * e.g. when a relayer or module executed the transaction
+ */
+export function decodeExecTransaction(
+  input: Hex
+): { to: string; value: bigint; operation: 0 | 1 } | undefined {
+  try {
+    const { functionName, args } = decodeFunctionData({ abi: SAFE_ABI, data: input });
+    if (functionName !== 'execTransaction') {
+      return undefined;
+    }
+    const [to, value, , operation] = args;
+    return { to: to.toLowerCase(), value, operation: operation === 1 ? 1 : 0 };
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,343 @@
+/**
+ * Safe multisig awareness: tracks each Safe's signer set between snapshots, raises
+ * TreasuryAlerts when owners or the threshold change, and records the transactions the Safe
+ * executes from its ExecutionSuccess / ExecutionFailure logs
+ */
+
+import { randomUUID } from 'crypto';
+
+import { Hex } from 'viem';
+
+import { TreasurySentinelEventEmitter } from '../../events/EventEmitter';
+import {
+  ChainId,
+  ChainName,
+  SafeExecution,
+  SafeState,
+  TreasuryAlert,
+  TreasurySnapshot,
+} from '../../types/treasury';
+import { ErrorCode, SentinelError, wrapError } from '../../utils/errors';
+import { createLogger } from '../../utils/logger';
+
+import {
+  decodeExecTransaction,
+  decodeExecutionLog,
+  EXECUTION_FAILURE_TOPIC,
+  EXECUTION_SUCCESS_TOPIC,
+} from './Safe';
+import { RpcLog, TreasuryMonitor } from './TreasuryMonitor';
+
+const log = createLogger('SafeMonitor');
+
+export interface SafeMonitorConfig {
+  /** Blocks per eth_getLogs request when scanning executions */
+  chunkSize: number;
+  /** Blocks behind the head left for a later scan, so reorged logs are not recorded */
+  confirmations: number;
+}
+
+export const DEFAULT_SAFE_MONITOR_CONFIG: SafeMonitorConfig = {
+  chunkSize: 5000,
+  confirmations: 5,
+};
+
+/**
+ * Where Safe states and executions are kept; implemented by SafeRepository.
+ * saveExecutions must write the executions and the cursor atomically.
+ */
+export interface SafeStore {
+  getLatestState(chainId: ChainId, address: string): SafeState | undefined;
+  saveState(state: SafeState): void;
+  getExecutionCursor(chainId: ChainId, address: string): number | undefined;
+  saveExecutions(
+    chainId: ChainId,
+    address: string,
+    lastScannedBlock: number,
+    executions: SafeExecution[]
+  ): void;
+}
+
+/**
+ * What changed in a Safe's signer set between two states
+ */
+export interface SignerChange {
+  addedOwners: string[];
+  removedOwners: string[];
+  previousThreshold: number;
+  threshold: number;
+}
+
+/**
+ * Owners added or removed and threshold movement; null when the signer set is unchanged
+ */
+export function diffSigners(previous: SafeState, current: SafeState): SignerChange | null {
+  const before = new Set(previous.owners);
+  const after = new Set(current.owners);
+  const addedOwners = current.owners.filter((owner) => !before.has(owner));
+  const removedOwners = previous.owners.filter((owner) => !after.has(owner));
+  if (
+    addedOwners.length === 0 &&
+    removedOwners.length === 0 &&
+    previous.threshold === current.threshold
+  ) {
+    return null;
+  }
+  return {
+    addedOwners,
+    removedOwners,
+    previousThreshold: previous.threshold,
+    threshold: current.threshold,
+  };
+}
+
+/**
+ * A lower threshold weakens the treasury's control as surely as a price drop weakens its
+ * value, so it is critical; owner churn is high; a raised threshold is informational
+ */
+function severityOf(change: SignerChange): TreasuryAlert['severity'] {
+  if (change.threshold < change.previousThreshold || change.threshold === 1) {
+    return 'critical';
+  }
+  if (change.addedOwners.length > 0 || change.removedOwners.length > 0) {
+    return 'high';
+  }
+  return 'low';
+}
+
+function describe(change: SignerChange, state: SafeState): string {
+  const parts: string[] = [];
+  if (change.threshold !== change.previousThreshold) {
+    parts.push(`threshold ${change.previousThreshold} -> ${change.threshold}`);
+  }
+  if (change.addedOwners.length > 0) {
+    parts.push(`owners added: ${change.addedOwners.join(', ')}`);
+  }
+  if (change.removedOwners.length > 0) {
+    parts.push(`owners removed: ${change.removedOwners.join(', ')}`);
+  }
+  return `Safe ${state.address} signer set changed (${parts.join('; ')}), now ${state.threshold}-of-${state.owners.length}`;
+}
+
+export class SafeMonitor {
+  private config: SafeMonitorConfig;
+
+  constructor(
+    private monitor: TreasuryMonitor,
+    private store: SafeStore,
+    private events: TreasurySentinelEventEmitter,
+    config: Partial<SafeMonitorConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_SAFE_MONITOR_CONFIG, ...config };
+  }
+
+  /**
+   * Compare each Safe in the snapshots with its last recorded state, record the new state and
+   * emit a `treasury:alert` per changed signer set. Snapshots older than the recorded state
+   * (e.g. from a backfill) are ignored.
+   */
+  async checkSnapshots(
+    snapshots: TreasurySnapshot[],
+    correlationId?: string
+  ): Promise<TreasuryAlert[]> {
+    const alerts: TreasuryAlert[] = [];
+
+    for (const snapshot of snapshots) {
+      if (!snapshot.safe) {
+        continue;
+      }
+      const state: SafeState = {
+        ...snapshot.safe,
+        chainId: snapshot.chainId,
+        address: snapshot.address.toLowerCase(),
+        blockNumber: snapshot.blockNumber,
+        timestamp: snapshot.timestamp,
+      };
+      const previous = this.store.getLatestState(state.chainId, state.address);
+      if (previous && previous.blockNumber >= state.blockNumber) {
+        continue;
+      }
+
+      const change = previous ? diffSigners(previous, state) : null;
+      if (!previous || change || previous.nonce !== state.nonce) {
+        this.store.saveState(state);
+      }
+      if (change) {
+        const alert = this.raiseAlert(state, change, snapshot.chainName);
+        alerts.push(alert);
+        await this.events.emit(
+          this.events.createCorrelatedEvent(
+            {
+              type: 'treasury:alert',
+              payload: {
+                alertType: 'signer_change',
+                chainId: state.chainId,
+                details: { ...change, safeAddress: state.address, blockNumber: state.blockNumber },
+                alert,
+              },
+            },
+            correlationId
+          )
+        );
+      }
+    }
+
+    return alerts;
+  }
+
+  /**
+   * Record the Safe's executions from its cursor up to `toBlock` (default: head minus
+   * confirmations). A Safe seen for the first time starts at `fromBlock`, or at the head.
+   */
+  async watchExecutions(
+    chain: ChainName,
+    safeAddress: string,
+    options: { fromBlock?: number; toBlock?: number } = {}
+  ): Promise<SafeExecution[]> {
+    const { chainId } = this.monitor.getChainConfig(chain);
+    const address = safeAddress.toLowerCase();
+    const head =
+      options.toBlock ?? (await this.monitor.fetchBlockNumber(chain)) - this.config.confirmations;
+    const cursor = this.store.getExecutionCursor(chainId, address);
+    const start = cursor !== undefined ? cursor + 1 : (options.fromBlock ?? head + 1);
+    if (cursor === undefined && start > head) {
+      // Nothing to scan yet; later scans begin after the current head
+      this.store.saveExecutions(chainId, address, head, []);
+      return [];
+    }
+
+    const recorded: SafeExecution[] = [];
+    for (let from = start; from <= head; from += this.config.chunkSize) {
+      const to = Math.min(from + this.config.chunkSize - 1, head);
+      let logs: RpcLog[];
+      try {
+        logs = await this.monitor.fetchLogs(
+          chain,
+          from,
+          to,
+          [[EXECUTION_SUCCESS_TOPIC, EXECUTION_FAILURE_TOPIC]],
+          address
+        );
+      } catch (error) {
+        throw new SentinelError(
+          ErrorCode.RPC_ERROR,
+          `Safe execution scan failed on ${chain} at blocks ${from}-${to}`,
+          {
+            details: { chain, safeAddress: address, fromBlock: from, toBlock: to },
+            retryable: true,
+            ...(error instanceof Error ? { cause: error } : {}),
+          }
+        );
+      }
+
+      const executions = await this.toExecutions(chain, chainId, address, logs);
+      this.store.saveExecutions(chainId, address, to, executions);
+      recorded.push(...executions);
+    }
+
+    return recorded;
+  }
+
+  /**
+   * Check the snapshots, then scan executions of every Safe among them; a chain whose scan
+   * fails is logged and retried on the next call
+   */
+  async checkCycle(
+    snapshots: TreasurySnapshot[],
+    correlationId?: string
+  ): Promise<{ alerts: TreasuryAlert[]; executions: SafeExecution[] }> {
+    const alerts = await this.checkSnapshots(snapshots, correlationId);
+    const executions: SafeExecution[] = [];
+
+    for (const snapshot of snapshots) {
+      if (!snapshot.safe) {
+        continue;
+      }
+      try {
+        executions.push(
+          ...(await this.watchExecutions(snapshot.chainName, snapshot.address, {
+            fromBlock: snapshot.blockNumber,
+          }))
+        );
+      } catch (error) {
+        log.warn(
+          `Execution scan failed for ${snapshot.address} on ${snapshot.chainName}`,
+          undefined,
+          wrapError(error)
+        );
+      }
+    }
+
+    return { alerts, executions };
+  }
+
+  private raiseAlert(state: SafeState, change: SignerChange, chain: ChainName): TreasuryAlert {
+    return {
+      id: randomUUID(),
+      severity: severityOf(change),
+      type: 'signer_change',
+      message: describe(change, state),
+      treasuryAddress: state.address,
+      chainId: state.chainId,
+      timestamp: state.timestamp,
+      acknowledged: false,
+      metadata: {
+        ...change,
+        chain,
+        owners: state.owners,
+        blockNumber: state.blockNumber,
+      },
+    };
+  }
+
+  /**
+   * Executions from logs, with destination and value decoded from the execTransaction call
+   * when the transaction was sent straight to the Safe
+   */
+  private async toExecutions(
+    chain: ChainName,
+    chainId: ChainId,
+    safeAddress: string,
+    logs: RpcLog[]
+  ): Promise<SafeExecution[]> {
+    const inputs = new Map<string, { to: string | null; input: Hex } | null>();
+    const executions: SafeExecution[] = [];
+
+    for (const log of logs) {
+      if (!inputs.has(log.transactionHash)) {
+        inputs.set(log.transactionHash, await this.fetchTransaction(chain, log.transactionHash));
+      }
+      const tx = inputs.get(log.transactionHash);
+      const call =
+        tx && tx.to?.toLowerCase() === safeAddress ? decodeExecTransaction(tx.input) : undefined;
+      const { safeTxHash, payment } = decodeExecutionLog(log.topics, log.data);
+
+      executions.push({
+        chainId,
+        safeAddress,
+        safeTxHash,
+        transactionHash: log.transactionHash,
+        blockNumber: parseInt(log.blockNumber, 16),
+        success: log.topics[0] === EXECUTION_SUCCESS_TOPIC,
+        payment,
+        ...(call ?? {}),
+      });
+    }
+
+    return executions;
+  }
+
+  private async fetchTransaction(
+    chain: ChainName,
+    hash: string
+  ): Promise<{ to: string | null; input: Hex } | null> {
+    try {
+      return await this.monitor
+        .getRpcPool(chain)
+        .request<{ to: string | null; input: Hex } | null>('eth_getTransactionByHash', [hash]);
+    } catch {
+      // The execution is still recorded, only without its destination and value
+      return null;
+    }
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Fills `treasury_snapshots` with historical snapshots over a date range, e.g. a year of
+ * history when a DAO is onboarded. Progress is saved with every snapshot, so rerunning an
+ * interrupted range picks up at the next point.
+ */
+
+import {
+  ChainId,
+  SnapshotBackfillOptions,
+  SnapshotBackfillResult,
+  TreasurySnapshot,
+} from '../../types/treasury';
+import { ErrorCode, SentinelError } from '../../utils/errors';
+import { isArchiveRequired } from '../rpc/RpcPool';
+
+import { TreasuryMonitor } from './TreasuryMonitor';
+
+/** A year of hourly snapshots */
+const MAX_BACKFILL_POINTS = 8_784;
+
+/**
+ * Where a backfill range has got to
+ */
+export interface BackfillCursor {
+  jobId: string;
+  chainId: ChainId;
+  address: string;
+  startTimestamp: number;
+  endTimestamp: number;
+  intervalMs: number;
+  nextTimestamp: number;
+  lastBlock?: number;
+}
+
+/**
+ * Where backfill progress is kept; implemented by TreasuryRepository.
+ * saveBackfillPoint must write the snapshot and the cursor atomically.
+ */
+export interface BackfillStore {
+  getBackfill(jobId: string): BackfillCursor | undefined;
+  saveBackfillPoint(cursor: BackfillCursor, snapshot?: TreasurySnapshot): void;
+}
+
+export class SnapshotBackfill {
+  constructor(
+    private monitor: TreasuryMonitor,
+    private store: BackfillStore
+  ) {}
+
+  /**
+   * Take a snapshot at every `intervalMs` step from startDate to endDate. Points that resolve
+   * to the block of the previous point are skipped. Calling again with the same options
+   * resumes an interrupted run; a finished range returns at once.
+   */
+  async run(
+    options: SnapshotBackfillOptions,
+    onProgress?: (progress: SnapshotBackfillResult) => void
+  ): Promise<SnapshotBackfillResult> {
+    const { chain, intervalMs } = options;
+    const start = options.startDate.getTime();
+    const end = options.endDate.getTime();
+    this.validate(start, end, intervalMs);
+
+    const address = this.monitor.getWalletAddresses()[chain];
+    if (!address) {
+      throw new SentinelError(
+        ErrorCode.CONFIGURATION_ERROR,
+        `No wallet address configured for chain: ${chain}`,
+        { details: { chain } }
+      );
+    }
+
+    const { chainId } = this.monitor.getChainConfig(chain);
+    const jobId = `${chain}:${address.toLowerCase()}:${start}:${end}:${intervalMs}`;
+    let cursor: BackfillCursor = this.store.getBackfill(jobId) ?? {
+      jobId,
+      chainId,
+      address,
+      startTimestamp: start,
+      endTimestamp: end,
+      intervalMs,
+      nextTimestamp: start,
+    };
+
+    let written = 0;
+    let skipped = 0;
+    const progress = (): SnapshotBackfillResult => ({
+      jobId,
+      chainName: chain,
+      address,
+      written,
+      skipped,
+      remaining: Math.max(0, Math.floor((end - cursor.nextTimestamp) / intervalMs) + 1),
+      ...(cursor.lastBlock !== undefined ? { lastBlock: cursor.lastBlock } : {}),
+      completed: cursor.nextTimestamp > end,
+    });
+
+    while (cursor.nextTimestamp <= end) {
+      const blockNumber = await this.monitor.findBlockByTimestamp(
+        chain,
+        cursor.nextTimestamp,
+        cursor.lastBlock
+      );
+      const next = { ...cursor, nextTimestamp: cursor.nextTimestamp + intervalMs };
+
+      if (blockNumber === cursor.lastBlock) {
+        this.store.saveBackfillPoint(next);
+        skipped++;
+      } else {
+        const snapshot = await this.snapshotAt(options, blockNumber);
+        next.lastBlock = blockNumber;
+        this.store.saveBackfillPoint(next, snapshot);
+        written++;
+      }
+
+      cursor = next;
+      onProgress?.(progress());
+    }
+
+    return progress();
+  }
+
+  private async snapshotAt(
+    options: SnapshotBackfillOptions,
+    blockNumber: number
+  ): Promise<TreasurySnapshot> {
+    try {
+      return await this.monitor.takeSnapshot(options.chain, { blockNumber });
+    } catch (error) {
+      if (isArchiveRequired(error)) {
+        throw new SentinelError(
+          ErrorCode.CONFIGURATION_ERROR,
+          `Backfilling ${options.chain} needs an archive RPC endpoint; the configured endpoints ` +
+            `no longer hold state for block ${blockNumber}`,
+          {
+            details: { chain: options.chain, blockNumber },
+            ...(error instanceof Error ? { cause: error } : {}),
+          }
+        );
+      }
+      throw error;
+    }
+  }
+
+  private validate(start: number, end: number, intervalMs: number): void {
+    if (!Number.isFinite(start) || !Number.isFinite(end) || start > end) {
+      throw new SentinelError(ErrorCode.VALIDATION_ERROR, 'startDate must not be after endDate');
+    }
+    if (end > Date.now()) {
+      throw new SentinelError(ErrorCode.VALIDATION_ERROR, 'endDate must not be in the future');
+    }
+    if (!Number.isInteger(intervalMs) || intervalMs <= 0) {
+      throw new SentinelError(
+        ErrorCode.VALIDATION_ERROR,
+        `intervalMs must be a positive integer: ${intervalMs}`
+      );
+    }
+    const points = Math.floor((end - start) / intervalMs) + 1;
+    if (points > MAX_BACKFILL_POINTS) {
+      throw new SentinelError(
+        ErrorCode.VALIDATION_ERROR,
+        `Backfill of ${points} snapshots exceeds the ${MAX_BACKFILL_POINTS} limit; use a longer interval`,
+        { details: { points } }
+      );
+    }
+  }
+}
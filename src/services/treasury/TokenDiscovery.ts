@@ -0,0 +1,193 @@
+/**
+ * Finds every ERC-20 a treasury wallet has held by scanning Transfer logs to and from it.
+ * Scans run in block chunks behind a persisted cursor, so later runs only read new blocks.
+ */
+
+import { ChainId, ChainName, TokenDiscoveryResult, TokenMetadata } from '../../types/treasury';
+import { ErrorCode, SentinelError } from '../../utils/errors';
+
+import { RpcLog, TreasuryMonitor } from './TreasuryMonitor';
+
+/** keccak256('Transfer(address,address,uint256)') */
+export const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+export interface TokenDiscoveryConfig {
+  /** Blocks per eth_getLogs request */
+  chunkSize: number;
+  /** Chunks are halved down to this size when a provider rejects a range */
+  minChunkSize: number;
+  /** First block to scan on each chain when a wallet has no cursor yet */
+  startBlocks: Partial<Record<ChainName, number>>;
+  /** Blocks behind the head left for a later run, so reorged logs are not recorded */
+  confirmations: number;
+  /** Add discovered tokens to the monitor's tracked tokens for snapshots */
+  trackDiscovered: boolean;
+}
+
+export const DEFAULT_DISCOVERY_CONFIG: TokenDiscoveryConfig = {
+  chunkSize: 2000,
+  minChunkSize: 10,
+  startBlocks: {},
+  confirmations: 5,
+  trackDiscovered: true,
+};
+
+export interface DiscoveredToken {
+  address: string;
+  firstSeenBlock: number;
+}
+
+/**
+ * Where discovered tokens and scan cursors are kept; implemented by TokenDiscoveryRepository.
+ * saveProgress must write the tokens and the cursor atomically.
+ */
+export interface DiscoveryStore {
+  getCursor(chainId: ChainId, walletAddress: string): number | undefined;
+  saveProgress(
+    chainId: ChainId,
+    walletAddress: string,
+    lastScannedBlock: number,
+    tokens: DiscoveredToken[]
+  ): void;
+  getTokens(chainId: ChainId, walletAddress: string): string[];
+}
+
+export class TokenDiscovery {
+  private config: TokenDiscoveryConfig;
+
+  constructor(
+    private monitor: TreasuryMonitor,
+    private store: DiscoveryStore,
+    config: Partial<TokenDiscoveryConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_DISCOVERY_CONFIG, ...config };
+  }
+
+  /**
+   * Scan the chain's treasury wallet from its cursor up to `toBlock` (default: head minus
+   * confirmations), then read metadata for tokens seen for the first time
+   */
+  async discover(chain: ChainName, toBlock?: number): Promise<TokenDiscoveryResult> {
+    const walletAddress = this.monitor.getWalletAddresses()[chain];
+    if (!walletAddress) {
+      throw new SentinelError(
+        ErrorCode.CONFIGURATION_ERROR,
+        `No wallet address configured for chain: ${chain}`,
+        { details: { chain } }
+      );
+    }
+
+    const { chainId } = this.monitor.getChainConfig(chain);
+    const head =
+      toBlock ?? (await this.monitor.fetchBlockNumber(chain)) - this.config.confirmations;
+    const cursor = this.store.getCursor(chainId, walletAddress);
+    const fromBlock = cursor !== undefined ? cursor + 1 : (this.config.startBlocks[chain] ?? 0);
+
+    const known = new Set(this.store.getTokens(chainId, walletAddress));
+    const found: DiscoveredToken[] = [];
+    let chunkSize = this.config.chunkSize;
+    let start = fromBlock;
+
+    while (start <= head) {
+      const end = Math.min(start + chunkSize - 1, head);
+      let logs: RpcLog[];
+      try {
+        logs = await this.fetchWalletTransfers(chain, walletAddress, start, end);
+      } catch (error) {
+        // Providers cap eth_getLogs by range or result count; retry the range in smaller pieces
+        if (chunkSize > this.config.minChunkSize) {
+          chunkSize = Math.max(this.config.minChunkSize, Math.floor(chunkSize / 2));
+          continue;
+        }
+        throw new SentinelError(
+          ErrorCode.RPC_ERROR,
+          `Transfer log scan failed on ${chain} at blocks ${start}-${end}`,
+          {
+            details: { chain, walletAddress, fromBlock: start, toBlock: end },
+            retryable: true,
+            ...(error instanceof Error ? { cause: error } : {}),
+          }
+        );
+      }
+
+      const tokens = this.newTokens(logs, known);
+      this.store.saveProgress(chainId, walletAddress, end, tokens);
+      found.push(...tokens);
+      start = end + 1;
+    }
+
+    const newTokens: TokenMetadata[] = [];
+    for (const token of found) {
+      newTokens.push(await this.monitor.fetchTokenMetadata(chain, token.address));
+    }
+
+    const allTokens = this.store.getTokens(chainId, walletAddress);
+    if (this.config.trackDiscovered) {
+      this.monitor.trackTokens(chain, allTokens);
+    }
+
+    return {
+      chainName: chain,
+      address: walletAddress,
+      fromBlock,
+      toBlock: Math.max(head, fromBlock - 1),
+      newTokens,
+      allTokens,
+    };
+  }
+
+  /**
+   * Discover tokens on every chain with a configured wallet; failed chains are skipped
+   */
+  async discoverAll(): Promise<TokenDiscoveryResult[]> {
+    const chains = Object.keys(this.monitor.getWalletAddresses());
+    const results: TokenDiscoveryResult[] = [];
+
+    for (const chain of chains) {
+      try {
+        results.push(await this.discover(chain));
+      } catch (error) {
+        console.error(`Failed to discover tokens for chain ${chain}:`, error);
+      }
+    }
+
+    return results;
+  }
+
+  private async fetchWalletTransfers(
+    chain: ChainName,
+    walletAddress: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<RpcLog[]> {
+    const wallet = `0x${walletAddress.slice(2).toLowerCase().padStart(64, '0')}`;
+    const [outgoing, incoming] = await Promise.all([
+      this.monitor.fetchTransferLogs(chain, fromBlock, toBlock, [TRANSFER_TOPIC, wallet]),
+      this.monitor.fetchTransferLogs(chain, fromBlock, toBlock, [TRANSFER_TOPIC, null, wallet]),
+    ]);
+    return [...outgoing, ...incoming];
+  }
+
+  /**
+   * Token contracts in the logs not seen before, each with its earliest block. ERC-721
+   * Transfers share the topic but index the token id as a fourth topic, so they are skipped.
+   */
+  private newTokens(logs: RpcLog[], known: Set<string>): DiscoveredToken[] {
+    const firstSeen = new Map<string, number>();
+    for (const log of logs) {
+      if (log.topics.length !== 3) {
+        continue;
+      }
+      const address = log.address.toLowerCase();
+      const block = parseInt(log.blockNumber, 16);
+      if (!known.has(address) && block < (firstSeen.get(address) ?? Infinity)) {
+        firstSeen.set(address, block);
+      }
+    }
+
+    for (const address of firstSeen.keys()) {
+      known.add(address);
+    }
+    return Array.from(firstSeen, ([address, firstSeenBlock]) => ({ address, firstSeenBlock }));
+  }
+}
@@ -0,0 +1,616 @@
+/**
+ * Outbound transfer anomaly detection: streams the ERC-20 Transfer logs and native Safe
+ * executions leaving each treasury, compares them with a baseline learned per token (size,
+ * frequency, counterparties) and an address book of known recipients, and raises
+ * TreasuryAlerts for the ones that stand out.
+ *
+ * Native value is only seen for Safes, through their ExecutionSuccess logs: a plain native
+ * send leaves no log, so other wallets would need every block's transactions or traces.
+ */
+
+import { randomUUID } from 'crypto';
+
+import { TreasurySentinelEventEmitter } from '../../events/EventEmitter';
+import {
+  AddressBookEntry,
+  ChainId,
+  ChainName,
+  OutboundTransfer,
+  SafeExecution,
+  TokenBalance,
+  TransferAnomalyReason,
+  TransferBaseline,
+  TreasuryAlert,
+  TreasurySnapshot,
+} from '../../types/treasury';
+import { ErrorCode, SentinelError, wrapError } from '../../utils/errors';
+import { createLogger } from '../../utils/logger';
+
+import { toUnits } from './positions';
+import { TRANSFER_TOPIC } from './TokenDiscovery';
+import { RpcLog, TreasuryMonitor } from './TreasuryMonitor';
+
+const log = createLogger('TransferAnomalyDetector');
+
+export interface TransferAnomalyConfig {
+  /** Blocks per eth_getLogs request */
+  chunkSize: number;
+  /** Blocks behind the head left for a later scan, so reorged logs are not recorded */
+  confirmations: number;
+  /** Transfers of a token seen before size, frequency and recipient checks apply */
+  minSamples: number;
+  /** Standard deviations of log10(amount) above the mean that count as a large amount */
+  sizeZScore: number;
+  /** Window transfer frequency is measured over */
+  frequencyWindowMs: number;
+  /** Multiple of the usual transfers per window that counts as a burst */
+  frequencyFactor: number;
+  /** Transfers per window never flagged, however quiet the baseline */
+  minBurst: number;
+  /** Share of the token balance in one transfer that counts as a balance drop */
+  balanceDropShare: number;
+  /** Share of the token balance in one transfer that is always critical */
+  criticalBalanceShare: number;
+}
+
+export const DEFAULT_TRANSFER_ANOMALY_CONFIG: TransferAnomalyConfig = {
+  chunkSize: 5000,
+  confirmations: 5,
+  minSamples: 10,
+  sizeZScore: 3,
+  frequencyWindowMs: 24 * 60 * 60 * 1000,
+  frequencyFactor: 3,
+  minBurst: 3,
+  balanceDropShare: 0.2,
+  criticalBalanceShare: 0.5,
+};
+
+/**
+ * Where baselines, transfers and the address book are kept; implemented by TransferRepository.
+ * saveTransfers must write the transfers, baselines and cursor atomically.
+ */
+export interface TransferStore {
+  getBaseline(chainId: ChainId, address: string, token: string): TransferBaseline | undefined;
+  getTransferCursor(chainId: ChainId, address: string): number | undefined;
+  /** Transfers of a token recorded at or after `sinceMs` */
+  countTransfersSince(chainId: ChainId, address: string, token: string, sinceMs: number): number;
+  getAddressBook(chainId: ChainId): AddressBookEntry[];
+  saveTransfers(
+    transfers: OutboundTransfer[],
+    baselines: TransferBaseline[],
+    cursor?: { chainId: ChainId; address: string; lastScannedBlock: number }
+  ): void;
+}
+
+/** Floor on the log10 spread, so a baseline of identical amounts does not flag every change */
+const MIN_LOG_SPREAD = 0.1;
+
+const NATIVE_TOKEN_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/**
+ * Why a transfer was flagged, with the numbers behind each reason
+ */
+interface Evaluation {
+  reasons: TransferAnomalyReason[];
+  explanations: string[];
+  details: Record<string, unknown>;
+}
+
+/**
+ * Critical when most of the balance leaves at once; high for a balance drop, or a large
+ * amount to an unknown recipient; a new recipient on its own is low
+ */
+function severityOf(
+  reasons: TransferAnomalyReason[],
+  balanceShare: number,
+  config: TransferAnomalyConfig
+): TreasuryAlert['severity'] {
+  const has = (reason: TransferAnomalyReason): boolean => reasons.includes(reason);
+  if (balanceShare >= config.criticalBalanceShare) {
+    return 'critical';
+  }
+  if (has('balance_share') && (has('large_amount') || has('new_recipient'))) {
+    return 'critical';
+  }
+  if (has('balance_share') || (has('large_amount') && has('new_recipient'))) {
+    return 'high';
+  }
+  if (has('large_amount') || has('high_frequency') || has('address_book_limit')) {
+    return 'medium';
+  }
+  return 'low';
+}
+
+export class TransferAnomalyDetector {
+  private config: TransferAnomalyConfig;
+  /** Non-Safe wallets already warned about, keyed by chain id and address */
+  private nativeUnwatched = new Set<string>();
+
+  constructor(
+    private monitor: TreasuryMonitor,
+    private store: TransferStore,
+    private events: TreasurySentinelEventEmitter,
+    config: Partial<TransferAnomalyConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_TRANSFER_ANOMALY_CONFIG, ...config };
+  }
+
+  /**
+   * Record the ERC-20 transfers leaving the snapshot's wallet from its cursor up to `toBlock`
+   * (default: head minus confirmations), and alert on anomalous ones. A wallet seen for the
+   * first time starts at `fromBlock`, or at the head. With `learnOnly`, transfers only train
+   * the baseline, e.g. when replaying a new treasury's history.
+   *
+   * Only tokens among the snapshot's balances are considered: anyone can emit a Transfer log
+   * naming the treasury as sender from a token contract of their own.
+   */
+  async watchTransfers(
+    snapshot: TreasurySnapshot,
+    options: {
+      fromBlock?: number;
+      toBlock?: number;
+      learnOnly?: boolean;
+      correlationId?: string;
+    } = {}
+  ): Promise<OutboundTransfer[]> {
+    const chain = snapshot.chainName;
+    const { chainId } = snapshot;
+    const address = snapshot.address.toLowerCase();
+    const head =
+      options.toBlock ?? (await this.monitor.fetchBlockNumber(chain)) - this.config.confirmations;
+    const cursor = this.store.getTransferCursor(chainId, address);
+    const start = cursor !== undefined ? cursor + 1 : (options.fromBlock ?? head + 1);
+    if (cursor === undefined && start > head) {
+      // Nothing to scan yet; later scans begin after the current head
+      this.store.saveTransfers([], [], { chainId, address, lastScannedBlock: head });
+      return [];
+    }
+
+    const balances = new Map(
+      snapshot.balances
+        .filter(
+          (balance) => balance.token !== NATIVE_TOKEN_ADDRESS && balance.position === undefined
+        )
+        .map((balance) => [balance.token.toLowerCase(), balance])
+    );
+    const wallet = `0x${address.slice(2).padStart(64, '0')}`;
+    const recorded: OutboundTransfer[] = [];
+
+    for (let from = start; from <= head; from += this.config.chunkSize) {
+      const to = Math.min(from + this.config.chunkSize - 1, head);
+      let logs: RpcLog[];
+      try {
+        logs = await this.monitor.fetchLogs(chain, from, to, [TRANSFER_TOPIC, wallet]);
+      } catch (error) {
+        throw new SentinelError(
+          ErrorCode.RPC_ERROR,
+          `Outbound transfer scan failed on ${chain} at blocks ${from}-${to}`,
+          {
+            details: { chain, address, fromBlock: from, toBlock: to },
+            retryable: true,
+            ...(error instanceof Error ? { cause: error } : {}),
+          }
+        );
+      }
+
+      const transfers = await this.toTransfers(chain, chainId, address, logs, balances);
+      const alerts = this.assess(transfers, balances, options.learnOnly === true, {
+        chainId,
+        address,
+        lastScannedBlock: to,
+      });
+      if (options.learnOnly !== true) {
+        await this.emitAlerts(alerts, options.correlationId);
+      }
+      recorded.push(...transfers);
+    }
+
+    return recorded;
+  }
+
+  /**
+   * Check native value sent by Safe executions of the snapshot's wallet (as recorded by
+   * SafeMonitor); delegatecalls and failed executions move no value and are ignored. Module
+   * and relayed executions whose value was not decoded are skipped too.
+   */
+  async checkExecutions(
+    snapshot: TreasurySnapshot,
+    executions: SafeExecution[],
+    correlationId?: string
+  ): Promise<OutboundTransfer[]> {
+    const chain = snapshot.chainName;
+    const address = snapshot.address.toLowerCase();
+    const { nativeCurrency } = this.monitor.getChainConfig(chain);
+    const native = snapshot.balances.find((balance) => balance.token === NATIVE_TOKEN_ADDRESS);
+
+    const transfers: OutboundTransfer[] = [];
+    for (const execution of executions) {
+      if (
+        execution.chainId !== snapshot.chainId ||
+        execution.safeAddress !== address ||
+        !execution.success ||
+        execution.operation !== 0 ||
+        execution.to === undefined ||
+        execution.value === undefined ||
+        execution.value === 0n
+      ) {
+        continue;
+      }
+      const usdValue = priceOf(native, nativeCurrency.decimals);
+      transfers.push({
+        chainId: snapshot.chainId,
+        treasuryAddress: address,
+        token: NATIVE_TOKEN_ADDRESS,
+        symbol: nativeCurrency.symbol,
+        decimals: nativeCurrency.decimals,
+        recipient: execution.to,
+        amount: execution.value,
+        ...(usdValue !== undefined
+          ? { usdValue: toUnits(execution.value, nativeCurrency.decimals) * usdValue }
+          : {}),
+        blockNumber: execution.blockNumber,
+        transactionHash: execution.transactionHash,
+        logIndex: -1,
+        timestamp: await this.monitor.fetchBlockTimestamp(chain, execution.blockNumber),
+        anomalies: [],
+      });
+    }
+    if (transfers.length === 0) {
+      return [];
+    }
+
+    const balances = new Map(native ? [[NATIVE_TOKEN_ADDRESS, native]] : []);
+    await this.emitAlerts(this.assess(transfers, balances, false), correlationId);
+    return transfers;
+  }
+
+  /**
+   * Scan every snapshot's wallet, then check the native value in the given Safe executions;
+   * a wallet whose scan fails is logged and retried on the next call. Native sends of a
+   * wallet that is not a Safe are not watched, which is logged once per wallet.
+   */
+  async checkCycle(
+    snapshots: TreasurySnapshot[],
+    executions: SafeExecution[] = [],
+    correlationId?: string
+  ): Promise<OutboundTransfer[]> {
+    const transfers: OutboundTransfer[] = [];
+
+    for (const snapshot of snapshots) {
+      try {
+        transfers.push(
+          ...(await this.watchTransfers(snapshot, {
+            fromBlock: snapshot.blockNumber,
+            ...(correlationId !== undefined ? { correlationId } : {}),
+          }))
+        );
+      } catch (error) {
+        log.warn(
+          `Transfer scan failed for ${snapshot.address} on ${snapshot.chainName}`,
+          undefined,
+          wrapError(error)
+        );
+      }
+      if (!snapshot.safe) {
+        this.warnNativeUnwatched(snapshot);
+        continue;
+      }
+      try {
+        transfers.push(...(await this.checkExecutions(snapshot, executions, correlationId)));
+      } catch (error) {
+        log.warn(
+          `Native transfer check failed for ${snapshot.address} on ${snapshot.chainName}`,
+          undefined,
+          wrapError(error)
+        );
+      }
+    }
+
+    return transfers;
+  }
+
+  private warnNativeUnwatched(snapshot: TreasurySnapshot): void {
+    const key = `${snapshot.chainId}:${snapshot.address.toLowerCase()}`;
+    if (this.nativeUnwatched.has(key)) {
+      return;
+    }
+    this.nativeUnwatched.add(key);
+    log.warn(
+      `${snapshot.address} on ${snapshot.chainName} is not a Safe; only its ERC-20 transfers are watched, not native sends`
+    );
+  }
+
+  /**
+   * Evaluate transfers in order against their baselines, fold each into its baseline and save
+   * the lot; returns an alert per anomalous transfer
+   */
+  private assess(
+    transfers: OutboundTransfer[],
+    balances: Map<string, TokenBalance>,
+    learnOnly: boolean,
+    cursor?: { chainId: ChainId; address: string; lastScannedBlock: number }
+  ): TreasuryAlert[] {
+    const baselines = new Map<string, TransferBaseline>();
+    const alerts: TreasuryAlert[] = [];
+    const addressBooks = new Map<ChainId, AddressBookEntry[]>();
+
+    for (const [index, transfer] of transfers.entries()) {
+      let baseline =
+        baselines.get(transfer.token) ??
+        this.store.getBaseline(transfer.chainId, transfer.treasuryAddress, transfer.token);
+      if (!addressBooks.has(transfer.chainId)) {
+        addressBooks.set(transfer.chainId, this.store.getAddressBook(transfer.chainId));
+      }
+      const entry = addressBooks
+        .get(transfer.chainId)
+        ?.find((candidate) => candidate.address.toLowerCase() === transfer.recipient);
+
+      if (!learnOnly) {
+        const recent =
+          this.store.countTransfersSince(
+            transfer.chainId,
+            transfer.treasuryAddress,
+            transfer.token,
+            transfer.timestamp - this.config.frequencyWindowMs
+          ) +
+          transfers
+            .slice(0, index)
+            .filter(
+              (earlier) =>
+                earlier.token === transfer.token &&
+                earlier.timestamp >= transfer.timestamp - this.config.frequencyWindowMs
+            ).length;
+        const evaluation = this.evaluate(
+          transfer,
+          baseline,
+          balances.get(transfer.token),
+          entry,
+          recent
+        );
+        transfer.anomalies = evaluation.reasons;
+        if (evaluation.reasons.length > 0) {
+          alerts.push(this.raiseAlert(transfer, evaluation, entry));
+        }
+      }
+
+      baseline = learn(baseline, transfer);
+      baselines.set(transfer.token, baseline);
+    }
+
+    this.store.saveTransfers(transfers, [...baselines.values()], cursor);
+    return alerts;
+  }
+
+  private evaluate(
+    transfer: OutboundTransfer,
+    baseline: TransferBaseline | undefined,
+    balance: TokenBalance | undefined,
+    entry: AddressBookEntry | undefined,
+    recentCount: number
+  ): Evaluation {
+    const reasons: TransferAnomalyReason[] = [];
+    const explanations: string[] = [];
+    const details: Record<string, unknown> = { recentCount };
+    const amount = toUnits(transfer.amount, transfer.decimals);
+
+    // The snapshot is taken after the transfer, so the balance it left was balance + amount
+    const remaining = balance ? toUnits(balance.balance, balance.decimals) : undefined;
+    const balanceShare = remaining !== undefined ? amount / (remaining + amount) : 0;
+    details['balanceShare'] = balanceShare;
+    if (balanceShare >= this.config.balanceDropShare) {
+      reasons.push('balance_share');
+      explanations.push(
+        `moved ${(balanceShare * 100).toFixed(1)}% of the ${transfer.symbol} balance`
+      );
+    }
+
+    if (
+      entry?.maxAmountUsd !== undefined &&
+      transfer.usdValue !== undefined &&
+      transfer.usdValue > entry.maxAmountUsd
+    ) {
+      reasons.push('address_book_limit');
+      explanations.push(
+        `$${transfer.usdValue.toFixed(2)} exceeds the $${entry.maxAmountUsd} limit for ${entry.label}`
+      );
+    }
+
+    if (baseline && baseline.count >= this.config.minSamples) {
+      const spread = Math.max(Math.sqrt(baseline.m2Log / (baseline.count - 1)), MIN_LOG_SPREAD);
+      const zScore = (Math.log10(amount) - baseline.meanLog) / spread;
+      details['zScore'] = zScore;
+      details['baseline'] = {
+        count: baseline.count,
+        typicalAmount: 10 ** baseline.meanLog,
+        maxAmount: baseline.maxAmount,
+      };
+      if (zScore > this.config.sizeZScore && amount > baseline.maxAmount) {
+        reasons.push('large_amount');
+        explanations.push(
+          `${amount} ${transfer.symbol} is ${zScore.toFixed(1)} standard deviations above the usual ${(10 ** baseline.meanLog).toPrecision(4)} and above the largest seen (${baseline.maxAmount})`
+        );
+      }
+
+      if (entry === undefined && baseline.recipients[transfer.recipient] === undefined) {
+        reasons.push('new_recipient');
+        explanations.push(
+          `${transfer.recipient} has not received ${transfer.symbol} before and is not in the address book`
+        );
+      }
+
+      const observedMs = Math.max(
+        baseline.lastSeen - baseline.firstSeen,
+        this.config.frequencyWindowMs
+      );
+      const expected = (baseline.count / observedMs) * this.config.frequencyWindowMs;
+      details['expectedPerWindow'] = expected;
+      if (
+        recentCount + 1 >
+        Math.max(this.config.minBurst, expected * this.config.frequencyFactor)
+      ) {
+        reasons.push('high_frequency');
+        explanations.push(
+          `${recentCount + 1} ${transfer.symbol} transfers in the window, against about ${expected.toFixed(1)} usually`
+        );
+      }
+    }
+
+    return { reasons, explanations, details };
+  }
+
+  private raiseAlert(
+    transfer: OutboundTransfer,
+    evaluation: Evaluation,
+    entry: AddressBookEntry | undefined
+  ): TreasuryAlert {
+    const amount = toUnits(transfer.amount, transfer.decimals);
+    const balanceShare = evaluation.details['balanceShare'] as number;
+    return {
+      id: randomUUID(),
+      severity: severityOf(evaluation.reasons, balanceShare, this.config),
+      type: evaluation.reasons.includes('balance_share') ? 'balance_drop' : 'unusual_transfer',
+      message: `Outbound transfer of ${amount} ${transfer.symbol} to ${entry?.label ?? transfer.recipient}: ${evaluation.explanations.join('; ')}`,
+      treasuryAddress: transfer.treasuryAddress,
+      chainId: transfer.chainId,
+      timestamp: transfer.timestamp,
+      acknowledged: false,
+      metadata: {
+        ...evaluation.details,
+        reasons: evaluation.reasons,
+        explanations: evaluation.explanations,
+        token: transfer.token,
+        symbol: transfer.symbol,
+        amount,
+        ...(transfer.usdValue !== undefined ? { usdValue: transfer.usdValue } : {}),
+        recipient: transfer.recipient,
+        ...(entry ? { recipientLabel: entry.label } : {}),
+        transactionHash: transfer.transactionHash,
+        blockNumber: transfer.blockNumber,
+      },
+    };
+  }
+
+  private async emitAlerts(alerts: TreasuryAlert[], correlationId?: string): Promise<void> {
+    for (const alert of alerts) {
+      await this.events.emit(
+        this.events.createCorrelatedEvent(
+          {
+            type: 'treasury:alert',
+            payload: {
+              alertType: alert.type === 'balance_drop' ? 'balance_drop' : 'unusual_transfer',
+              chainId: alert.chainId,
+              details: alert.metadata ?? {},
+              alert,
+            },
+          },
+          correlationId
+        )
+      );
+    }
+  }
+
+  /**
+   * Transfers from Transfer logs of known tokens, oldest first. Zero-amount transfers are
+   * dropped: any address can make a token emit one from the treasury (address poisoning).
+   */
+  private async toTransfers(
+    chain: ChainName,
+    chainId: ChainId,
+    address: string,
+    logs: RpcLog[],
+    balances: Map<string, TokenBalance>
+  ): Promise<OutboundTransfer[]> {
+    const transfers: OutboundTransfer[] = [];
+    const sorted = [...logs].sort(
+      (a, b) =>
+        parseInt(a.blockNumber, 16) - parseInt(b.blockNumber, 16) ||
+        parseInt(a.logIndex, 16) - parseInt(b.logIndex, 16)
+    );
+
+    for (const log of sorted) {
+      const balance = balances.get(log.address.toLowerCase());
+      const recipient = log.topics[2];
+      if (
+        log.topics.length !== 3 ||
+        balance === undefined ||
+        recipient === undefined ||
+        log.data === '0x'
+      ) {
+        continue;
+      }
+      const amount = BigInt(log.data);
+      if (amount === 0n) {
+        continue;
+      }
+      const blockNumber = parseInt(log.blockNumber, 16);
+      const price = priceOf(balance, balance.decimals);
+      transfers.push({
+        chainId,
+        treasuryAddress: address,
+        token: balance.token.toLowerCase(),
+        symbol: balance.symbol,
+        decimals: balance.decimals,
+        recipient: `0x${recipient.slice(26)}`.toLowerCase(),
+        amount,
+        ...(price !== undefined ? { usdValue: toUnits(amount, balance.decimals) * price } : {}),
+        blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: parseInt(log.logIndex, 16),
+        timestamp: await this.monitor.fetchBlockTimestamp(chain, blockNumber),
+        anomalies: [],
+      });
+    }
+
+    return transfers;
+  }
+}
+
+/**
+ * USD per token implied by a snapshot balance; undefined when it has no value to go by
+ */
+function priceOf(balance: TokenBalance | undefined, decimals: number): number | undefined {
+  if (!balance || balance.balance === 0n || balance.usdValue <= 0) {
+    return undefined;
+  }
+  return balance.usdValue / toUnits(balance.balance, decimals);
+}
+
+/**
+ * Fold a transfer into the baseline (Welford's online mean and variance of log10 amounts)
+ */
+function learn(
+  baseline: TransferBaseline | undefined,
+  transfer: OutboundTransfer
+): TransferBaseline {
+  const amount = toUnits(transfer.amount, transfer.decimals);
+  const value = Math.log10(amount);
+  const current: TransferBaseline = baseline ?? {
+    chainId: transfer.chainId,
+    treasuryAddress: transfer.treasuryAddress,
+    token: transfer.token,
+    count: 0,
+    meanLog: 0,
+    m2Log: 0,
+    maxAmount: 0,
+    firstSeen: transfer.timestamp,
+    lastSeen: transfer.timestamp,
+    recipients: {},
+  };
+
+  const count = current.count + 1;
+  const delta = value - current.meanLog;
+  const meanLog = current.meanLog + delta / count;
+  return {
+    ...current,
+    count,
+    meanLog,
+    m2Log: current.m2Log + delta * (value - meanLog),
+    maxAmount: Math.max(current.maxAmount, amount),
+    firstSeen: Math.min(current.firstSeen, transfer.timestamp),
+    lastSeen: Math.max(current.lastSeen, transfer.timestamp),
+    recipients: {
+      ...current.recipients,
+      [transfer.recipient]: (current.recipients[transfer.recipient] ?? 0) + 1,
+    },
+  };
+}
@@ -1,254 +1,399 @@
+import { Hex } from 'viem';
+
+import { getChainRpcConfigs } from '../../config/chains';
+import { RpcRequest, RpcRequestOptions } from '../../types/rpc';
 import {
-  Chain,
-  TreasurySnapshot,
+  BlockFinality,
+  ChainId,
+  ChainName,
+  ChainRpcConfig,
+  DecodedPosition,
+  FinalityHeads,
+  PositionProtocol,
+  PriceQuote,
+  SnapshotAt,
   TokenBalance,
+  TokenMetadata,
+  TokenMetadataCache,
   TreasuryConfig,
-  ChainConfig,
+  TreasuryMonitorConfig,
+  TreasurySnapshot,
 } from '../../types/treasury';
+import { ErrorCode, SentinelError } from '../../utils/errors';
+import { createLogger } from '../../utils/logger';
+import { PriceOracle, unavailableQuote } from '../oracle/PriceOracle';
+import { BlockHeader, fetchBlockHeader, fetchFinalityHeads, finalityOf } from '../rpc/Finality';
+import { createRpcPools, isArchiveRequired, RpcPool } from '../rpc/RpcPool';
+
+import { BlockLocator } from './BlockLocator';
+import {
+  BalanceCall,
+  ContractCall,
+  decodeAggregate3,
+  decodeBalance,
+  decodeDecimals,
+  decodeSymbol,
+  encodeAggregate3,
+  MULTICALL3_ADDRESS,
+  nativeBalanceOwner,
+  toContractCall,
+} from './Multicall';
+import { defaultPositionAdapters, PositionAdapter, PositionContext } from './positions';
+import { decodeSafeInfo } from './Safe';
+
+const log = createLogger('TreasuryMonitor');
+
+/**
+ * Stablecoins are valued at par until a price feed says otherwise
+ */
+export const DEFAULT_REFERENCE_PRICES_USD: Record<string, number> = {
+  USDC: 1,
+  'USDC.e': 1,
+  USDbC: 1,
+  USDT: 1,
+  DAI: 1,
+  xDAI: 1,
+  WXDAI: 1,
+};
+
+const NATIVE_TOKEN_ADDRESS = '0x0000000000000000000000000000000000000000';
 
-export const DEFAULT_CHAIN_CONFIGS: Record<Chain, ChainConfig> = {
-  ethereum: {
-    chainId: 1,
-    name: 'Ethereum Mainnet',
-    rpcUrl: process.env.ETHEREUM_RPC_URL || 'https://eth.llamarpc.com',
-    blockExplorer: 'https://etherscan.io',
-    nativeCurrency: { symbol: 'ETH', decimals: 18 },
-  },
-  gnosis: {
-    chainId: 100,
-    name: 'Gnosis Chain',
-    rpcUrl: process.env.GNOSIS_RPC_URL || 'https://rpc.gnosischain.com',
-    blockExplorer: 'https://gnosisscan.io',
-    nativeCurrency: { symbol: 'xDAI', decimals: 18 },
-  },
-  arbitrum: {
-    chainId: 42161,
-    name: 'Arbitrum One',
-    rpcUrl: process.env.ARBITRUM_RPC_URL || 'https://arb1.arbitrum.io/rpc',
-    blockExplorer: 'https://arbiscan.io',
-    nativeCurrency: { symbol: 'ETH', decimals: 18 },
-  },
-  optimism: {
-    chainId: 10,
-    name: 'Optimism',
-    rpcUrl: process.env.OPTIMISM_RPC_URL || 'https://mainnet.optimism.io',
-    blockExplorer: 'https://optimistic.etherscan.io',
-    nativeCurrency: { symbol: 'ETH', decimals: 18 },
-  },
-  base: {
-    chainId: 8453,
-    name: 'Base',
-    rpcUrl: process.env.BASE_RPC_URL || 'https://mainnet.base.org',
-    blockExplorer: 'https://basescan.org',
-    nativeCurrency: { symbol: 'ETH', decimals: 18 },
-  },
+/** Log entry as returned by eth_getLogs */
+export interface RpcLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  transactionHash: string;
+  logIndex: string;
+}
+
+/** Symbols for positions that are NFTs rather than ERC-20 balances */
+const POSITION_NFT_SYMBOLS: Partial<Record<PositionProtocol, string>> = {
+  'uniswap-v3': 'UNI-V3-POS',
 };
 
-// Standard ERC-20 ABI for balanceOf and decimals
-const ERC20_ABI = [
-  'function balanceOf(address owner) view returns (uint256)',
-  'function decimals() view returns (uint8)',
-  'function symbol() view returns (string)',
-] as const;
+/** Public endpoints commonly cap batch arrays around 100 requests */
+const MAX_BATCH_SIZE = 100;
+
+function toHex(value: number): string {
+  return `0x${value.toString(16)}`;
+}
+
+/**
+ * The oracle's quotes plus an `unavailable` quote for each held symbol it had no source for,
+ * so callers can tell reference-priced holdings from verified ones. Positions count as the
+ * assets they hold.
+ */
+function withUnavailableQuotes(quotes: PriceQuote[], balances: TokenBalance[]): PriceQuote[] {
+  const quoted = new Set(quotes.map((quote) => quote.symbol));
+  const missing = new Set(
+    balances
+      .flatMap((balance) =>
+        balance.position
+          ? balance.position.underlying.map(({ symbol, amount }) => ({ symbol, amount }))
+          : [{ symbol: balance.symbol, amount: balance.balance }]
+      )
+      .filter((asset) => asset.amount > 0n && !quoted.has(asset.symbol))
+      .map((asset) => asset.symbol)
+  );
+  return [...quotes, ...[...missing].map(unavailableQuote)];
+}
 
 export class TreasuryMonitor {
-  private config: TreasuryConfig;
-  private chainConfigs: Record<Chain, ChainConfig>;
+  private config: TreasuryMonitorConfig;
+  private chainConfigs: Record<ChainName, ChainRpcConfig>;
+  private pools: Record<ChainName, RpcPool>;
+  private blocks: BlockLocator;
+  private metadataCache: TokenMetadataCache | null = null;
+  private positionAdapters: PositionAdapter[] = defaultPositionAdapters();
+  private priceOracle: PriceOracle | null = new PriceOracle();
 
   constructor(
-    config: TreasuryConfig,
-    chainConfigs: Record<Chain, ChainConfig> = DEFAULT_CHAIN_CONFIGS
+    config: Partial<TreasuryMonitorConfig> = {},
+    chainConfigs: Record<ChainName, ChainRpcConfig> = getChainRpcConfigs(),
+    pools?: Record<ChainName, RpcPool>
   ) {
-    this.config = config;
     this.chainConfigs = chainConfigs;
+    this.pools = pools ?? createRpcPools(chainConfigs);
+    this.blocks = new BlockLocator(this.pools);
+    this.config = {
+      walletAddresses: config.walletAddresses ?? this.defaultWalletAddresses(),
+      trackedTokens: config.trackedTokens ?? {},
+      referencePricesUsd: { ...DEFAULT_REFERENCE_PRICES_USD, ...config.referencePricesUsd },
+    };
   }
 
-  async fetchNativeBalance(chain: Chain, address: string): Promise<bigint> {
-    const chainConfig = this.chainConfigs[chain];
-    
-    const response = await fetch(chainConfig.rpcUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        method: 'eth_getBalance',
-        params: [address, 'latest'],
-        id: 1,
-      }),
-    });
-
-    const data = await response.json();
-    if (data.error) {
-      throw new Error(`RPC error: ${data.error.message}`);
-    }
-
-    return BigInt(data.result);
+  async fetchNativeBalance(chain: ChainName, address: string): Promise<bigint> {
+    const result = await this.rpcCall(chain, 'eth_getBalance', [address, 'latest']);
+    return BigInt(result);
   }
 
   async fetchERC20Balance(
-    chain: Chain,
+    chain: ChainName,
     tokenAddress: string,
     walletAddress: string
   ): Promise<{ balance: bigint; decimals: number; symbol: string }> {
-    const chainConfig = this.chainConfigs[chain];
-
     // Encode balanceOf call
     const balanceOfSelector = '0x70a08231';
     const paddedAddress = walletAddress.slice(2).padStart(64, '0');
     const balanceOfData = balanceOfSelector + paddedAddress;
 
-    // Fetch balance
-    const balanceResponse = await fetch(chainConfig.rpcUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        method: 'eth_call',
-        params: [{ to: tokenAddress, data: balanceOfData }, 'latest'],
-        id: 1,
-      }),
-    });
+    const balanceResult = await this.rpcCall(chain, 'eth_call', [
+      { to: tokenAddress, data: balanceOfData },
+      'latest',
+    ]);
+    const { decimals, symbol } = await this.fetchTokenMetadata(chain, tokenAddress);
+
+    return {
+      balance: BigInt(balanceResult),
+      decimals,
+      symbol,
+    };
+  }
 
-    const balanceData = await balanceResponse.json();
-    if (balanceData.error) {
-      throw new Error(`Balance fetch error: ${balanceData.error.message}`);
+  /**
+   * Symbol and decimals of an ERC-20, from the metadata cache when one is set
+   */
+  async fetchTokenMetadata(chain: ChainName, tokenAddress: string): Promise<TokenMetadata> {
+    const chainId = this.getChainConfig(chain).chainId;
+    const cached = this.metadataCache?.get(chainId, tokenAddress.toLowerCase());
+    if (cached) {
+      return cached;
     }
 
-    // Fetch decimals
-    const decimalsSelector = '0x313ce567';
-    const decimalsResponse = await fetch(chainConfig.rpcUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        method: 'eth_call',
-        params: [{ to: tokenAddress, data: decimalsSelector }, 'latest'],
-        id: 2,
-      }),
-    });
+    const [decimals, symbol] = await Promise.all([
+      this.readDecimals(chain, tokenAddress),
+      this.readSymbol(chain, tokenAddress),
+    ]);
+    return this.cacheMetadata(chainId, tokenAddress, decimals, symbol);
+  }
 
-    const decimalsData = await decimalsResponse.json();
-    const decimals = decimalsData.error ? 18 : parseInt(decimalsData.result, 16);
-
-    // Fetch symbol
-    const symbolSelector = '0x95d89b41';
-    const symbolResponse = await fetch(chainConfig.rpcUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        method: 'eth_call',
-        params: [{ to: tokenAddress, data: symbolSelector }, 'latest'],
-        id: 3,
-      }),
-    });
+  /**
+   * ERC-20 Transfer logs matching the topic filter over an inclusive block range
+   */
+  async fetchTransferLogs(
+    chain: ChainName,
+    fromBlock: number,
+    toBlock: number,
+    topics: Array<string | null>
+  ): Promise<RpcLog[]> {
+    return this.fetchLogs(chain, fromBlock, toBlock, topics);
+  }
 
-    const symbolData = await symbolResponse.json();
-    let symbol = 'UNKNOWN';
-    if (!symbolData.error && symbolData.result !== '0x') {
-      try {
-        // Decode string from ABI-encoded response
-        const hex = symbolData.result.slice(2);
-        const offset = parseInt(hex.slice(0, 64), 16) * 2;
-        const length = parseInt(hex.slice(64, 128), 16);
-        const symbolHex = hex.slice(128, 128 + length * 2);
-        symbol = Buffer.from(symbolHex, 'hex').toString('utf8');
-      } catch {
-        symbol = 'UNKNOWN';
-      }
-    }
+  /**
+   * Logs matching the topic filter over an inclusive block range, optionally from one contract.
+   * A topic position may list alternatives.
+   */
+  async fetchLogs(
+    chain: ChainName,
+    fromBlock: number,
+    toBlock: number,
+    topics: Array<string | string[] | null>,
+    address?: string
+  ): Promise<RpcLog[]> {
+    return this.rpcCall<RpcLog[]>(chain, 'eth_getLogs', [
+      {
+        fromBlock: toHex(fromBlock),
+        toBlock: toHex(toBlock),
+        topics,
+        ...(address !== undefined ? { address } : {}),
+      },
+    ]);
+  }
 
-    return {
-      balance: BigInt(balanceData.result),
-      decimals,
-      symbol,
-    };
+  async fetchBlockNumber(chain: ChainName): Promise<number> {
+    const result = await this.rpcCall(chain, 'eth_blockNumber', []);
+    return parseInt(result, 16);
   }
 
-  async fetchBlockNumber(chain: Chain): Promise<number> {
-    const chainConfig = this.chainConfigs[chain];
+  /**
+   * Unix milliseconds at which a block was mined
+   */
+  async fetchBlockTimestamp(chain: ChainName, blockNumber: number): Promise<number> {
+    return (await this.blocks.getBlockTimestamp(chain, blockNumber)) * 1000;
+  }
 
-    const response = await fetch(chainConfig.rpcUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        method: 'eth_blockNumber',
-        params: [],
-        id: 1,
-      }),
-    });
+  /**
+   * Header of a block on the chain's canonical chain as the RPC pool sees it now;
+   * null when no endpoint has the block
+   */
+  async fetchBlockHeader(chain: ChainName, blockNumber: number): Promise<BlockHeader | null> {
+    return fetchBlockHeader(this.getRpcPool(chain), blockNumber);
+  }
 
-    const data = await response.json();
-    if (data.error) {
-      throw new Error(`Block number fetch error: ${data.error.message}`);
-    }
+  /**
+   * Latest, safe and finalized block numbers under the chain's finality rule
+   */
+  async fetchFinalityHeads(chain: ChainName): Promise<FinalityHeads> {
+    return fetchFinalityHeads(this.getRpcPool(chain), this.getChainConfig(chain).finality);
+  }
 
-    return parseInt(data.result, 16);
+  /**
+   * Last block mined at or before a Unix timestamp (milliseconds); see BlockLocator.findBlock
+   */
+  async findBlockByTimestamp(
+    chain: ChainName,
+    timestampMs: number,
+    fromBlock?: number
+  ): Promise<number> {
+    return this.blocks.findBlock(chain, timestampMs, fromBlock);
   }
 
-  async takeSnapshot(chain: Chain): Promise<TreasurySnapshot> {
+  /**
+   * Return data per contract call at one block (undefined where a call reverted), read the
+   * same way as snapshot balances
+   */
+  async readContractsAt(
+    chain: ChainName,
+    calls: ContractCall[],
+    blockNumber: number
+  ): Promise<Array<Hex | undefined>> {
+    return this.readContracts(chain, calls, blockNumber, {});
+  }
+
+  /**
+   * Snapshot one chain: the block number, then every balance (plus metadata for uncached tokens)
+   * in a single Multicall3 call pinned to that block, so all balances share one block.
+   * The same call reads the signer set when the wallet is a Safe. Position adapters then
+   * value aTokens, vault shares and LP NFTs by their underlying assets at the same block.
+   * Balances are valued with on-chain oracle prices at that block, or the reference prices
+   * where the oracle has no usable quote; the quotes are kept on the snapshot, with an
+   * `unavailable` quote for every held symbol no free source priced.
+   * With `at`, the snapshot is taken at a past block and stamped with that block's time;
+   * reading old state needs an archive RPC endpoint. The snapshot records the block hash and
+   * its finality; a block not yet finalized that is reorged while it is read fails the snapshot.
+   */
+  async takeSnapshot(chain: ChainName, at?: SnapshotAt): Promise<TreasurySnapshot> {
     const walletAddress = this.config.walletAddresses[chain];
     if (!walletAddress) {
       throw new Error(`No wallet address configured for chain: ${chain}`);
     }
 
-    const chainConfig = this.chainConfigs[chain];
-    const blockNumber = await this.fetchBlockNumber(chain);
-    const timestamp = Date.now();
-
-    const balances: TokenBalance[] = [];
-
-    // Fetch native balance
-    const nativeBalance = await this.fetchNativeBalance(chain, walletAddress);
-    balances.push({
-      tokenAddress: '0x0000000000000000000000000000000000000000',
-      symbol: chainConfig.nativeCurrency.symbol,
-      decimals: chainConfig.nativeCurrency.decimals,
-      rawBalance: nativeBalance.toString(),
-      formattedBalance: this.formatBalance(
+    const chainConfig = this.getChainConfig(chain);
+    const { blockNumber, blockHash, timestamp, finality } = await this.resolveSnapshotBlock(
+      chain,
+      at
+    );
+    const options: RpcRequestOptions = at !== undefined ? { historical: true } : {};
+    const prices = await this.quotePrices(chain, blockNumber, timestamp, options);
+    const priceOf = (symbol: string): number => {
+      const quote = prices.find((price) => price.symbol === symbol);
+      return quote !== undefined && quote.priceUsd > 0
+        ? quote.priceUsd
+        : (this.config.referencePricesUsd[symbol] ?? 0);
+    };
+
+    const trackedTokens = this.config.trackedTokens[chain] ?? [];
+    const cached = new Map<string, TokenMetadata>();
+    for (const token of trackedTokens) {
+      const metadata = this.metadataCache?.get(chainConfig.chainId, token.toLowerCase());
+      if (metadata) {
+        cached.set(token, metadata);
+      }
+    }
+
+    const calls: BalanceCall[] = [
+      { kind: 'native' },
+      ...trackedTokens.map((token): BalanceCall => ({ kind: 'balance', token })),
+      ...trackedTokens
+        .filter((token) => !cached.has(token))
+        .flatMap((token): BalanceCall[] => [
+          { kind: 'decimals', token },
+          { kind: 'symbol', token },
+        ]),
+      { kind: 'safeOwners' },
+      { kind: 'safeThreshold' },
+      { kind: 'safeNonce' },
+    ];
+    const results = await this.readCalls(chain, walletAddress, calls, blockNumber, options);
+    const returned = new Map(
+      calls.map((call, index) => [
+        'token' in call ? `${call.kind}:${call.token}` : call.kind,
+        results[index] ?? '0x',
+      ])
+    );
+    const resultOf = (kind: BalanceCall['kind'], token?: string): Hex =>
+      returned.get(token === undefined ? kind : `${kind}:${token}`) ?? '0x';
+
+    let balances: TokenBalance[] = [];
+
+    const nativeBalance = decodeBalance(resultOf('native'));
+    if (nativeBalance === undefined) {
+      throw new Error(`Native balance read failed on ${chain} at block ${blockNumber}`);
+    }
+    balances.push(
+      this.toTokenBalance(
+        NATIVE_TOKEN_ADDRESS,
+        chainConfig.nativeCurrency.symbol,
         nativeBalance,
-        chainConfig.nativeCurrency.decimals
-      ),
-    });
+        chainConfig.nativeCurrency.decimals,
+        priceOf(chainConfig.nativeCurrency.symbol)
+      )
+    );
 
-    // Fetch ERC-20 balances for tracked tokens
-    const trackedTokens = this.config.trackedTokens[chain] || [];
     for (const tokenAddress of trackedTokens) {
-      try {
-        const { balance, decimals, symbol } = await this.fetchERC20Balance(
-          chain,
+      const balance = decodeBalance(resultOf('balance', tokenAddress));
+      if (balance === undefined) {
+        console.error(`Failed to fetch balance for token ${tokenAddress} on ${chain}`);
+        continue;
+      }
+      const metadata =
+        cached.get(tokenAddress) ??
+        this.cacheMetadata(
+          chainConfig.chainId,
           tokenAddress,
-          walletAddress
+          decodeDecimals(resultOf('decimals', tokenAddress)),
+          decodeSymbol(resultOf('symbol', tokenAddress))
         );
-
-        balances.push({
+      balances.push(
+        this.toTokenBalance(
           tokenAddress,
-          symbol,
-          decimals,
-          rawBalance: balance.toString(),
-          formattedBalance: this.formatBalance(balance, decimals),
-        });
-      } catch (error) {
-        console.error(
-          `Failed to fetch balance for token ${tokenAddress} on ${chain}:`,
-          error
-        );
-      }
+          metadata.symbol,
+          balance,
+          metadata.decimals,
+          priceOf(metadata.symbol)
+        )
+      );
     }
 
-    return {
-      id: `${chain}-${blockNumber}-${timestamp}`,
+    balances = await this.decodePositions(
       chain,
       walletAddress,
       blockNumber,
-      timestamp,
       balances,
+      priceOf,
+      options
+    );
+
+    if (finality !== 'finalized') {
+      await this.assertCanonical(chain, blockNumber, blockHash);
+    }
+
+    const safe = decodeSafeInfo(
+      resultOf('safeOwners'),
+      resultOf('safeThreshold'),
+      resultOf('safeNonce')
+    );
+    const quotes = withUnavailableQuotes(prices, balances);
+
+    return {
+      chainId: chainConfig.chainId,
+      chainName: chain,
+      address: walletAddress,
+      balances,
+      totalUsdValue: balances.reduce((sum, b) => sum + b.usdValue, 0),
+      timestamp,
+      blockNumber,
+      blockHash,
+      finality,
+      ...(safe ? { safe } : {}),
+      ...(quotes.length > 0 ? { prices: quotes } : {}),
     };
   }
 
   async takeMultiChainSnapshot(): Promise<TreasurySnapshot[]> {
-    const chains = Object.keys(this.config.walletAddresses) as Chain[];
+    const chains = Object.keys(this.config.walletAddresses);
     const snapshots: TreasurySnapshot[] = [];
 
     for (const chain of chains) {
@@ -263,24 +408,405 @@ export class TreasuryMonitor {
     return snapshots;
   }
 
-  private formatBalance(balance: bigint, decimals: number): string {
-    const divisor = BigInt(10 ** decimals);
+  /**
+   * Convert a raw balance into a decimal number of tokens
+   */
+  formatBalance(balance: bigint, decimals: number): number {
+    const divisor = 10n ** BigInt(decimals);
     const integerPart = balance / divisor;
     const fractionalPart = balance % divisor;
 
-    const fractionalStr = fractionalPart
-      .toString()
-      .padStart(decimals, '0')
-      .slice(0, 6);
+    return Number(integerPart) + Number(fractionalPart) / Number(divisor);
+  }
 
-    return `${integerPart}.${fractionalStr}`;
+  getChainConfig(chain: ChainName): ChainRpcConfig {
+    const chainConfig = this.chainConfigs[chain];
+    if (!chainConfig) {
+      throw new SentinelError(ErrorCode.CONFIGURATION_ERROR, `Chain ${chain} is not configured`, {
+        details: { chain },
+      });
+    }
+    return chainConfig;
   }
 
-  getChainConfig(chain: Chain): ChainConfig {
-    return this.chainConfigs[chain];
+  getRpcPool(chain: ChainName): RpcPool {
+    const pool = this.pools[chain];
+    if (!pool) {
+      throw new SentinelError(ErrorCode.CONFIGURATION_ERROR, `No RPC pool for chain ${chain}`, {
+        details: { chain },
+      });
+    }
+    return pool;
   }
 
-  updateConfig(config: Partial<TreasuryConfig>): void {
+  updateConfig(config: Partial<TreasuryMonitorConfig>): void {
     this.config = { ...this.config, ...config };
   }
+
+  getWalletAddresses(): Partial<Record<ChainName, string>> {
+    return { ...this.config.walletAddresses };
+  }
+
+  /**
+   * One treasury per configured chain and wallet address
+   */
+  getTreasuryConfigs(): TreasuryConfig[] {
+    return Object.entries(this.config.walletAddresses).flatMap(([chain, address]) => {
+      const chainId = this.chainConfigs[chain]?.chainId;
+      return address !== undefined && chainId !== undefined
+        ? [{ chainId, address, label: chain }]
+        : [];
+    });
+  }
+
+  /**
+   * Add tokens to a chain's snapshot list; addresses already tracked are skipped
+   */
+  trackTokens(chain: ChainName, tokenAddresses: string[]): void {
+    const tracked = this.config.trackedTokens[chain] ?? [];
+    const known = new Set(tracked.map((token) => token.toLowerCase()));
+    const added = tokenAddresses.filter((token) => !known.has(token.toLowerCase()));
+    if (added.length > 0) {
+      this.config.trackedTokens = { ...this.config.trackedTokens, [chain]: [...tracked, ...added] };
+    }
+  }
+
+  setMetadataCache(cache: TokenMetadataCache | null): void {
+    this.metadataCache = cache;
+  }
+
+  /**
+   * Replace the oracle that prices snapshot balances; null values them at reference prices only
+   */
+  setPriceOracle(oracle: PriceOracle | null): void {
+    this.priceOracle = oracle;
+  }
+
+  /**
+   * Replace the position adapters run on every snapshot; an empty list turns decoding off
+   */
+  setPositionAdapters(adapters: PositionAdapter[]): void {
+    this.positionAdapters = adapters;
+  }
+
+  /**
+   * Run the position adapters over a snapshot's balances. A recognised balance is revalued by
+   * its underlying assets; positions that are not ERC-20 balances (LP NFTs) are appended.
+   * An adapter that fails is logged and skipped, leaving the balances as read.
+   */
+  private async decodePositions(
+    chain: ChainName,
+    walletAddress: string,
+    blockNumber: number,
+    balances: TokenBalance[],
+    priceUsd: (symbol: string) => number,
+    options: RpcRequestOptions
+  ): Promise<TokenBalance[]> {
+    const decoded = [...balances];
+
+    for (const adapter of this.positionAdapters) {
+      const context: PositionContext = {
+        chain,
+        chainId: this.getChainConfig(chain).chainId,
+        walletAddress,
+        blockNumber,
+        balances: decoded.filter((balance) => balance.position === undefined),
+        read: (calls) => this.readContracts(chain, calls, blockNumber, options),
+        metadata: (tokenAddress) => this.fetchTokenMetadata(chain, tokenAddress),
+        priceUsd,
+      };
+
+      let positions: DecodedPosition[];
+      try {
+        positions = await adapter.decode(context);
+      } catch (error) {
+        if (isArchiveRequired(error)) {
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        log.warn(`${adapter.protocol} positions skipped on ${chain}: ${message}`);
+        continue;
+      }
+
+      for (const position of positions) {
+        const index = decoded.findIndex(
+          (balance) =>
+            balance.position === undefined && balance.token.toLowerCase() === position.positionToken
+        );
+        const held = position.tokenId === undefined ? decoded[index] : undefined;
+        if (held) {
+          decoded[index] = { ...held, usdValue: position.usdValue, position };
+        } else {
+          decoded.push({
+            token: position.positionToken,
+            symbol: POSITION_NFT_SYMBOLS[position.protocol] ?? position.protocol,
+            balance: 1n,
+            decimals: 0,
+            usdValue: position.usdValue,
+            position,
+          });
+        }
+      }
+    }
+
+    return decoded;
+  }
+
+  /**
+   * Block a snapshot is read at, with its hash and finality: the head and the current time
+   * by default, otherwise the given block and the time it was mined
+   */
+  private async resolveSnapshotBlock(
+    chain: ChainName,
+    at: SnapshotAt | undefined
+  ): Promise<{
+    blockNumber: number;
+    blockHash: string;
+    timestamp: number;
+    finality: BlockFinality;
+  }> {
+    const heads = await this.fetchFinalityHeads(chain);
+
+    let blockNumber = heads.latest;
+    if (at !== undefined) {
+      blockNumber =
+        'blockNumber' in at ? at.blockNumber : await this.blocks.findBlock(chain, at.timestamp);
+      if (!Number.isInteger(blockNumber) || blockNumber < 0) {
+        throw new SentinelError(
+          ErrorCode.VALIDATION_ERROR,
+          `Invalid block number: ${blockNumber}`,
+          {
+            details: { chain, blockNumber },
+          }
+        );
+      }
+    }
+
+    const header = await this.fetchBlockHeader(chain, blockNumber);
+    if (!header) {
+      throw new SentinelError(ErrorCode.RPC_ERROR, `Block ${blockNumber} not found on ${chain}`, {
+        details: { chain, blockNumber },
+        retryable: true,
+      });
+    }
+    return {
+      blockNumber,
+      blockHash: header.hash,
+      timestamp: at === undefined ? Date.now() : header.timestamp * 1000,
+      finality: finalityOf(blockNumber, heads),
+    };
+  }
+
+  /**
+   * Throw a retryable error when the block at `blockNumber` no longer has `blockHash`
+   */
+  private async assertCanonical(
+    chain: ChainName,
+    blockNumber: number,
+    blockHash: string
+  ): Promise<void> {
+    const header = await this.fetchBlockHeader(chain, blockNumber);
+    if (header?.hash !== blockHash) {
+      throw new SentinelError(
+        ErrorCode.CHAIN_ERROR,
+        `Block ${blockNumber} on ${chain} was reorged while the snapshot was read`,
+        {
+          details: { chain, blockNumber, blockHash, canonicalHash: header?.hash ?? null },
+          retryable: true,
+        }
+      );
+    }
+  }
+
+  private toTokenBalance(
+    token: string,
+    symbol: string,
+    balance: bigint,
+    decimals: number,
+    priceUsd: number
+  ): TokenBalance {
+    return {
+      token,
+      symbol,
+      balance,
+      decimals,
+      usdValue: this.formatBalance(balance, decimals) * priceUsd,
+    };
+  }
+
+  /**
+   * Oracle quotes at the snapshot block. A failed read leaves the snapshot on reference
+   * prices, except when old state needs an archive endpoint.
+   */
+  private async quotePrices(
+    chain: ChainName,
+    blockNumber: number,
+    timestamp: number,
+    options: RpcRequestOptions
+  ): Promise<PriceQuote[]> {
+    if (!this.priceOracle) {
+      return [];
+    }
+    try {
+      return await this.priceOracle.quote({
+        chain,
+        timestamp,
+        read: (calls) => this.readContracts(chain, calls, blockNumber, options),
+      });
+    } catch (error) {
+      if (isArchiveRequired(error)) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      log.warn(`Oracle prices skipped on ${chain}: ${message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Metadata from raw reads; only complete reads are cached, a failed read falls back to
+   * 'UNKNOWN' / 18
+   */
+  private cacheMetadata(
+    chainId: ChainId,
+    tokenAddress: string,
+    decimals: number | undefined,
+    symbol: string | undefined
+  ): TokenMetadata {
+    const metadata: TokenMetadata = {
+      chainId,
+      address: tokenAddress.toLowerCase(),
+      symbol: symbol ?? 'UNKNOWN',
+      decimals: decimals ?? 18,
+    };
+    if (decimals !== undefined && symbol !== undefined) {
+      this.metadataCache?.save(metadata);
+    }
+    return metadata;
+  }
+
+  private async readDecimals(chain: ChainName, tokenAddress: string): Promise<number | undefined> {
+    try {
+      const result = await this.rpcCall<Hex>(chain, 'eth_call', [
+        { to: tokenAddress, data: '0x313ce567' },
+        'latest',
+      ]);
+      return decodeDecimals(result);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async readSymbol(chain: ChainName, tokenAddress: string): Promise<string | undefined> {
+    try {
+      const result = await this.rpcCall<Hex>(chain, 'eth_call', [
+        { to: tokenAddress, data: '0x95d89b41' },
+        'latest',
+      ]);
+      return decodeSymbol(result);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Return data per balance call at one block (undefined where a call failed)
+   */
+  private async readCalls(
+    chain: ChainName,
+    walletAddress: string,
+    calls: BalanceCall[],
+    blockNumber: number,
+    options: RpcRequestOptions
+  ): Promise<Array<Hex | undefined>> {
+    return this.readContracts(
+      chain,
+      calls.map((call) => toContractCall(call, walletAddress)),
+      blockNumber,
+      options
+    );
+  }
+
+  /**
+   * Return data per call at one block (undefined where a call failed): one Multicall3
+   * aggregate3, or a JSON-RPC batch if Multicall3 cannot be reached
+   */
+  private async readContracts(
+    chain: ChainName,
+    calls: ContractCall[],
+    blockNumber: number,
+    options: RpcRequestOptions
+  ): Promise<Array<Hex | undefined>> {
+    if (calls.length === 0) {
+      return [];
+    }
+    try {
+      // Pinned to one block, so quorum endpoints can agree on the exact return data
+      const data = await this.getRpcPool(chain).quorumRequest<Hex>(
+        'eth_call',
+        [{ to: MULTICALL3_ADDRESS, data: encodeAggregate3(calls) }, toHex(blockNumber)],
+        options
+      );
+      return decodeAggregate3(data).map((result) =>
+        result.success ? result.returnData : undefined
+      );
+    } catch (error) {
+      // Batched calls need the same state, so there is nothing to fall back to
+      if (isArchiveRequired(error)) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      log.warn(`Multicall3 failed on ${chain}, using batched calls: ${message}`);
+    }
+
+    const requests = calls.map((call) => {
+      const owner = nativeBalanceOwner(call);
+      return owner !== undefined
+        ? { method: 'eth_getBalance', params: [owner, toHex(blockNumber)] }
+        : {
+            method: 'eth_call',
+            params: [{ to: call.target, data: call.callData }, toHex(blockNumber)],
+          };
+    });
+    return this.rpcBatch<Hex>(chain, requests, options);
+  }
+
+  /**
+   * Send requests as JSON-RPC batch arrays; a failed request yields undefined in its slot
+   */
+  private async rpcBatch<R>(
+    chain: ChainName,
+    requests: RpcRequest[],
+    options: RpcRequestOptions = {}
+  ): Promise<Array<R | undefined>> {
+    const results: Array<R | undefined> = [];
+    for (let offset = 0; offset < requests.length; offset += MAX_BATCH_SIZE) {
+      results.push(
+        ...(await this.getRpcPool(chain).batch<R>(
+          requests.slice(offset, offset + MAX_BATCH_SIZE),
+          options
+        ))
+      );
+    }
+    return results;
+  }
+
+  private async rpcCall<R = string>(
+    chain: ChainName,
+    method: string,
+    params: unknown[]
+  ): Promise<R> {
+    return this.getRpcPool(chain).request<R>(method, params);
+  }
+
+  /**
+   * TREASURY_ADDRESS is watched on every configured chain when no per-chain map is given
+   */
+  private defaultWalletAddresses(): Partial<Record<ChainName, string>> {
+    const address = process.env['TREASURY_ADDRESS'];
+    if (!address) {
+      return {};
+    }
+    return Object.fromEntries(Object.keys(this.chainConfigs).map((chain) => [chain, address]));
+  }
 }
@@ -1 +1,34 @@
-export { TreasuryMonitor, DEFAULT_CHAIN_CONFIGS } from './TreasuryMonitor';
+export { BlockLocator } from './BlockLocator';
+export {
+  AaveAdapter,
+  defaultPositionAdapters,
+  Erc4626Adapter,
+  UniswapV3Adapter,
+} from './positions';
+export type { PositionAdapter, PositionContext } from './positions';
+export { DEFAULT_REORG_MONITOR_CONFIG, ReorgMonitor } from './ReorgMonitor';
+export type {
+  ReorgCheckResult,
+  ReorgMonitorConfig,
+  ReorgStore,
+  SettlementRechecker,
+  StoredSnapshotBlock,
+} from './ReorgMonitor';
+export { SnapshotBackfill } from './SnapshotBackfill';
+export type { BackfillCursor, BackfillStore } from './SnapshotBackfill';
+export {
+  decodeExecTransaction,
+  decodeExecutionLog,
+  decodeSafeInfo,
+  EXECUTION_FAILURE_TOPIC,
+  EXECUTION_SUCCESS_TOPIC,
+  SAFE_ABI,
+} from './Safe';
+export { DEFAULT_SAFE_MONITOR_CONFIG, diffSigners, SafeMonitor } from './SafeMonitor';
+export type { SafeMonitorConfig, SafeStore, SignerChange } from './SafeMonitor';
+export { DEFAULT_DISCOVERY_CONFIG, TRANSFER_TOPIC, TokenDiscovery } from './TokenDiscovery';
+export type { DiscoveredToken, DiscoveryStore, TokenDiscoveryConfig } from './TokenDiscovery';
+export { DEFAULT_TRANSFER_ANOMALY_CONFIG, TransferAnomalyDetector } from './TransferAnomalyDetector';
+export type { TransferAnomalyConfig, TransferStore } from './TransferAnomalyDetector';
+export { TreasuryMonitor } from './TreasuryMonitor';
+export type { RpcLog } from './TreasuryMonitor';
@@ -0,0 +1,78 @@
+/**
+ * Aave v2/v3 deposits. An aToken's balanceOf already reports the underlying amount, interest
+ * included; what can be withdrawn is capped by the underlying the aToken contract holds, which
+ * drops when the reserve is fully borrowed.
+ */
+
+import { encodeFunctionData, erc20Abi, Hex, parseAbi } from 'viem';
+
+import { DecodedPosition, PositionProtocol } from '../../../types/treasury';
+
+import {
+  decodeAddress,
+  decodeUint,
+  PositionAdapter,
+  PositionContext,
+  toPosition,
+  toUnderlyingAsset,
+} from './PositionAdapter';
+
+const ATOKEN_ABI = parseAbi(['function UNDERLYING_ASSET_ADDRESS() view returns (address)']);
+
+const NATIVE_TOKEN_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+export class AaveAdapter implements PositionAdapter {
+  readonly protocol: PositionProtocol = 'aave';
+
+  async decode(context: PositionContext): Promise<DecodedPosition[]> {
+    const candidates = context.balances.filter(
+      (balance) => balance.balance > 0n && balance.token !== NATIVE_TOKEN_ADDRESS
+    );
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const underlyingResults = await context.read(
+      candidates.map((balance) => ({
+        target: balance.token as Hex,
+        callData: encodeFunctionData({ abi: ATOKEN_ABI, functionName: 'UNDERLYING_ASSET_ADDRESS' }),
+      }))
+    );
+    const aTokens = candidates.flatMap((balance, index) => {
+      const underlying = decodeAddress(underlyingResults[index]);
+      return underlying !== undefined ? [{ balance, underlying }] : [];
+    });
+    if (aTokens.length === 0) {
+      return [];
+    }
+
+    const liquidity = await context.read(
+      aTokens.map(({ balance, underlying }) => ({
+        target: underlying as Hex,
+        callData: encodeFunctionData({
+          abi: erc20Abi,
+          functionName: 'balanceOf',
+          args: [balance.token as Hex],
+        }),
+      }))
+    );
+
+    const positions: DecodedPosition[] = [];
+    for (const [index, { balance, underlying }] of aTokens.entries()) {
+      const metadata = await context.metadata(underlying);
+      // Unknown reserve liquidity counts as nothing withdrawable rather than everything
+      const available = decodeUint(liquidity[index]) ?? 0n;
+      positions.push(
+        toPosition('aave', balance.token, [
+          toUnderlyingAsset(
+            metadata,
+            balance.balance,
+            available,
+            context.priceUsd(metadata.symbol)
+          ),
+        ])
+      );
+    }
+    return positions;
+  }
+}
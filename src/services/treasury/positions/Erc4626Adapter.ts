@@ -0,0 +1,81 @@
+/**
+ * ERC-4626 tokenized vaults. Shares are valued with convertToAssets at the snapshot block and
+ * maxWithdraw tells how much the vault would pay out now.
+ */
+
+import { encodeFunctionData, Hex, parseAbi } from 'viem';
+
+import { DecodedPosition, PositionProtocol } from '../../../types/treasury';
+
+import {
+  decodeAddress,
+  decodeUint,
+  PositionAdapter,
+  PositionContext,
+  toPosition,
+  toUnderlyingAsset,
+} from './PositionAdapter';
+
+const ERC4626_ABI = parseAbi([
+  'function asset() view returns (address)',
+  'function convertToAssets(uint256 shares) view returns (uint256)',
+  'function maxWithdraw(address owner) view returns (uint256)',
+]);
+
+const NATIVE_TOKEN_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+export class Erc4626Adapter implements PositionAdapter {
+  readonly protocol: PositionProtocol = 'erc4626';
+
+  async decode(context: PositionContext): Promise<DecodedPosition[]> {
+    const candidates = context.balances.filter(
+      (balance) => balance.balance > 0n && balance.token !== NATIVE_TOKEN_ADDRESS
+    );
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const results = await context.read(
+      candidates.flatMap((balance) => {
+        const target = balance.token as Hex;
+        return [
+          { target, callData: encodeFunctionData({ abi: ERC4626_ABI, functionName: 'asset' }) },
+          {
+            target,
+            callData: encodeFunctionData({
+              abi: ERC4626_ABI,
+              functionName: 'convertToAssets',
+              args: [balance.balance],
+            }),
+          },
+          {
+            target,
+            callData: encodeFunctionData({
+              abi: ERC4626_ABI,
+              functionName: 'maxWithdraw',
+              args: [context.walletAddress as Hex],
+            }),
+          },
+        ];
+      })
+    );
+
+    const positions: DecodedPosition[] = [];
+    for (const [index, balance] of candidates.entries()) {
+      const asset = decodeAddress(results[index * 3]);
+      const assets = decodeUint(results[index * 3 + 1]);
+      if (asset === undefined || assets === undefined) {
+        continue;
+      }
+      // maxWithdraw must not revert per the standard; a vault that does is treated as locked
+      const withdrawable = decodeUint(results[index * 3 + 2]) ?? 0n;
+      const metadata = await context.metadata(asset);
+      positions.push(
+        toPosition('erc4626', balance.token, [
+          toUnderlyingAsset(metadata, assets, withdrawable, context.priceUsd(metadata.symbol)),
+        ])
+      );
+    }
+    return positions;
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Position adapters decode protocol positions a treasury holds (vault shares, lending
+ * deposits, LP NFTs) into the assets they can be redeemed for and how much of that can be
+ * withdrawn now. TreasuryMonitor runs them against every snapshot at the snapshot's block.
+ */
+
+import { Hex } from 'viem';
+
+import {
+  ChainId,
+  ChainName,
+  DecodedPosition,
+  PositionProtocol,
+  TokenBalance,
+  TokenMetadata,
+  UnderlyingAsset,
+  Withdrawability,
+} from '../../../types/treasury';
+import { ContractCall } from '../Multicall';
+
+/**
+ * What an adapter may read while decoding one snapshot
+ */
+export interface PositionContext {
+  chain: ChainName;
+  chainId: ChainId;
+  walletAddress: string;
+  blockNumber: number;
+  /** Token balances not yet claimed by an earlier adapter */
+  balances: TokenBalance[];
+  /** Contract reads at the snapshot block; undefined where a call reverted */
+  read(calls: ContractCall[]): Promise<Array<Hex | undefined>>;
+  metadata(tokenAddress: string): Promise<TokenMetadata>;
+  /** USD price of a symbol, 0 when unknown */
+  priceUsd(symbol: string): number;
+}
+
+export interface PositionAdapter {
+  readonly protocol: PositionProtocol;
+  /**
+   * Positions found in the context. A position whose positionToken is one of the balances
+   * replaces that balance's value; any other position is added to the snapshot.
+   */
+  decode(context: PositionContext): Promise<DecodedPosition[]>;
+}
+
+/**
+ * Convert a raw amount into a decimal number of tokens
+ */
+export function toUnits(amount: bigint, decimals: number): number {
+  const divisor = 10n ** BigInt(decimals);
+  return Number(amount / divisor) + Number(amount % divisor) / Number(divisor);
+}
+
+export function toUnderlyingAsset(
+  metadata: TokenMetadata,
+  amount: bigint,
+  withdrawableAmount: bigint,
+  priceUsd: number
+): UnderlyingAsset {
+  const withdrawable = withdrawableAmount < amount ? withdrawableAmount : amount;
+  return {
+    token: metadata.address,
+    symbol: metadata.symbol,
+    decimals: metadata.decimals,
+    amount,
+    withdrawableAmount: withdrawable,
+    usdValue: toUnits(amount, metadata.decimals) * priceUsd,
+    withdrawableUsd: toUnits(withdrawable, metadata.decimals) * priceUsd,
+  };
+}
+
+/**
+ * Instant when every underlying can be withdrawn in full, locked when none of it can
+ */
+export function withdrawabilityOf(underlying: UnderlyingAsset[]): Withdrawability {
+  if (underlying.every((asset) => asset.withdrawableAmount === asset.amount)) {
+    return 'instant';
+  }
+  if (underlying.every((asset) => asset.withdrawableAmount === 0n)) {
+    return 'locked';
+  }
+  return 'partial';
+}
+
+export function toPosition(
+  protocol: PositionProtocol,
+  positionToken: string,
+  underlying: UnderlyingAsset[],
+  tokenId?: string
+): DecodedPosition {
+  return {
+    protocol,
+    positionToken: positionToken.toLowerCase(),
+    ...(tokenId !== undefined ? { tokenId } : {}),
+    underlying,
+    usdValue: underlying.reduce((sum, asset) => sum + asset.usdValue, 0),
+    withdrawableUsd: underlying.reduce((sum, asset) => sum + asset.withdrawableUsd, 0),
+    withdrawability: withdrawabilityOf(underlying),
+  };
+}
+
+/**
+ * An address return value; undefined for empty, malformed or zero-address results
+ */
+export function decodeAddress(returnData: Hex | undefined): string | undefined {
+  if (returnData === undefined || returnData.length !== 66) {
+    return undefined;
+  }
+  if (BigInt(returnData) >> 160n !== 0n) {
+    return undefined;
+  }
+  const address = `0x${returnData.slice(26)}`.toLowerCase();
+  return BigInt(address) === 0n ? undefined : address;
+}
+
+/**
+ * A uint256 return value; undefined for empty or malformed results
+ */
+export function decodeUint(returnData: Hex | undefined): bigint | undefined {
+  return returnData === undefined || returnData.length !== 66 ? undefined : BigInt(returnData);
+}
@@ -0,0 +1,257 @@
+/**
+ * Uniswap V3 LP positions held as NonfungiblePositionManager NFTs. Each position is valued
+ * from its liquidity and tick range at the pool's current price, plus uncollected fees.
+ * Liquidity can always be removed, so positions are instantly withdrawable.
+ */
+
+import { decodeFunctionResult, encodeFunctionData, Hex, parseAbi } from 'viem';
+
+import { ChainName, DecodedPosition, PositionProtocol } from '../../../types/treasury';
+import { createLogger } from '../../../utils/logger';
+
+import {
+  decodeAddress,
+  decodeUint,
+  PositionAdapter,
+  PositionContext,
+  toPosition,
+  toUnderlyingAsset,
+} from './PositionAdapter';
+import { getAmountsForLiquidity, getSqrtRatioAtTick } from './uniswapV3Math';
+
+const log = createLogger('UniswapV3Adapter');
+
+const POSITION_MANAGER_ABI = parseAbi([
+  'function balanceOf(address owner) view returns (uint256)',
+  'function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)',
+  'function positions(uint256 tokenId) view returns (uint96 nonce, address operator, address token0, address token1, uint24 fee, int24 tickLower, int24 tickUpper, uint128 liquidity, uint256 feeGrowthInside0LastX128, uint256 feeGrowthInside1LastX128, uint128 tokensOwed0, uint128 tokensOwed1)',
+  'function factory() view returns (address)',
+]);
+
+const FACTORY_ABI = parseAbi([
+  'function getPool(address tokenA, address tokenB, uint24 fee) view returns (address)',
+]);
+
+const POOL_ABI = parseAbi([
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+]);
+
+/** NonfungiblePositionManager deployments of the canonical Uniswap V3 */
+export const DEFAULT_POSITION_MANAGERS: Partial<Record<ChainName, string>> = {
+  ethereum: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88',
+  arbitrum: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88',
+  optimism: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88',
+  base: '0x03a520b32C04BF3bEEf7BEb72E919cf822Ed34f1',
+};
+
+/** Positions read per wallet; treasuries rarely hold more than a handful */
+const MAX_POSITIONS = 50;
+
+interface PositionData {
+  tokenId: bigint;
+  token0: string;
+  token1: string;
+  fee: number;
+  tickLower: number;
+  tickUpper: number;
+  liquidity: bigint;
+  tokensOwed0: bigint;
+  tokensOwed1: bigint;
+}
+
+export class UniswapV3Adapter implements PositionAdapter {
+  readonly protocol: PositionProtocol = 'uniswap-v3';
+
+  constructor(
+    private positionManagers: Partial<Record<ChainName, string>> = DEFAULT_POSITION_MANAGERS
+  ) {}
+
+  async decode(context: PositionContext): Promise<DecodedPosition[]> {
+    const manager = this.positionManagers[context.chain];
+    if (manager === undefined) {
+      return [];
+    }
+    const target = manager as Hex;
+    const wallet = context.walletAddress as Hex;
+
+    const [count, factory] = await context.read([
+      {
+        target,
+        callData: encodeFunctionData({
+          abi: POSITION_MANAGER_ABI,
+          functionName: 'balanceOf',
+          args: [wallet],
+        }),
+      },
+      {
+        target,
+        callData: encodeFunctionData({ abi: POSITION_MANAGER_ABI, functionName: 'factory' }),
+      },
+    ]);
+    const owned = decodeUint(count) ?? 0n;
+    const factoryAddress = decodeAddress(factory);
+    if (owned === 0n || factoryAddress === undefined) {
+      return [];
+    }
+    if (owned > BigInt(MAX_POSITIONS)) {
+      log.warn(
+        `${context.walletAddress} holds ${owned} positions on ${context.chain}, reading the first ${MAX_POSITIONS}`
+      );
+    }
+
+    const indexes = Array.from({ length: Math.min(Number(owned), MAX_POSITIONS) }, (_, i) => i);
+    const tokenIds = (
+      await context.read(
+        indexes.map((index) => ({
+          target,
+          callData: encodeFunctionData({
+            abi: POSITION_MANAGER_ABI,
+            functionName: 'tokenOfOwnerByIndex',
+            args: [wallet, BigInt(index)],
+          }),
+        }))
+      )
+    ).flatMap((result) => {
+      const tokenId = decodeUint(result);
+      return tokenId !== undefined ? [tokenId] : [];
+    });
+
+    const positionResults = await context.read(
+      tokenIds.map((tokenId) => ({
+        target,
+        callData: encodeFunctionData({
+          abi: POSITION_MANAGER_ABI,
+          functionName: 'positions',
+          args: [tokenId],
+        }),
+      }))
+    );
+    const positions = tokenIds.flatMap((tokenId, index) => {
+      const position = decodePosition(tokenId, positionResults[index]);
+      // Closed positions keep their NFT but are worth nothing
+      return position &&
+        (position.liquidity > 0n || position.tokensOwed0 > 0n || position.tokensOwed1 > 0n)
+        ? [position]
+        : [];
+    });
+    if (positions.length === 0) {
+      return [];
+    }
+
+    const prices = await this.readPoolPrices(context, factoryAddress as Hex, positions);
+
+    const decoded: DecodedPosition[] = [];
+    for (const position of positions) {
+      const sqrtPriceX96 = prices.get(poolKey(position));
+      if (sqrtPriceX96 === undefined) {
+        log.warn(`No pool price for position ${position.tokenId} on ${context.chain}`);
+        continue;
+      }
+      const { amount0, amount1 } = getAmountsForLiquidity(
+        sqrtPriceX96,
+        getSqrtRatioAtTick(position.tickLower),
+        getSqrtRatioAtTick(position.tickUpper),
+        position.liquidity
+      );
+      const [metadata0, metadata1] = await Promise.all([
+        context.metadata(position.token0),
+        context.metadata(position.token1),
+      ]);
+      const total0 = amount0 + position.tokensOwed0;
+      const total1 = amount1 + position.tokensOwed1;
+      decoded.push(
+        toPosition(
+          'uniswap-v3',
+          manager,
+          [
+            toUnderlyingAsset(metadata0, total0, total0, context.priceUsd(metadata0.symbol)),
+            toUnderlyingAsset(metadata1, total1, total1, context.priceUsd(metadata1.symbol)),
+          ],
+          position.tokenId.toString()
+        )
+      );
+    }
+    return decoded;
+  }
+
+  /**
+   * sqrtPriceX96 per pool the positions are in
+   */
+  private async readPoolPrices(
+    context: PositionContext,
+    factory: Hex,
+    positions: PositionData[]
+  ): Promise<Map<string, bigint>> {
+    const keys = [...new Map(positions.map((position) => [poolKey(position), position])).values()];
+    const pools = await context.read(
+      keys.map((position) => ({
+        target: factory,
+        callData: encodeFunctionData({
+          abi: FACTORY_ABI,
+          functionName: 'getPool',
+          args: [position.token0 as Hex, position.token1 as Hex, position.fee],
+        }),
+      }))
+    );
+    const found = keys.flatMap((position, index) => {
+      const pool = decodeAddress(pools[index]);
+      return pool !== undefined ? [{ key: poolKey(position), pool }] : [];
+    });
+
+    const slots = await context.read(
+      found.map(({ pool }) => ({
+        target: pool as Hex,
+        callData: encodeFunctionData({ abi: POOL_ABI, functionName: 'slot0' }),
+      }))
+    );
+    const prices = new Map<string, bigint>();
+    for (const [index, { key }] of found.entries()) {
+      const slot = slots[index];
+      if (slot === undefined || slot === '0x') {
+        continue;
+      }
+      try {
+        const [sqrtPriceX96] = decodeFunctionResult({
+          abi: POOL_ABI,
+          functionName: 'slot0',
+          data: slot,
+        });
+        prices.set(key, sqrtPriceX96);
+      } catch {
+        // Left out; the position is skipped with a warning
+      }
+    }
+    return prices;
+  }
+}
+
+function poolKey(position: PositionData): string {
+  return `${position.token0}:${position.token1}:${position.fee}`;
+}
+
+function decodePosition(tokenId: bigint, returnData: Hex | undefined): PositionData | undefined {
+  if (returnData === undefined || returnData === '0x') {
+    return undefined;
+  }
+  try {
+    const [, , token0, token1, fee, tickLower, tickUpper, liquidity, , , tokensOwed0, tokensOwed1] =
+      decodeFunctionResult({
+        abi: POSITION_MANAGER_ABI,
+        functionName: 'positions',
+        data: returnData,
+      });
+    return {
+      tokenId,
+      token0: token0.toLowerCase(),
+      token1: token1.toLowerCase(),
+      fee,
+      tickLower,
+      tickUpper,
+      liquidity,
+      tokensOwed0,
+      tokensOwed1,
+    };
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,26 @@
+import { AaveAdapter } from './AaveAdapter';
+import { Erc4626Adapter } from './Erc4626Adapter';
+import { PositionAdapter } from './PositionAdapter';
+import { UniswapV3Adapter } from './UniswapV3Adapter';
+
+export { AaveAdapter } from './AaveAdapter';
+export { Erc4626Adapter } from './Erc4626Adapter';
+export {
+  decodeAddress,
+  decodeUint,
+  toPosition,
+  toUnderlyingAsset,
+  toUnits,
+  withdrawabilityOf,
+} from './PositionAdapter';
+export type { PositionAdapter, PositionContext } from './PositionAdapter';
+export { DEFAULT_POSITION_MANAGERS, UniswapV3Adapter } from './UniswapV3Adapter';
+export { getAmountsForLiquidity, getSqrtRatioAtTick } from './uniswapV3Math';
+
+/**
+ * Adapters TreasuryMonitor runs by default, in order; a balance is decoded by the first
+ * adapter that recognises it
+ */
+export function defaultPositionAdapters(): PositionAdapter[] {
+  return [new AaveAdapter(), new Erc4626Adapter(), new UniswapV3Adapter()];
+}
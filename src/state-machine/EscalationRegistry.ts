@@ -0,0 +1,282 @@
+/**
+ * One escalation ladder per treasury, keyed by chain and address, drawing on a single USDC budget
+ */
+
+import { BUDGET_CONFIG } from '../config/budget';
+import {
+  EscalationLevel,
+  EscalationSnapshot,
+  EscalationState,
+  LEVEL_CONFIGS,
+} from '../types/escalation';
+import { ChainId, TreasuryConfig } from '../types/treasury';
+import { ErrorCode, SentinelError } from '../utils/errors';
+
+import {
+  compareLevels,
+  EscalationStateMachine,
+  levelForRiskScore,
+  StateMachineConfig,
+  StateMachineResult,
+} from './EscalationStateMachine';
+import type { EscalationStore } from './persistence';
+
+export interface EscalationRegistryConfig {
+  /** USDC shared by every treasury's machine */
+  totalBudgetUsdc: number;
+  /** Applied to every machine the registry creates */
+  machine: Partial<Omit<StateMachineConfig, 'treasuryId' | 'chainId' | 'treasuryAddress'>>;
+}
+
+/** A treasury's standing in the budget allocation */
+export interface BudgetClaim {
+  key: string;
+  /** Relative share of the budget; 1 unless the treasury was registered with another weight */
+  weight: number;
+  spentUsdc: number;
+  /** USDC the treasury's current or risk-indicated level costs per cycle */
+  demandUsdc: number;
+}
+
+/** Escalation state of one treasury, shaped for the dashboard */
+export interface TreasuryEscalationState {
+  key: string;
+  chainId: ChainId;
+  address: string;
+  label?: string;
+  state: EscalationState;
+  level: EscalationLevel;
+  riskScore: number;
+  totalSpent: number;
+  budgetLimit: number;
+  budgetRemaining: number;
+  pendingPayment: boolean;
+  lastEscalationTime?: number;
+}
+
+interface RegisteredTreasury {
+  treasury: TreasuryConfig;
+  weight: number;
+  machine: EscalationStateMachine;
+}
+
+/**
+ * Registry key (and escalation store treasury id) for a treasury; addresses are case-insensitive
+ */
+export function treasuryKey(chainId: ChainId, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`;
+}
+
+/**
+ * Split what is left of the budget between treasuries and return each one's budget limit
+ * (its spend so far plus its share). Weighted max-min fairness: no treasury gets more than it
+ * demands while another is still short, and budget nobody demands is split by weight so it
+ * stays available to whoever escalates next.
+ */
+export function allocateBudget(
+  totalBudgetUsdc: number,
+  claims: BudgetClaim[]
+): Map<string, number> {
+  const spent = claims.reduce((sum, claim) => sum + claim.spentUsdc, 0);
+  let pool = Math.max(0, totalBudgetUsdc - spent);
+  const shares = new Map<string, number>(claims.map((claim) => [claim.key, 0]));
+
+  let unmet = claims.filter((claim) => claim.demandUsdc > 0 && claim.weight > 0);
+  while (unmet.length > 0 && pool > 0) {
+    const totalWeight = unmet.reduce((sum, claim) => sum + claim.weight, 0);
+    const satisfiable = unmet.filter(
+      (claim) => claim.demandUsdc <= (pool * claim.weight) / totalWeight
+    );
+
+    if (satisfiable.length === 0) {
+      const available = pool;
+      for (const claim of unmet) {
+        shares.set(claim.key, (available * claim.weight) / totalWeight);
+      }
+      pool = 0;
+      break;
+    }
+
+    for (const claim of satisfiable) {
+      shares.set(claim.key, claim.demandUsdc);
+      pool -= claim.demandUsdc;
+    }
+    unmet = unmet.filter((claim) => !satisfiable.includes(claim));
+  }
+
+  const totalWeight = claims.reduce((sum, claim) => sum + claim.weight, 0);
+  return new Map(
+    claims.map((claim) => {
+      const surplus = totalWeight > 0 ? (pool * claim.weight) / totalWeight : 0;
+      return [claim.key, claim.spentUsdc + (shares.get(claim.key) ?? 0) + surplus];
+    })
+  );
+}
+
+export class EscalationRegistry {
+  private config: EscalationRegistryConfig;
+  private treasuries = new Map<string, RegisteredTreasury>();
+
+  constructor(
+    treasuries: TreasuryConfig[] = [],
+    config: Partial<EscalationRegistryConfig> = {},
+    private store: EscalationStore | null = null
+  ) {
+    this.config = {
+      totalBudgetUsdc: config.totalBudgetUsdc ?? BUDGET_CONFIG.maxBudgetUsdc,
+      machine: config.machine ?? {},
+    };
+    for (const treasury of treasuries) {
+      this.register(treasury);
+    }
+  }
+
+  /**
+   * Create the treasury's machine, resume it from the store if it has history, and rebalance
+   */
+  register(treasury: TreasuryConfig, weight: number = 1): EscalationStateMachine {
+    const key = treasuryKey(treasury.chainId, treasury.address);
+    if (this.treasuries.has(key)) {
+      throw new SentinelError(ErrorCode.DUPLICATE_RECORD, `Treasury ${key} is already registered`, {
+        details: { chainId: treasury.chainId, address: treasury.address },
+      });
+    }
+    if (!(weight > 0)) {
+      throw new SentinelError(ErrorCode.VALIDATION_ERROR, 'Treasury weight must be positive', {
+        details: { key, weight },
+      });
+    }
+
+    const machine = new EscalationStateMachine(
+      {
+        ...this.config.machine,
+        treasuryId: key,
+        chainId: treasury.chainId,
+        treasuryAddress: treasury.address,
+      },
+      this.store
+    );
+    machine.restoreLatest();
+
+    this.treasuries.set(key, { treasury, weight, machine });
+    this.rebalance();
+    return machine;
+  }
+
+  unregister(chainId: ChainId, address: string): boolean {
+    const removed = this.treasuries.delete(treasuryKey(chainId, address));
+    if (removed) {
+      this.rebalance();
+    }
+    return removed;
+  }
+
+  get(chainId: ChainId, address: string): EscalationStateMachine | undefined {
+    return this.treasuries.get(treasuryKey(chainId, address))?.machine;
+  }
+
+  getTreasuries(): TreasuryConfig[] {
+    return Array.from(this.treasuries.values(), ({ treasury }) => treasury);
+  }
+
+  /**
+   * Feed a treasury's risk score; its budget share follows the level the score calls for
+   */
+  updateRisk(chainId: ChainId, address: string, riskScore: number): StateMachineResult {
+    const result = this.require(chainId, address).machine.updateRisk(riskScore);
+    this.rebalance();
+    return result;
+  }
+
+  /**
+   * Record a treasury's cumulative spend and hand the rest of the budget out again
+   */
+  recordSpend(chainId: ChainId, address: string, totalSpentUsdc: number): StateMachineResult {
+    const result = this.require(chainId, address).machine.updateBudget(totalSpentUsdc);
+    this.rebalance();
+    return result;
+  }
+
+  /**
+   * Recompute every machine's budget limit; machines whose share is spent become BUDGET_BLOCKED
+   */
+  rebalance(): Map<string, number> {
+    const claims = Array.from(this.treasuries, ([key, { weight, machine }]) =>
+      this.claimOf(key, weight, machine)
+    );
+    const limits = allocateBudget(this.config.totalBudgetUsdc, claims);
+    for (const [key, limit] of limits) {
+      this.treasuries.get(key)?.machine.setBudgetLimit(limit);
+    }
+    return limits;
+  }
+
+  getTotalSpent(): number {
+    let total = 0;
+    for (const { machine } of this.treasuries.values()) {
+      total += machine.getContext().totalSpent;
+    }
+    return total;
+  }
+
+  getRemainingBudget(): number {
+    return Math.max(0, this.config.totalBudgetUsdc - this.getTotalSpent());
+  }
+
+  getSnapshot(chainId: ChainId, address: string): EscalationSnapshot | undefined {
+    return this.get(chainId, address)?.getCurrentState();
+  }
+
+  getTreasuryState(chainId: ChainId, address: string): TreasuryEscalationState | undefined {
+    const key = treasuryKey(chainId, address);
+    const entry = this.treasuries.get(key);
+    return entry ? this.toState(key, entry) : undefined;
+  }
+
+  /**
+   * Every treasury's state, most escalated first
+   */
+  getTreasuryStates(): TreasuryEscalationState[] {
+    return Array.from(this.treasuries, ([key, entry]) => this.toState(key, entry)).sort(
+      (a, b) => compareLevels(b.level, a.level) || b.riskScore - a.riskScore
+    );
+  }
+
+  private require(chainId: ChainId, address: string): RegisteredTreasury {
+    const key = treasuryKey(chainId, address);
+    const entry = this.treasuries.get(key);
+    if (!entry) {
+      throw new SentinelError(ErrorCode.RECORD_NOT_FOUND, `Treasury ${key} is not registered`, {
+        details: { chainId, address },
+      });
+    }
+    return entry;
+  }
+
+  private claimOf(key: string, weight: number, machine: EscalationStateMachine): BudgetClaim {
+    const { currentLevel, riskScore, totalSpent } = machine.getContext();
+    const indicated = levelForRiskScore(riskScore);
+    const level = compareLevels(indicated, currentLevel) > 0 ? indicated : currentLevel;
+    return { key, weight, spentUsdc: totalSpent, demandUsdc: LEVEL_CONFIGS[level].estimatedCost };
+  }
+
+  private toState(key: string, { treasury, machine }: RegisteredTreasury): TreasuryEscalationState {
+    const { state, level, context } = machine.getCurrentState();
+    return {
+      key,
+      chainId: treasury.chainId,
+      address: treasury.address,
+      ...(treasury.label !== undefined ? { label: treasury.label } : {}),
+      state,
+      level,
+      riskScore: context.riskScore,
+      totalSpent: context.totalSpent,
+      budgetLimit: context.budgetLimit,
+      budgetRemaining: context.budgetLimit - context.totalSpent,
+      pendingPayment: context.pendingPayment !== undefined,
+      ...(context.lastEscalationTime !== undefined
+        ? { lastEscalationTime: context.lastEscalationTime }
+        : {}),
+    };
+  }
+}
@@ -1,58 +1,87 @@
-import { EscalationLevel, EscalationContext, EscalationState, EscalationTransition } from '../types/escalation';
-import { LiquidityMetrics } from '../types/liquidity';
-import { EscalationGuards, GuardResult } from './guards';
 import { BUDGET_CONFIG } from '../config/budget';
-import { EventEmitter } from '../events/EventEmitter';
+import {
+  ESCALATION_LEVELS,
+  EscalationContext,
+  EscalationEvent,
+  EscalationLevel,
+  EscalationSnapshot,
+  EscalationState,
+  LEVEL_CONFIGS,
+} from '../types/escalation';
+
+import { evaluateAllGuards, GuardResult, shouldBlockBudget } from './guards';
+import type { EscalationStore } from './persistence';
+import { canTransition } from './transitions';
 
 export interface StateMachineConfig {
   initialLevel: EscalationLevel;
   budgetLimit: number;
-  cooldownMinutes: number;
-  enableStrictMode: boolean;
+  cooldownMs: number;
+  /** Key the machine's transitions are stored under */
+  treasuryId: string;
+  /** Treasury the machine watches, copied into its context */
+  chainId?: number;
+  treasuryAddress?: string;
 }
 
-export interface TransitionResult {
+export const DEFAULT_TREASURY_ID = 'default';
+
+export interface StateMachineResult {
   success: boolean;
+  event: EscalationEvent['type'];
+  previousState: EscalationState;
+  currentState: EscalationState;
   previousLevel: EscalationLevel;
   currentLevel: EscalationLevel;
-  guardResults: GuardResult[];
-  timestamp: Date;
-  budgetSpent?: number;
+  guardResult?: GuardResult;
+  timestamp: number;
+}
+
+export const LEVEL_ORDER: EscalationLevel[] = [...ESCALATION_LEVELS];
+
+export function compareLevels(a: EscalationLevel, b: EscalationLevel): number {
+  return LEVEL_ORDER.indexOf(a) - LEVEL_ORDER.indexOf(b);
+}
+
+/**
+ * Highest level whose risk threshold the score (0-1) meets
+ */
+export function levelForRiskScore(riskScore: number): EscalationLevel {
+  return LEVEL_ORDER.reduce<EscalationLevel>(
+    (level, candidate) => (riskScore >= LEVEL_CONFIGS[candidate].riskThreshold ? candidate : level),
+    'L0'
+  );
 }
 
-export class EscalationStateMachine extends EventEmitter<{
-  transition: TransitionResult;
-  blocked: { level: EscalationLevel; reason: string };
-  budgetExhausted: { remaining: number };
-}> {
+export class EscalationStateMachine {
+  private state: EscalationState = 'IDLE';
   private context: EscalationContext;
   private config: StateMachineConfig;
-  private transitionHistory: EscalationTransition[] = [];
+  private transitionHistory: StateMachineResult[] = [];
+  private lastEvent: EscalationEvent | undefined;
 
-  constructor(config: Partial<StateMachineConfig> = {}) {
-    super();
+  constructor(
+    config: Partial<StateMachineConfig> = {},
+    private store: EscalationStore | null = null
+  ) {
     this.config = {
-      initialLevel: EscalationLevel.L0_IDLE,
+      initialLevel: 'L0',
       budgetLimit: BUDGET_CONFIG.maxBudgetUsdc,
-      cooldownMinutes: 5,
-      enableStrictMode: true,
+      cooldownMs: 0,
+      treasuryId: DEFAULT_TREASURY_ID,
       ...config,
     };
-
-    this.context = {
-      currentLevel: this.config.initialLevel,
-      budgetRemaining: this.config.budgetLimit,
-      budgetSpent: 0,
-      lastEscalation: null,
-      transitionCount: 0,
-    };
+    this.context = this.initialContext();
   }
 
-  getCurrentState(): EscalationState {
+  getCurrentState(): EscalationSnapshot {
     return {
+      id: `${this.state}-${this.context.currentLevel}-${this.transitionHistory.length}`,
+      timestamp: Date.now(),
+      state: this.state,
       level: this.context.currentLevel,
-      enteredAt: this.context.lastEscalation || new Date(),
-      context: { ...this.context },
+      context: this.getContext(),
+      ...(this.lastEvent ? { lastEvent: this.lastEvent } : {}),
     };
   }
 
@@ -60,166 +89,270 @@ export class EscalationStateMachine extends EventEmitter<{
     return { ...this.context };
   }
 
-  getTransitionHistory(): EscalationTransition[] {
+  getTransitionHistory(): StateMachineResult[] {
     return [...this.transitionHistory];
   }
 
+  getTreasuryId(): string {
+    return this.config.treasuryId;
+  }
+
   /**
-   * Attempt to transition to a new level
-   * Fixed: Properly handle BUDGET_BLOCKED state and prevent invalid transitions
+   * Apply an event using the STATE_TRANSITIONS table and its guards
    */
-  async transition(
-    targetLevel: EscalationLevel,
-    metrics?: LiquidityMetrics | null,
-    force: boolean = false
-  ): Promise<TransitionResult> {
+  send(event: EscalationEvent): StateMachineResult {
+    const previousState = this.state;
     const previousLevel = this.context.currentLevel;
-    const timestamp = new Date();
-
-    // Fixed: Check if we're in BUDGET_BLOCKED state (budget < minimum threshold)
-    if (this.context.budgetRemaining < BUDGET_CONFIG.minOperationalBudget) {
-      const blockedResult: TransitionResult = {
-        success: false,
-        previousLevel,
-        currentLevel: previousLevel,
-        guardResults: [{
-          allowed: false,
-          reason: `System in BUDGET_BLOCKED state: ${this.context.budgetRemaining.toFixed(2)} USDC < ${BUDGET_CONFIG.minOperationalBudget} USDC minimum`,
-          blockedBy: 'BUDGET_BLOCKED',
-        }],
-        timestamp,
-      };
+    const payload = event.payload ?? {};
 
-      this.emit('blocked', { 
-        level: targetLevel, 
-        reason: 'BUDGET_BLOCKED' 
-      });
-      
-      return blockedResult;
-    }
-
-    // Fixed: Skip guards in force mode but still respect budget limits
-    if (force && !this.config.enableStrictMode) {
-      return this.executeTransition(targetLevel, [], timestamp);
-    }
-
-    // Run all guards
-    const { allowed, results } = EscalationGuards.checkAllGuards(
-      this.context,
-      targetLevel,
-      metrics
-    );
-
-    if (!allowed && !force) {
-      const blockReason = results.find(r => !r.allowed)?.blockedBy || 'UNKNOWN';
-      
-      this.emit('blocked', { level: targetLevel, reason: blockReason });
-      
-      return {
-        success: false,
-        previousLevel,
-        currentLevel: previousLevel,
-        guardResults: results,
-        timestamp,
-      };
+    if (payload.riskScore !== undefined) {
+      this.context.riskScore = payload.riskScore;
+    }
+
+    const check = canTransition(this.state, event.type, this.context);
+    let guardResult = check.guardResult;
+    let success = check.success;
+
+    // Escalating from MONITORING additionally has to clear the guards for the target level
+    if (success && event.type === 'ESCALATE' && this.state === 'MONITORING') {
+      const target = payload.targetLevel ?? this.nextLevel();
+      guardResult = evaluateAllGuards(this.context.currentLevel, target, this.context);
+      success = guardResult.allowed && compareLevels(target, this.context.currentLevel) > 0;
+    }
+
+    if (success) {
+      this.state = check.newState;
+      this.applyActions(event, check.actionsExecuted ?? [], payload);
     }
 
-    return this.executeTransition(targetLevel, results, timestamp);
+    this.lastEvent = event;
+    const result: StateMachineResult = {
+      success,
+      event: event.type,
+      previousState,
+      currentState: this.state,
+      previousLevel,
+      currentLevel: this.context.currentLevel,
+      ...(guardResult ? { guardResult } : {}),
+      timestamp: event.timestamp,
+    };
+    this.record(result, payload.reason ?? guardResult?.reason ?? event.type);
+    return result;
   }
 
   /**
-   * Execute the actual transition
-   * Fixed: Calculate budget cost correctly based on level difference
+   * Feed a new risk score (0-1); wakes the machine from IDLE or BUDGET_BLOCKED
    */
-  private executeTransition(
-    targetLevel: EscalationLevel,
-    guardResults: GuardResult[],
-    timestamp: Date
-  ): TransitionResult {
-    const previousLevel = this.context.currentLevel;
-    
-    // Calculate budget cost based on target level
-    const levelCosts: Record<EscalationLevel, number> = {
-      [EscalationLevel.L0_IDLE]: 0,
-      [EscalationLevel.L1_ALERT]: 0.1,
-      [EscalationLevel.L2_MONITOR]: 0.5,
-      [EscalationLevel.L3_ACTIVE]: 1.0,
-      [EscalationLevel.L4_CRITICAL]: 2.0,
-      [EscalationLevel.L5_EMERGENCY]: 5.0,
-    };
-
-    // Fixed: Only charge for escalation up, not de-escalation
-    let budgetSpent = 0;
-    if (targetLevel > previousLevel) {
-      budgetSpent = levelCosts[targetLevel];
+  updateRisk(riskScore: number): StateMachineResult {
+    if (this.state === 'IDLE' || this.state === 'BUDGET_BLOCKED') {
+      return this.send({ type: 'RISK_UPDATE', payload: { riskScore }, timestamp: Date.now() });
     }
+    this.context.riskScore = riskScore;
+    return this.unchanged('RISK_UPDATE');
+  }
 
-    // Update context
-    this.context.currentLevel = targetLevel;
-    this.context.budgetSpent += budgetSpent;
-    this.context.budgetRemaining -= budgetSpent;
-    this.context.lastEscalation = timestamp;
-    this.context.transitionCount++;
+  /**
+   * Move up one level: MONITORING -> ESCALATING -> MONITORING at the new level
+   */
+  transition(targetLevel: EscalationLevel, force: boolean = false): StateMachineResult {
+    if (compareLevels(targetLevel, this.context.currentLevel) <= 0) {
+      return this.deEscalate(targetLevel);
+    }
 
-    // Record transition
-    const transition: EscalationTransition = {
-      from: previousLevel,
-      to: targetLevel,
-      timestamp,
-      trigger: budgetSpent > 0 ? 'escalation' : 'de-escalation',
-      budgetImpact: budgetSpent,
-    };
-    this.transitionHistory.push(transition);
+    if (force) {
+      return this.forceLevel(targetLevel);
+    }
 
-    const result: TransitionResult = {
-      success: true,
-      previousLevel,
-      currentLevel: targetLevel,
-      guardResults,
-      timestamp,
-      budgetSpent,
-    };
+    const escalating = this.send({
+      type: 'ESCALATE',
+      payload: { targetLevel },
+      timestamp: Date.now(),
+    });
+    if (!escalating.success) {
+      return escalating;
+    }
+    return this.send({ type: 'ESCALATE', payload: { targetLevel }, timestamp: Date.now() });
+  }
 
-    this.emit('transition', result);
+  /**
+   * Drop to a lower level; reaching L0 returns the machine to IDLE
+   */
+  deEscalate(targetLevel: EscalationLevel): StateMachineResult {
+    if (compareLevels(targetLevel, this.context.currentLevel) >= 0) {
+      return this.unchanged('DE_ESCALATE');
+    }
+    if (targetLevel === 'L0' && this.state === 'MONITORING') {
+      return this.send({ type: 'DE_ESCALATE', payload: { targetLevel }, timestamp: Date.now() });
+    }
+    return this.forceLevel(targetLevel, 'DE_ESCALATE');
+  }
 
-    // Fixed: Check if budget is now exhausted after transition
-    if (this.context.budgetRemaining < BUDGET_CONFIG.minOperationalBudget) {
-      this.emit('budgetExhausted', { remaining: this.context.budgetRemaining });
+  /**
+   * Sync spend made outside the payment states (e.g. by KaikoGateway) and block once exhausted
+   */
+  updateBudget(totalSpent: number): StateMachineResult {
+    this.context.totalSpent = totalSpent;
+    if (shouldBlockBudget(this.context) && this.state !== 'BUDGET_BLOCKED') {
+      return this.send({ type: 'BUDGET_EXHAUSTED', timestamp: Date.now() });
     }
+    return this.unchanged('BUDGET_EXHAUSTED');
+  }
 
-    return result;
+  /**
+   * Move the budget ceiling (e.g. when a shared budget is reallocated) and block if it is now spent
+   */
+  setBudgetLimit(budgetLimit: number): StateMachineResult {
+    this.context.budgetLimit = budgetLimit;
+    return this.updateBudget(this.context.totalSpent);
   }
 
   /**
    * Reset the state machine
    */
   reset(): void {
-    this.context = {
-      currentLevel: this.config.initialLevel,
-      budgetRemaining: this.config.budgetLimit,
-      budgetSpent: 0,
-      lastEscalation: null,
-      transitionCount: 0,
-    };
+    this.state = 'IDLE';
+    this.context = this.initialContext();
     this.transitionHistory = [];
+    this.lastEvent = undefined;
+  }
+
+  /**
+   * Resume from a snapshot taken with getCurrentState(); transition history starts empty
+   */
+  restore(snapshot: EscalationSnapshot): void {
+    this.state = snapshot.state;
+    this.context = { ...snapshot.context, currentLevel: snapshot.level };
+    this.transitionHistory = [];
+    this.lastEvent = snapshot.lastEvent;
+  }
+
+  /**
+   * Resume from the last snapshot in the store, if there is one
+   */
+  restoreLatest(): EscalationSnapshot | undefined {
+    const snapshot = this.store?.getLatestSnapshot(this.config.treasuryId);
+    if (snapshot) {
+      this.restore(snapshot);
+    }
+    return snapshot;
   }
 
   /**
    * Check if a transition is possible without executing it
    */
-  canTransition(
+  canTransition(targetLevel: EscalationLevel): { possible: boolean; reasons: string[] } {
+    if (this.state !== 'MONITORING') {
+      return { possible: false, reasons: [`Cannot escalate from ${this.state}`] };
+    }
+    const result = evaluateAllGuards(this.context.currentLevel, targetLevel, this.context);
+    return { possible: result.allowed, reasons: [result.reason] };
+  }
+
+  private applyActions(
+    event: EscalationEvent,
+    actions: string[],
+    payload: NonNullable<EscalationEvent['payload']>
+  ): void {
+    if (actions.includes('updateLevel')) {
+      this.setLevel(payload.targetLevel ?? this.nextLevel(), event.timestamp);
+    }
+    if (actions.includes('initiatePayment') && this.context.pendingPayment) {
+      this.context.pendingPayment = {
+        ...this.context.pendingPayment,
+        ...(payload.txHash !== undefined ? { txHash: payload.txHash } : {}),
+      };
+    }
+    if (event.type === 'PAYMENT_REQUIRED' && this.state === 'AWAITING_PAYMENT') {
+      this.context.pendingPayment = {
+        amount: payload.amount ?? 0,
+        currency: 'USDC',
+        requestedAt: event.timestamp,
+        ...(payload.invoiceId !== undefined ? { invoiceId: payload.invoiceId } : {}),
+        ...(payload.recipient !== undefined ? { recipient: payload.recipient } : {}),
+      };
+      this.context.lastPaymentVerified = false;
+    }
+    if (actions.includes('recordPayment')) {
+      this.context.totalSpent += payload.amount ?? this.context.pendingPayment?.amount ?? 0;
+      delete this.context.pendingPayment;
+      this.context.lastPaymentVerified = true;
+    }
+    if (event.type === 'PAYMENT_FAILED') {
+      delete this.context.pendingPayment;
+      this.context.lastPaymentVerified = true;
+    }
+    if (event.type === 'DE_ESCALATE' && this.state === 'IDLE') {
+      this.setLevel('L0', event.timestamp);
+    }
+  }
+
+  private forceLevel(
     targetLevel: EscalationLevel,
-    metrics?: LiquidityMetrics | null
-  ): { possible: boolean; reasons: string[] } {
-    const { allowed, results } = EscalationGuards.checkAllGuards(
-      this.context,
-      targetLevel,
-      metrics
-    );
+    eventType: EscalationEvent['type'] = 'ESCALATE'
+  ): StateMachineResult {
+    const previousState = this.state;
+    const previousLevel = this.context.currentLevel;
+    const timestamp = Date.now();
+    this.setLevel(targetLevel, timestamp);
 
+    const result: StateMachineResult = {
+      success: true,
+      event: eventType,
+      previousState,
+      currentState: this.state,
+      previousLevel,
+      currentLevel: targetLevel,
+      timestamp,
+    };
+    this.record(result, `Forced ${previousLevel} -> ${targetLevel}`);
+    return result;
+  }
+
+  /**
+   * Keep the result in history and write successful transitions through to the store
+   */
+  private record(result: StateMachineResult, reason: string): void {
+    this.transitionHistory.push(result);
+    if (result.success && this.store) {
+      this.store.saveTransition(this.config.treasuryId, result, this.getCurrentState(), reason);
+    }
+  }
+
+  private setLevel(level: EscalationLevel, timestamp: number): void {
+    this.context.currentLevel = level;
+    this.context.lastEscalationTime = timestamp;
+    this.context.cooldownMs = Math.max(this.config.cooldownMs, LEVEL_CONFIGS[level].cooldownMs);
+  }
+
+  private nextLevel(): EscalationLevel {
+    const index = LEVEL_ORDER.indexOf(this.context.currentLevel);
+    return LEVEL_ORDER[Math.min(index + 1, LEVEL_ORDER.length - 1)] ?? 'L5';
+  }
+
+  private unchanged(eventType: EscalationEvent['type']): StateMachineResult {
+    return {
+      success: false,
+      event: eventType,
+      previousState: this.state,
+      currentState: this.state,
+      previousLevel: this.context.currentLevel,
+      currentLevel: this.context.currentLevel,
+      timestamp: Date.now(),
+    };
+  }
+
+  private initialContext(): EscalationContext {
     return {
-      possible: allowed,
-      reasons: results.map(r => r.reason),
+      currentLevel: this.config.initialLevel,
+      riskScore: 0,
+      totalSpent: 0,
+      budgetLimit: this.config.budgetLimit,
+      cooldownMs: this.config.cooldownMs,
+      lastPaymentVerified: true,
+      ...(this.config.chainId !== undefined ? { chainId: this.config.chainId } : {}),
+      ...(this.config.treasuryAddress !== undefined
+        ? { treasuryAddress: this.config.treasuryAddress }
+        : {}),
     };
   }
 }
@@ -1,208 +1,129 @@
-import { EscalationLevel } from '../types/escalation';
+import {
+  ESCALATION_LEVELS,
+  EscalationLevel,
+  GuardId,
+  LEVEL_CONFIGS,
+  STATE_DEFINITIONS,
+} from '../types/escalation';
+
+/**
+ * Nodes of the escalation diagram: every level plus the budget block the machine can fall into
+ */
+export type EscalationStateId = EscalationLevel | 'BUDGET_BLOCKED';
 
 export interface StateConfig {
-  level: EscalationLevel;
+  level: EscalationStateId;
   name: string;
   description: string;
   color: string;
-  autoTransitionTimeout?: number; // ms before auto-escalation
-  requiredConfirmations?: number;
+  riskThreshold?: number;
+  cooldownMs?: number;
 }
 
+export type TransitionKind = 'escalation' | 'de-escalation' | 'budget-block' | 'budget-restore';
+
 export interface TransitionConfig {
-  from: EscalationLevel;
-  to: EscalationLevel;
-  guard: string;
+  from: EscalationStateId;
+  to: EscalationStateId;
+  kind: TransitionKind;
+  guard: GuardId;
   label: string;
   cost?: number; // USDC cost for this transition
   requiresPayment: boolean;
 }
 
-export const STATE_CONFIGS: Record<EscalationLevel, StateConfig> = {
-  [EscalationLevel.L0_IDLE]: {
-    level: EscalationLevel.L0_IDLE,
-    name: 'Idle',
-    description: 'Normal operation, no active monitoring',
-    color: '#6b7280',
-    autoTransitionTimeout: undefined,
-  },
-  [EscalationLevel.L1_MONITOR]: {
-    level: EscalationLevel.L1_MONITOR,
-    name: 'Monitor',
-    description: 'Active monitoring with standard polling',
-    color: '#22c55e',
-    autoTransitionTimeout: 900000, // 15 minutes
-  },
-  [EscalationLevel.L2_ALERT]: {
-    level: EscalationLevel.L2_ALERT,
-    name: 'Alert',
-    description: 'Elevated risk detected, increased polling frequency',
-    color: '#eab308',
-    autoTransitionTimeout: 300000, // 5 minutes
-  },
-  [EscalationLevel.L3_MARKET_DATA]: {
-    level: EscalationLevel.L3_MARKET_DATA,
-    name: 'Market Data',
-    description: 'Fetching real-time market data via Kaiko (paid)',
-    color: '#f97316',
-    autoTransitionTimeout: 180000, // 3 minutes
-    requiredConfirmations: 1,
-  },
-  [EscalationLevel.L4_CRITICAL]: {
-    level: EscalationLevel.L4_CRITICAL,
-    name: 'Critical',
-    description: 'Critical risk level, immediate action required',
-    color: '#ef4444',
-    autoTransitionTimeout: 60000, // 1 minute
-    requiredConfirmations: 2,
-  },
-  [EscalationLevel.L5_EMERGENCY]: {
-    level: EscalationLevel.L5_EMERGENCY,
-    name: 'Emergency',
-    description: 'Emergency state, all hands on deck',
-    color: '#dc2626',
-    autoTransitionTimeout: undefined,
-    requiredConfirmations: 3,
-  },
-  [EscalationLevel.BUDGET_BLOCKED]: {
-    level: EscalationLevel.BUDGET_BLOCKED,
-    name: 'Budget Blocked',
-    description: 'Budget exhausted, paid features disabled',
-    color: '#7c3aed',
-    autoTransitionTimeout: undefined,
+export const STATE_CONFIGS: Record<EscalationStateId, StateConfig> = {
+  ...(Object.fromEntries(
+    ESCALATION_LEVELS.map((level) => {
+      const { name, description, color, riskThreshold, cooldownMs } = LEVEL_CONFIGS[level];
+      return [level, { level, name, description, color, riskThreshold, cooldownMs }];
+    })
+  ) as Record<EscalationLevel, StateConfig>),
+  BUDGET_BLOCKED: {
+    level: 'BUDGET_BLOCKED',
+    name: STATE_DEFINITIONS.BUDGET_BLOCKED.name,
+    description: STATE_DEFINITIONS.BUDGET_BLOCKED.description,
+    color: STATE_DEFINITIONS.BUDGET_BLOCKED.color,
   },
 };
 
-export const TRANSITION_CONFIGS: TransitionConfig[] = [
-  // Forward escalations
-  {
-    from: EscalationLevel.L0_IDLE,
-    to: EscalationLevel.L1_MONITOR,
-    guard: 'canStartMonitoring',
-    label: 'Start Monitoring',
-    requiresPayment: false,
-  },
-  {
-    from: EscalationLevel.L1_MONITOR,
-    to: EscalationLevel.L2_ALERT,
-    guard: 'shouldEscalateToAlert',
-    label: 'Risk Threshold Exceeded',
-    requiresPayment: false,
-  },
-  {
-    from: EscalationLevel.L2_ALERT,
-    to: EscalationLevel.L3_MARKET_DATA,
-    guard: 'shouldEscalateToMarketData',
-    label: 'Fetch Market Data',
-    cost: 0.5,
-    requiresPayment: true,
-  },
-  {
-    from: EscalationLevel.L3_MARKET_DATA,
-    to: EscalationLevel.L4_CRITICAL,
-    guard: 'shouldEscalateToCritical',
-    label: 'Critical Threshold',
-    cost: 1.0,
-    requiresPayment: true,
-  },
-  {
-    from: EscalationLevel.L4_CRITICAL,
-    to: EscalationLevel.L5_EMERGENCY,
-    guard: 'shouldEscalateToEmergency',
-    label: 'Emergency Protocol',
-    cost: 2.0,
-    requiresPayment: true,
-  },
-  // De-escalations
-  {
-    from: EscalationLevel.L5_EMERGENCY,
-    to: EscalationLevel.L4_CRITICAL,
-    guard: 'canDeescalateFromEmergency',
-    label: 'Stabilizing',
-    requiresPayment: false,
-  },
-  {
-    from: EscalationLevel.L4_CRITICAL,
-    to: EscalationLevel.L3_MARKET_DATA,
-    guard: 'canDeescalateFromCritical',
-    label: 'Risk Decreasing',
-    requiresPayment: false,
-  },
-  {
-    from: EscalationLevel.L3_MARKET_DATA,
-    to: EscalationLevel.L2_ALERT,
-    guard: 'canDeescalateFromMarketData',
-    label: 'Market Stable',
-    requiresPayment: false,
-  },
-  {
-    from: EscalationLevel.L2_ALERT,
-    to: EscalationLevel.L1_MONITOR,
-    guard: 'canDeescalateFromAlert',
-    label: 'Risk Normalized',
-    requiresPayment: false,
-  },
-  {
-    from: EscalationLevel.L1_MONITOR,
-    to: EscalationLevel.L0_IDLE,
-    guard: 'canStopMonitoring',
-    label: 'Stop Monitoring',
-    requiresPayment: false,
-  },
-  // Budget block transitions
-  {
-    from: EscalationLevel.L2_ALERT,
-    to: EscalationLevel.BUDGET_BLOCKED,
-    guard: 'isBudgetExhausted',
-    label: 'Budget Exhausted',
-    requiresPayment: false,
-  },
-  {
-    from: EscalationLevel.L3_MARKET_DATA,
-    to: EscalationLevel.BUDGET_BLOCKED,
-    guard: 'isBudgetExhausted',
-    label: 'Budget Exhausted',
+/** Levels that buy market data, and so can run out of budget */
+export const PAID_LEVELS: EscalationLevel[] = ESCALATION_LEVELS.filter(
+  (level) => LEVEL_CONFIGS[level].estimatedCost > 0
+);
+
+function buildTransitions(): TransitionConfig[] {
+  const pairs = ESCALATION_LEVELS.slice(1).map((to, index) => ({
+    from: ESCALATION_LEVELS[index] ?? 'L0',
+    to,
+  }));
+
+  const escalations = pairs.map(({ from, to }): TransitionConfig => {
+    const cost = LEVEL_CONFIGS[to].estimatedCost;
+    return {
+      from,
+      to,
+      kind: 'escalation',
+      guard: 'threshold',
+      label: `Risk ≥ ${LEVEL_CONFIGS[to].riskThreshold}`,
+      ...(cost > 0 ? { cost } : {}),
+      requiresPayment: cost > 0,
+    };
+  });
+
+  const deEscalations = [...pairs].reverse().map(({ from, to }): TransitionConfig => ({
+    from: to,
+    to: from,
+    kind: 'de-escalation',
+    guard: 'cooldown',
+    label: `Risk < ${LEVEL_CONFIGS[to].riskThreshold}`,
     requiresPayment: false,
-  },
-  {
-    from: EscalationLevel.L4_CRITICAL,
-    to: EscalationLevel.BUDGET_BLOCKED,
-    guard: 'isBudgetExhausted',
+  }));
+
+  const budgetBlocks = PAID_LEVELS.map((from): TransitionConfig => ({
+    from,
+    to: 'BUDGET_BLOCKED',
+    kind: 'budget-block',
+    guard: 'budget',
     label: 'Budget Exhausted',
     requiresPayment: false,
-  },
-  {
-    from: EscalationLevel.BUDGET_BLOCKED,
-    to: EscalationLevel.L1_MONITOR,
-    guard: 'hasBudgetRestored',
+  }));
+
+  // The machine resumes monitoring at its last level; the diagram shows the restart from L0
+  const budgetRestore: TransitionConfig = {
+    from: 'BUDGET_BLOCKED',
+    to: ESCALATION_LEVELS[0],
+    kind: 'budget-restore',
+    guard: 'budget',
     label: 'Budget Restored',
     requiresPayment: false,
-  },
-];
+  };
+
+  return [...escalations, ...deEscalations, ...budgetBlocks, budgetRestore];
+}
+
+export const TRANSITION_CONFIGS: TransitionConfig[] = buildTransitions();
 
-export function getStateConfig(level: EscalationLevel): StateConfig {
+export function getStateConfig(level: EscalationStateId): StateConfig {
   return STATE_CONFIGS[level];
 }
 
-export function getTransitionsFrom(level: EscalationLevel): TransitionConfig[] {
+export function getTransitionsFrom(level: EscalationStateId): TransitionConfig[] {
   return TRANSITION_CONFIGS.filter((t) => t.from === level);
 }
 
-export function getTransitionsTo(level: EscalationLevel): TransitionConfig[] {
+export function getTransitionsTo(level: EscalationStateId): TransitionConfig[] {
   return TRANSITION_CONFIGS.filter((t) => t.to === level);
 }
 
 export function findTransition(
-  from: EscalationLevel,
-  to: EscalationLevel
+  from: EscalationStateId,
+  to: EscalationStateId
 ): TransitionConfig | undefined {
   return TRANSITION_CONFIGS.find((t) => t.from === from && t.to === to);
 }
 
-export function getTransitionCost(
-  from: EscalationLevel,
-  to: EscalationLevel
-): number {
+export function getTransitionCost(from: EscalationStateId, to: EscalationStateId): number {
   const transition = findTransition(from, to);
   return transition?.cost ?? 0;
 }
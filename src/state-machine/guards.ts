@@ -1,4 +1,12 @@
-import { EscalationLevel, EscalationContext, GuardCondition } from '../types/escalation';
+import {
+  ESCALATION_LEVELS,
+  EscalationLevel,
+  EscalationContext,
+  GUARD_CONDITIONS,
+  GuardCondition,
+  GuardId,
+  LEVEL_CONFIGS,
+} from '../types/escalation';
 import { BudgetConfig, BUDGET_LIMITS } from '../config/budget';
 
 export interface GuardResult {
@@ -29,9 +37,8 @@ export function checkEscalationThreshold(
   context: EscalationContext
 ): GuardResult {
   // Fix: Validate level transition is sequential (no skipping levels)
-  const levelOrder: EscalationLevel[] = ['L0', 'L1', 'L2', 'L3', 'L4', 'L5'];
-  const currentIndex = levelOrder.indexOf(currentLevel);
-  const targetIndex = levelOrder.indexOf(targetLevel);
+  const currentIndex = ESCALATION_LEVELS.indexOf(currentLevel);
+  const targetIndex = ESCALATION_LEVELS.indexOf(targetLevel);
   
   // Allow same level (no-op) or single step transitions
   const isSequential = targetIndex <= currentIndex + 1;
@@ -45,16 +52,7 @@ export function checkEscalationThreshold(
   }
   
   // Check if risk score warrants escalation
-  const riskThresholds: Record<EscalationLevel, number> = {
-    'L0': 0,
-    'L1': 0.2,
-    'L2': 0.4,
-    'L3': 0.6,
-    'L4': 0.8,
-    'L5': 0.95
-  };
-  
-  const requiredRisk = riskThresholds[targetLevel];
+  const requiredRisk = LEVEL_CONFIGS[targetLevel].riskThreshold;
   const meetsThreshold = context.riskScore >= requiredRisk;
   
   return {
@@ -142,26 +140,9 @@ export function getGuardConditions(
   currentLevel: EscalationLevel,
   targetLevel: EscalationLevel
 ): GuardCondition[] {
-  return [
-    {
-      id: 'budget',
-      name: 'Budget Available',
-      description: 'Sufficient USDC budget remaining'
-    },
-    {
-      id: 'payment',
-      name: 'Payment Verified',
-      description: 'No pending unverified payments'
-    },
-    {
-      id: 'cooldown',
-      name: 'Cooldown Complete',
-      description: 'Minimum time between escalations'
-    },
-    {
-      id: 'threshold',
-      name: 'Risk Threshold',
-      description: `Risk score meets ${targetLevel} requirements`
-    }
-  ];
+  return (Object.keys(GUARD_CONDITIONS) as GuardId[]).map((id) =>
+    id === 'threshold'
+      ? { ...GUARD_CONDITIONS[id], description: `Risk score meets ${targetLevel} requirements` }
+      : GUARD_CONDITIONS[id]
+  );
 }
\ No newline at end of file
@@ -2,3 +2,5 @@ export * from './EscalationStateMachine';
 export * from './guards';
 export * from './config';
 export * from './transitions';
+export * from './persistence';
+export * from './EscalationRegistry';
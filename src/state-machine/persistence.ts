@@ -0,0 +1,135 @@
+/**
+ * Durable escalation state: the machine writes every transition to an EscalationStore and
+ * resumes from the last snapshot after a restart, settling any payment it left in flight
+ */
+
+import { settlementTimeoutMs } from '../services/settlement/SettlementVerifier';
+import type { SettlementVerifier } from '../services/settlement/SettlementVerifier';
+import { EscalationSnapshot } from '../types/escalation';
+
+import type { EscalationStateMachine, StateMachineResult } from './EscalationStateMachine';
+
+/** USDC has 6 decimals on Base */
+const USDC_UNITS = 1_000_000;
+
+/**
+ * Where transitions are written; implemented by EscalationEventRepository.
+ * Writes are synchronous so a transition is durable before send() returns.
+ */
+export interface EscalationStore {
+  saveTransition(
+    treasuryId: string,
+    result: StateMachineResult,
+    snapshot: EscalationSnapshot,
+    reason: string
+  ): void;
+  getLatestSnapshot(treasuryId: string): EscalationSnapshot | undefined;
+}
+
+export type PaymentSettlementVerifier = Pick<SettlementVerifier, 'verifyTransaction'>;
+
+export type PaymentReconciliation = 'none' | 'confirmed' | 'failed' | 'pending';
+
+export interface ResumeResult {
+  /** False when the store had no snapshot and the machine starts fresh */
+  restored: boolean;
+  snapshot: EscalationSnapshot;
+  reconciliation: PaymentReconciliation;
+  reason: string;
+}
+
+export interface ResumeOptions {
+  /** A payment whose transaction is still unknown after this long is treated as failed */
+  settlementTimeoutMs?: number;
+}
+
+/**
+ * Restore the machine from its store, then settle a pending payment against the chain
+ * before the agent escalates again
+ */
+export async function resumeStateMachine(
+  machine: EscalationStateMachine,
+  verifier: PaymentSettlementVerifier,
+  options: ResumeOptions = {}
+): Promise<ResumeResult> {
+  const restored = machine.restoreLatest() !== undefined;
+  const { reconciliation, reason } = await reconcilePendingPayment(machine, verifier, options);
+  return { restored, snapshot: machine.getCurrentState(), reconciliation, reason };
+}
+
+/**
+ * Confirm or fail the machine's pending payment based on its on-chain transfer.
+ * A payment that may still land (unconfirmed or unreachable RPC) stays pending, which keeps
+ * the payment guard blocking escalation.
+ */
+export async function reconcilePendingPayment(
+  machine: EscalationStateMachine,
+  verifier: PaymentSettlementVerifier,
+  options: ResumeOptions = {}
+): Promise<{ reconciliation: PaymentReconciliation; reason: string }> {
+  const { state, context } = machine.getCurrentState();
+  const pending = context.pendingPayment;
+  if (!pending) {
+    return { reconciliation: 'none', reason: 'No pending payment' };
+  }
+
+  if (state === 'AWAITING_PAYMENT' || pending.txHash === undefined) {
+    machine.send({
+      type: 'PAYMENT_FAILED',
+      payload: { reason: 'Payment was never submitted' },
+      timestamp: Date.now(),
+    });
+    return { reconciliation: 'failed', reason: 'Payment was never submitted' };
+  }
+
+  const verification = await verifier.verifyTransaction(pending.txHash, pending.recipient);
+  const expected = BigInt(Math.round(pending.amount * USDC_UNITS));
+
+  if (verification.verified && verification.amount >= expected) {
+    const timestamp = Date.now();
+    machine.send({
+      type: 'PAYMENT_CONFIRMED',
+      payload: { amount: pending.amount, txHash: pending.txHash },
+      timestamp,
+    });
+    machine.send({ type: 'COOLDOWN_COMPLETE', timestamp });
+    return {
+      reconciliation: 'confirmed',
+      reason: `Payment ${pending.txHash} settled with ${verification.confirmations} confirmations`,
+    };
+  }
+
+  const timeoutMs = options.settlementTimeoutMs ?? settlementTimeoutMs();
+  const expired = Date.now() - pending.requestedAt > timeoutMs;
+  const failure = settlementFailure(verification, expected, expired);
+  if (failure !== null) {
+    machine.send({
+      type: 'PAYMENT_FAILED',
+      payload: { txHash: pending.txHash, reason: failure },
+      timestamp: Date.now(),
+    });
+    return { reconciliation: 'failed', reason: failure };
+  }
+
+  return {
+    reconciliation: 'pending',
+    reason: verification.error ?? `Awaiting confirmations (${verification.confirmations})`,
+  };
+}
+
+function settlementFailure(
+  verification: Awaited<ReturnType<PaymentSettlementVerifier['verifyTransaction']>>,
+  expected: bigint,
+  expired: boolean
+): string | null {
+  if (verification.verified) {
+    return `Insufficient amount: expected ${expected}, got ${verification.amount}`;
+  }
+  if (verification.error === 'No USDC transfer to receiver found') {
+    return verification.error;
+  }
+  if (verification.error === 'Transaction not found' && expired) {
+    return 'Transaction not found before the settlement timeout';
+  }
+  return null;
+}
@@ -1,4 +1,10 @@
-import { EscalationState, EscalationTransition, EscalationEvent, EscalationContext } from '../types/escalation';
+import {
+  EscalationState,
+  EscalationTransition,
+  EscalationEvent,
+  EscalationContext,
+  STATE_DEFINITIONS,
+} from '../types/escalation';
 import { evaluateAllGuards, shouldBlockBudget, GuardResult } from './guards';
 
 export const STATE_TRANSITIONS: EscalationTransition[] = [
@@ -9,6 +15,7 @@ export const STATE_TRANSITIONS: EscalationTransition[] = [
   { from: 'MONITORING', to: 'ESCALATING', event: 'ESCALATE', guards: ['budget', 'threshold', 'cooldown'] },
   { from: 'MONITORING', to: 'BUDGET_BLOCKED', event: 'BUDGET_EXHAUSTED' },
   { from: 'MONITORING', to: 'IDLE', event: 'DE_ESCALATE' },
+  { from: 'MONITORING', to: 'AWAITING_PAYMENT', event: 'PAYMENT_REQUIRED' },
   
   // From ESCALATING
   { from: 'ESCALATING', to: 'AWAITING_PAYMENT', event: 'PAYMENT_REQUIRED' },
@@ -17,6 +24,7 @@ export const STATE_TRANSITIONS: EscalationTransition[] = [
   
   // From AWAITING_PAYMENT
   { from: 'AWAITING_PAYMENT', to: 'PAYMENT_PENDING', event: 'PAYMENT_REQUIRED', actions: ['initiatePayment'] },
+  { from: 'AWAITING_PAYMENT', to: 'MONITORING', event: 'PAYMENT_FAILED' },
   { from: 'AWAITING_PAYMENT', to: 'BUDGET_BLOCKED', event: 'BUDGET_EXHAUSTED' },
   
   // From PAYMENT_PENDING
@@ -111,15 +119,5 @@ export function getAvailableTransitions(
 }
 
 export function getStateDescription(state: EscalationState): string {
-  const descriptions: Record<EscalationState, string> = {
-    'IDLE': 'System idle, no active monitoring',
-    'MONITORING': 'Actively monitoring treasury positions',
-    'ESCALATING': 'Processing escalation to higher data tier',
-    'AWAITING_PAYMENT': 'HTTP 402 received, payment required',
-    'PAYMENT_PENDING': 'Payment submitted, awaiting confirmation',
-    'BUDGET_BLOCKED': 'Demo budget exhausted (10 USDC limit)',
-    'COOLDOWN': 'Post-payment cooldown period active'
-  };
-  
-  return descriptions[state];
+  return STATE_DEFINITIONS[state].description;
 }
\ No newline at end of file
@@ -0,0 +1,144 @@
+/**
+ * Exhaustiveness of the canonical escalation model. The type assertions fail `npm run
+ * typecheck` when a table misses, adds or misfiles a level, state or guard; the runtime
+ * checks cover what the configs derive from the tables.
+ */
+
+import {
+  EscalationStateId,
+  PAID_LEVELS,
+  STATE_CONFIGS,
+  TRANSITION_CONFIGS,
+} from '../../state-machine/config';
+import { checkEscalationThreshold } from '../../state-machine/guards';
+import { STATE_TRANSITIONS } from '../../state-machine/transitions';
+import {
+  assertNever,
+  ESCALATION_LEVELS,
+  ESCALATION_STATES,
+  EscalationContext,
+  EscalationLevel,
+  EscalationState,
+  GUARD_CONDITIONS,
+  GUARD_IDS,
+  GuardId,
+  LEVEL_CONFIGS,
+  STATE_DEFINITIONS,
+} from '../escalation';
+
+type Equals<A, B> =
+  (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2 ? true : false;
+
+/** Keys whose entry names a different key in `Field` */
+type MisfiledKeys<Table, Field extends string> = {
+  [K in keyof Table]: Table[K] extends Record<Field, K> ? never : K;
+}[keyof Table];
+
+/** Compile only when `T` is true / never; the calls do nothing at runtime */
+function assertType<T extends true>(_proof?: T): void {}
+function assertNone<T extends never>(_proof?: T): void {}
+
+const context = (riskScore: number): EscalationContext => ({
+  currentLevel: 'L0',
+  riskScore,
+  totalSpent: 0,
+  budgetLimit: 10,
+  cooldownMs: 0,
+  lastPaymentVerified: true,
+});
+
+describe('escalation model', () => {
+  it('keys every table by exactly its union, each entry under its own key', () => {
+    assertType<Equals<keyof typeof LEVEL_CONFIGS, EscalationLevel>>();
+    assertType<Equals<keyof typeof STATE_DEFINITIONS, EscalationState>>();
+    assertType<Equals<keyof typeof GUARD_CONDITIONS, GuardId>>();
+    assertType<Equals<keyof typeof STATE_CONFIGS, EscalationStateId>>();
+    assertNone<MisfiledKeys<typeof LEVEL_CONFIGS, 'level'>>();
+    assertNone<MisfiledKeys<typeof STATE_DEFINITIONS, 'state'>>();
+    assertNone<MisfiledKeys<typeof GUARD_CONDITIONS, 'id'>>();
+
+    expect(Object.keys(LEVEL_CONFIGS)).toEqual([...ESCALATION_LEVELS]);
+    expect(Object.keys(STATE_DEFINITIONS)).toEqual([...ESCALATION_STATES]);
+    expect(Object.keys(GUARD_CONDITIONS)).toEqual([...GUARD_IDS]);
+    expect(Object.values(LEVEL_CONFIGS).map((config) => config.level)).toEqual([
+      ...ESCALATION_LEVELS,
+    ]);
+    expect(Object.keys(STATE_CONFIGS).sort()).toEqual(
+      [...ESCALATION_LEVELS, 'BUDGET_BLOCKED'].sort()
+    );
+  });
+
+  it('handles every state in a switch', () => {
+    const kind = (state: EscalationState): string => {
+      switch (state) {
+        case 'IDLE':
+        case 'MONITORING':
+        case 'COOLDOWN':
+          return 'free';
+        case 'ESCALATING':
+        case 'AWAITING_PAYMENT':
+        case 'PAYMENT_PENDING':
+          return 'paying';
+        case 'BUDGET_BLOCKED':
+          return 'blocked';
+        default:
+          return assertNever(state);
+      }
+    };
+
+    expect(new Set(ESCALATION_STATES.map(kind))).toEqual(new Set(['free', 'paying', 'blocked']));
+  });
+
+  it('raises thresholds, costs and cooldowns with the level', () => {
+    const configs = ESCALATION_LEVELS.map((level) => LEVEL_CONFIGS[level]);
+
+    for (const [index, config] of configs.entries()) {
+      const previous = configs[index - 1];
+      if (previous) {
+        expect(config.riskThreshold).toBeGreaterThan(previous.riskThreshold);
+        expect(config.estimatedCost).toBeGreaterThanOrEqual(previous.estimatedCost);
+        expect(config.cooldownMs).toBeGreaterThanOrEqual(previous.cooldownMs);
+      }
+    }
+    expect(PAID_LEVELS).toEqual(ESCALATION_LEVELS.filter((level) => level !== 'L0'));
+  });
+
+  it('derives one priced escalation per adjacent level pair and a block per paid level', () => {
+    const escalations = TRANSITION_CONFIGS.filter((t) => t.kind === 'escalation');
+    const blocks = TRANSITION_CONFIGS.filter((t) => t.kind === 'budget-block');
+
+    expect(escalations.map((t) => t.to)).toEqual(ESCALATION_LEVELS.slice(1));
+    for (const transition of escalations) {
+      const target = LEVEL_CONFIGS[transition.to as EscalationLevel];
+      expect(transition.cost ?? 0).toBe(target.estimatedCost);
+      expect(transition.label).toContain(String(target.riskThreshold));
+    }
+    expect(blocks.map((t) => t.from)).toEqual(PAID_LEVELS);
+  });
+
+  it('checks escalation against the level thresholds', () => {
+    for (const [index, level] of ESCALATION_LEVELS.entries()) {
+      const from = ESCALATION_LEVELS[Math.max(index - 1, 0)] ?? 'L0';
+      const { riskThreshold } = LEVEL_CONFIGS[level];
+
+      expect(checkEscalationThreshold(from, level, context(riskThreshold)).allowed).toBe(true);
+      if (riskThreshold > 0) {
+        expect(checkEscalationThreshold(from, level, context(riskThreshold - 0.01)).allowed).toBe(
+          false
+        );
+      }
+    }
+  });
+
+  it('only moves the state machine between known states', () => {
+    const states = new Set<EscalationState>(ESCALATION_STATES);
+
+    for (const transition of STATE_TRANSITIONS) {
+      expect(states.has(transition.from)).toBe(true);
+      expect(states.has(transition.to)).toBe(true);
+    }
+    for (const state of ESCALATION_STATES) {
+      expect(STATE_TRANSITIONS.some((t) => t.from === state)).toBe(true);
+    }
+  });
+});
@@ -44,6 +44,290 @@ export interface DBAgentRun {
   metricsComputed: string; // JSON object
 }
 
+/**
+ * Row of the `treasury_snapshots` table managed by TreasuryRepository.
+ * Rows written by one multi-chain snapshot share a `snapshot_id`. Rows whose block was
+ * reorged carry `invalidated_at` until they are replaced by a recomputed snapshot.
+ */
+export type TreasurySnapshotRecord = {
+  id: string;
+  snapshot_id: string | null;
+  timestamp: string;
+  chain_id: number;
+  address: string;
+  token_address: string;
+  token_symbol: string;
+  balance_raw: string;
+  balance_formatted: number;
+  balance_usd: number | null;
+  block_number: number;
+  /** Null on rows written before block hashes were recorded */
+  block_hash: string | null;
+  /** BlockFinality when the row was written or last rechecked */
+  finality: string | null;
+  invalidated_at: string | null;
+  created_at: string;
+};
+
+/**
+ * Row of the `liquidity_assessments` table managed by LiquidityAssessmentRepository
+ */
+export type LiquidityAssessmentRecord = {
+  id: string;
+  run_id: string | null;
+  timestamp: string;
+  chain_id: number;
+  treasury_address: string;
+  escalation_level: string;
+  overall_risk_score: number;
+  risk_level: string;
+  lcr_ratio: number | null;
+  volatility_regime: string;
+  /** JSON-serialized LiquidityRiskAssessment (Maps stored as objects) */
+  assessment: string;
+  created_at: string;
+};
+
+/**
+ * Row of the `escalation_events` table managed by EscalationEventRepository.
+ * One row per successful state machine transition; `snapshot` is the machine afterwards.
+ */
+export type EscalationEventRecord = {
+  id: string;
+  treasury_id: string;
+  event_type: string;
+  from_state: string;
+  to_state: string;
+  from_level: string;
+  to_level: string;
+  trigger_reason: string;
+  /** JSON-serialized EscalationSnapshot, including pendingPayment and lastEscalationTime */
+  snapshot: string;
+  timestamp: string;
+  created_at: string;
+};
+
+/**
+ * Row of the `token_metadata` table managed by TokenMetadataRepository.
+ * ERC-20 symbol and decimals, read from the contract once per chain.
+ */
+export type TokenMetadataRecord = {
+  chain_id: number;
+  token_address: string;
+  symbol: string;
+  decimals: number;
+  created_at: string;
+};
+
+/**
+ * Row of the `discovered_tokens` table managed by TokenDiscoveryRepository.
+ * An ERC-20 contract that has sent tokens to or from a treasury wallet.
+ */
+export type DiscoveredTokenRecord = {
+  chain_id: number;
+  wallet_address: string;
+  token_address: string;
+  first_seen_block: number;
+  created_at: string;
+};
+
+/**
+ * Row of the `discovery_cursors` table: the last block whose Transfer logs were scanned
+ * for a wallet, so the next discovery run starts after it
+ */
+export type DiscoveryCursorRecord = {
+  chain_id: number;
+  wallet_address: string;
+  last_scanned_block: number;
+  updated_at: string;
+};
+
+/**
+ * Row of the `snapshot_backfills` table: progress of a historical snapshot backfill over one
+ * date range, advanced in the same transaction as each snapshot it writes
+ */
+export type SnapshotBackfillRecord = {
+  job_id: string;
+  chain_id: number;
+  address: string;
+  /** Unix milliseconds */
+  start_timestamp: number;
+  end_timestamp: number;
+  interval_ms: number;
+  /** Next point to take; the range is done once this passes end_timestamp */
+  next_timestamp: number;
+  last_block: number | null;
+  updated_at: string;
+};
+
+/**
+ * Row of the `safe_states` table managed by SafeRepository: a Safe's signer set, written
+ * whenever the owners, threshold or nonce differ from the previous row
+ */
+export type SafeStateRecord = {
+  chain_id: number;
+  safe_address: string;
+  /** JSON array of lowercase owner addresses */
+  owners: string;
+  threshold: number;
+  nonce: number;
+  block_number: number;
+  timestamp: string;
+  created_at: string;
+};
+
+/**
+ * Row of the `safe_executions` table managed by SafeRepository: one executed Safe
+ * transaction, from its ExecutionSuccess or ExecutionFailure log
+ */
+export type SafeExecutionRecord = {
+  chain_id: number;
+  safe_address: string;
+  safe_tx_hash: string;
+  transaction_hash: string;
+  block_number: number;
+  /** 1 for ExecutionSuccess, 0 for ExecutionFailure */
+  success: number;
+  payment: string;
+  to_address: string | null;
+  value: string | null;
+  operation: number | null;
+  created_at: string;
+};
+
+/**
+ * Row of the `safe_execution_cursors` table: the last block scanned for a Safe's executions
+ */
+export type SafeExecutionCursorRecord = {
+  chain_id: number;
+  safe_address: string;
+  last_scanned_block: number;
+  updated_at: string;
+};
+
+/**
+ * Row of the `outbound_transfers` table managed by TransferRepository: one transfer out of
+ * a treasury, with the anomalies found when it was checked
+ */
+export type OutboundTransferRecord = {
+  chain_id: number;
+  treasury_address: string;
+  token_address: string;
+  token_symbol: string;
+  decimals: number;
+  recipient: string;
+  amount_raw: string;
+  usd_value: number | null;
+  block_number: number;
+  transaction_hash: string;
+  /** -1 for native transfers */
+  log_index: number;
+  /** Unix milliseconds */
+  timestamp: number;
+  /** JSON array of TransferAnomalyReason */
+  anomalies: string;
+  created_at: string;
+};
+
+/**
+ * Row of the `transfer_baselines` table: learned outbound transfer profile per token
+ */
+export type TransferBaselineRecord = {
+  chain_id: number;
+  treasury_address: string;
+  token_address: string;
+  count: number;
+  mean_log: number;
+  m2_log: number;
+  max_amount: number;
+  first_seen: number;
+  last_seen: number;
+  /** JSON object of recipient -> transfer count */
+  recipients: string;
+  updated_at: string;
+};
+
+/**
+ * Row of the `transfer_cursors` table: the last block scanned for a treasury's transfers
+ */
+export type TransferCursorRecord = {
+  chain_id: number;
+  treasury_address: string;
+  last_scanned_block: number;
+  updated_at: string;
+};
+
+/**
+ * Row of the `address_book` table: a known recipient; chain_id 0 applies to every chain
+ */
+export type AddressBookRecord = {
+  address: string;
+  chain_id: number;
+  label: string;
+  max_amount_usd: number | null;
+  created_at: string;
+};
+
+/**
+ * Row of the `peg_samples` table managed by PegRepository: one reading of a pegged asset
+ * against its peg
+ */
+export type PegSampleRecord = {
+  chain_id: number;
+  symbol: string;
+  peg: string;
+  block_number: number;
+  /** Unix milliseconds */
+  timestamp: number;
+  par: number;
+  pool_price: number | null;
+  oracle_price: number | null;
+  deviation: number;
+  /** PegGrade */
+  grade: string;
+  created_at: string;
+};
+
+/**
+ * Row of the `stress_test_results` table managed by StressTestRepository: one scenario
+ * tested against one agent run
+ */
+export type StressTestRecord = {
+  id: string;
+  run_id: string | null;
+  scenario: string;
+  tested_at: string;
+  baseline_value_usd: number;
+  post_shock_value_usd: number;
+  value_change: number;
+  lcr_ratio: number | null;
+  risk_score: number;
+  risk_level: string;
+  baseline_risk_level: string;
+  /** JSON-serialized StressTestResult */
+  result: string;
+  created_at: string;
+};
+
+export type PaymentStatus = 'pending' | 'confirmed' | 'failed' | 'refunded';
+
+/**
+ * Row of the `payments` table managed by PaymentRepository
+ */
+export type PaymentRecord = {
+  id: string;
+  timestamp: string;
+  amount_usdc: number;
+  recipient: string;
+  tx_hash: string | null;
+  status: PaymentStatus;
+  chain_id: number;
+  purpose: string;
+  kaiko_request_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
 export interface DBPaymentRecord {
   id: string;
   runId: string;
@@ -1,19 +1,40 @@
-export type EscalationLevel = 'L0' | 'L1' | 'L2' | 'L3' | 'L4' | 'L5';
+/**
+ * Canonical escalation model. Levels, states, thresholds, costs and cooldowns are defined
+ * here once; the state machine config, guards, flow builder and Mermaid exporter derive
+ * from these tables.
+ */
 
-export type EscalationState = 
-  | 'IDLE'
-  | 'MONITORING'
-  | 'ESCALATING'
-  | 'AWAITING_PAYMENT'
-  | 'PAYMENT_PENDING'
-  | 'BUDGET_BLOCKED'
-  | 'COOLDOWN';
+/** Escalation levels in ascending order */
+export const ESCALATION_LEVELS = ['L0', 'L1', 'L2', 'L3', 'L4', 'L5'] as const;
+
+export type EscalationLevel = (typeof ESCALATION_LEVELS)[number];
+
+export const ESCALATION_STATES = [
+  'IDLE',
+  'MONITORING',
+  'ESCALATING',
+  'AWAITING_PAYMENT',
+  'PAYMENT_PENDING',
+  'BUDGET_BLOCKED',
+  'COOLDOWN',
+] as const;
+
+export type EscalationState = (typeof ESCALATION_STATES)[number];
+
+/** Guards evaluated by the state machine, in priority order */
+export const GUARD_IDS = ['budget', 'payment', 'cooldown', 'threshold'] as const;
+
+export type GuardId = (typeof GUARD_IDS)[number];
 
 export interface PendingPayment {
   amount: number;
   currency: string;
   requestedAt: number;
   txHash?: string;
+  /** 402 invoice being paid */
+  invoiceId?: string;
+  /** Address the transfer must reach */
+  recipient?: string;
 }
 
 export interface EscalationContext {
@@ -35,6 +56,8 @@ export interface EscalationEvent {
     targetLevel?: EscalationLevel;
     amount?: number;
     txHash?: string;
+    invoiceId?: string;
+    recipient?: string;
     riskScore?: number;
     reason?: string;
   };
@@ -45,12 +68,12 @@ export interface EscalationTransition {
   from: EscalationState;
   to: EscalationState;
   event: EscalationEvent['type'];
-  guards?: string[];
+  guards?: GuardId[];
   actions?: string[];
 }
 
 export interface GuardCondition {
-  id: string;
+  id: GuardId;
   name: string;
   description: string;
 }
@@ -68,13 +91,16 @@ export interface LevelConfig {
   level: EscalationLevel;
   name: string;
   description: string;
+  /** Minimum risk score (0-1) to enter the level */
   riskThreshold: number;
+  /** USDC of market data bought per cycle at this level */
   estimatedCost: number;
   dataFeatures: string[];
   cooldownMs: number;
+  color: string;
 }
 
-export const LEVEL_CONFIGS: Record<EscalationLevel, LevelConfig> = {
+export const LEVEL_CONFIGS = {
   'L0': {
     level: 'L0',
     name: 'Basic Monitoring',
@@ -82,16 +108,18 @@ export const LEVEL_CONFIGS: Record<EscalationLevel, LevelConfig> = {
     riskThreshold: 0,
     estimatedCost: 0,
     dataFeatures: ['Balance snapshots', 'Token holdings'],
-    cooldownMs: 0
+    cooldownMs: 0,
+    color: '#6b7280'
   },
   'L1': {
     level: 'L1',
     name: 'Price Feeds',
-    description: 'Add spot price data',
+    description: 'Add Kaiko spot prices where on-chain oracles are stale or disagree',
     riskThreshold: 0.2,
     estimatedCost: 0.5,
     dataFeatures: ['Spot prices', 'Portfolio valuation'],
-    cooldownMs: 60000
+    cooldownMs: 60000,
+    color: '#22c55e'
   },
   'L2': {
     level: 'L2',
@@ -100,7 +128,8 @@ export const LEVEL_CONFIGS: Record<EscalationLevel, LevelConfig> = {
     riskThreshold: 0.4,
     estimatedCost: 1.0,
     dataFeatures: ['Volatility metrics', 'Regime detection'],
-    cooldownMs: 120000
+    cooldownMs: 120000,
+    color: '#eab308'
   },
   'L3': {
     level: 'L3',
@@ -109,7 +138,8 @@ export const LEVEL_CONFIGS: Record<EscalationLevel, LevelConfig> = {
     riskThreshold: 0.6,
     estimatedCost: 2.0,
     dataFeatures: ['Depth bands', 'Bid-ask analysis'],
-    cooldownMs: 180000
+    cooldownMs: 180000,
+    color: '#f97316'
   },
   'L4': {
     level: 'L4',
@@ -118,7 +148,8 @@ export const LEVEL_CONFIGS: Record<EscalationLevel, LevelConfig> = {
     riskThreshold: 0.8,
     estimatedCost: 3.0,
     dataFeatures: ['Impact curves', 'Slippage estimation'],
-    cooldownMs: 300000
+    cooldownMs: 300000,
+    color: '#ef4444'
   },
   'L5': {
     level: 'L5',
@@ -127,6 +158,89 @@ export const LEVEL_CONFIGS: Record<EscalationLevel, LevelConfig> = {
     riskThreshold: 0.95,
     estimatedCost: 4.0,
     dataFeatures: ['LCR calculation', 'Exit half-life', 'Full risk metrics'],
-    cooldownMs: 600000
+    cooldownMs: 600000,
+    color: '#dc2626'
+  }
+} satisfies Record<EscalationLevel, LevelConfig>;
+
+export interface StateDefinition {
+  state: EscalationState;
+  name: string;
+  description: string;
+  color: string;
+}
+
+export const STATE_DEFINITIONS = {
+  'IDLE': {
+    state: 'IDLE',
+    name: 'Idle',
+    description: 'System idle, no active monitoring',
+    color: '#6b7280'
+  },
+  'MONITORING': {
+    state: 'MONITORING',
+    name: 'Monitoring',
+    description: 'Actively monitoring treasury positions',
+    color: '#22c55e'
+  },
+  'ESCALATING': {
+    state: 'ESCALATING',
+    name: 'Escalating',
+    description: 'Processing escalation to higher data tier',
+    color: '#3b82f6'
+  },
+  'AWAITING_PAYMENT': {
+    state: 'AWAITING_PAYMENT',
+    name: 'Awaiting Payment',
+    description: 'HTTP 402 received, payment required',
+    color: '#eab308'
+  },
+  'PAYMENT_PENDING': {
+    state: 'PAYMENT_PENDING',
+    name: 'Payment Pending',
+    description: 'Payment submitted, awaiting confirmation',
+    color: '#f97316'
+  },
+  'BUDGET_BLOCKED': {
+    state: 'BUDGET_BLOCKED',
+    name: 'Budget Blocked',
+    description: 'Demo budget exhausted (10 USDC limit)',
+    color: '#7c3aed'
+  },
+  'COOLDOWN': {
+    state: 'COOLDOWN',
+    name: 'Cooldown',
+    description: 'Post-payment cooldown period active',
+    color: '#06b6d4'
   }
-};
\ No newline at end of file
+} satisfies Record<EscalationState, StateDefinition>;
+
+export const GUARD_CONDITIONS = {
+  'budget': {
+    id: 'budget',
+    name: 'Budget Available',
+    description: 'Sufficient USDC budget remaining'
+  },
+  'payment': {
+    id: 'payment',
+    name: 'Payment Verified',
+    description: 'No pending unverified payments'
+  },
+  'cooldown': {
+    id: 'cooldown',
+    name: 'Cooldown Complete',
+    description: 'Minimum time between escalations'
+  },
+  'threshold': {
+    id: 'threshold',
+    name: 'Risk Threshold',
+    description: 'Risk score meets the target level requirements'
+  }
+} satisfies Record<GuardId, GuardCondition>;
+
+/**
+ * Narrowing helper for switches over the model's unions
+ */
+export function assertNever(value: never): never {
+  throw new Error(`Unhandled escalation model value: ${String(value)}`);
+}
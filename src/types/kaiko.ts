@@ -9,7 +9,9 @@ export interface KaikoConfig {
   budgetLimitUsdc: number;
   settlementChainId: number; // Base chain ID (8453)
   settlementTokenAddress: string; // USDC on Base
+  /** Kaiko's payee; when set, invoices naming another recipient are never paid */
   paymentWalletAddress: string;
+  requestTimeoutMs: number;
 }
 
 export interface KaikoPaymentRequired {
@@ -21,6 +23,18 @@ export interface KaikoPaymentRequired {
   dataEndpoint: string;
 }
 
+/**
+ * Follows the gateway's autonomous payments, e.g. to drive the escalation state machine.
+ * `paymentFailed` is not called for a transfer that timed out but may still land.
+ */
+export interface KaikoPaymentObserver {
+  paymentRequired(invoice: KaikoPaymentRequired): void;
+  /** The transfer's hash is known; it is about to be, or already was, broadcast */
+  paymentSubmitted(invoice: KaikoPaymentRequired, transactionHash: string): void;
+  paymentConfirmed(invoice: KaikoPaymentRequired, transactionHash: string): void;
+  paymentFailed(invoice: KaikoPaymentRequired, reason: string, transactionHash?: string): void;
+}
+
 export interface KaikoPaymentReceipt {
   invoiceId: string;
   transactionHash: string;
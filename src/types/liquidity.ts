@@ -13,17 +13,115 @@ export type VolatilityRegime = 'low' | 'normal' | 'elevated' | 'high' | 'extreme
 export interface DepthBand {
   priceLevel: number;
   percentFromMid: number;
+  /** USD resting between the previous band's edge and this one's */
   bidLiquidity: number;
   askLiquidity: number;
+  /** USD resting from the mid out to this band's edge */
   cumulativeBidLiquidity: number;
   cumulativeAskLiquidity: number;
+  /** Per-venue split of the band; only on bands built from an aggregated book */
+  venues?: VenueDepth[];
 }
 
+/**
+ * One venue's share of a depth band
+ */
+export interface VenueDepth {
+  exchange: string;
+  bidLiquidity: number;
+  askLiquidity: number;
+  cumulativeBidLiquidity: number;
+  cumulativeAskLiquidity: number;
+  /** Venue's part of the band's cumulative bid liquidity, 0-1; the exit side of the book */
+  bidShare: number;
+  /** Venue's part of the band's cumulative ask liquidity, 0-1; the entry side of the book */
+  askShare: number;
+}
+
+/**
+ * Order book level on one venue, priced in USD
+ */
+export interface VenueLevel {
+  exchange: string;
+  price: number;
+  quantity: number;
+}
+
+/**
+ * Venue book that went into an aggregated order book
+ */
+export interface VenueOrderBook {
+  exchange: string;
+  /** Quote currency of the venue's instrument, e.g. 'usd', 'usdt', 'eth' */
+  quote: string;
+  /** USD per unit of quote currency the venue's prices were converted with */
+  quoteUsd: number;
+  /** Venue mid in USD */
+  midPrice: number;
+  timestamp: Date;
+}
+
+/**
+ * Why a venue book was left out of an aggregated order book: `stale` books trail the
+ * freshest one by more than the allowed age, `duplicate` books repeat an exchange and quote
+ * already taken, `empty` books lack a side and `unpriced_quote` books have no USD rate
+ */
+export type ExcludedBookReason = 'stale' | 'duplicate' | 'empty' | 'unpriced_quote';
+
+export interface ExcludedOrderBook {
+  exchange: string;
+  quote: string;
+  reason: ExcludedBookReason;
+  timestamp: Date;
+}
+
+/**
+ * Consolidated book for one asset across venues, in USD
+ */
+export interface AggregatedOrderBook {
+  /** Base asset symbol, lowercase as in Kaiko instruments */
+  base: string;
+  /** Median of the venue mids */
+  midPrice: number;
+  /** Best first, each level tagged with its venue */
+  bids: VenueLevel[];
+  asks: VenueLevel[];
+  venues: VenueOrderBook[];
+  excluded: ExcludedOrderBook[];
+  /** Timestamp of the freshest venue book */
+  timestamp: Date;
+}
+
+/**
+ * Order book aggregation configuration
+ */
+export interface OrderBookAggregatorConfig {
+  /** Books older than the freshest one by more than this are dropped as stale */
+  maxBookAgeMs: number;
+  /** Books older than the clock by more than this are dropped as stale, however many agree */
+  maxClockAgeMs: number;
+  /** USD per unit of quote currency, by lowercase code; merged with rates passed per call */
+  quoteUsd: Record<string, number>;
+}
+
+export const DEFAULT_ORDER_BOOK_AGGREGATOR_CONFIG: OrderBookAggregatorConfig = {
+  maxBookAgeMs: 60_000,
+  maxClockAgeMs: 300_000,
+  quoteUsd: { usd: 1, usdc: 1, usdt: 1, dai: 1 },
+};
+
+/**
+ * Side of the book a trade takes: buys walk the asks, sells walk the bids
+ */
+export type TradeSide = 'buy' | 'sell';
+
 /**
  * Market impact curve point
  */
 export interface ImpactPoint {
+  side: TradeSide;
   tradeSize: number;
+  /** Move of the execution price away from the base price, against the trade (both sides) */
   expectedSlippage: number;
   priceImpact: number;
   executionPrice: number;
@@ -36,8 +134,10 @@ export interface ImpactCurve {
   tokenAddress: string;
   tokenSymbol: string;
   basePrice: number;
+  /** Buy points then sell points, each by increasing size */
   points: ImpactPoint[];
-  maxTradeableSize: number;
+  /** Largest curve size (USD) the book fills completely, per side */
+  maxTradeableSize: Record<TradeSide, number>;
   timestamp: Date;
 }
 
@@ -63,8 +163,95 @@ export interface ExitHalfLife {
   fullExitHours: number;
   averageDailyVolume: number;
   participationRate: number;
+  /** USD that can be sold into the bids at once within maxExitSlippage; 0 without a sell curve */
+  bookExitSize: number;
+}
+
+/**
+ * Hour of a recommended liquidation schedule
+ */
+export interface LiquidationStep {
+  /** 1 for the first hour */
+  hour: number;
+  /** USD to sell during the hour */
+  sellSize: number;
+  /** USD still held once the hour's sale is done */
+  remaining: number;
+  /** Expected impact cost of the hour's sale, USD */
+  expectedCost: number;
+}
+
+/**
+ * Point on the efficient frontier of liquidation schedules
+ */
+export interface LiquidationFrontierPoint {
+  /** Almgren–Chriss urgency κ, per hour; 0 is an even (TWAP) schedule */
+  tradingSpeed: number;
+  /** Risk aversion that makes this schedule optimal, per USD */
+  riskAversion: number;
+  /** Expected impact cost, USD */
+  expectedShortfall: number;
+  /** Standard deviation of the cost from price moves while holding, USD */
+  shortfallStdDev: number;
+  /** Hours until half the position is sold */
+  halfLifeHours: number;
+}
+
+/**
+ * Sell-side impact model fitted to an impact curve: selling q USD within an hour slips
+ * by fixedSlippage + slippagePerUsd * q
+ */
+export interface LinearImpactModel {
+  fixedSlippage: number;
+  slippagePerUsd: number;
+  /** Largest fully filled sell size the fit rests on, USD */
+  fittedUpTo: number;
+}
+
+/**
+ * Recommended liquidation of one position. Advisory only: nothing acts on it.
+ */
+export interface LiquidationPlan {
+  advisory: true;
+  tokenAddress: string;
+  tokenSymbol: string;
+  positionSize: number;
+  basePrice: number;
+  annualVolatility: number;
+  riskAversion: number;
+  horizonHours: number;
+  impact: LinearImpactModel;
+  tradingSpeed: number;
+  schedule: LiquidationStep[];
+  expectedShortfall: number;
+  shortfallVariance: number;
+  shortfallStdDev: number;
+  halfLifeHours: number;
+  /** Some hour sells more than the fit rests on, so its cost is extrapolated */
+  extrapolated: boolean;
+  /** Schedules for the same position from an even pace to near-immediate, by speed */
+  frontier: LiquidationFrontierPoint[];
+  generatedAt: Date;
+}
+
+/**
+ * Liquidation planner configuration
+ */
+export interface LiquidationPlannerConfig {
+  /** Hours the schedule spreads the sale over when a plan doesn't give its own */
+  horizonHours: number;
+  /** Number of schedules sampled along the frontier */
+  frontierPoints: number;
+  /** Fastest frontier schedule, as κ times the horizon */
+  maxUrgency: number;
 }
 
+export const DEFAULT_LIQUIDATION_PLANNER_CONFIG: LiquidationPlannerConfig = {
+  horizonHours: 24,
+  frontierPoints: 21,
+  maxUrgency: 10,
+};
+
 /**
  * Complete liquidity risk assessment for a treasury position
  */
@@ -115,13 +302,21 @@ export interface LiquidityMetricsConfig {
   maxParticipationRate: number;
   depthBandPercentages: number[];
   impactCurveSizes: number[];
+  /** Slippage a sale into the bids may take and still count toward an immediate exit */
+  maxExitSlippage: number;
   volatilityWindow: number;
+  /**
+   * Symbols counted as high quality liquid assets in the LCR; defaults to the chain
+   * registry's stablecoins
+   */
+  hqlaSymbols: string[];
 }
 
-export const DEFAULT_LIQUIDITY_CONFIG: LiquidityMetricsConfig = {
+export const DEFAULT_LIQUIDITY_CONFIG: Omit<LiquidityMetricsConfig, 'hqlaSymbols'> = {
   lcrComplianceThreshold: 1.0, // 100% minimum
   maxParticipationRate: 0.1, // 10% of daily volume
   depthBandPercentages: [0.1, 0.25, 0.5, 1.0, 2.0, 5.0],
   impactCurveSizes: [1000, 5000, 10000, 50000, 100000, 500000],
+  maxExitSlippage: 0.02, // 2% below the base price
   volatilityWindow: 30, // days
 };
@@ -0,0 +1,78 @@
+/**
+ * @module types/rpc
+ * @description JSON-RPC endpoint pool types shared by chain readers
+ */
+
+/**
+ * One JSON-RPC provider in a chain's pool
+ * @interface RpcEndpointConfig
+ */
+export interface RpcEndpointConfig {
+  /** JSON-RPC endpoint */
+  url: string;
+  /** Relative share of requests sent here first; higher weights are tried earlier more often */
+  weight: number;
+  /**
+   * Serves state at any past block. Unset means unknown: the endpoint is tried for historical
+   * reads until it answers that the state was pruned.
+   */
+  archive?: boolean;
+}
+
+/**
+ * Pool behaviour for one chain
+ * @interface RpcPoolConfig
+ */
+export interface RpcPoolConfig {
+  /** Abort a request to one endpoint after this long and fail over */
+  requestTimeoutMs: number;
+  /** Endpoints this many blocks behind the highest reported head are flagged as lagging */
+  lagThresholdBlocks: number;
+  /** Block heights are re-checked before a request once this much time has passed */
+  lagCheckIntervalMs: number;
+  /** Agreeing answers required by quorum reads; 0 disables quorum */
+  quorum: number;
+  /** Endpoints asked in parallel by a quorum read */
+  quorumSampleSize: number;
+  /** Consecutive transport failures that open an endpoint's circuit */
+  failureThreshold: number;
+  /** How long an open circuit waits before a trial request */
+  recoveryTimeoutMs: number;
+}
+
+/**
+ * Health of one endpoint, for dashboards and logs
+ * @interface RpcEndpointStatus
+ */
+export interface RpcEndpointStatus {
+  url: string;
+  weight: number;
+  circuitState: 'closed' | 'open' | 'half-open';
+  /** Last block height the endpoint reported, if checked */
+  blockHeight?: number;
+  /** Behind the pool's highest head by more than lagThresholdBlocks */
+  lagging: boolean;
+  /** Configured, or false once the endpoint reported pruned state; undefined while unknown */
+  archive?: boolean;
+  requestCount: number;
+  errorCount: number;
+  averageLatencyMs: number;
+}
+
+/**
+ * A request inside a JSON-RPC batch
+ * @interface RpcRequest
+ */
+export interface RpcRequest {
+  method: string;
+  params: unknown[];
+}
+
+/**
+ * Per-request routing options
+ * @interface RpcRequestOptions
+ */
+export interface RpcRequestOptions {
+  /** Reads state at a past block, which only archive endpoints can serve */
+  historical?: boolean;
+}
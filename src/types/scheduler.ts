@@ -2,6 +2,10 @@
  * APScheduler and agent run types for Treasury Sentinel
  */
 
+import type { EscalationLevel, EscalationSnapshot } from './escalation';
+import type { KaikoDataType, KaikoResponse } from './kaiko';
+import type { PegStatus, TreasurySnapshot } from './treasury';
+
 export type RunStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
 
 export interface AgentRun {
@@ -11,7 +15,7 @@ export interface AgentRun {
   startedAt: Date | null;
   completedAt: Date | null;
   status: RunStatus;
-  escalationLevel: number;
+  escalationLevel: EscalationLevel;
   treasurySnapshotId: string | null;
   liquidityMetricsId: string | null;
   kaikoRequestCount: number;
@@ -33,13 +37,53 @@ export interface ScheduledJob {
   updatedAt: Date;
 }
 
+export interface RunCycleOptions {
+  /** Aborted by the scheduler when the run exceeds its jobTimeout */
+  signal?: AbortSignal;
+  /** The scheduler retries this run if it fails; reported in agent:run_failed */
+  willRetry?: boolean;
+}
+
 export interface RunReplayOptions {
   runId: string;
+  /** Return the replay without recording it in agent_runs */
   dryRun?: boolean;
+  /** Decide without the recorded Kaiko data, as if no market data had been bought */
   skipKaikoRequests?: boolean;
+  /** USDC budget limit to replay against instead of the recorded one */
   overrideBudget?: number;
 }
 
+/**
+ * One Kaiko call made during a cycle and the response it got
+ */
+export interface RecordedKaikoRequest {
+  dataType: KaikoDataType;
+  instrument: string;
+  exchange?: string;
+  response: KaikoResponse<unknown>;
+  /** When the response arrived (ms); absent in runs recorded before it was kept */
+  receivedAt?: number;
+}
+
+/**
+ * Everything a cycle's decisions depended on, stored per run for replay
+ */
+export interface AgentCycleInputs {
+  /** When the cycle started (ms); cooldowns are replayed relative to it */
+  startedAt: number;
+  snapshots: TreasurySnapshot[];
+  /** Portfolio returns the volatility regime was detected from */
+  portfolioReturns: number[];
+  /** State machine before the cycle's first transition */
+  initialState: EscalationSnapshot;
+  /** Kaiko gateway spend and limit before the cycle */
+  budget: { spentUsdc: number; totalBudgetUsdc: number };
+  kaikoRequests: RecordedKaikoRequest[];
+  /** Peg states the peg stress was scored from; unset for runs recorded without a depeg monitor */
+  pegs?: PegStatus[];
+}
+
 export interface RunReplayResult {
   originalRun: AgentRun;
   replayRun: AgentRun;
@@ -54,11 +98,67 @@ export interface RunDifference {
   significant: boolean;
 }
 
+export interface BudgetSimulationOptions {
+  /** Window of recorded agent runs to replay */
+  startDate: Date;
+  endDate: Date;
+  /** Budgets to sweep in USDC; defaults to multiples of BUDGET_CONFIG.maxBudgetUsdc */
+  budgets?: number[];
+}
+
+export interface BudgetSimulationPoint {
+  runId: string;
+  timestamp: number;
+  date: string;
+  /** Level the run ended at under the simulated budget */
+  level: EscalationLevel;
+  /** Level the recorded run actually ended at */
+  originalLevel: EscalationLevel;
+  spentUsdc: number;
+  cumulativeSpentUsdc: number;
+  /** Part of spentUsdc taken from LEVEL_CONFIGS because the recorded run never bought that data */
+  estimatedSpendUsdc: number;
+  budgetBlocked: boolean;
+}
+
+export interface DeniedEscalation {
+  runId: string;
+  timestamp: number;
+  date: string;
+  fromLevel: EscalationLevel;
+  attemptedLevel: EscalationLevel;
+  reason: string;
+}
+
+export interface BudgetScenarioResult {
+  budgetUsdc: number;
+  /** First run the state machine ended BUDGET_BLOCKED, null if the budget held */
+  blockedAt: { runId: string; timestamp: number; date: string } | null;
+  /** Escalation attempts refused because the budget was exhausted */
+  deniedEscalations: DeniedEscalation[];
+  spendCurve: BudgetSimulationPoint[];
+  totalSpentUsdc: number;
+  /** Timestamp of the first run to reach each level */
+  firstReachedAt: Partial<Record<EscalationLevel, number>>;
+}
+
+/**
+ * JSON-safe result of a budget sweep; timestamps are epoch milliseconds
+ */
+export interface BudgetSimulationResult {
+  startDate: string;
+  endDate: string;
+  runCount: number;
+  /** Completed runs in the window without recorded inputs */
+  skippedRunIds: string[];
+  scenarios: BudgetScenarioResult[];
+}
+
 export interface AgentRunQuery {
   startDate?: Date;
   endDate?: Date;
   status?: RunStatus;
-  escalationLevel?: number;
+  escalationLevel?: EscalationLevel;
   limit?: number;
   offset?: number;
 }
@@ -69,7 +169,7 @@ export interface AgentRunSummary {
   failedRuns: number;
   averageDuration: number;
   totalBudgetSpent: number;
-  runsByEscalationLevel: Record<number, number>;
+  runsByEscalationLevel: Partial<Record<EscalationLevel, number>>;
 }
 
 export interface SchedulerConfig {
@@ -82,8 +182,8 @@ export interface SchedulerConfig {
 }
 
 export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
-  cronExpression: '*/15 * * * *', // Every 15 minutes
-  timezone: 'UTC',
+  cronExpression: process.env['AGENT_CRON_EXPRESSION'] ?? '*/15 * * * *', // Every 15 minutes
+  timezone: process.env['AGENT_TIMEZONE'] ?? 'UTC',
   maxRetries: 3,
   retryDelayMs: 5000,
   runTimeoutMs: 300000, // 5 minutes
@@ -0,0 +1,42 @@
+/**
+ * Portfolio stress test types
+ */
+
+import { ExitHalfLife, LCRResult, LiquidityRiskAssessment, VolatilityRegime } from './liquidity';
+
+/**
+ * One held symbol before and after a scenario's shock
+ */
+export interface StressedHolding {
+  symbol: string;
+  baselineUsd: number;
+  shockedUsd: number;
+  /** Multiplier on order book depth in USD: the price move and the depth change together */
+  depthFactor: number;
+}
+
+/**
+ * Outcome of one named scenario applied to one agent run's treasury state
+ */
+export interface StressTestResult {
+  /** Agent run whose snapshots and market data were shocked; null for ad-hoc tests */
+  runId: string | null;
+  scenario: string;
+  testedAt: Date;
+  baselineValueUsd: number;
+  postShockValueUsd: number;
+  /** Relative change of the treasury value, -0.25 for -25% */
+  valueChange: number;
+  holdings: StressedHolding[];
+  lcr: LCRResult;
+  baselineLcrRatio: number;
+  /**
+   * Shocked exit half-lives: those the run measured (L5) restated, plus ones derived for
+   * volatile holdings it measured none for, from their impact curve (L4) and traded volume
+   */
+  exitHalfLives: ExitHalfLife[];
+  volatilityRegime: VolatilityRegime;
+  riskScore: number;
+  riskLevel: LiquidityRiskAssessment['riskLevel'];
+  baselineRiskLevel: LiquidityRiskAssessment['riskLevel'];
+}
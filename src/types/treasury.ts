@@ -3,16 +3,115 @@
  * @description Core treasury monitoring types for multi-chain EVM treasury tracking
  */
 
+import { RpcEndpointConfig } from './rpc';
+
+/**
+ * EVM chain ID of a network in the chain registry
+ * @description Ethereum mainnet and major L2s are built in; others come from the chain registry
+ */
+export type ChainId = number;
+
+/**
+ * Registry key of a chain, e.g. `ethereum` or `base`
+ */
+export type ChainName = string;
+
 /**
- * Supported blockchain networks for treasury monitoring
- * @description Currently supports Ethereum mainnet and major L2s
+ * RPC settings TreasuryMonitor uses to read one chain
+ * @interface ChainRpcConfig
  */
-export type ChainId = 1 | 100 | 42161 | 10 | 8453;
+export interface ChainRpcConfig {
+  /** Numeric chain identifier */
+  chainId: ChainId;
+  /** Display name */
+  name: string;
+  /** JSON-RPC providers, pooled with failover (see RpcPool) */
+  rpcEndpoints: RpcEndpointConfig[];
+  /** Block explorer base URL */
+  blockExplorer: string;
+  /** Native gas token */
+  nativeCurrency: { symbol: string; decimals: number };
+  /** When the chain's blocks count as safe and finalized */
+  finality: FinalityRule;
+}
 
 /**
- * Human-readable chain name mapping
+ * How settled a block is. `latest` blocks can still be reorged; `safe` ones are unlikely to be
+ * and `finalized` ones cannot be. On rollups, safe means the block's batch is posted to L1 and
+ * finalized means that L1 block is finalized.
  */
-export type ChainName = 'ethereum' | 'gnosis' | 'arbitrum' | 'optimism' | 'base';
+export type BlockFinality = 'latest' | 'safe' | 'finalized';
+
+/**
+ * Chain-specific finality rule
+ * @interface FinalityRule
+ */
+export interface FinalityRule {
+  /** Nodes answer the `safe` and `finalized` block tags */
+  blockTags: boolean;
+  /** Blocks behind the head treated as safe when the tags are unavailable */
+  safeDepth: number;
+  /** Blocks behind the head treated as finalized when the tags are unavailable */
+  finalizedDepth: number;
+}
+
+/**
+ * Highest block at each finality level on one chain
+ * @interface FinalityHeads
+ */
+export interface FinalityHeads {
+  latest: number;
+  safe: number;
+  finalized: number;
+}
+
+/**
+ * Wallets and tokens TreasuryMonitor snapshots on each chain
+ * @interface TreasuryMonitorConfig
+ */
+export interface TreasuryMonitorConfig {
+  /** Treasury address per chain; chains without an address are skipped */
+  walletAddresses: Partial<Record<ChainName, string>>;
+  /** ERC-20 contracts read on each chain in addition to the native balance */
+  trackedTokens: Partial<Record<ChainName, string[]>>;
+  /**
+   * USD reference price per token symbol, used where the price oracle has no usable quote;
+   * unpriced tokens are valued at 0
+   */
+  referencePricesUsd: Record<string, number>;
+}
+
+/**
+ * Free on-chain price source. `peg` values an asset pegged to another (an LST to ETH) at the
+ * peg asset's price times the market rate the DepegMonitor sampled.
+ */
+export type PriceSource = 'chainlink' | 'uniswap-twap' | 'peg';
+
+/**
+ * How far an on-chain price can be trusted. `stale` means the only answer is older than the
+ * feed's heartbeat; `disagree` means Chainlink and the TWAP are further apart than allowed;
+ * `unavailable` means no configured source answered.
+ */
+export type PriceStatus = 'ok' | 'stale' | 'disagree' | 'unavailable';
+
+/**
+ * USD price of one symbol on one chain from the free on-chain sources
+ * @interface PriceQuote
+ */
+export interface PriceQuote {
+  symbol: string;
+  /** Price used to value balances; 0 when unavailable */
+  priceUsd: number;
+  /** Source of `priceUsd`; null when unavailable */
+  source: PriceSource | null;
+  status: PriceStatus;
+  /** When the Chainlink answer was last updated, Unix milliseconds */
+  updatedAt?: number;
+  chainlinkUsd?: number;
+  twapUsd?: number;
+  /** Relative difference between the Chainlink and TWAP prices, when both were read */
+  deviation?: number;
+}
 
 /**
  * Represents an ERC-20 token balance snapshot at a specific point in time
@@ -32,8 +131,54 @@ export interface TokenBalance {
   balance: bigint;
   /** Token decimals for conversion */
   decimals: number;
-  /** USD value at snapshot time */
+  /** USD value at snapshot time; the underlying assets' value for a decoded position */
   usdValue: number;
+  /** Underlying assets, when the token is a DeFi position (aToken, vault share, LP NFT) */
+  position?: DecodedPosition;
+}
+
+/**
+ * Protocols a position adapter can decode
+ */
+export type PositionProtocol = 'aave' | 'erc4626' | 'uniswap-v3';
+
+/**
+ * How much of a position can be withdrawn right now: all of it, part of it (e.g. an Aave
+ * reserve or vault short of idle liquidity) or none of it
+ */
+export type Withdrawability = 'instant' | 'partial' | 'locked';
+
+/**
+ * One asset a position resolves into
+ * @interface UnderlyingAsset
+ */
+export interface UnderlyingAsset {
+  /** ERC-20 contract of the underlying asset */
+  token: string;
+  symbol: string;
+  decimals: number;
+  /** Amount the position is worth, in the asset's smallest unit */
+  amount: bigint;
+  /** Part of `amount` that can be withdrawn now */
+  withdrawableAmount: bigint;
+  usdValue: number;
+  withdrawableUsd: number;
+}
+
+/**
+ * A DeFi position resolved into its underlying assets
+ * @interface DecodedPosition
+ */
+export interface DecodedPosition {
+  protocol: PositionProtocol;
+  /** Contract holding the position: the aToken, the vault, or the LP NFT manager */
+  positionToken: string;
+  /** NFT id, for positions that are NFTs */
+  tokenId?: string;
+  underlying: UnderlyingAsset[];
+  usdValue: number;
+  withdrawableUsd: number;
+  withdrawability: Withdrawability;
 }
 
 /**
@@ -48,7 +193,9 @@ export interface TokenBalance {
  *   balances: [...],
  *   totalUsdValue: 1000000,
  *   timestamp: Date.now(),
- *   blockNumber: 18000000
+ *   blockNumber: 18000000,
+ *   blockHash: '0x...',
+ *   finality: 'latest'
  * };
  * ```
  */
@@ -67,6 +214,191 @@ export interface TreasurySnapshot {
   timestamp: number;
   /** Block number at snapshot time */
   blockNumber: number;
+  /** Hash of that block; a different canonical hash later means the snapshot was reorged */
+  blockHash: string;
+  /** Finality of the block when the snapshot was taken or last rechecked */
+  finality: BlockFinality;
+  /** Signer set at the same block, when the treasury address is a Safe multisig */
+  safe?: SafeInfo;
+  /** On-chain price quotes at the same block the balances were valued with */
+  prices?: PriceQuote[];
+}
+
+/**
+ * Signer set of a Safe multisig at one block
+ * @interface SafeInfo
+ */
+export interface SafeInfo {
+  /** Owner addresses (lowercase), in the order getOwners returns them */
+  owners: string[];
+  /** Signatures required to execute a transaction */
+  threshold: number;
+  /** Nonce of the next Safe transaction; advances with every execution */
+  nonce: number;
+}
+
+/**
+ * Safe signer set recorded from a snapshot, compared with the next one to detect changes
+ * @interface SafeState
+ */
+export interface SafeState extends SafeInfo {
+  chainId: ChainId;
+  /** Safe address (lowercase) */
+  address: string;
+  /** Block the state was read at */
+  blockNumber: number;
+  /** Unix timestamp (milliseconds) of the snapshot */
+  timestamp: number;
+}
+
+/**
+ * Transaction executed by a Safe, from its ExecutionSuccess / ExecutionFailure log
+ * @interface SafeExecution
+ */
+export interface SafeExecution {
+  chainId: ChainId;
+  /** Safe address (lowercase) */
+  safeAddress: string;
+  /** EIP-712 hash the owners signed */
+  safeTxHash: string;
+  /** On-chain transaction that executed it */
+  transactionHash: string;
+  blockNumber: number;
+  /** False when the inner call reverted (ExecutionFailure); the nonce is still used */
+  success: boolean;
+  /** Gas refund paid to the executor, in the gas token's smallest unit */
+  payment: bigint;
+  /** Destination of the Safe transaction; unset when it was not sent through execTransaction */
+  to?: string;
+  /** Native value sent, in wei */
+  value?: bigint;
+  /** 0 = call, 1 = delegatecall */
+  operation?: 0 | 1;
+}
+
+/**
+ * Why an outbound transfer stands out from the treasury's history
+ */
+export type TransferAnomalyReason =
+  'large_amount' | 'new_recipient' | 'high_frequency' | 'address_book_limit' | 'balance_share';
+
+/**
+ * A transfer out of a treasury wallet, from an ERC-20 Transfer log or a Safe execution
+ * sending native value
+ * @interface OutboundTransfer
+ */
+export interface OutboundTransfer {
+  chainId: ChainId;
+  /** Sending treasury wallet (lowercase) */
+  treasuryAddress: string;
+  /** Token contract (lowercase); the zero address for native transfers */
+  token: string;
+  symbol: string;
+  decimals: number;
+  /** Recipient (lowercase) */
+  recipient: string;
+  /** Amount in the token's smallest unit */
+  amount: bigint;
+  /** USD value at the latest snapshot's price; unset when the token has no price */
+  usdValue?: number;
+  blockNumber: number;
+  transactionHash: string;
+  /** Log index of the Transfer event; -1 for native transfers */
+  logIndex: number;
+  /** Block time, Unix milliseconds */
+  timestamp: number;
+  /** Empty when the transfer matches the baseline */
+  anomalies: TransferAnomalyReason[];
+}
+
+/**
+ * What a treasury's outbound transfers of one token usually look like, learned from every
+ * transfer seen so far
+ * @interface TransferBaseline
+ */
+export interface TransferBaseline {
+  chainId: ChainId;
+  treasuryAddress: string;
+  token: string;
+  /** Transfers seen */
+  count: number;
+  /** Running mean and sum of squared deviations of log10(amount in tokens) */
+  meanLog: number;
+  m2Log: number;
+  /** Largest transfer seen, in tokens */
+  maxAmount: number;
+  /** Unix milliseconds of the first and latest transfer */
+  firstSeen: number;
+  lastSeen: number;
+  /** Transfers per recipient (lowercase) */
+  recipients: Record<string, number>;
+}
+
+/**
+ * A recipient the treasury is expected to pay
+ * @interface AddressBookEntry
+ */
+export interface AddressBookEntry {
+  address: string;
+  label: string;
+  /** Chain the entry applies to; every chain when unset */
+  chainId?: ChainId;
+  /** Transfers above this USD value are still flagged */
+  maxAmountUsd?: number;
+}
+
+/**
+ * How badly a pegged asset has broken its peg; `none` while it trades within the lowest
+ * alert threshold
+ */
+export type PegGrade = 'none' | TreasuryAlert['severity'];
+
+/**
+ * One reading of a pegged asset against its peg, taken at a snapshot block
+ * @interface PegSample
+ */
+export interface PegSample {
+  chainId: ChainId;
+  symbol: string;
+  /** What the asset tracks: 'USD', or the symbol of the asset it should trade at (e.g. 'ETH') */
+  peg: string;
+  blockNumber: number;
+  /** Block time, Unix milliseconds */
+  timestamp: number;
+  /** Peg units one token should be worth: 1, or the redemption rate of a rebasing LST wrapper */
+  par: number;
+  /** Market price in peg units from the asset's pool */
+  poolPrice?: number;
+  /** Chainlink price in peg units; unset when the feed is stale */
+  oraclePrice?: number;
+  /**
+   * Relative distance from par that every source read agrees on: the smaller of the pool and
+   * oracle deviations when both point the same way, 0 when they point opposite ways.
+   * Negative below par.
+   */
+  deviation: number;
+  /** Grade of the deviation confirmed over the rolling history at this sample */
+  grade: PegGrade;
+}
+
+/**
+ * Current peg state of an asset on one chain, as fed to the escalation risk score
+ * @interface PegStatus
+ */
+export interface PegStatus {
+  chainId: ChainId;
+  symbol: string;
+  peg: string;
+  /** Deviation held by every sample of the rolling history; negative below par */
+  deviation: number;
+  grade: PegGrade;
+  /** 0 while unbroken, rising to 1 as the confirmed deviation reaches the critical threshold */
+  stress: number;
+  /** Latest market price of one token in peg units: the pool's, else the oracle's */
+  price: number;
+  blockNumber: number;
+  /** Time of the latest sample, Unix milliseconds */
+  sampledAt: number;
 }
 
 /**
@@ -109,7 +441,13 @@ export interface TreasuryAlert {
   /** Alert severity level */
   severity: 'low' | 'medium' | 'high' | 'critical';
   /** Alert type classification */
-  type: 'balance_drop' | 'unusual_transfer' | 'low_liquidity' | 'price_impact';
+  type:
+    | 'balance_drop'
+    | 'unusual_transfer'
+    | 'low_liquidity'
+    | 'price_impact'
+    | 'signer_change'
+    | 'depeg';
   /** Human-readable alert message */
   message: string;
   /** Related treasury address */
@@ -123,3 +461,88 @@ export interface TreasuryAlert {
   /** Additional context data */
   metadata?: Record<string, unknown>;
 }
+
+/**
+ * ERC-20 metadata read from the contract, cached per chain
+ * @interface TokenMetadata
+ */
+export interface TokenMetadata {
+  /** Chain the contract lives on */
+  chainId: ChainId;
+  /** Token contract address (lowercase) */
+  address: string;
+  /** Token symbol (e.g., 'USDC') */
+  symbol: string;
+  /** Token decimals for conversion */
+  decimals: number;
+}
+
+/**
+ * Where TreasuryMonitor keeps token metadata so symbol/decimals are read only once;
+ * implemented by TokenMetadataRepository
+ * @interface TokenMetadataCache
+ */
+export interface TokenMetadataCache {
+  get(chainId: ChainId, tokenAddress: string): TokenMetadata | undefined;
+  save(metadata: TokenMetadata): void;
+}
+
+/**
+ * Outcome of one Transfer-log discovery pass over a treasury wallet
+ * @interface TokenDiscoveryResult
+ */
+export interface TokenDiscoveryResult {
+  /** Chain that was scanned */
+  chainName: ChainName;
+  /** Treasury wallet address */
+  address: string;
+  /** First block scanned in this pass */
+  fromBlock: number;
+  /** Last block scanned; the persisted cursor */
+  toBlock: number;
+  /** ERC-20 contracts seen for the first time in this pass */
+  newTokens: TokenMetadata[];
+  /** Every ERC-20 contract the wallet has ever held */
+  allTokens: string[];
+}
+
+/**
+ * Point in the past a snapshot is taken at: an exact block, or the last block mined at or
+ * before a Unix timestamp in milliseconds
+ */
+export type SnapshotAt = { blockNumber: number } | { timestamp: number };
+
+/**
+ * Date range walked by a snapshot backfill
+ * @interface SnapshotBackfillOptions
+ */
+export interface SnapshotBackfillOptions {
+  chain: ChainName;
+  /** First point of the range */
+  startDate: Date;
+  /** Last point of the range (inclusive); must not be in the future */
+  endDate: Date;
+  /** Time between snapshots, in milliseconds */
+  intervalMs: number;
+}
+
+/**
+ * Outcome of a backfill run, or progress while one is running
+ * @interface SnapshotBackfillResult
+ */
+export interface SnapshotBackfillResult {
+  /** Stable ID of the range; rerunning the same range resumes it */
+  jobId: string;
+  chainName: ChainName;
+  address: string;
+  /** Snapshots written by this run */
+  written: number;
+  /** Points skipped because they resolved to the same block as the point before */
+  skipped: number;
+  /** Points still to take */
+  remaining: number;
+  /** Block of the last snapshot written, if any */
+  lastBlock?: number;
+  /** Every point of the range has been processed */
+  completed: boolean;
+}
@@ -2,8 +2,9 @@
  * Validation utilities for treasury sentinel
  */
 
-import { EscalationLevel } from '../types/escalation';
-import { ChainId, SUPPORTED_CHAINS } from '../config/chains';
+import { ESCALATION_LEVELS, EscalationLevel } from '../types/escalation';
+import { isChainSupported } from '../config/chains';
+import { ChainId } from '../types/treasury';
 import { BUDGET_CONFIG } from '../config/budget';
 
 export interface ValidationResult {
@@ -13,13 +14,12 @@ export interface ValidationResult {
 
 export function validateEscalationLevel(level: unknown): level is EscalationLevel {
   if (typeof level !== 'string') return false;
-  const validLevels: EscalationLevel[] = ['L0', 'L1', 'L2', 'L3', 'L4', 'L5'];
-  return validLevels.includes(level as EscalationLevel);
+  return ESCALATION_LEVELS.includes(level as EscalationLevel);
 }
 
 export function validateChainId(chainId: unknown): chainId is ChainId {
   if (typeof chainId !== 'number') return false;
-  return SUPPORTED_CHAINS.some(chain => chain.chainId === chainId);
+  return isChainSupported(chainId);
 }
 
 export function validateAddress(address: unknown): address is string {